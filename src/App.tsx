@@ -1,16 +1,44 @@
-import React from 'react';
+import { useEffect } from 'react';
 import { MapaDoCorpo } from './components/MapaDoCorpo';
 import { BarraLateralHábitos } from './components/BarraLateralHábitos';
 import { Medidores } from './components/Medidores';
 import { VistaDoÓrgão } from './components/VistaDoÓrgão';
 import { AlternadorComparar } from './components/AlternadorComparar';
 import { BotãoExportar } from './components/BotãoExportar';
+import { BotãoCopiarLink } from './components/BotãoCopiarLink';
+import { BotãoDados } from './components/BotãoDados';
+import { BotãoRelatório } from './components/BotãoRelatório';
+import { AvisoLinkPartilhado } from './components/AvisoLinkPartilhado';
 import { ConfiguracaoAcessibilidade } from './components/ConfiguracaoAcessibilidade';
 import { PerfilUtilizador } from './components/PerfilUtilizador';
+import { DadosPessoais } from './components/DadosPessoais';
+import { PlaneadorObjetivos } from './components/PlaneadorObjetivos';
+import { SeletorModelo } from './components/SeletorModelo';
+import { LinhaTemporal } from './components/LinhaTemporal';
+import { HistoricoMedidores } from './components/HistoricoMedidores';
+import { AnaliseSensibilidade } from './components/AnaliseSensibilidade';
+import { BibliotecaCenarios } from './components/BibliotecaCenarios';
+import { DiarioHabitos } from './components/DiarioHabitos';
+import { EditorHabitos } from './components/EditorHabitos';
+import { SeletorIdioma } from './components/SeletorIdioma';
 import { useAtlasStore } from './store/useAtlasStore';
+import { getHealthModel } from './utils/models';
+import { LOCALE_TAGS } from './i18n';
+import { useTranslation } from './i18n/useTranslation';
 
 function App() {
-  const { accessibility } = useAtlasStore();
+  const { accessibility, activeModelId, loadJournal, loadHistory } = useAtlasStore();
+  const { locale, t } = useTranslation();
+
+  useEffect(() => {
+    document.documentElement.lang = LOCALE_TAGS[locale];
+  }, [locale]);
+
+  // The journal and the history live in IndexedDB, so they are loaded once the app starts
+  useEffect(() => {
+    loadJournal();
+    loadHistory();
+  }, [loadJournal, loadHistory]);
 
   return (
     <div
@@ -24,43 +52,62 @@ function App() {
         <div className="max-w-7xl mx-auto px-4 py-4">
           <div className="flex items-center justify-between">
             <div>
-              <h1 className="text-3xl font-bold text-gray-900">Os teus hábitos</h1>
+              <h1 className="text-3xl font-bold text-gray-900">{t('app.title')}</h1>
               <p className="text-sm text-gray-600 mt-1">
-                Vê o que os maus hábitos fazem ao teu corpo
+                {t('app.subtitle')}
+              </p>
+              <p className="text-xs text-gray-500 mt-1">
+                {t('app.model', { name: getHealthModel(activeModelId).name[locale] })}
               </p>
             </div>
             <div className="flex items-center space-x-3">
+              <SeletorIdioma />
+              <BotãoCopiarLink />
+              <BotãoDados />
+              <BotãoRelatório />
               <BotãoExportar />
             </div>
           </div>
         </div>
       </header>
 
+      {/* Shared profile link feedback */}
+      <AvisoLinkPartilhado />
+
       {/* Main Content */}
       <div className="max-w-7xl mx-auto p-6">
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           {/* Left Sidebar - Habits */}
-          <div className="lg:col-span-1">
+          <div className="lg:col-span-1 space-y-6">
+            <BibliotecaCenarios />
             <BarraLateralHábitos />
+            <DiarioHabitos />
+            <EditorHabitos />
           </div>
 
           {/* Center - Body Map */}
-          <div className="lg:col-span-1">
+          <div className="lg:col-span-1 space-y-6">
             <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-8">
               <div className="flex items-center justify-between mb-6">
-                <h2 className="text-2xl font-semibold text-gray-900">Estado do corpo</h2>
+                <h2 className="text-2xl font-semibold text-gray-900">{t('app.bodyState')}</h2>
                 <div className="bg-gray-100 px-3 py-1 rounded-full">
-                  <span className="text-sm font-medium text-gray-700">Obesidade</span>
+                  <span className="text-sm font-medium text-gray-700">{t('app.bodyType')}</span>
                 </div>
               </div>
               <MapaDoCorpo />
             </div>
+            <LinhaTemporal />
+            <HistoricoMedidores />
+            <AnaliseSensibilidade />
           </div>
 
           {/* Right Sidebar - Meters and Controls */}
           <div className="lg:col-span-1 space-y-6">
             <Medidores />
             <PerfilUtilizador />
+            <DadosPessoais />
+            <PlaneadorObjetivos />
+            <SeletorModelo />
             <AlternadorComparar />
             <ConfiguracaoAcessibilidade />
           </div>
@@ -75,11 +122,10 @@ function App() {
         <div className="max-w-7xl mx-auto px-4 py-6">
           <div className="text-center text-sm text-gray-500">
             <p className="mb-2">
-              <strong>Atlas de Hábitos</strong> - Uma ferramenta educativa para consciencialização sobre saúde
+              <strong>Atlas de Hábitos</strong> - {t('app.tagline')}
             </p>
             <p>
-              Esta aplicação destina-se apenas a fins educativos. Consulta sempre um profissional de saúde 
-              qualificado para orientação médica personalizada.
+              {t('app.disclaimer')}
             </p>
           </div>
         </div>
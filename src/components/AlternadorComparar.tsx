@@ -1,14 +1,40 @@
 import React from 'react';
 import { RotateCcw, Eye } from 'lucide-react';
 import { useAtlasStore } from '../store/useAtlasStore';
+import type { HeadlineMeter } from '../utils/healthModel';
+import { formatHabitAmount } from '../utils/habitDose';
+import { getHabitText } from '../i18n';
+import { useTranslation } from '../i18n/useTranslation';
+import { getHabits } from '../utils/habitCatalog';
+import { IndicadorDelta } from './IndicadorDelta';
+
+const SUMMARY_METERS: { key: HeadlineMeter; unit?: 'years' | 'percent'; inverted?: boolean }[] = [
+  { key: 'health' },
+  { key: 'happiness' },
+  { key: 'lifeExpectancy', unit: 'years' },
+  { key: 'diseaseRisk', unit: 'percent', inverted: true },
+];
 
 export const AlternadorComparar: React.FC = () => {
-  const { compareMode, setCompareMode } = useAtlasStore();
+  const { compareMode, setCompareMode, compareSnapshot, captureCompareSnapshot, meters, selectedHabits, customHabits } = useAtlasStore();
+  const { locale, t } = useTranslation();
+
+  const comparison = compareMode !== 'off' ? compareSnapshot : undefined;
+  const changedHabits = comparison
+    ? getHabits(customHabits)
+        .map(habit => ({
+          habit,
+          text: getHabitText(habit.id, locale, customHabits),
+          before: formatHabitAmount(habit.id, comparison.selectedHabits[habit.id], locale, customHabits),
+          after: formatHabitAmount(habit.id, selectedHabits[habit.id], locale, customHabits),
+        }))
+        .filter(change => change.before !== change.after)
+    : [];
 
   return (
     <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
       <div className="flex items-center justify-between mb-4">
-        <h3 className="text-xl font-semibold text-gray-900">Comparar</h3>
+        <h3 className="text-xl font-semibold text-gray-900">{t('compare.title')}</h3>
         <Eye className="w-5 h-5 text-gray-500" />
       </div>
 
@@ -17,7 +43,8 @@ export const AlternadorComparar: React.FC = () => {
         <div className="flex items-center justify-center mb-4">
           <div className="relative">
             <button
-              onClick={() => setCompareMode(compareMode === 'off' ? 'before' : 'off')}
+              onClick={() => setCompareMode(compareMode === 'off' ? 'after' : 'off')}
+              aria-label={t(compareMode === 'off' ? 'compare.start' : 'compare.stop')}
               className={`w-12 h-6 rounded-full transition-colors ${
                 compareMode !== 'off' ? 'bg-gray-400' : 'bg-gray-300'
               }`}
@@ -39,7 +66,7 @@ export const AlternadorComparar: React.FC = () => {
                   : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
               }`}
             >
-              Antes
+              {t('common.before')}
             </button>
             <button
               onClick={() => setCompareMode('after')}
@@ -49,38 +76,64 @@ export const AlternadorComparar: React.FC = () => {
                   : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
               }`}
             >
-              Depois
+              {t('common.after')}
             </button>
           </div>
         )}
 
-        {/* Heart comparison visualization */}
-        {compareMode !== 'off' && (
+        {/* Before/after summary */}
+        {comparison && (
           <div className="mt-6 space-y-4">
-            <div className="grid grid-cols-2 gap-4">
-              <div className="text-center">
-                <div className="w-16 h-16 mx-auto mb-2 bg-red-400 rounded-lg flex items-center justify-center">
-                  <div className="w-8 h-8 bg-red-500 rounded" style={{clipPath: 'polygon(50% 0%, 100% 38%, 82% 100%, 18% 100%, 0% 38%)'}}></div>
+            <div className="grid grid-cols-2 gap-2">
+              {SUMMARY_METERS.map(meter => (
+                <div key={meter.key} className="p-2 bg-gray-50 rounded-lg text-center">
+                  <p className="text-xs text-gray-600">{t(`meter.${meter.key}`)}</p>
+                  <p className="text-sm text-gray-900">
+                    <span className="text-gray-400">{Math.round(comparison.meters[meter.key])}</span>
+                    {' → '}
+                    <span className="font-semibold">{Math.round(meters[meter.key])}</span>
+                  </p>
+                  <IndicadorDelta
+                    delta={meters[meter.key] - comparison.meters[meter.key]}
+                    inverted={meter.inverted}
+                    unit={meter.unit === 'years' ? t('unit.years') : meter.unit === 'percent' ? '%' : undefined}
+                  />
                 </div>
-                <span className="text-xs text-gray-600">Antes</span>
-              </div>
-              <div className="text-center">
-                <div className="w-16 h-16 mx-auto mb-2 bg-red-300 rounded-lg flex items-center justify-center">
-                  <div className="w-8 h-8 bg-red-400 rounded" style={{clipPath: 'polygon(50% 0%, 100% 38%, 82% 100%, 18% 100%, 0% 38%)'}}></div>
-                </div>
-                <span className="text-xs text-gray-600">Depois</span>
-              </div>
+              ))}
             </div>
+
+            {changedHabits.length > 0 ? (
+              <ul className="space-y-1 text-xs text-gray-700">
+                {changedHabits.map(({ habit, text, before, after }) => (
+                  <li key={habit.id} className="flex justify-between">
+                    <span>{text.name}</span>
+                    <span className="text-gray-500">
+                      {before} → <strong className="text-gray-800">{after}</strong>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-xs text-gray-500">{t('compare.noChanges')}</p>
+            )}
+
+            <button
+              onClick={captureCompareSnapshot}
+              className="w-full flex items-center justify-center space-x-2 text-xs text-gray-600 hover:text-gray-900"
+            >
+              <RotateCcw className="w-3 h-3" />
+              <span>{t('compare.captureBefore')}</span>
+            </button>
           </div>
         )}
 
         {compareMode !== 'off' && (
           <div className="text-xs text-gray-600 bg-gray-50 p-3 rounded-lg mt-4">
             {compareMode === 'before' && (
-              <p>A mostrar o estado <strong>antes</strong> das mudanças de hábitos. Alterna para "Depois" para ver a diferença.</p>
+              <p>{t('compare.showingBefore')}</p>
             )}
             {compareMode === 'after' && (
-              <p>A mostrar o estado <strong>depois</strong> das mudanças de hábitos. Compara com o estado "Antes".</p>
+              <p>{t('compare.showingAfter')}</p>
             )}
           </div>
         )}
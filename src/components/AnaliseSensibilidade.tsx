@@ -0,0 +1,110 @@
+import React, { useMemo, useState } from 'react';
+import { BarChartHorizontal } from 'lucide-react';
+import { useAtlasStore } from '../store/useAtlasStore';
+import { HEADLINE_METERS, HeadlineMeter } from '../utils/healthModel';
+import { analyseSensitivity, getSwingRange, HabitSwing } from '../utils/sensitivity';
+import { getHabitText, getOrganText } from '../i18n';
+import { useTranslation } from '../i18n/useTranslation';
+import { ORGANS } from '../utils/dataFiles';
+
+// Swings smaller than this are rounding noise, not a lever
+const MIN_SWING = 0.05;
+
+const formatPoints = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(1)}`;
+
+export const AnaliseSensibilidade: React.FC = () => {
+  const { selectedHabits, activeModelId, demographics, customHabits } = useAtlasStore();
+  const { locale, t } = useTranslation();
+  const [target, setTarget] = useState<string>('health');
+
+  const analysis = useMemo(
+    () => analyseSensitivity(selectedHabits, { modelId: activeModelId, demographics, customHabits }),
+    [selectedHabits, activeModelId, demographics, customHabits]
+  );
+
+  const isMeter = (HEADLINE_METERS as string[]).includes(target);
+  const swings: HabitSwing[] = (isMeter ? analysis.meters[target as HeadlineMeter] : analysis.organs[target] || [])
+    .filter(swing => getSwingRange(swing) >= MIN_SWING);
+
+  // One scale for both sides, so the bars compare across habits
+  const extent = Math.max(1, ...swings.flatMap(swing => [Math.abs(swing.best), Math.abs(swing.worst)]));
+  const toPercent = (value: number) => 50 + (value / extent) * 50;
+
+  // Bars grow from the centre line: to the right the value rises, to the left it falls
+  const bar = (value: number, color: string) => (
+    <div
+      className={`absolute inset-y-0 ${color}`}
+      style={{ left: `${toPercent(Math.min(0, value))}%`, width: `${(Math.abs(value) / extent) * 50}%` }}
+    />
+  );
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow-sm border">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <BarChartHorizontal className="w-5 h-5 text-gray-500" />
+          <h3 className="text-lg font-semibold text-gray-900">{t('sensitivity.title')}</h3>
+        </div>
+        <select
+          value={target}
+          onChange={(e) => setTarget(e.target.value)}
+          aria-label={t('sensitivity.target')}
+          className="text-sm border border-gray-300 rounded-lg px-2 py-1 text-gray-700"
+        >
+          <optgroup label={t('timeline.meters')}>
+            {HEADLINE_METERS.map(key => (
+              <option key={key} value={key}>{t(`meter.${key}`)}</option>
+            ))}
+          </optgroup>
+          <optgroup label={t('timeline.organs')}>
+            {ORGANS.map(organ => (
+              <option key={organ.id} value={organ.id}>{getOrganText(organ.id, locale).name}</option>
+            ))}
+          </optgroup>
+        </select>
+      </div>
+
+      <div className="flex items-center justify-end space-x-4 text-xs text-gray-600 mb-2">
+        <span className="flex items-center space-x-1">
+          <span className="w-3 h-3 rounded-sm bg-green-500" />
+          <span>{t('sensitivity.best')}</span>
+        </span>
+        <span className="flex items-center space-x-1">
+          <span className="w-3 h-3 rounded-sm bg-red-500" />
+          <span>{t('sensitivity.worst')}</span>
+        </span>
+      </div>
+
+      {swings.length === 0 ? (
+        <p className="text-sm text-gray-500">{t('sensitivity.empty')}</p>
+      ) : (
+        <ol className="space-y-1" aria-label={t('sensitivity.chart')}>
+          {swings.map(swing => (
+            <li key={swing.habitId} className="grid grid-cols-5 gap-2 items-center">
+              <span className="col-span-2 text-sm text-gray-700 truncate" title={getHabitText(swing.habitId, locale, customHabits).name}>
+                {getHabitText(swing.habitId, locale, customHabits).name}
+              </span>
+              <div
+                className="col-span-3 relative h-4 bg-gray-50 rounded"
+                title={t('sensitivity.swing', {
+                  best: formatPoints(swing.best),
+                  bestLevel: swing.bestLevel,
+                  worst: formatPoints(swing.worst),
+                  worstLevel: swing.worstLevel,
+                })}
+              >
+                {bar(swing.worst, 'bg-red-500')}
+                {bar(swing.best, 'bg-green-500')}
+                <div className="absolute inset-y-0 left-1/2 w-px bg-gray-400" />
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <div className="mt-4 text-xs text-gray-500 bg-gray-50 p-3 rounded">
+        <p>{t('sensitivity.hint')}</p>
+      </div>
+    </div>
+  );
+};
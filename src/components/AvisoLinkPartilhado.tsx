@@ -0,0 +1,72 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, CheckCircle, X } from 'lucide-react';
+import { useAtlasStore } from '../store/useAtlasStore';
+import { decodeHabitProfile, readShareCode, ShareLinkError } from '../utils/shareLink';
+import type { MessageKey } from '../i18n';
+import { useTranslation } from '../i18n/useTranslation';
+
+const errorMessages: Record<ShareLinkError, MessageKey> = {
+  invalid: 'share.invalid',
+  unsupported_version: 'share.unsupportedVersion',
+};
+
+type Notice = { type: 'success' | 'error'; message: string };
+
+export const AvisoLinkPartilhado: React.FC = () => {
+  const { createScenario } = useAtlasStore();
+  const { t } = useTranslation();
+  const [notice, setNotice] = useState<Notice | undefined>(undefined);
+
+  useEffect(() => {
+    const openSharedProfile = () => {
+      const code = readShareCode(window.location.hash);
+      if (code === undefined) return;
+
+      // Drop the code from the address bar so a reload does not import it twice
+      window.history.replaceState(null, '', window.location.pathname + window.location.search);
+
+      const decoded = decodeHabitProfile(code);
+      if (!decoded.ok) {
+        setNotice({ type: 'error', message: t(errorMessages[decoded.error]) });
+        return;
+      }
+
+      // Shared profiles go into their own scenario so the recipient's data is untouched
+      createScenario(t('share.scenarioName'), decoded.habits);
+      setNotice({ type: 'success', message: t('share.opened') });
+    };
+
+    openSharedProfile();
+    window.addEventListener('hashchange', openSharedProfile);
+    return () => window.removeEventListener('hashchange', openSharedProfile);
+  }, [createScenario, t]);
+
+  if (!notice) return null;
+
+  const isError = notice.type === 'error';
+
+  return (
+    <div className="max-w-7xl mx-auto mt-4 px-6">
+      <div
+        role={isError ? 'alert' : 'status'}
+        className={`flex items-start space-x-3 p-4 rounded-lg border ${
+          isError ? 'bg-orange-50 border-orange-200' : 'bg-green-50 border-green-200'
+        }`}
+      >
+        {isError ? (
+          <AlertTriangle className="w-5 h-5 text-orange-500 mt-0.5" />
+        ) : (
+          <CheckCircle className="w-5 h-5 text-green-500 mt-0.5" />
+        )}
+        <p className="flex-1 text-sm text-gray-700">{notice.message}</p>
+        <button
+          onClick={() => setNotice(undefined)}
+          className="p-1 hover:bg-white rounded"
+          aria-label={t('share.dismiss')}
+        >
+          <X className="w-4 h-4 text-gray-500" />
+        </button>
+      </div>
+    </div>
+  );
+};
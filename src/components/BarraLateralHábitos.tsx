@@ -1,15 +1,47 @@
 import React from 'react';
-import { Check } from 'lucide-react';
-import { useAtlasStore } from '../store/useAtlasStore';
-import habitsData from '../data/habits.json';
+import { Check, Flame, Link2 } from 'lucide-react';
+import { HabitInputMode, useAtlasStore } from '../store/useAtlasStore';
+import { getHabitStreak, toDateKey } from '../utils/journal';
+import { formatHabitAmount, getHabitDose, levelToQuantity } from '../utils/habitDose';
+import { getHabitText } from '../i18n';
+import { useTranslation } from '../i18n/useTranslation';
+import { getHabits, HabitDefinition } from '../utils/habitCatalog';
 
 interface HabitControlProps {
-  habit: any;
+  habit: HabitDefinition;
 }
 
 const HabitControl: React.FC<HabitControlProps> = ({ habit }) => {
-  const { selectedHabits, setHabitLevel } = useAtlasStore();
+  const {
+    selectedHabits,
+    customHabits,
+    setHabitLevel,
+    setHabitQuantity,
+    meters,
+    habitInputMode,
+    journal,
+    logHabitLevel,
+  } = useAtlasStore();
+  const { locale, t } = useTranslation();
+  const text = getHabitText(habit.id, locale, customHabits);
   const currentLevel = selectedHabits[habit.id]?.level ?? 0;
+  const isLogging = habitInputMode === 'journal';
+  const today = toDateKey(new Date());
+  const todayLevel = journal.find(entry => entry.date === today)?.levels[habit.id];
+  // In journal mode the buttons show what was logged today, not the averaged level
+  const selectedLevel = isLogging ? todayLevel : currentLevel;
+  const streak = isLogging ? getHabitStreak(journal, habit.id, today, customHabits) : 0;
+  const activeInteractions = meters.interactions.filter(i => i.habitIds.includes(habit.id));
+  // Habits with a dose can also be set to a real amount; the level buttons pick its anchors
+  const dose = getHabitDose(habit.id);
+  const maxQuantity = dose ? dose.levels[dose.levels.length - 1] : 0;
+  const quantity = dose ? selectedHabits[habit.id]?.quantity ?? levelToQuantity(dose, currentLevel) : 0;
+
+  const handleQuantityChange = (value: number) => {
+    if (Number.isNaN(value)) return;
+    // Past the last anchor the amount is kept and counts as the last level
+    setHabitQuantity(habit.id, Math.max(0, value));
+  };
 
   const handleLevelChange = (level: number) => {
     // Add validation to prevent invalid states
@@ -17,7 +49,11 @@ const HabitControl: React.FC<HabitControlProps> = ({ habit }) => {
       console.warn(`Invalid level ${level} for habit ${habit.id}`);
       return;
     }
-    setHabitLevel(habit.id, level);
+    if (isLogging) {
+      logHabitLevel(habit.id, level);
+    } else {
+      setHabitLevel(habit.id, level);
+    }
   };
 
   const getButtonColor = (level: number, isSelected: boolean) => {
@@ -55,7 +91,10 @@ const HabitControl: React.FC<HabitControlProps> = ({ habit }) => {
             ? habit.kind === 'bad' ? 'text-red-800' : 'text-green-800'
             : habit.kind === 'bad' ? 'text-red-700' : 'text-green-700'
         }`}>
-          {habit.name}
+          {text.name}
+          {habit.custom && (
+            <span className="ml-2 text-[10px] font-normal uppercase tracking-wide text-gray-400">{t('customHabits.badge')}</span>
+          )}
         </span>
         <span className={`text-xs px-2 py-1 rounded ${
           currentLevel > 0
@@ -64,84 +103,156 @@ const HabitControl: React.FC<HabitControlProps> = ({ habit }) => {
               : 'text-green-700 bg-green-100'
             : 'text-gray-500 bg-gray-100'
         }`}>
-          {habit.category}
+          {text.category}
         </span>
       </div>
       
       <div className="space-y-2">
         <div className="grid grid-cols-2 gap-1">
-          {habit.intensity.labels.map((label, index) => (
+          {text.labels.map((label, index) => (
             <button
               key={index}
               onClick={() => handleLevelChange(index)}
               className={`px-2 py-1 text-xs font-medium rounded transition-all duration-200 ${
-                getButtonColor(index, currentLevel === index)
+                getButtonColor(index, selectedLevel === index)
               }`}
-              aria-pressed={currentLevel === index}
-              aria-label={`${habit.name}: ${label}`}
+              aria-pressed={selectedLevel === index}
+              aria-label={`${text.name}: ${label}`}
             >
               <div className="flex items-center justify-center space-x-1">
-                {currentLevel === index && <Check className="w-3 h-3" />}
+                {selectedLevel === index && <Check className="w-3 h-3" />}
                 <span>{label}</span>
               </div>
             </button>
           ))}
         </div>
+        {dose && !isLogging && (
+          <div>
+            <label htmlFor={`${habit.id}-quantity`} className="block text-xs text-gray-600 mb-1">
+              {t('habits.quantity', { unit: text.unit ?? dose.unit })}
+            </label>
+            <div className="flex items-center space-x-2">
+              <input
+                type="range"
+                min={dose.levels[0]}
+                max={maxQuantity}
+                step={dose.step}
+                value={quantity}
+                onChange={(e) => handleQuantityChange(Number(e.target.value))}
+                aria-label={t('habits.quantity', { unit: text.unit ?? dose.unit })}
+                className="flex-1"
+              />
+              <input
+                id={`${habit.id}-quantity`}
+                type="number"
+                min={0}
+                step={dose.step}
+                value={quantity}
+                onChange={(e) => handleQuantityChange(Number(e.target.value))}
+                className="w-16 text-xs border border-gray-300 rounded px-1 py-0.5"
+              />
+            </div>
+          </div>
+        )}
         <div className={`text-xs text-center font-medium mt-2 ${
           currentLevel > 0
             ? habit.kind === 'bad' ? 'text-red-700' : 'text-green-700'
             : 'text-gray-600'
         }`}>
-          Atual: {habit.intensity.labels[currentLevel]}
+          {isLogging
+            ? `${todayLevel === undefined ? t('journal.notLoggedToday') : t('journal.today', { label: text.labels[todayLevel] })} · ${t('journal.average', { label: text.labels[currentLevel] })}`
+            : t('habits.current', { label: formatHabitAmount(habit.id, selectedHabits[habit.id], locale, customHabits) })}
         </div>
+        {streak > 0 && (
+          <div className="flex items-center justify-center space-x-1 text-xs text-amber-700">
+            <Flame className="w-3 h-3" />
+            <span>{t('journal.streak', { count: streak })}</span>
+          </div>
+        )}
+        {activeInteractions.map((interaction) => {
+          const partnerName = interaction.habitNames[interaction.habitIds[0] === habit.id ? 1 : 0];
+          return (
+            <div
+              key={interaction.habitIds.join('+')}
+              className="flex items-center space-x-1 text-xs text-red-700 bg-red-100 rounded px-2 py-1"
+            >
+              <Link2 className="w-3 h-3" />
+              <span>
+                {t('habits.worsensWith', { partner: partnerName.toLowerCase(), multiplier: interaction.multiplier.toFixed(2) })}
+              </span>
+            </div>
+          );
+        })}
       </div>
     </div>
   );
 };
 
 export const BarraLateralHábitos: React.FC = () => {
-  const [expandedCategories, setExpandedCategories] = React.useState<Set<string>>(
-    new Set(['Substâncias', 'Atividade física', 'Mental'])
-  );
-
-  const toggleCategory = (category: string) => {
-    const newExpanded = new Set(expandedCategories);
-    if (newExpanded.has(category)) {
-      newExpanded.delete(category);
-    } else {
-      newExpanded.add(category);
-    }
-    setExpandedCategories(newExpanded);
-  };
-
-  // Group habits by category
-  const habitsByCategory = habitsData.habits.reduce((acc, habit) => {
-    if (!acc[habit.category]) {
-      acc[habit.category] = [];
-    }
-    acc[habit.category].push(habit);
-    return acc;
-  }, {} as Record<string, any[]>);
+  const { meters, customHabits, habitInputMode, setHabitInputMode, journalWindowDays } = useAtlasStore();
+  const { t } = useTranslation();
+  const modes: { mode: HabitInputMode; label: string }[] = [
+    { mode: 'simulate', label: t('journal.simulate') },
+    { mode: 'journal', label: t('journal.log') },
+  ];
 
   // Separate bad and good habits
-  const badHabits = habitsData.habits.filter(h => h.kind === 'bad');
-  const goodHabits = habitsData.habits.filter(h => h.kind === 'good');
+  const badHabits = getHabits(customHabits).filter(h => h.kind === 'bad');
+  const goodHabits = getHabits(customHabits).filter(h => h.kind === 'good');
 
   return (
     <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-y-auto max-h-screen">
       <div className="p-4 border-b border-gray-200">
-        <h2 className="text-xl font-semibold text-gray-900">Os teus hábitos</h2>
+        <h2 className="text-xl font-semibold text-gray-900">{t('app.title')}</h2>
         <p className="text-sm text-gray-600 mt-1">
-          Ajusta os controlos para ver o impacto
+          {t('habits.subtitle')}
         </p>
+        <div className="flex mt-3 bg-gray-100 rounded-lg p-1" role="group" aria-label={t('journal.mode')}>
+          {modes.map(({ mode, label }) => (
+            <button
+              key={mode}
+              onClick={() => setHabitInputMode(mode)}
+              aria-pressed={habitInputMode === mode}
+              className={`flex-1 px-3 py-1 text-sm rounded-md font-medium transition-colors ${
+                habitInputMode === mode ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        {habitInputMode === 'journal' && (
+          <p className="text-xs text-gray-500 mt-2">{t('journal.logHint', { days: journalWindowDays })}</p>
+        )}
       </div>
 
       <div className="p-4 space-y-6">
+        {/* Active Habit Interactions */}
+        {meters.interactions.length > 0 && (
+          <div className="p-3 rounded-lg border border-red-200 bg-red-50">
+            <h3 className="text-sm font-semibold text-red-800 mb-2 flex items-center">
+              <Link2 className="w-4 h-4 mr-2" />
+              {t('habits.activeInteractions')}
+            </h3>
+            <ul className="space-y-1 text-xs text-red-700">
+              {meters.interactions.map((interaction) => (
+                <li key={interaction.habitIds.join('+')}>
+                  {t('habits.interactionPair', {
+                    first: interaction.habitNames[0],
+                    second: interaction.habitNames[1].toLowerCase(),
+                    multiplier: interaction.multiplier.toFixed(2),
+                  })}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Harmful Habits Section */}
         <div>
           <h3 className="text-lg font-semibold text-red-700 mb-3 flex items-center">
             <span className="w-3 h-3 bg-red-500 rounded-full mr-2"></span>
-            Hábitos Prejudiciais
+            {t('habits.harmful')}
           </h3>
           <div className="space-y-3">
             {badHabits.map((habit) => (
@@ -154,7 +265,7 @@ export const BarraLateralHábitos: React.FC = () => {
         <div>
           <h3 className="text-lg font-semibold text-green-700 mb-3 flex items-center">
             <span className="w-3 h-3 bg-green-500 rounded-full mr-2"></span>
-            Hábitos Benéficos
+            {t('habits.beneficial')}
           </h3>
           <div className="space-y-3">
             {goodHabits.map((habit) => (
@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { Layers, Plus, Pencil, Copy, Trash2, Check } from 'lucide-react';
+import { useAtlasStore } from '../store/useAtlasStore';
+import { DiferencaCenarios } from './DiferencaCenarios';
+import { useTranslation } from '../i18n/useTranslation';
+
+export const BibliotecaCenarios: React.FC = () => {
+  const {
+    scenarios,
+    activeScenarioId,
+    createScenario,
+    renameScenario,
+    duplicateScenario,
+    deleteScenario,
+    switchScenario,
+  } = useAtlasStore();
+  const { t } = useTranslation();
+  const [editingId, setEditingId] = useState<string | undefined>(undefined);
+  const [editingName, setEditingName] = useState('');
+  const [showDiff, setShowDiff] = useState(false);
+
+  const startRename = (scenarioId: string, name: string) => {
+    setEditingId(scenarioId);
+    setEditingName(name);
+  };
+
+  const finishRename = () => {
+    if (editingId) {
+      renameScenario(editingId, editingName);
+    }
+    setEditingId(undefined);
+  };
+
+  const handleDelete = (scenarioId: string, name: string) => {
+    if (window.confirm(t('scenarios.confirmDelete', { name }))) {
+      deleteScenario(scenarioId);
+    }
+  };
+
+  const iconButtonClassName = 'p-1 rounded hover:bg-gray-200 text-gray-500 disabled:opacity-30 disabled:hover:bg-transparent';
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <Layers className="w-5 h-5 text-gray-500" />
+          <h3 className="text-xl font-semibold text-gray-900">{t('scenarios.title')}</h3>
+        </div>
+        <button
+          onClick={() => createScenario(t('scenarios.defaultName', { number: scenarios.length + 1 }))}
+          className="flex items-center space-x-1 text-sm font-medium text-blue-600 hover:text-blue-700"
+        >
+          <Plus className="w-4 h-4" />
+          <span>{t('scenarios.new')}</span>
+        </button>
+      </div>
+
+      <ul className="space-y-2">
+        {scenarios.map(scenario => {
+          const isActive = scenario.id === activeScenarioId;
+
+          return (
+            <li
+              key={scenario.id}
+              className={`flex items-center justify-between p-2 rounded-lg border ${
+                isActive ? 'border-blue-300 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+              }`}
+            >
+              {editingId === scenario.id ? (
+                <form
+                  className="flex flex-1 items-center space-x-1"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    finishRename();
+                  }}
+                >
+                  <input
+                    autoFocus
+                    value={editingName}
+                    onChange={(e) => setEditingName(e.target.value)}
+                    onBlur={finishRename}
+                    aria-label={t('scenarios.nameLabel')}
+                    className="flex-1 min-w-0 text-sm border border-gray-300 rounded px-2 py-1"
+                  />
+                  <button type="submit" className={iconButtonClassName} aria-label={t('scenarios.saveName')}>
+                    <Check className="w-4 h-4" />
+                  </button>
+                </form>
+              ) : (
+                <>
+                  <button
+                    onClick={() => switchScenario(scenario.id)}
+                    className={`flex-1 text-left text-sm truncate ${isActive ? 'font-semibold text-blue-700' : 'text-gray-700'}`}
+                    aria-current={isActive}
+                  >
+                    {scenario.name}
+                  </button>
+                  <div className="flex items-center space-x-1 ml-2">
+                    <button onClick={() => startRename(scenario.id, scenario.name)} className={iconButtonClassName} aria-label={t('scenarios.rename', { name: scenario.name })}>
+                      <Pencil className="w-3.5 h-3.5" />
+                    </button>
+                    <button onClick={() => duplicateScenario(scenario.id)} className={iconButtonClassName} aria-label={t('scenarios.duplicate', { name: scenario.name })}>
+                      <Copy className="w-3.5 h-3.5" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(scenario.id, scenario.name)}
+                      disabled={scenarios.length <= 1}
+                      className={iconButtonClassName}
+                      aria-label={t('scenarios.delete', { name: scenario.name })}
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                </>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {scenarios.length > 1 && (
+        <button
+          onClick={() => setShowDiff(!showDiff)}
+          className="mt-3 text-xs font-medium text-gray-600 hover:text-gray-900"
+        >
+          {showDiff ? t('scenarios.hideDiff') : t('scenarios.showDiff')}
+        </button>
+      )}
+
+      {showDiff && scenarios.length > 1 && <DiferencaCenarios />}
+    </div>
+  );
+};
@@ -0,0 +1,35 @@
+import React, { useState } from 'react';
+import { Link, Check } from 'lucide-react';
+import { useAtlasStore } from '../store/useAtlasStore';
+import { buildShareUrl } from '../utils/shareLink';
+import { useTranslation } from '../i18n/useTranslation';
+
+export const BotãoCopiarLink: React.FC = () => {
+  const { selectedHabits } = useAtlasStore();
+  const { t } = useTranslation();
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    const url = buildShareUrl(selectedHabits, window.location.href);
+
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      // Clipboard access can be blocked; let the user copy it by hand
+      console.error('Erro ao copiar o link:', error);
+      window.prompt(t('share.copyPrompt'), url);
+    }
+  };
+
+  return (
+    <button
+      onClick={handleCopy}
+      className="flex items-center space-x-2 bg-white hover:bg-gray-50 text-gray-700 border border-gray-300 px-4 py-2 rounded-lg font-medium transition-colors shadow-sm"
+    >
+      {copied ? <Check className="w-4 h-4 text-green-600" /> : <Link className="w-4 h-4" />}
+      <span>{copied ? t('share.copied') : t('share.copy')}</span>
+    </button>
+  );
+};
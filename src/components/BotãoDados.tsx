@@ -0,0 +1,106 @@
+import React, { useRef, useState } from 'react';
+import { Database, FileDown, FileUp } from 'lucide-react';
+import { useAtlasStore } from '../store/useAtlasStore';
+import { createStateFile, parseStateFile, resolveImportedCustomHabits } from '../utils/stateFile';
+import { useTranslation } from '../i18n/useTranslation';
+
+export const BotãoDados: React.FC = () => {
+  const {
+    scenarios,
+    activeScenarioId,
+    selectedHabits,
+    meters,
+    accessibility,
+    customHabits,
+    saveCustomHabit,
+    createScenario,
+    setActiveModel,
+    setAccessibility,
+  } = useAtlasStore();
+  const { locale, t } = useTranslation();
+  const [showMenu, setShowMenu] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExportJson = () => {
+    const scenarioName = scenarios.find(s => s.id === activeScenarioId)?.name || '';
+    const stateFile = createStateFile({ scenarioName, selectedHabits, customHabits, meters, accessibility });
+    const blob = new Blob([JSON.stringify(stateFile, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.download = `atlas-de-habitos-${stateFile.exportedAt.split('T')[0]}.json`;
+    link.href = url;
+    link.click();
+    URL.revokeObjectURL(url);
+    setShowMenu(false);
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    setShowMenu(false);
+    if (!file) return;
+
+    let text: string;
+    try {
+      text = await file.text();
+    } catch {
+      alert(t('data.importFailed', { errors: t('data.unreadable') }));
+      return;
+    }
+
+    const parsed = parseStateFile(text, locale);
+    if (!parsed.ok) {
+      alert(t('data.importFailed', { errors: parsed.errors.join('\n') }));
+      return;
+    }
+
+    // Imported profiles go into their own scenario so nothing is overwritten,
+    // and custom habits are added before the scenario that uses them
+    const state = resolveImportedCustomHabits(parsed.state, customHabits);
+    state.customHabits.forEach(saveCustomHabit);
+    setActiveModel(state.modelId);
+    setAccessibility(state.accessibility);
+    createScenario(state.scenarioName, state.selectedHabits);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setShowMenu(!showMenu)}
+        aria-expanded={showMenu}
+        className="flex items-center space-x-2 bg-white hover:bg-gray-50 text-gray-700 border border-gray-300 px-4 py-2 rounded-lg font-medium transition-colors shadow-sm"
+      >
+        <Database className="w-4 h-4" />
+        <span>{t('data.button')}</span>
+      </button>
+
+      {showMenu && (
+        <div className="absolute right-0 mt-2 w-56 bg-white border border-gray-200 rounded-lg shadow-lg z-40 py-1">
+          <button
+            onClick={handleExportJson}
+            className="w-full flex items-center space-x-2 px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+          >
+            <FileDown className="w-4 h-4" />
+            <span>{t('data.export')}</span>
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="w-full flex items-center space-x-2 px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+          >
+            <FileUp className="w-4 h-4" />
+            <span>{t('data.import')}</span>
+          </button>
+        </div>
+      )}
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        onChange={handleImportFile}
+        className="hidden"
+      />
+    </div>
+  );
+};
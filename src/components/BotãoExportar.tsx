@@ -1,10 +1,14 @@
 import React, { useState } from 'react';
 import { Download, Camera, X } from 'lucide-react';
 import html2canvas from 'html2canvas';
+import { useAtlasStore } from '../store/useAtlasStore';
+import { useTranslation } from '../i18n/useTranslation';
 
 export const BotãoExportar: React.FC = () => {
   const [isExporting, setIsExporting] = useState(false);
   const [showModal, setShowModal] = useState(false);
+  const { meters } = useAtlasStore();
+  const { t } = useTranslation();
 
   const handleExport = async () => {
     try {
@@ -28,15 +32,15 @@ export const BotãoExportar: React.FC = () => {
         height: element.scrollHeight,
       });
 
-      // Create download link
+      // Create download link, recording which model produced the numbers
       const link = document.createElement('a');
-      link.download = `atlas-de-habitos-${new Date().toISOString().split('T')[0]}.png`;
+      link.download = `atlas-de-habitos-${meters.modelId}-${new Date().toISOString().split('T')[0]}.png`;
       link.href = canvas.toDataURL('image/png');
       link.click();
 
     } catch (error) {
       console.error('Erro ao exportar:', error);
-      alert('Erro ao exportar a imagem. Tenta novamente.');
+      alert(t('export.failed'));
     } finally {
       setIsExporting(false);
       setShowModal(false);
@@ -55,7 +59,7 @@ export const BotãoExportar: React.FC = () => {
         ) : (
           <Download className="w-4 h-4" />
         )}
-        <span>{isExporting ? 'A exportar...' : 'Exportar'}</span>
+        <span>{isExporting ? t('export.exporting') : t('export.button')}</span>
       </button>
 
       {/* Export Modal */}
@@ -63,7 +67,7 @@ export const BotãoExportar: React.FC = () => {
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
           <div className="bg-white rounded-lg shadow-2xl max-w-md w-full">
             <div className="flex items-center justify-between p-6 border-b border-gray-200">
-              <h3 className="text-lg font-semibold text-gray-900">Exportar</h3>
+              <h3 className="text-lg font-semibold text-gray-900">{t('export.button')}</h3>
               <button
                 onClick={() => setShowModal(false)}
                 className="p-1 hover:bg-gray-100 rounded"
@@ -78,7 +82,7 @@ export const BotãoExportar: React.FC = () => {
                   <Camera className="w-8 h-8 text-gray-400" />
                 </div>
                 <p className="text-gray-700">
-                  A capturar a imagem do teu Atlas de Hábitos...
+                  {t('export.capturing')}
                 </p>
               </div>
               
@@ -88,7 +92,7 @@ export const BotãoExportar: React.FC = () => {
                   disabled={isExporting}
                   className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white py-3 rounded-lg font-medium transition-colors"
                 >
-                  {isExporting ? 'A processar...' : 'Guardar como imagem'}
+                  {isExporting ? t('export.processing') : t('export.save')}
                 </button>
               </div>
             </div>
@@ -0,0 +1,52 @@
+import React, { useState } from 'react';
+import { FileText, Loader2 } from 'lucide-react';
+import { useAtlasStore } from '../store/useAtlasStore';
+import { getHealthModel } from '../utils/models';
+import { useTranslation } from '../i18n/useTranslation';
+
+export const BotãoRelatório: React.FC = () => {
+  const { meters, scenarios, activeScenarioId, demographics } = useAtlasStore();
+  const { locale, t } = useTranslation();
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const handleGenerate = async () => {
+    try {
+      setIsGenerating(true);
+
+      // jsPDF is only needed here, so load it on demand
+      const { buildHealthReport, renderSvgToPng } = await import('../utils/pdfReport');
+
+      // The last map is the current state (the first one is "before" while comparing)
+      const maps = document.querySelectorAll<SVGSVGElement>('#atlas-body-map svg');
+      const bodyMap = maps[maps.length - 1];
+      const bodyMapImage = bodyMap ? await renderSvgToPng(bodyMap) : undefined;
+
+      const scenarioName = scenarios.find(s => s.id === activeScenarioId)?.name || '';
+      const doc = buildHealthReport({
+        meters,
+        scenarioName,
+        modelName: getHealthModel(meters.modelId).name[locale],
+        demographics,
+        bodyMapImage,
+        locale,
+      });
+      doc.save(`atlas-de-habitos-relatorio-${new Date().toISOString().split('T')[0]}.pdf`);
+    } catch (error) {
+      console.error('Erro ao gerar o relatório:', error);
+      alert(t('report.failed'));
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <button
+      onClick={handleGenerate}
+      disabled={isGenerating}
+      className="flex items-center space-x-2 bg-white hover:bg-gray-50 disabled:opacity-60 text-gray-700 border border-gray-300 px-4 py-2 rounded-lg font-medium transition-colors shadow-sm"
+    >
+      {isGenerating ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileText className="w-4 h-4" />}
+      <span>{isGenerating ? t('report.generating') : t('report.button')}</span>
+    </button>
+  );
+};
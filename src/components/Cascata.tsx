@@ -0,0 +1,108 @@
+import React from 'react';
+import { Link2 } from 'lucide-react';
+import { buildWaterfall, WaterfallBreakdown, WaterfallStep, WaterfallStepKind } from '../utils/waterfall';
+import { MessageKey } from '../i18n';
+import { useTranslation } from '../i18n/useTranslation';
+
+// Organ contributions also carry their mechanism and level of evidence
+interface CascataContribution {
+  habitName: string;
+  impact: number;
+  kind: 'habit' | 'interaction';
+  mechanism?: string;
+  evidenceLevel?: string;
+}
+
+interface CascataProps {
+  breakdown: WaterfallBreakdown<CascataContribution>;
+  labels: Record<Exclude<WaterfallStepKind, 'contribution'>, string>;
+  label: string;
+  inverted?: boolean; // Higher is worse, as in the disease risk
+  scaleMax?: number; // Top of the bars at least, e.g. 100 for the organs
+  formatValue?: (value: number) => string;
+}
+
+const evidenceStyles: Record<string, string> = {
+  strong: 'bg-green-100 text-green-800',
+  moderate: 'bg-yellow-100 text-yellow-800',
+  custom: 'bg-gray-100 text-gray-700',
+};
+
+const formatPoints = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(1)}`;
+
+export const Cascata: React.FC<CascataProps> = ({
+  breakdown,
+  labels,
+  label,
+  inverted = false,
+  scaleMax = -Infinity,
+  formatValue = value => String(Math.round(value)),
+}) => {
+  const { t } = useTranslation();
+  const steps = buildWaterfall(breakdown);
+
+  // The running total can leave the range before the bounds are applied
+  const values = steps.flatMap(step => [step.start, step.end]);
+  const min = Math.min(0, ...values);
+  const max = Math.max(scaleMax, ...values);
+  const toPercent = (value: number) => (max > min ? ((value - min) / (max - min)) * 100 : 0);
+
+  const helps = (step: WaterfallStep<CascataContribution>) => (inverted ? step.end < step.start : step.end > step.start);
+  const barColor = (step: WaterfallStep<CascataContribution>) => {
+    if (step.kind === 'contribution') return helps(step) ? 'bg-green-500' : 'bg-red-500';
+    if (step.kind === 'clamp') return 'bg-gray-300';
+    return step.kind === 'final' ? 'bg-blue-500' : 'bg-gray-400';
+  };
+
+  return (
+    <ol className="space-y-1" aria-label={label}>
+      {steps.map((step, index) => {
+        const contribution = step.contribution;
+        const low = Math.min(step.start, step.end);
+        const high = Math.max(step.start, step.end);
+
+        return (
+          <li key={index} className="grid grid-cols-5 gap-3 items-center py-1">
+            <div className="col-span-2 min-w-0">
+              {contribution ? (
+                <>
+                  <div className="flex items-center space-x-1">
+                    {contribution.kind === 'interaction' && (
+                      <Link2 className="w-3 h-3 text-red-500 flex-shrink-0" aria-label={t('explain.interaction')} />
+                    )}
+                    <span className="text-sm font-medium text-gray-800 truncate">{contribution.habitName}</span>
+                    {contribution.evidenceLevel && (
+                      <span className={`text-[10px] px-1.5 py-0.5 rounded-full whitespace-nowrap ${
+                        evidenceStyles[contribution.evidenceLevel] || evidenceStyles.moderate
+                      }`}>
+                        {t(`evidence.${contribution.evidenceLevel}` as MessageKey)}
+                      </span>
+                    )}
+                  </div>
+                  {contribution.mechanism && <p className="text-xs text-gray-500">{contribution.mechanism}</p>}
+                </>
+              ) : (
+                <span className={`text-sm ${step.kind === 'final' ? 'font-semibold text-gray-900' : 'text-gray-700'}`}>
+                  {labels[step.kind as keyof CascataProps['labels']]}
+                </span>
+              )}
+            </div>
+            <div className="col-span-2 relative h-4 bg-gray-100 rounded">
+              <div
+                className={`absolute inset-y-0 rounded ${barColor(step)}`}
+                style={{ left: `${toPercent(low)}%`, width: `${Math.max(0.5, toPercent(high) - toPercent(low))}%` }}
+              />
+            </div>
+            <span className={`text-xs font-medium text-right ${
+              step.kind === 'contribution' ? (helps(step) ? 'text-green-600' : 'text-red-600') : 'text-gray-700'
+            }`}>
+              {step.kind === 'contribution' || step.kind === 'clamp'
+                ? formatPoints(step.end - step.start)
+                : formatValue(step.end)}
+            </span>
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
@@ -1,15 +1,17 @@
 import React from 'react';
 import { Settings, Eye, Zap } from 'lucide-react';
 import { useAtlasStore } from '../store/useAtlasStore';
+import { useTranslation } from '../i18n/useTranslation';
 
 export const ConfiguracaoAcessibilidade: React.FC = () => {
   const { accessibility, toggleReduceMotion, toggleHighContrast } = useAtlasStore();
+  const { t } = useTranslation();
 
   return (
     <div className="bg-white p-4 rounded-lg shadow-sm border">
       <div className="flex items-center space-x-2 mb-4">
         <Settings className="w-5 h-5 text-gray-500" />
-        <h3 className="text-lg font-semibold text-gray-900">Acessibilidade</h3>
+        <h3 className="text-lg font-semibold text-gray-900">{t('accessibility.title')}</h3>
       </div>
 
       <div className="space-y-3">
@@ -23,7 +25,7 @@ export const ConfiguracaoAcessibilidade: React.FC = () => {
           <div className="flex items-center space-x-2">
             <Zap className="w-4 h-4 text-gray-500" />
             <span className="text-sm font-medium text-gray-700">
-              Reduzir movimento
+              {t('accessibility.reduceMotion')}
             </span>
           </div>
         </label>
@@ -38,14 +40,14 @@ export const ConfiguracaoAcessibilidade: React.FC = () => {
           <div className="flex items-center space-x-2">
             <Eye className="w-4 h-4 text-gray-500" />
             <span className="text-sm font-medium text-gray-700">
-              Alto contraste
+              {t('accessibility.highContrast')}
             </span>
           </div>
         </label>
       </div>
 
       <div className="mt-4 text-xs text-gray-500 bg-gray-50 p-3 rounded">
-        <p>Estas opções ajudam a tornar a aplicação mais acessível para utilizadores com necessidades especiais.</p>
+        <p>{t('accessibility.hint')}</p>
       </div>
     </div>
   );
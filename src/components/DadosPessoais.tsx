@@ -0,0 +1,124 @@
+import React from 'react';
+import { UserCog } from 'lucide-react';
+import { useAtlasStore } from '../store/useAtlasStore';
+import {
+  calculateBmi,
+  DEFAULT_DEMOGRAPHICS,
+  DEMOGRAPHIC_LIMITS,
+  Demographics,
+  FAMILY_HISTORY_FACTORS,
+  getProfileBaselines,
+  Sex,
+  SEXES,
+} from '../utils/demographics';
+import { getOrganText, MessageKey } from '../i18n';
+import { useTranslation } from '../i18n/useTranslation';
+
+export const DadosPessoais: React.FC = () => {
+  const { demographics, setDemographics } = useAtlasStore();
+  const { locale, t } = useTranslation();
+
+  const baselines = getProfileBaselines(demographics);
+  const update = (changes: Partial<Demographics>) => setDemographics({ ...demographics, ...changes });
+
+  const toggleFactor = (factor: string) => {
+    const familyHistory = demographics.familyHistory.includes(factor)
+      ? demographics.familyHistory.filter(f => f !== factor)
+      : [...demographics.familyHistory, factor];
+    update({ familyHistory });
+  };
+
+  const slider = (key: keyof typeof DEMOGRAPHIC_LIMITS, label: string, value: string) => (
+    <label className="block">
+      <span className="flex justify-between text-xs text-gray-700 mb-1">
+        <span>{label}</span>
+        <span className="font-medium">{value}</span>
+      </span>
+      <input
+        type="range"
+        min={DEMOGRAPHIC_LIMITS[key].min}
+        max={DEMOGRAPHIC_LIMITS[key].max}
+        value={demographics[key]}
+        onChange={(e) => update({ [key]: Number(e.target.value) })}
+        className="w-full"
+      />
+    </label>
+  );
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow-sm border">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center space-x-2">
+          <UserCog className="w-5 h-5 text-gray-500" />
+          <h3 className="text-lg font-semibold text-gray-900">{t('demographics.title')}</h3>
+        </div>
+        <button
+          onClick={() => setDemographics(DEFAULT_DEMOGRAPHICS)}
+          className="text-xs text-gray-500 hover:text-gray-700"
+        >
+          {t('demographics.reset')}
+        </button>
+      </div>
+      <p className="text-xs text-gray-500 mb-4">{t('demographics.intro')}</p>
+
+      <div className="space-y-3">
+        {slider('age', t('demographics.age'), t('demographics.ageValue', { value: demographics.age }))}
+
+        <div className="flex bg-gray-100 rounded-lg p-1" role="group" aria-label={t('demographics.sex')}>
+          {SEXES.map((sex: Sex) => (
+            <button
+              key={sex}
+              onClick={() => update({ sex })}
+              aria-pressed={demographics.sex === sex}
+              className={`flex-1 px-2 py-1 text-xs rounded-md font-medium transition-colors ${
+                demographics.sex === sex ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              {t(`demographics.sex.${sex}`)}
+            </button>
+          ))}
+        </div>
+
+        {slider('heightCm', t('demographics.height'), `${demographics.heightCm} cm`)}
+        {slider('weightKg', t('demographics.weight'), `${demographics.weightKg} kg`)}
+        <p className="text-xs text-gray-500">
+          {t('demographics.bmi', { value: calculateBmi(demographics).toFixed(1) })}
+        </p>
+
+        <details>
+          <summary className="text-sm font-medium text-gray-700 cursor-pointer">
+            {demographics.familyHistory.length > 0
+              ? t('demographics.familyHistoryCount', { count: demographics.familyHistory.length })
+              : t('demographics.familyHistory')}
+          </summary>
+          <div className="mt-2 space-y-2">
+            {FAMILY_HISTORY_FACTORS.map(group => (
+              <fieldset key={group.organId}>
+                <legend className="text-xs font-semibold text-gray-600">{getOrganText(group.organId, locale).name}</legend>
+                <div className="flex flex-wrap gap-x-3">
+                  {group.factors.map(factor => (
+                    <label key={factor} className="flex items-center space-x-1 text-xs text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={demographics.familyHistory.includes(factor)}
+                        onChange={() => toggleFactor(factor)}
+                      />
+                      <span>{t(`riskFactor.${factor}` as MessageKey)}</span>
+                    </label>
+                  ))}
+                </div>
+              </fieldset>
+            ))}
+          </div>
+        </details>
+
+        <p className="text-xs text-gray-600 pt-2 border-t border-gray-200">
+          {t('demographics.baselines', {
+            years: Math.round(baselines.lifeExpectancy),
+            risk: Math.round(baselines.diseaseRisk),
+          })}
+        </p>
+      </div>
+    </div>
+  );
+};
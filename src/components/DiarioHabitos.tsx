@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { CalendarDays, Flame } from 'lucide-react';
+import { useAtlasStore } from '../store/useAtlasStore';
+import { getHabitStreak, getHeatmapDays, JOURNAL_WINDOWS, toDateKey } from '../utils/journal';
+import { getHabitText, LOCALE_TAGS } from '../i18n';
+import { useTranslation } from '../i18n/useTranslation';
+import { findHabit, getHabits } from '../utils/habitCatalog';
+
+const HEATMAP_WEEKS = 12;
+
+// Green when the day was on track, red (harmful) or grey (beneficial not done) otherwise
+const CELL_COLORS: Record<string, string[]> = {
+  bad: ['bg-green-500', 'bg-red-200', 'bg-red-400', 'bg-red-600'],
+  good: ['bg-gray-300', 'bg-green-200', 'bg-green-400', 'bg-green-600'],
+};
+
+export const DiarioHabitos: React.FC = () => {
+  const { journal, journalWindowDays, setJournalWindow, customHabits } = useAtlasStore();
+  const { locale, t } = useTranslation();
+  const [habitId, setHabitId] = useState(getHabits()[0].id);
+
+  const habit = findHabit(habitId, customHabits) || getHabits()[0];
+  const text = getHabitText(habit.id, locale, customHabits);
+  const today = toDateKey(new Date());
+  const streak = getHabitStreak(journal, habit.id, today, customHabits);
+  const days = getHeatmapDays(journal, habit.id, today, HEATMAP_WEEKS);
+
+  const formatDate = (date: string) =>
+    new Date(`${date}T12:00`).toLocaleDateString(LOCALE_TAGS[locale], { day: 'numeric', month: 'short' });
+
+  const selectClassName = 'text-sm border border-gray-300 rounded-lg px-2 py-1 text-gray-700';
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow-sm border">
+      <div className="flex items-center space-x-2 mb-4">
+        <CalendarDays className="w-5 h-5 text-gray-500" />
+        <h3 className="text-lg font-semibold text-gray-900">{t('journal.title')}</h3>
+      </div>
+
+      <div className="flex items-center justify-between mb-3 text-sm text-gray-700">
+        <label htmlFor="journal-window">{t('journal.window')}</label>
+        <select
+          id="journal-window"
+          value={journalWindowDays}
+          onChange={(e) => setJournalWindow(Number(e.target.value))}
+          className={selectClassName}
+        >
+          {JOURNAL_WINDOWS.map(windowDays => (
+            <option key={windowDays} value={windowDays}>{t('journal.days', { count: windowDays })}</option>
+          ))}
+        </select>
+      </div>
+
+      {journal.length === 0 ? (
+        <p className="text-xs text-gray-500">{t('journal.empty')}</p>
+      ) : (
+        <>
+          <select
+            value={habit.id}
+            onChange={(e) => setHabitId(e.target.value)}
+            aria-label={t('journal.habit')}
+            className={`w-full mb-3 ${selectClassName}`}
+          >
+            {getHabits(customHabits).map(h => (
+              <option key={h.id} value={h.id}>{getHabitText(h.id, locale, customHabits).name}</option>
+            ))}
+          </select>
+
+          <div className="flex items-center space-x-1 text-xs text-amber-700 mb-3">
+            <Flame className="w-3 h-3" />
+            <span>{streak > 0 ? t('journal.streak', { count: streak }) : t('journal.noStreak')}</span>
+          </div>
+
+          <p className="text-xs text-gray-500 mb-1">{t('journal.heatmap', { weeks: HEATMAP_WEEKS })}</p>
+          <div className="grid grid-rows-7 grid-flow-col gap-1 w-max">
+            {days.map(day => {
+              const label = day.level === undefined ? t('journal.notLogged') : text.labels[day.level];
+              return (
+                <div
+                  key={day.date}
+                  title={t('journal.day', { date: formatDate(day.date), label })}
+                  aria-label={t('journal.day', { date: formatDate(day.date), label })}
+                  className={`w-3 h-3 rounded-sm ${
+                    day.level === undefined ? 'bg-gray-100' : CELL_COLORS[habit.kind][day.level]
+                  } ${day.date === today ? 'ring-1 ring-gray-500' : ''}`}
+                />
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,105 @@
+import React, { useMemo, useState } from 'react';
+import { GitCompare } from 'lucide-react';
+import { useAtlasStore } from '../store/useAtlasStore';
+import { INVERTED_HEADLINE_METERS } from '../utils/healthModel';
+import { diffScenarios } from '../utils/scenarioDiff';
+import { getOrganText } from '../i18n';
+import { useTranslation } from '../i18n/useTranslation';
+import { IndicadorDelta } from './IndicadorDelta';
+
+export const DiferencaCenarios: React.FC = () => {
+  const { scenarios, activeScenarioId, activeModelId, demographics, customHabits } = useAtlasStore();
+  const { locale, t } = useTranslation();
+  const [scenarioAId, setScenarioAId] = useState(activeScenarioId);
+  const [scenarioBId, setScenarioBId] = useState(
+    scenarios.find(scenario => scenario.id !== activeScenarioId)?.id || activeScenarioId
+  );
+
+  const scenarioA = scenarios.find(scenario => scenario.id === scenarioAId) || scenarios[0];
+  const scenarioB = scenarios.find(scenario => scenario.id === scenarioBId) || scenarios[0];
+
+  const diff = useMemo(
+    () => diffScenarios(scenarioA.habits, scenarioB.habits, activeModelId, locale, demographics, customHabits),
+    [scenarioA.habits, scenarioB.habits, activeModelId, locale, demographics, customHabits]
+  );
+
+  const selectClassName = 'flex-1 min-w-0 text-sm border border-gray-300 rounded-lg px-2 py-1 text-gray-700';
+  const isIdentical = diff.habits.length === 0;
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-200">
+      <div className="flex items-center space-x-2 mb-3">
+        <GitCompare className="w-4 h-4 text-gray-500" />
+        <h4 className="text-sm font-semibold text-gray-700">{t('diff.title')}</h4>
+      </div>
+
+      <div className="flex items-center space-x-2 mb-3">
+        <select value={scenarioA.id} onChange={(e) => setScenarioAId(e.target.value)} className={selectClassName} aria-label={t('diff.scenarioA')}>
+          {scenarios.map(scenario => (
+            <option key={scenario.id} value={scenario.id}>{scenario.name}</option>
+          ))}
+        </select>
+        <span className="text-gray-400">→</span>
+        <select value={scenarioB.id} onChange={(e) => setScenarioBId(e.target.value)} className={selectClassName} aria-label={t('diff.scenarioB')}>
+          {scenarios.map(scenario => (
+            <option key={scenario.id} value={scenario.id}>{scenario.name}</option>
+          ))}
+        </select>
+      </div>
+
+      {isIdentical ? (
+        <p className="text-xs text-gray-500">{t('diff.identical')}</p>
+      ) : (
+        <div className="space-y-3 text-xs">
+          <div>
+            <p className="font-medium text-gray-600 mb-1">{t('diff.habits')}</p>
+            <ul className="space-y-1">
+              {diff.habits.map(habit => (
+                <li key={habit.habitId} className="flex justify-between text-gray-700">
+                  <span>{habit.habitName}</span>
+                  <span className="text-gray-500">
+                    {habit.labelA} → <strong className="text-gray-800">{habit.labelB}</strong>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          {diff.meters.length > 0 && (
+            <div>
+              <p className="font-medium text-gray-600 mb-1">{t('diff.meters')}</p>
+              <ul className="space-y-1">
+                {diff.meters.map(meter => (
+                  <li key={meter.key} className="flex justify-between text-gray-700">
+                    <span>{t(`meter.${meter.key}`)}</span>
+                    <span className="flex items-center space-x-2">
+                      <span className="text-gray-500">{Math.round(meter.valueA)} → {Math.round(meter.valueB)}</span>
+                      <IndicadorDelta delta={meter.delta} inverted={INVERTED_HEADLINE_METERS.includes(meter.key)} />
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {diff.organs.length > 0 && (
+            <div>
+              <p className="font-medium text-gray-600 mb-1">{t('diff.organs')}</p>
+              <ul className="space-y-1">
+                {diff.organs.map(organ => (
+                  <li key={organ.key} className="flex justify-between text-gray-700">
+                    <span>{getOrganText(organ.key, locale).name}</span>
+                    <span className="flex items-center space-x-2">
+                      <span className="text-gray-500">{Math.round(organ.valueA)}% → {Math.round(organ.valueB)}%</span>
+                      <IndicadorDelta delta={organ.delta} />
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,313 @@
+import React, { useState } from 'react';
+import { PencilRuler, Plus, Pencil, Trash2 } from 'lucide-react';
+import { useAtlasStore } from '../store/useAtlasStore';
+import { getHabits, HabitDefinition, HabitKind } from '../utils/habitCatalog';
+import {
+  createCustomHabitId,
+  CUSTOM_HABIT_LIMITS,
+  DEFAULT_EFFECT_CURVE,
+  METRIC_METERS,
+  validateCustomHabit,
+} from '../utils/customHabits';
+import { HealthMetric } from '../utils/exponentialHealthCalculator';
+import { getOrganText, MessageKey, Translate } from '../i18n';
+import { useTranslation } from '../i18n/useTranslation';
+import { ORGANS } from '../utils/dataFiles';
+
+// Form state: weights are magnitudes and mechanisms free text until the habit is saved
+interface HabitDraft {
+  id?: string;
+  name: string;
+  kind: HabitKind;
+  category: string;
+  labels: string[];
+  organs: Record<string, { weight: number; mechanism: string }>;
+  effects: Partial<Record<HealthMetric, number>>; // Points at the maximum level
+}
+
+const KINDS: HabitKind[] = ['bad', 'good'];
+const DEFAULT_WEIGHT = 0.2;
+
+const createDraft = (t: Translate): HabitDraft => ({
+  name: '',
+  kind: 'bad',
+  category: t('customHabits.defaultCategory'),
+  labels: [0, 1, 2, 3].map(level => t(`customHabits.defaultLabel.${level}` as MessageKey)),
+  organs: {},
+  effects: {},
+});
+
+const toDraft = (habit: HabitDefinition): HabitDraft => ({
+  id: habit.id,
+  name: habit.name,
+  kind: habit.kind,
+  category: habit.category,
+  labels: [...habit.intensity.labels],
+  organs: Object.fromEntries(habit.mechanisms.map(mechanism => [
+    mechanism.organ,
+    { weight: Math.abs(mechanism.weight), mechanism: mechanism.tags.join(', ') },
+  ])),
+  effects: Object.fromEntries(
+    Object.entries(habit.effects || {}).map(([metric, effect]) => [metric, effect.base])
+  ),
+});
+
+const fromDraft = (draft: HabitDraft, customHabits: HabitDefinition[]): HabitDefinition => ({
+  id: draft.id ?? createCustomHabitId(draft.name, getHabits(customHabits).map(habit => habit.id)),
+  name: draft.name,
+  kind: draft.kind,
+  category: draft.category,
+  intensity: { min: 0, max: 3, labels: draft.labels },
+  translations: {},
+  affects: Object.keys(draft.organs),
+  mechanisms: Object.entries(draft.organs).map(([organ, { weight, mechanism }]) => ({
+    organ,
+    tags: mechanism.split(',').map(tag => tag.trim()).filter(Boolean),
+    weight: draft.kind === 'good' ? -weight : weight,
+  })),
+  pairs: [],
+  effects: Object.fromEntries(
+    Object.entries(draft.effects).map(([metric, base]) => [metric, { base, curve: DEFAULT_EFFECT_CURVE }])
+  ),
+});
+
+export const EditorHabitos: React.FC = () => {
+  const { customHabits, saveCustomHabit, deleteCustomHabit } = useAtlasStore();
+  const { locale, t } = useTranslation();
+  const [draft, setDraft] = useState<HabitDraft | undefined>(undefined);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const update = (changes: Partial<HabitDraft>) => setDraft(current => current && { ...current, ...changes });
+
+  const openDraft = (next: HabitDraft) => {
+    setDraft(next);
+    setErrors([]);
+  };
+
+  const toggleOrgan = (organId: string) => {
+    if (!draft) return;
+    const { [organId]: existing, ...others } = draft.organs;
+    update({ organs: existing ? others : { ...draft.organs, [organId]: { weight: DEFAULT_WEIGHT, mechanism: '' } } });
+  };
+
+  const updateOrgan = (organId: string, changes: Partial<HabitDraft['organs'][string]>) => {
+    if (!draft) return;
+    update({ organs: { ...draft.organs, [organId]: { ...draft.organs[organId], ...changes } } });
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+
+    const result = validateCustomHabit(fromDraft(draft, customHabits), locale);
+    if (!result.ok) {
+      setErrors(result.errors);
+      return;
+    }
+    saveCustomHabit(result.habit);
+    setDraft(undefined);
+  };
+
+  const handleDelete = (habit: HabitDefinition) => {
+    if (window.confirm(t('customHabits.confirmDelete', { name: habit.name }))) {
+      deleteCustomHabit(habit.id);
+      if (draft?.id === habit.id) setDraft(undefined);
+    }
+  };
+
+  const inputClassName = 'w-full px-2 py-1 text-sm border border-gray-300 rounded';
+  const iconButtonClassName = 'p-1 rounded hover:bg-gray-200 text-gray-500';
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow-sm border">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center space-x-2">
+          <PencilRuler className="w-5 h-5 text-gray-500" />
+          <h3 className="text-lg font-semibold text-gray-900">{t('customHabits.title')}</h3>
+        </div>
+        {!draft && (
+          <button
+            onClick={() => openDraft(createDraft(t))}
+            className="flex items-center space-x-1 text-sm font-medium text-blue-600 hover:text-blue-700"
+          >
+            <Plus className="w-4 h-4" />
+            <span>{t('customHabits.new')}</span>
+          </button>
+        )}
+      </div>
+      <p className="text-xs text-gray-500 mb-3">{t('customHabits.intro')}</p>
+
+      {customHabits.length > 0 && (
+        <ul className="space-y-1 mb-3">
+          {customHabits.map(habit => (
+            <li key={habit.id} className="flex items-center justify-between p-2 rounded-lg border border-gray-200">
+              <span className="text-sm text-gray-800">
+                {habit.name}
+                <span className="ml-2 text-xs text-gray-500">
+                  {habit.category} · {t(`customHabits.kind.${habit.kind}`)}
+                </span>
+              </span>
+              <span className="flex items-center space-x-1">
+                <button
+                  onClick={() => openDraft(toDraft(habit))}
+                  className={iconButtonClassName}
+                  aria-label={t('customHabits.edit', { name: habit.name })}
+                >
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handleDelete(habit)}
+                  className={iconButtonClassName}
+                  aria-label={t('customHabits.delete', { name: habit.name })}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {draft && (
+        <form onSubmit={handleSave} className="space-y-3 pt-3 border-t border-gray-200">
+          <label className="block text-xs text-gray-700">
+            {t('customHabits.name')}
+            <input
+              value={draft.name}
+              maxLength={CUSTOM_HABIT_LIMITS.textLength}
+              onChange={(e) => update({ name: e.target.value })}
+              className={inputClassName}
+            />
+          </label>
+
+          <div className="flex bg-gray-100 rounded-lg p-1" role="group" aria-label={t('customHabits.kind')}>
+            {KINDS.map(kind => (
+              <button
+                key={kind}
+                type="button"
+                onClick={() => update({ kind })}
+                aria-pressed={draft.kind === kind}
+                className={`flex-1 px-2 py-1 text-xs rounded-md font-medium transition-colors ${
+                  draft.kind === kind ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+                }`}
+              >
+                {t(`customHabits.kind.${kind}`)}
+              </button>
+            ))}
+          </div>
+
+          <label className="block text-xs text-gray-700">
+            {t('customHabits.category')}
+            <input
+              value={draft.category}
+              maxLength={CUSTOM_HABIT_LIMITS.textLength}
+              onChange={(e) => update({ category: e.target.value })}
+              className={inputClassName}
+            />
+          </label>
+
+          <fieldset>
+            <legend className="text-xs text-gray-700 mb-1">{t('customHabits.labels')}</legend>
+            <div className="grid grid-cols-2 gap-1">
+              {draft.labels.map((label, level) => (
+                <input
+                  key={level}
+                  value={label}
+                  maxLength={CUSTOM_HABIT_LIMITS.textLength}
+                  aria-label={t('customHabits.labelLevel', { level })}
+                  onChange={(e) => update({ labels: draft.labels.map((l, i) => (i === level ? e.target.value : l)) })}
+                  className={inputClassName}
+                />
+              ))}
+            </div>
+          </fieldset>
+
+          <details open={Object.keys(draft.organs).length > 0}>
+            <summary className="text-sm font-medium text-gray-700 cursor-pointer">
+              {t('customHabits.organs', { count: Object.keys(draft.organs).length })}
+            </summary>
+            <div className="mt-2 space-y-2">
+              {ORGANS.map(organ => {
+                const selected = draft.organs[organ.id];
+                return (
+                  <div key={organ.id}>
+                    <label className="flex items-center space-x-1 text-xs text-gray-700">
+                      <input type="checkbox" checked={!!selected} onChange={() => toggleOrgan(organ.id)} />
+                      <span>{getOrganText(organ.id, locale).name}</span>
+                    </label>
+                    {selected && (
+                      <div className="ml-5 mt-1 space-y-1">
+                        <label className="block text-xs text-gray-600">
+                          <span className="flex justify-between">
+                            <span>{t('customHabits.weight')}</span>
+                            <span className="font-medium">{selected.weight.toFixed(2)}</span>
+                          </span>
+                          <input
+                            type="range"
+                            min={CUSTOM_HABIT_LIMITS.weight.min}
+                            max={CUSTOM_HABIT_LIMITS.weight.max}
+                            step={0.05}
+                            value={selected.weight}
+                            onChange={(e) => updateOrgan(organ.id, { weight: Number(e.target.value) })}
+                            className="w-full"
+                          />
+                        </label>
+                        <input
+                          value={selected.mechanism}
+                          placeholder={t('customHabits.mechanismPlaceholder')}
+                          aria-label={t('customHabits.mechanism')}
+                          onChange={(e) => updateOrgan(organ.id, { mechanism: e.target.value })}
+                          className={inputClassName}
+                        />
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </details>
+
+          <details>
+            <summary className="text-sm font-medium text-gray-700 cursor-pointer">{t('customHabits.effects')}</summary>
+            <p className="text-xs text-gray-500 mt-1">{t('customHabits.effectsHint')}</p>
+            <div className="mt-2 grid grid-cols-2 gap-2">
+              {(Object.keys(METRIC_METERS) as HealthMetric[]).map(metric => (
+                <label key={metric} className="block text-xs text-gray-700">
+                  {t(`meter.${METRIC_METERS[metric]}`)}
+                  <input
+                    type="number"
+                    min={CUSTOM_HABIT_LIMITS.effect.min}
+                    max={CUSTOM_HABIT_LIMITS.effect.max}
+                    step={1}
+                    value={draft.effects[metric] ?? 0}
+                    onChange={(e) => update({ effects: { ...draft.effects, [metric]: Number(e.target.value) } })}
+                    className={inputClassName}
+                  />
+                </label>
+              ))}
+            </div>
+          </details>
+
+          {errors.length > 0 && (
+            <ul role="alert" className="text-xs text-red-700 space-y-1">
+              {errors.map(error => <li key={error}>{error}</li>)}
+            </ul>
+          )}
+
+          <div className="flex justify-end space-x-2">
+            <button
+              type="button"
+              onClick={() => setDraft(undefined)}
+              className="px-3 py-1 text-sm text-gray-600 hover:text-gray-800"
+            >
+              {t('customHabits.cancel')}
+            </button>
+            <button type="submit" className="px-3 py-1 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded">
+              {t('customHabits.save')}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,104 @@
+import React from 'react';
+import type { HistoryPoint } from '../utils/meterHistory';
+import { LOCALE_TAGS } from '../i18n';
+import { useTranslation } from '../i18n/useTranslation';
+
+export interface HistorySeries {
+  key: string;
+  label: string;
+  color: string;
+  points: HistoryPoint[];
+}
+
+interface GraficoHistoricoProps {
+  title: string;
+  series: HistorySeries[];
+  from: number;
+  to: number;
+  min: number;
+  max: number;
+  annotations: { time: number; label: string }[];
+  height?: number;
+}
+
+const WIDTH = 320;
+const PADDING = 24;
+
+export const GraficoHistorico: React.FC<GraficoHistoricoProps> = ({
+  title,
+  series,
+  from,
+  to,
+  min,
+  max,
+  annotations,
+  height = 120,
+}) => {
+  const { locale } = useTranslation();
+
+  const x = (time: number) => PADDING + ((time - from) / (to - from)) * (WIDTH - 2 * PADDING);
+  const y = (value: number) => height - PADDING - ((value - min) / (max - min)) * (height - 2 * PADDING);
+
+  // Values hold until the habits change again, so the lines are drawn as steps up to now
+  const stepPath = ([first, ...rest]: HistoryPoint[]) =>
+    [
+      `M${x(first.time).toFixed(1)} ${y(first.value).toFixed(1)}`,
+      ...rest.map(point => `H${x(point.time).toFixed(1)} V${y(point.value).toFixed(1)}`),
+      `H${x(to).toFixed(1)}`,
+    ].join(' ');
+
+  const formatDate = (time: number) =>
+    new Date(time).toLocaleDateString(LOCALE_TAGS[locale], { day: 'numeric', month: 'short' });
+
+  return (
+    <figure>
+      <figcaption className="flex flex-wrap items-center gap-x-3 text-xs text-gray-700 mb-1">
+        {series.length === 1 ? (
+          <span className="font-medium">{title}</span>
+        ) : (
+          series.map(line => (
+            <span key={line.key} className="flex items-center space-x-1">
+              <span className="w-2 h-2 rounded-full" style={{ backgroundColor: line.color }} />
+              <span>{line.label}</span>
+            </span>
+          ))
+        )}
+      </figcaption>
+      <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full h-auto" role="img" aria-label={title}>
+        {/* Grid */}
+        {[min, (min + max) / 2, max].map(value => (
+          <g key={value}>
+            <line x1={PADDING} x2={WIDTH - PADDING} y1={y(value)} y2={y(value)} stroke="#e5e7eb" />
+            <text x={PADDING - 4} y={y(value) + 3} textAnchor="end" fontSize="8" fill="#6b7280">{value}</text>
+          </g>
+        ))}
+        {[from, (from + to) / 2, to].map(time => (
+          <text key={time} x={x(time)} y={height - 8} textAnchor="middle" fontSize="8" fill="#6b7280">
+            {formatDate(time)}
+          </text>
+        ))}
+
+        {/* Habit changes */}
+        {annotations.map(annotation => (
+          <line
+            key={annotation.time}
+            x1={x(annotation.time)}
+            x2={x(annotation.time)}
+            y1={PADDING}
+            y2={height - PADDING}
+            stroke="#9ca3af"
+            strokeDasharray="2,2"
+          >
+            <title>{annotation.label}</title>
+          </line>
+        ))}
+
+        {series.map(line => (
+          line.points.length > 0 && (
+            <path key={line.key} d={stepPath(line.points)} fill="none" stroke={line.color} strokeWidth="2" />
+          )
+        ))}
+      </svg>
+    </figure>
+  );
+};
@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { History } from 'lucide-react';
+import { useAtlasStore } from '../store/useAtlasStore';
+import type { HeadlineMeter, MeterStats } from '../utils/healthModel';
+import {
+  buildHistorySeries,
+  getHistoryAnnotations,
+  getRangeStart,
+  HISTORY_RANGES,
+  HistoryRange,
+  HistorySnapshot,
+} from '../utils/meterHistory';
+import { formatHabitAmount } from '../utils/habitDose';
+import { getHabitText, getOrganText, LOCALE_TAGS } from '../i18n';
+import { useTranslation } from '../i18n/useTranslation';
+import { ORGANS } from '../utils/dataFiles';
+import { GraficoHistorico } from './GraficoHistorico';
+import { getProfileBaselines } from '../utils/demographics';
+
+type HistoryView = 'meters' | 'stats' | 'organs';
+
+const HISTORY_METERS: HeadlineMeter[] = ['health', 'happiness', 'lifeExpectancy', 'diseaseRisk'];
+
+const HISTORY_STATS: (keyof MeterStats)[] = [
+  'cardioStrain',
+  'inflammation',
+  'sleepQuality',
+  'stressLoad',
+  'recoveryCapacity',
+  'cognitiveFunction',
+  'immuneSystem',
+  'metabolicHealth',
+];
+
+const LINE_COLOR = '#2563eb';
+
+export const HistoricoMedidores: React.FC = () => {
+  const { history, demographics, customHabits } = useAtlasStore();
+  const { locale, t } = useTranslation();
+  const [range, setRange] = useState<HistoryRange>('month');
+  const [view, setView] = useState<HistoryView>('meters');
+
+  // The charts end now, so the period moves on whenever the history view re-renders
+  const to = Date.now();
+  const from = getRangeStart(range, to);
+
+  const annotations = getHistoryAnnotations(history, from, to, customHabits).map(annotation => {
+    const changes = annotation.changes.map(change =>
+      t('history.change', {
+        habit: getHabitText(change.habitId, locale, customHabits).name,
+        from: formatHabitAmount(change.habitId, { level: change.fromLevel, quantity: change.fromQuantity }, locale, customHabits),
+        to: formatHabitAmount(change.habitId, { level: change.toLevel, quantity: change.toQuantity }, locale, customHabits),
+      })
+    );
+    const date = new Date(annotation.time).toLocaleString(LOCALE_TAGS[locale], { dateStyle: 'medium', timeStyle: 'short' });
+    return { time: annotation.time, label: t('history.changes', { date, changes: changes.join(', ') }) };
+  });
+
+  // Life expectancy is in years, within the bounds of the profile; the other meters are 0-100 scores
+  const { lifeExpectancyBounds } = getProfileBaselines(demographics);
+  const meterRange = (meter: HeadlineMeter) => (meter === 'lifeExpectancy' ? lifeExpectancyBounds : { min: 0, max: 100 });
+
+  const series = (key: string, label: string, color: string, read: (snapshot: HistorySnapshot) => number) => ({
+    key,
+    label,
+    color,
+    points: buildHistorySeries(history, read, from, to),
+  });
+
+  const tabClassName = (selected: boolean) =>
+    `flex-1 px-2 py-1 text-xs rounded-md font-medium transition-colors ${
+      selected ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+    }`;
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow-sm border">
+      <div className="flex items-center space-x-2 mb-4">
+        <History className="w-5 h-5 text-gray-500" />
+        <h3 className="text-lg font-semibold text-gray-900">{t('history.title')}</h3>
+      </div>
+
+      <div className="flex bg-gray-100 rounded-lg p-1 mb-2" role="group" aria-label={t('history.range')}>
+        {(Object.keys(HISTORY_RANGES) as HistoryRange[]).map(option => (
+          <button key={option} onClick={() => setRange(option)} aria-pressed={range === option} className={tabClassName(range === option)}>
+            {t(`history.${option}`)}
+          </button>
+        ))}
+      </div>
+      <div className="flex bg-gray-100 rounded-lg p-1 mb-4" role="group" aria-label={t('history.view')}>
+        {(['meters', 'stats', 'organs'] as HistoryView[]).map(option => (
+          <button key={option} onClick={() => setView(option)} aria-pressed={view === option} className={tabClassName(view === option)}>
+            {t(`history.${option}`)}
+          </button>
+        ))}
+      </div>
+
+      {history.length === 0 ? (
+        <p className="text-xs text-gray-500">{t('history.empty')}</p>
+      ) : (
+        <div className="space-y-4">
+          {view === 'meters' && HISTORY_METERS.map(meter => (
+            <GraficoHistorico
+              key={meter}
+              title={t(`meter.${meter}`)}
+              series={[series(meter, t(`meter.${meter}`), LINE_COLOR, snapshot => snapshot.meters[meter])]}
+              from={from}
+              to={to}
+              min={meterRange(meter).min}
+              max={meterRange(meter).max}
+              annotations={annotations}
+              height={90}
+            />
+          ))}
+
+          {view === 'stats' && HISTORY_STATS.map(stat => (
+            <GraficoHistorico
+              key={stat}
+              title={t(`stat.${stat}`)}
+              series={[series(stat, t(`stat.${stat}`), LINE_COLOR, snapshot => snapshot.stats[stat])]}
+              from={from}
+              to={to}
+              min={0}
+              max={10}
+              annotations={annotations}
+              height={90}
+            />
+          ))}
+
+          {view === 'organs' && (
+            <GraficoHistorico
+              title={t('history.organs')}
+              series={ORGANS.map(organ =>
+                series(organ.id, getOrganText(organ.id, locale).name, organ.color, snapshot => snapshot.organHealth[organ.id])
+              )}
+              from={from}
+              to={to}
+              min={0}
+              max={100}
+              annotations={annotations}
+              height={180}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
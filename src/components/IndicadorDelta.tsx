@@ -0,0 +1,29 @@
+import React from 'react';
+import { ArrowDown, ArrowUp } from 'lucide-react';
+import { useTranslation } from '../i18n/useTranslation';
+
+interface IndicadorDeltaProps {
+  delta: number;
+  inverted?: boolean; // Lower is better (e.g. disease risk, stress)
+  unit?: string;
+  decimals?: number;
+}
+
+export const IndicadorDelta: React.FC<IndicadorDeltaProps> = ({ delta, inverted = false, unit = '', decimals = 0 }) => {
+  const { t } = useTranslation();
+  const rounded = Number(delta.toFixed(decimals));
+  if (rounded === 0) return null;
+
+  const improved = inverted ? rounded < 0 : rounded > 0;
+  const Arrow = rounded > 0 ? ArrowUp : ArrowDown;
+
+  return (
+    <span
+      className={`inline-flex items-center text-xs font-semibold ${improved ? 'text-green-600' : 'text-red-600'}`}
+      aria-label={t(rounded > 0 ? 'delta.up' : 'delta.down', { value: `${Math.abs(rounded)}${unit}` })}
+    >
+      <Arrow className="w-3 h-3" />
+      {Math.abs(rounded).toFixed(decimals)}{unit}
+    </span>
+  );
+};
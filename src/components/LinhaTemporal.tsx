@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { TrendingUp } from 'lucide-react';
+import { useAtlasStore } from '../store/useAtlasStore';
+import { HEADLINE_METERS, HeadlineMeter } from '../utils/healthModel';
+import {
+  DEFAULT_PROJECTION_MONTHS,
+  formatProjectionMonth,
+  ProjectionPoint,
+  ProjectionTarget,
+} from '../utils/projectionSimulator';
+import { getHabitText, getOrganText } from '../i18n';
+import { useTranslation } from '../i18n/useTranslation';
+import { ORGANS } from '../utils/dataFiles';
+import { getProfileBaselines } from '../utils/demographics';
+import { getHabits } from '../utils/habitCatalog';
+
+const CHART = { width: 320, height: 160, padding: 24 };
+const YEAR_TICKS = [0, 2, 4, 6, 8, 10];
+
+export const LinhaTemporal: React.FC = () => {
+  const {
+    selectedHabits,
+    demographics,
+    customHabits,
+    scenarios,
+    activeScenarioId,
+    compareSnapshot,
+    projection,
+    projectionMonth,
+    setProjectionMonth,
+    projectionTarget,
+    setProjectionTarget,
+  } = useAtlasStore();
+  const { locale, t } = useTranslation();
+  const [series, setSeries] = useState<string>('health');
+
+  // Targets to project towards from today's body
+  const otherScenarios = scenarios.filter(scenario => scenario.id !== activeScenarioId);
+  const activeHarmfulHabits = getHabits(customHabits)
+    .filter(habit => habit.kind === 'bad' && (selectedHabits[habit.id]?.level || 0) > 0);
+
+  const isMeter = (HEADLINE_METERS as string[]).includes(series);
+  const valueAt = (point: ProjectionPoint) =>
+    isMeter ? point.meters[series as HeadlineMeter] : point.organHealth[series];
+
+  // Life expectancy is in years, within the bounds of the profile; everything else is a 0-100 score
+  const { lifeExpectancyBounds } = getProfileBaselines(demographics);
+  const [min, max] = series === 'lifeExpectancy' ? [lifeExpectancyBounds.min, lifeExpectancyBounds.max] : [0, 100];
+
+  const x = (month: number) =>
+    CHART.padding + (month / DEFAULT_PROJECTION_MONTHS) * (CHART.width - 2 * CHART.padding);
+  const y = (value: number) =>
+    CHART.height - CHART.padding - ((value - min) / (max - min)) * (CHART.height - 2 * CHART.padding);
+
+  const path = projection
+    .map((point, index) => `${index === 0 ? 'M' : 'L'}${x(point.month).toFixed(1)} ${y(valueAt(point)).toFixed(1)}`)
+    .join(' ');
+
+  const handleChartClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const chartX = ((e.clientX - rect.left) / rect.width) * CHART.width;
+    const ratio = (chartX - CHART.padding) / (CHART.width - 2 * CHART.padding);
+    setProjectionMonth(Math.max(0, Math.min(DEFAULT_PROJECTION_MONTHS, Math.round(ratio * DEFAULT_PROJECTION_MONTHS))));
+  };
+
+  const unit = series === 'lifeExpectancy' ? t('unit.years') : series === 'diseaseRisk' ? '%' : '';
+  const first = valueAt(projection[0]);
+  const last = valueAt(projection[projection.length - 1]);
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow-sm border">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <TrendingUp className="w-5 h-5 text-gray-500" />
+          <h3 className="text-lg font-semibold text-gray-900">{t('timeline.title')}</h3>
+        </div>
+        <select
+          value={series}
+          onChange={(e) => setSeries(e.target.value)}
+          aria-label={t('timeline.series')}
+          className="text-sm border border-gray-300 rounded-lg px-2 py-1 text-gray-700"
+        >
+          <optgroup label={t('timeline.meters')}>
+            {HEADLINE_METERS.map(key => (
+              <option key={key} value={key}>{t(`meter.${key}`)}</option>
+            ))}
+          </optgroup>
+          <optgroup label={t('timeline.organs')}>
+            {ORGANS.map(organ => (
+              <option key={organ.id} value={organ.id}>{getOrganText(organ.id, locale).name}</option>
+            ))}
+          </optgroup>
+        </select>
+      </div>
+
+      <label className="flex items-center space-x-2 mb-3 text-sm text-gray-700">
+        <span>{t('timeline.target')}</span>
+        <select
+          value={projectionTarget}
+          onChange={(e) => setProjectionTarget(e.target.value as ProjectionTarget)}
+          className="flex-1 text-sm border border-gray-300 rounded-lg px-2 py-1 text-gray-700"
+        >
+          <option value="current">{t('timeline.targetCurrent')}</option>
+          {compareSnapshot && <option value="compare">{t('timeline.targetCompare')}</option>}
+          {otherScenarios.length > 0 && (
+            <optgroup label={t('timeline.targetScenarios')}>
+              {otherScenarios.map(scenario => (
+                <option key={scenario.id} value={`scenario:${scenario.id}`}>{scenario.name}</option>
+              ))}
+            </optgroup>
+          )}
+          {activeHarmfulHabits.length > 0 && (
+            <optgroup label={t('timeline.targetQuit')}>
+              {activeHarmfulHabits.map(habit => (
+                <option key={habit.id} value={`quit:${habit.id}`}>
+                  {t('timeline.quitHabit', { habit: getHabitText(habit.id, locale, customHabits).name })}
+                </option>
+              ))}
+            </optgroup>
+          )}
+        </select>
+      </label>
+
+      <svg
+        viewBox={`0 0 ${CHART.width} ${CHART.height}`}
+        className="w-full h-auto cursor-crosshair"
+        onClick={handleChartClick}
+        role="img"
+        aria-label={t('timeline.chart')}
+      >
+        {/* Grid */}
+        {[min, (min + max) / 2, max].map(value => (
+          <g key={value}>
+            <line x1={CHART.padding} x2={CHART.width - CHART.padding} y1={y(value)} y2={y(value)} stroke="#e5e7eb" />
+            <text x={CHART.padding - 4} y={y(value) + 3} textAnchor="end" fontSize="8" fill="#6b7280">{value}</text>
+          </g>
+        ))}
+        {YEAR_TICKS.map(year => (
+          <text key={year} x={x(year * 12)} y={CHART.height - 8} textAnchor="middle" fontSize="8" fill="#6b7280">
+            {t('timeline.yearTick', { years: year })}
+          </text>
+        ))}
+
+        <path d={path} fill="none" stroke="#2563eb" strokeWidth="2" strokeLinejoin="round" />
+
+        {/* Month currently shown on the body map */}
+        {projectionMonth !== undefined && (
+          <g>
+            <line
+              x1={x(projectionMonth)}
+              x2={x(projectionMonth)}
+              y1={CHART.padding}
+              y2={CHART.height - CHART.padding}
+              stroke="#f97316"
+              strokeDasharray="3,3"
+            />
+            <circle cx={x(projectionMonth)} cy={y(valueAt(projection[projectionMonth]))} r="3" fill="#f97316" />
+          </g>
+        )}
+      </svg>
+
+      <div className="flex justify-between text-xs text-gray-600 mt-2">
+        <span>{t('timeline.today', { value: `${Math.round(first)}${unit}` })}</span>
+        {projectionMonth !== undefined && (
+          <span className="text-orange-600">
+            {formatProjectionMonth(projectionMonth, locale)}: {Math.round(valueAt(projection[projectionMonth]))}{unit}
+          </span>
+        )}
+        <span>{t('timeline.inTenYears', { value: `${Math.round(last)}${unit}` })}</span>
+      </div>
+
+      <div className="mt-4 text-xs text-gray-500 bg-gray-50 p-3 rounded">
+        <p>{t('timeline.hint')}</p>
+      </div>
+    </div>
+  );
+};
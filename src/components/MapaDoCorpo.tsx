@@ -1,9 +1,33 @@
 import React, { useCallback, useRef } from 'react';
+import { ArrowRight, Clock } from 'lucide-react';
 import { useAtlasStore } from '../store/useAtlasStore';
-import { calculateOrganHealth } from '../utils/organHealthCalculator';
+import { DEFAULT_PROJECTION_MONTHS, formatProjectionMonth } from '../utils/projectionSimulator';
+import { useTranslation } from '../i18n/useTranslation';
+import { ORGANS, OrganShape } from '../utils/dataFiles';
+import { OrganReport } from '../utils/healthModel';
+import { getOrganText } from '../i18n';
 
-export const MapaDoCorpo: React.FC = () => {
-  const { focusOrganId, setFocusOrgan, accessibility, meters, selectedHabits } = useAtlasStore();
+// One piece of an organ; the eyes, teeth and other organs are all drawn from organs.json
+const renderShape = (shape: OrganShape, key: number, props: React.SVGAttributes<SVGElement>) => {
+  switch (shape.type) {
+    case 'ellipse':
+      return <ellipse key={key} cx={shape.cx} cy={shape.cy} rx={shape.rx} ry={shape.ry} {...props} />;
+    case 'rect':
+      return <rect key={key} x={shape.x} y={shape.y} width={shape.width} height={shape.height} rx={shape.rx} {...props} />;
+    case 'path':
+      return <path key={key} d={shape.d} {...props} />;
+  }
+};
+
+interface CorpoSVGProps {
+  organHealth: Record<string, number>;
+  organs?: Record<string, OrganReport>; // Metric sub-scores for the tooltips, when known
+  idPrefix?: string; // Keeps element ids unique when several maps are on the page
+}
+
+const CorpoSVG: React.FC<CorpoSVGProps> = ({ organHealth, organs, idPrefix = '' }) => {
+  const { focusOrganId, setFocusOrgan, accessibility } = useAtlasStore();
+  const { locale, t } = useTranslation();
   const svgRef = useRef<SVGSVGElement>(null);
 
   const handleOrganClick = useCallback((organId: string) => {
@@ -11,9 +35,7 @@ export const MapaDoCorpo: React.FC = () => {
   }, [focusOrganId, setFocusOrgan]);
 
   const getOrganColor = (organId: string, baseColor: string, affectedColor: string) => {
-    // Use exponential organ health calculation
-    const organHealth = meters.organHealth?.[organId] || 80;
-    const healthRatio = organHealth / 100;
+    const healthRatio = (organHealth[organId] ?? 80) / 100;
     
     if (accessibility.highContrast) {
       return healthRatio > 0.7 ? '#00ff00' : healthRatio > 0.4 ? '#ffff00' : '#ff0000';
@@ -30,13 +52,25 @@ export const MapaDoCorpo: React.FC = () => {
     return `#${r.toString(16).padStart(2, '0')}${g.toString(16).padStart(2, '0')}${b.toString(16).padStart(2, '0')}`;
   };
 
+  // Organ name and score, then one line per metric sub-score
+  const getOrganTooltip = (organId: string) => {
+    const organText = getOrganText(organId, locale);
+    const lines = [t('bodyMap.tooltip', { organ: organText.name, score: Math.round(organHealth[organId] ?? 80) })];
+    (organs?.[organId]?.metrics || []).forEach(({ metric, score }, index) => {
+      lines.push(t('bodyMap.tooltipMetric', {
+        metric: organText.metricLabels[index] || metric.replace(/_/g, ' '),
+        score: Math.round(score),
+      }));
+    });
+    return lines.join('\n');
+  };
+
   const getOrganOpacity = (organId: string) => {
-    // Use exponential organ health calculation for opacity
-    const organHealth = Math.max(20, Math.min(100, meters.organHealth?.[organId] || 80));
+    return Math.max(20, Math.min(100, organHealth[organId] ?? 80)) / 100;
   };
 
   return (
-    <div className="flex justify-center items-center bg-gray-50 rounded-lg p-8">
+    <div className="flex justify-center items-center">
       <svg
         ref={svgRef}
         viewBox="0 0 400 600"
@@ -45,20 +79,20 @@ export const MapaDoCorpo: React.FC = () => {
       >
         <defs>
           {/* Clean skin gradient matching reference image */}
-          <radialGradient id="skinGradient" cx="0.4" cy="0.3" r="0.8">
+          <radialGradient id={`${idPrefix}skinGradient`} cx="0.4" cy="0.3" r="0.8">
             <stop offset="0%" stopColor="#F5D5AE" />
             <stop offset="50%" stopColor="#E8C4A0" />
             <stop offset="100%" stopColor="#D4A574" />
           </radialGradient>
           
           {/* Hair gradient */}
-          <radialGradient id="hairGradient" cx="0.3" cy="0.2" r="0.7">
+          <radialGradient id={`${idPrefix}hairGradient`} cx="0.3" cy="0.2" r="0.7">
             <stop offset="0%" stopColor="#8B7355" />
             <stop offset="100%" stopColor="#6B5B47" />
           </radialGradient>
           
           {/* Subtle shadow for depth */}
-          <filter id="organShadow" x="-20%" y="-20%" width="140%" height="140%">
+          <filter id={`${idPrefix}organShadow`} x="-20%" y="-20%" width="140%" height="140%">
             <feDropShadow dx="1" dy="2" stdDeviation="1" floodOpacity="0.2" />
           </filter>
         </defs>
@@ -69,7 +103,7 @@ export const MapaDoCorpo: React.FC = () => {
           cy="80"
           rx="35"
           ry="40"
-          fill="url(#skinGradient)"
+          fill={`url(#${idPrefix}skinGradient)`}
           stroke="#D4A574"
           strokeWidth="1"
           className="transition-all duration-300"
@@ -78,22 +112,17 @@ export const MapaDoCorpo: React.FC = () => {
         {/* Hair */}
         <path
           d="M165 50 Q200 30, 235 50 Q240 60, 235 70 Q200 45, 165 70 Q160 60, 165 50 Z"
-          fill="url(#hairGradient)"
+          fill={`url(#${idPrefix}hairGradient)`}
           className="transition-all duration-300"
         />
         
-        {/* Simple facial features */}
-        <circle cx="185" cy="75" r="2" fill="#333" />
-        <circle cx="215" cy="75" r="2" fill="#333" />
-        <path d="M190 90 Q200 95, 210 90" stroke="#333" strokeWidth="1.5" fill="none" strokeLinecap="round" />
-
         {/* Neck */}
         <rect
           x="185"
           y="120"
           width="30"
           height="25"
-          fill="url(#skinGradient)"
+          fill={`url(#${idPrefix}skinGradient)`}
           stroke="#D4A574"
           strokeWidth="1"
         />
@@ -101,7 +130,7 @@ export const MapaDoCorpo: React.FC = () => {
         {/* Body - simplified torso matching reference */}
         <path
           d="M150 145 Q150 140, 160 140 L240 140 Q250 140, 250 145 L250 400 Q250 420, 240 420 L160 420 Q150 420, 150 400 Z"
-          fill="url(#skinGradient)"
+          fill={`url(#${idPrefix}skinGradient)`}
           stroke="#D4A574"
           strokeWidth="2"
           className="transition-all duration-300"
@@ -113,7 +142,7 @@ export const MapaDoCorpo: React.FC = () => {
           cy="200"
           rx="15"
           ry="60"
-          fill="url(#skinGradient)"
+          fill={`url(#${idPrefix}skinGradient)`}
           stroke="#D4A574"
           strokeWidth="1"
         />
@@ -122,7 +151,7 @@ export const MapaDoCorpo: React.FC = () => {
           cy="200"
           rx="15"
           ry="60"
-          fill="url(#skinGradient)"
+          fill={`url(#${idPrefix}skinGradient)`}
           stroke="#D4A574"
           strokeWidth="1"
         />
@@ -134,7 +163,7 @@ export const MapaDoCorpo: React.FC = () => {
           width="25"
           height="120"
           rx="12"
-          fill="url(#skinGradient)"
+          fill={`url(#${idPrefix}skinGradient)`}
           stroke="#D4A574"
           strokeWidth="1"
         />
@@ -144,160 +173,122 @@ export const MapaDoCorpo: React.FC = () => {
           width="25"
           height="120"
           rx="12"
-          fill="url(#skinGradient)"
+          fill={`url(#${idPrefix}skinGradient)`}
           stroke="#D4A574"
           strokeWidth="1"
         />
 
-        {/* Brain */}
-        <ellipse
-          id="organ-brain"
-          cx="200"
-          cy="70"
-          rx="25"
-          ry="18"
-          fill={getOrganColor('brain', '#E8A5A5', '#CC4444')}
-          opacity={getOrganOpacity('brain')}
-          stroke={focusOrganId === 'brain' ? '#3b82f6' : '#B85450'}
-          strokeWidth={focusOrganId === 'brain' ? '3' : '1.5'}
-          className={`transition-all duration-500 hover:stroke-blue-500 hover:stroke-2 cursor-pointer ${
-            !accessibility.reduceMotion ? 'hover:scale-105' : ''
-          }`}
-          onClick={() => handleOrganClick('brain')}
-          style={{ transformOrigin: '200px 70px' }}
-          filter="url(#organShadow)"
-        />
-
-        {/* Lungs */}
-        <g id="organ-lungs" onClick={() => handleOrganClick('lungs')} className="cursor-pointer">
-          <ellipse
-            cx="175"
-            cy="180"
-            rx="20"
-            ry="35"
-            fill={getOrganColor('lungs', '#E8A5A5', '#CC4444')}
-            opacity={getOrganOpacity('lungs')}
-            stroke={focusOrganId === 'lungs' ? '#3b82f6' : '#B85450'}
-            strokeWidth={focusOrganId === 'lungs' ? '3' : '1.5'}
-            className={`transition-all duration-500 hover:stroke-blue-500 hover:stroke-2 ${
-              !accessibility.reduceMotion ? 'hover:scale-105' : ''
-            }`}
-            filter="url(#organShadow)"
-          />
-          <ellipse
-            cx="225"
-            cy="180"
-            rx="20"
-            ry="35"
-            fill={getOrganColor('lungs', '#E8A5A5', '#CC4444')}
-            opacity={getOrganOpacity('lungs')}
-            stroke={focusOrganId === 'lungs' ? '#3b82f6' : '#B85450'}
-            strokeWidth={focusOrganId === 'lungs' ? '3' : '1.5'}
-            className={`transition-all duration-500 hover:stroke-blue-500 hover:stroke-2 ${
-              !accessibility.reduceMotion ? 'hover:scale-105' : ''
-            }`}
-            filter="url(#organShadow)"
-          />
-        </g>
+        {/* Organs, drawn in the order and with the shapes of organs.json */}
+        {ORGANS.map(organ => {
+          const focused = focusOrganId === organ.id;
+          const color = getOrganColor(organ.id, organ.healthyColor, organ.affectedColor);
 
-        {/* Heart */}
-        <path
-          id="organ-heart"
-          d="M200 160 C195 150, 185 150, 180 160 C180 150, 170 150, 175 160 C175 170, 185 180, 200 190 C215 180, 225 170, 225 160 C230 150, 220 150, 220 160 C215 150, 205 150, 200 160 Z"
-          fill={getOrganColor('heart', '#E8A5A5', '#CC4444')}
-          opacity={getOrganOpacity('heart')}
-          stroke={focusOrganId === 'heart' ? '#3b82f6' : '#B85450'}
-          strokeWidth={focusOrganId === 'heart' ? '3' : '1.5'}
-          className={`transition-all duration-500 hover:stroke-blue-500 hover:stroke-2 cursor-pointer ${
-            !accessibility.reduceMotion ? 'hover:scale-105' : ''
-          }`}
-          onClick={() => handleOrganClick('heart')}
-          style={{ transformOrigin: '200px 170px' }}
-          filter="url(#organShadow)"
-        />
+          return (
+            <g
+              key={organ.id}
+              id={`${idPrefix}${organ.svgId}`}
+              onClick={() => handleOrganClick(organ.id)}
+              className="cursor-pointer"
+            >
+              <title>{getOrganTooltip(organ.id)}</title>
+              {organ.shapes.map((shape, index) => renderShape(shape, index, shape.line ? {
+                fill: 'none',
+                stroke: color,
+                strokeWidth: focused ? 5 : 3,
+                strokeLinecap: 'round',
+                strokeDasharray: shape.line === 'dashed' ? '5,5' : undefined,
+                opacity: getOrganOpacity(organ.id) * (shape.line === 'dashed' ? 0.6 : 1),
+                className: `transition-all duration-500 hover:stroke-4 ${!accessibility.reduceMotion ? 'hover:opacity-80' : ''}`,
+              } : {
+                fill: color,
+                opacity: getOrganOpacity(organ.id),
+                stroke: focused ? '#3b82f6' : organ.affectedColor,
+                strokeWidth: focused ? 3 : 1.5,
+                className: `transition-all duration-500 hover:stroke-blue-500 hover:stroke-2 ${
+                  !accessibility.reduceMotion ? 'hover:scale-105' : ''
+                }`,
+                style: { transformBox: 'fill-box', transformOrigin: 'center' },
+                filter: `url(#${idPrefix}organShadow)`,
+              }))}
+            </g>
+          );
+        })}
+      </svg>
+    </div>
+  );
+};
 
-        {/* Liver */}
-        <ellipse
-          id="organ-liver"
-          cx="220"
-          cy="240"
-          rx="35"
-          ry="25"
-          fill={getOrganColor('liver', '#D2691E', '#8B4513')}
-          opacity={getOrganOpacity('liver')}
-          stroke={focusOrganId === 'liver' ? '#3b82f6' : '#A0522D'}
-          strokeWidth={focusOrganId === 'liver' ? '3' : '1.5'}
-          className={`transition-all duration-500 hover:stroke-blue-500 hover:stroke-2 cursor-pointer ${
-            !accessibility.reduceMotion ? 'hover:scale-105' : ''
-          }`}
-          onClick={() => handleOrganClick('liver')}
-          style={{ transformOrigin: '220px 240px' }}
-          filter="url(#organShadow)"
-        />
+export const MapaDoCorpo: React.FC = () => {
+  const {
+    meters,
+    projection,
+    projectionMonth,
+    setProjectionMonth,
+    compareMode,
+    compareSnapshot,
+  } = useAtlasStore();
+  const { locale, t } = useTranslation();
 
-        {/* Kidneys */}
-        <g id="organ-kidneys" onClick={() => handleOrganClick('kidneys')} className="cursor-pointer">
-          <ellipse
-            cx="165"
-            cy="280"
-            rx="10"
-            ry="20"
-            fill={getOrganColor('kidneys', '#8B4513', '#654321')}
-            opacity={getOrganOpacity('kidneys')}
-            stroke={focusOrganId === 'kidneys' ? '#3b82f6' : '#654321'}
-            strokeWidth={focusOrganId === 'kidneys' ? '3' : '1.5'}
-            className={`transition-all duration-500 hover:stroke-blue-500 hover:stroke-2 ${
-              !accessibility.reduceMotion ? 'hover:scale-105' : ''
-            }`}
-            filter="url(#organShadow)"
-          />
-          <ellipse
-            cx="235"
-            cy="280"
-            rx="10"
-            ry="20"
-            fill={getOrganColor('kidneys', '#8B4513', '#654321')}
-            opacity={getOrganOpacity('kidneys')}
-            stroke={focusOrganId === 'kidneys' ? '#3b82f6' : '#654321'}
-            strokeWidth={focusOrganId === 'kidneys' ? '3' : '1.5'}
-            className={`transition-all duration-500 hover:stroke-blue-500 hover:stroke-2 ${
-              !accessibility.reduceMotion ? 'hover:scale-105' : ''
-            }`}
-            filter="url(#organShadow)"
-          />
-        </g>
+  // While scrubbing, show the projected organs instead of the current snapshot
+  const organHealthShown = projectionMonth === undefined
+    ? meters.organHealth
+    : projection[projectionMonth].organHealth;
+  const organsShown = projectionMonth === undefined ? meters.organs : undefined; // The projection keeps only organ scores
 
-        {/* Gut/Intestines */}
-        <path
-          id="organ-gut"
-          d="M170 320 Q200 310, 230 320 Q235 340, 225 360 Q200 370, 175 360 Q165 340, 170 320 Z"
-          fill={getOrganColor('gut', '#DEB887', '#CD853F')}
-          opacity={getOrganOpacity('gut')}
-          stroke={focusOrganId === 'gut' ? '#3b82f6' : '#CD853F'}
-          strokeWidth={focusOrganId === 'gut' ? '3' : '1.5'}
-          className={`transition-all duration-500 hover:stroke-blue-500 hover:stroke-2 cursor-pointer ${
-            !accessibility.reduceMotion ? 'hover:scale-105' : ''
-          }`}
-          onClick={() => handleOrganClick('gut')}
-          style={{ transformOrigin: '200px 340px' }}
-          filter="url(#organShadow)"
-        />
+  return (
+    <div id="atlas-body-map">
+      {compareMode !== 'off' && compareSnapshot ? (
+        <div className="grid grid-cols-2 gap-2 bg-gray-50 rounded-lg p-4">
+          {[
+            { label: t('common.before'), organHealth: compareSnapshot.meters.organHealth, organs: compareSnapshot.meters.organs, idPrefix: 'before-', active: compareMode === 'before' },
+            { label: t('common.after'), organHealth: organHealthShown, organs: organsShown, idPrefix: '', active: compareMode === 'after' },
+          ].map(side => (
+            <div key={side.idPrefix} className="text-center">
+              <span className={`inline-flex items-center text-xs font-medium px-2 py-0.5 rounded-full mb-2 ${
+                side.active ? 'bg-gray-800 text-white' : 'bg-gray-200 text-gray-600'
+              }`}>
+                {side.idPrefix === '' && <ArrowRight className="w-3 h-3 mr-1" />}
+                {side.label}
+              </span>
+              <CorpoSVG organHealth={side.organHealth} organs={side.organs} idPrefix={side.idPrefix} />
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="bg-gray-50 rounded-lg p-8">
+          <CorpoSVG organHealth={organHealthShown} organs={organsShown} />
+        </div>
+      )}
 
-        {/* Skin representation (subtle outline) */}
-        <path
-          id="organ-skin"
-          d="M150 145 Q150 140, 160 140 L240 140 Q250 140, 250 145 L250 400 Q250 420, 240 420 L160 420 Q150 420, 150 400 Z"
-          fill="none"
-          stroke={getOrganColor('skin', '#F5D5AE', '#D4A574')}
-          strokeWidth={focusOrganId === 'skin' ? '4' : '2'}
-          className={`transition-all duration-500 hover:stroke-4 cursor-pointer ${
-            !accessibility.reduceMotion ? 'hover:opacity-80' : ''
-          }`}
-          onClick={() => handleOrganClick('skin')}
-          opacity={getOrganOpacity('skin') * 0.6}
-          strokeDasharray="5,5"
-        />
-      </svg>
+      {/* Projection scrubber */}
+      <div className="mt-4">
+        <div className="flex items-center justify-between mb-2">
+          <label className="flex items-center space-x-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={projectionMonth !== undefined}
+              onChange={() => setProjectionMonth(projectionMonth === undefined ? 0 : undefined)}
+              className="w-4 h-4 text-blue-600 bg-gray-100 border-gray-300 rounded focus:ring-blue-500"
+            />
+            <Clock className="w-4 h-4 text-gray-500" />
+            <span className="text-sm font-medium text-gray-700">{t('bodyMap.projection')}</span>
+          </label>
+          {projectionMonth !== undefined && (
+            <span className="text-sm text-gray-600">{formatProjectionMonth(projectionMonth, locale)}</span>
+          )}
+        </div>
+        {projectionMonth !== undefined && (
+          <input
+            type="range"
+            min={0}
+            max={DEFAULT_PROJECTION_MONTHS}
+            value={projectionMonth}
+            onChange={(e) => setProjectionMonth(Number(e.target.value))}
+            aria-label={t('bodyMap.projectionMonth')}
+            className="w-full accent-blue-600"
+          />
+        )}
+      </div>
     </div>
   );
-};
\ No newline at end of file
+};
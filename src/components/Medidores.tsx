@@ -1,9 +1,49 @@
-import React from 'react';
-import { Heart, Brain, Activity, Shield, Zap, Smile, TrendingUp, Clock, Users, Dumbbell, AlertTriangle, Star } from 'lucide-react';
+import React, { useState } from 'react';
+import { Heart, Brain, Activity, Shield, Zap, Smile, TrendingUp, Clock, Dumbbell, AlertTriangle, Star } from 'lucide-react';
 import { useAtlasStore } from '../store/useAtlasStore';
+import { HeadlineMeter, INVERTED_HEADLINE_METERS, Meters } from '../utils/healthModel';
+import { STAT_DRIVERS, StatBreakdown, StatId } from '../utils/meterStats';
+import { IndicadorDelta } from './IndicadorDelta';
+import { PainelExplicacao } from './PainelExplicacao';
+import { formatMechanismTags } from '../i18n';
+import { useTranslation } from '../i18n/useTranslation';
+
+interface CompareProps {
+  ghostValue?: number; // Value in the other comparison state
+  delta?: number; // Change from "before" to "after"
+  inverted?: boolean;
+}
+
+interface StatDetailProps {
+  breakdown?: StatBreakdown; // Habits behind a detailed stat
+  higherIsWorse?: boolean;
+  open?: boolean;
+  onToggle?: () => void;
+}
 
 export const Medidores: React.FC = () => {
-  const { meters, accessibility } = useAtlasStore();
+  const { meters: currentMeters, accessibility, compareMode, compareSnapshot } = useAtlasStore();
+  const { locale, t } = useTranslation();
+  const [openStat, setOpenStat] = useState<StatId | undefined>(undefined);
+  const [explainedMeter, setExplainedMeter] = useState<HeadlineMeter | undefined>(undefined);
+
+  // While comparing, the toggle picks which state is shown; the other one becomes the ghost
+  const comparison = compareMode !== 'off' ? compareSnapshot : undefined;
+  const meters = comparison && compareMode === 'before' ? comparison.meters : currentMeters;
+  const ghostMeters = comparison && (compareMode === 'before' ? currentMeters : comparison.meters);
+
+  const compareProps = (select: (m: Meters) => number, inverted = false): CompareProps =>
+    comparison && ghostMeters
+      ? { ghostValue: select(ghostMeters), delta: select(currentMeters) - select(comparison.meters), inverted }
+      : {};
+
+  // Hovering a stat previews its habits; tapping pins them open, which also works on touch screens
+  const statProps = (statId: StatId): StatDetailProps => ({
+    breakdown: meters.statBreakdown[statId],
+    higherIsWorse: STAT_DRIVERS[statId].higherIsWorse,
+    open: openStat === statId,
+    onToggle: () => setOpenStat(openStat === statId ? undefined : statId),
+  });
 
   const CircularMeter: React.FC<{
     value: number;
@@ -11,7 +51,8 @@ export const Medidores: React.FC = () => {
     label: string;
     color: string;
     icon?: React.ReactNode;
-  }> = ({ value, max, label, color, icon }) => {
+    onExplain?: () => void;
+  } & CompareProps> = ({ value, max, label, color, icon, ghostValue, delta = 0, inverted, onExplain }) => {
     const percentage = (value / max) * 100;
     const radius = 35;
     const circumference = 2 * Math.PI * radius;
@@ -19,7 +60,12 @@ export const Medidores: React.FC = () => {
     const strokeDashoffset = circumference - (percentage / 100) * circumference;
 
     return (
-      <div className="flex flex-col items-center space-y-2">
+      <button
+        type="button"
+        onClick={onExplain}
+        aria-label={t('explain.open', { meter: label })}
+        className="flex flex-col items-center space-y-2 rounded-lg p-1 hover:bg-gray-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
+      >
         <div className="relative w-20 h-20">
           <svg className="transform -rotate-90 w-20 h-20" viewBox="0 0 80 80">
             <circle
@@ -30,6 +76,20 @@ export const Medidores: React.FC = () => {
               strokeWidth="6"
               fill="transparent"
             />
+            {ghostValue !== undefined && (
+              <circle
+                cx="40"
+                cy="40"
+                r={radius}
+                stroke="#9ca3af"
+                strokeWidth="6"
+                fill="transparent"
+                strokeDasharray={strokeDasharray}
+                strokeDashoffset={circumference - (ghostValue / max) * circumference}
+                opacity="0.4"
+                strokeLinecap="round"
+              />
+            )}
             <circle
               cx="40"
               cy="40"
@@ -55,7 +115,13 @@ export const Medidores: React.FC = () => {
         <span className="text-sm font-medium text-gray-700 text-center">
           {label}
         </span>
-      </div>
+        {ghostValue !== undefined && (
+          <span className="flex items-center space-x-1 text-xs text-gray-400">
+            <span>{t(compareMode === 'before' ? 'common.afterValue' : 'common.beforeValue', { value: Math.round(ghostValue) })}</span>
+            <IndicadorDelta delta={delta} inverted={inverted} />
+          </span>
+        )}
+      </button>
     );
   };
 
@@ -65,31 +131,78 @@ export const Medidores: React.FC = () => {
     label: string;
     color: string;
     icon?: React.ReactNode;
-  }> = ({ value, max, label, color, icon }) => {
+  } & CompareProps & StatDetailProps> = ({ value, max, label, color, icon, ghostValue, delta = 0, inverted, breakdown, higherIsWorse, open, onToggle }) => {
     const percentage = (value / max) * 100;
 
     return (
-      <div className="flex items-center space-x-3">
-        {icon && <div className="text-gray-600">{icon}</div>}
-        <div className="flex-1">
-          <div className="flex justify-between items-center mb-1">
-            <span className="text-sm font-medium text-gray-700">{label}</span>
-            <span className="text-sm text-gray-600">
-              {value.toFixed(1)}/{max}
-            </span>
+      <div className="group">
+        <button
+          type="button"
+          onClick={onToggle}
+          aria-expanded={open}
+          className="w-full flex items-center space-x-3 text-left rounded focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
+        >
+          {icon && <div className="text-gray-600">{icon}</div>}
+          <div className="flex-1">
+            <div className="flex justify-between items-center mb-1">
+              <span className="text-sm font-medium text-gray-700">{label}</span>
+              <span className="flex items-center space-x-1 text-sm text-gray-600">
+                {ghostValue !== undefined && <IndicadorDelta delta={delta} inverted={inverted} decimals={1} />}
+                <span>{value.toFixed(1)}/{max}</span>
+              </span>
+            </div>
+            <div className="relative w-full bg-gray-200 rounded-full h-2">
+              {ghostValue !== undefined && (
+                <div
+                  className="absolute -top-0.5 w-0.5 h-3 bg-gray-500 opacity-60"
+                  style={{ left: `${(ghostValue / max) * 100}%` }}
+                  title={`${t(compareMode === 'before' ? 'common.after' : 'common.before')}: ${ghostValue.toFixed(1)}`}
+                />
+              )}
+              <div
+                className={`h-2 rounded-full transition-all duration-1000 ${
+                  accessibility.reduceMotion ? '' : 'ease-out'
+                }`}
+                style={{
+                  width: `${percentage}%`,
+                  backgroundColor: color,
+                }}
+              />
+            </div>
           </div>
-          <div className="w-full bg-gray-200 rounded-full h-2">
-            <div
-              className={`h-2 rounded-full transition-all duration-1000 ${
-                accessibility.reduceMotion ? '' : 'ease-out'
-              }`}
-              style={{
-                width: `${percentage}%`,
-                backgroundColor: color,
-              }}
-            />
+        </button>
+
+        {breakdown && (
+          <div className={`${open ? 'block' : 'hidden group-hover:block'} mt-2 ml-7 p-2 bg-gray-50 rounded-lg text-xs`}>
+            <div className="flex justify-between text-gray-500">
+              <span>{t('meters.statBaseline')}</span>
+              <span>{breakdown.baseline.toFixed(1)}</span>
+            </div>
+            {breakdown.contributions.length === 0 && (
+              <p className="text-gray-500 mt-1">{t('meters.statNoHabits')}</p>
+            )}
+            <ul className="mt-1 space-y-1">
+              {breakdown.contributions.map(contribution => {
+                // Green when the habit moves the stat in its healthy direction
+                const helps = higherIsWorse ? contribution.impact < 0 : contribution.impact > 0;
+                return (
+                  <li key={contribution.habitId} className="flex justify-between space-x-2">
+                    <span className="min-w-0">
+                      <span className="font-medium text-gray-700">{contribution.habitName}</span>
+                      <span className="text-gray-500">
+                        {' · '}
+                        {contribution.tags.length > 0 ? formatMechanismTags(contribution.tags, locale) : t('meters.statDirect')}
+                      </span>
+                    </span>
+                    <span className={`font-medium whitespace-nowrap ${helps ? 'text-green-600' : 'text-red-600'}`}>
+                      {contribution.impact > 0 ? '+' : ''}{contribution.impact.toFixed(1)}
+                    </span>
+                  </li>
+                );
+              })}
+            </ul>
           </div>
-        </div>
+        )}
       </div>
     );
   };
@@ -121,8 +234,8 @@ export const Medidores: React.FC = () => {
   return (
     <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
       <div className="flex items-center justify-between mb-6">
-        <h3 className="text-xl font-semibold text-gray-900">Ver por dentro</h3>
-        <div className="text-sm text-gray-500">Métricas de Saúde</div>
+        <h3 className="text-xl font-semibold text-gray-900">{t('meters.title')}</h3>
+        <div className="text-sm text-gray-500">{t('meters.subtitle')}</div>
       </div>
       
       {/* Primary Health Metrics */}
@@ -130,16 +243,20 @@ export const Medidores: React.FC = () => {
         <CircularMeter
           value={meters.health}
           max={100}
-          label="Saúde Geral"
+          label={t('meter.health')}
           color={getHealthColor(meters.health)}
           icon={<Activity className="w-3 h-3 text-gray-600" />}
+          {...compareProps(m => m.health)}
+          onExplain={() => setExplainedMeter('health')}
         />
         <CircularMeter
           value={meters.happiness}
           max={100}
-          label="Felicidade"
+          label={t('meter.happiness')}
           color={getHealthColor(meters.happiness)}
           icon={<Smile className="w-3 h-3 text-gray-600" />}
+          {...compareProps(m => m.happiness)}
+          onExplain={() => setExplainedMeter('happiness')}
         />
       </div>
 
@@ -148,44 +265,60 @@ export const Medidores: React.FC = () => {
         <CircularMeter
           value={meters.qualityOfLife}
           max={100}
-          label="Qualidade de Vida"
+          label={t('meter.qualityOfLife')}
           color={getHealthColor(meters.qualityOfLife)}
           icon={<Star className="w-3 h-3 text-gray-600" />}
+          {...compareProps(m => m.qualityOfLife)}
+          onExplain={() => setExplainedMeter('qualityOfLife')}
         />
         <CircularMeter
           value={meters.mentalHealth}
           max={100}
-          label="Saúde Mental"
+          label={t('meter.mentalHealth')}
           color={getHealthColor(meters.mentalHealth)}
           icon={<Brain className="w-3 h-3 text-gray-600" />}
+          {...compareProps(m => m.mentalHealth)}
+          onExplain={() => setExplainedMeter('mentalHealth')}
         />
       </div>
 
 
       {/* Life Metrics */}
       <div className="grid grid-cols-2 gap-4 mb-6">
-        <div className="text-center p-3 bg-gray-50 rounded-lg">
+        <button
+          type="button"
+          onClick={() => setExplainedMeter('lifeExpectancy')}
+          aria-label={t('explain.open', { meter: t('meter.lifeExpectancy') })}
+          className="text-center p-3 bg-gray-50 rounded-lg hover:bg-gray-100 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
+        >
           <div className="flex items-center justify-center mb-2">
             <Clock className="w-4 h-4 text-gray-600 mr-1" />
             <span className="text-lg font-bold text-gray-900">
               {Math.round(meters.lifeExpectancy)}
             </span>
+            {comparison && <IndicadorDelta delta={currentMeters.lifeExpectancy - comparison.meters.lifeExpectancy} />}
           </div>
           <span className="text-xs font-medium text-gray-700">
-            Esperança de Vida
+            {t('meter.lifeExpectancy')}
           </span>
-        </div>
-        <div className="text-center p-3 bg-gray-50 rounded-lg">
+        </button>
+        <button
+          type="button"
+          onClick={() => setExplainedMeter('diseaseRisk')}
+          aria-label={t('explain.open', { meter: t('meter.diseaseRisk') })}
+          className="text-center p-3 bg-gray-50 rounded-lg hover:bg-gray-100 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
+        >
           <div className="flex items-center justify-center mb-2">
             <AlertTriangle className="w-4 h-4 text-gray-600 mr-1" />
             <span className="text-lg font-bold text-gray-900">
               {Math.round(meters.diseaseRisk)}%
             </span>
+            {comparison && <IndicadorDelta delta={currentMeters.diseaseRisk - comparison.meters.diseaseRisk} inverted unit="%" />}
           </div>
           <span className="text-xs font-medium text-gray-700">
-            Risco de Doença
+            {t('meter.diseaseRisk')}
           </span>
-        </div>
+        </button>
       </div>
 
       {/* Fitness and Wellness */}
@@ -193,88 +326,117 @@ export const Medidores: React.FC = () => {
         <CircularMeter
           value={meters.physicalFitness}
           max={100}
-          label="Forma Física"
+          label={t('meter.physicalFitness')}
           color={getHealthColor(meters.physicalFitness)}
           icon={<Dumbbell className="w-3 h-3 text-gray-600" />}
+          {...compareProps(m => m.physicalFitness)}
+          onExplain={() => setExplainedMeter('physicalFitness')}
         />
         <CircularMeter
           value={meters.overallWellness}
           max={100}
-          label="Bem-estar Geral"
+          label={t('meter.overallWellness')}
           color={getHealthColor(meters.overallWellness)}
           icon={<Heart className="w-3 h-3 text-gray-600" />}
+          {...compareProps(m => m.overallWellness)}
+          onExplain={() => setExplainedMeter('overallWellness')}
         />
       </div>
 
       {/* Life Metrics */}
       {/* Detailed Stats */}
       <div className="space-y-4">
-        <h4 className="text-sm font-semibold text-gray-700 mb-3 border-t pt-4">Métricas Detalhadas</h4>
+        <h4 className="text-sm font-semibold text-gray-700 mb-3 border-t pt-4">{t('meters.detailed')}</h4>
         
         <LinearMeter
           value={meters.stats.cardioStrain}
           max={10}
-          label="Tensão Cardíaca"
+          label={t('stat.cardioStrain')}
           color={getStatColor(meters.stats.cardioStrain, 10, true)}
           icon={<Heart className="w-4 h-4" />}
+          {...compareProps(m => m.stats.cardioStrain, true)}
+          {...statProps('cardioStrain')}
         />
         
         <LinearMeter
           value={meters.stats.inflammation}
           max={10}
-          label="Inflamação"
+          label={t('stat.inflammation')}
           color={getStatColor(meters.stats.inflammation, 10, true)}
           icon={<Activity className="w-4 h-4" />}
+          {...compareProps(m => m.stats.inflammation, true)}
+          {...statProps('inflammation')}
         />
         
         <LinearMeter
           value={meters.stats.sleepQuality}
           max={10}
-          label="Qualidade do Sono"
+          label={t('stat.sleepQuality')}
           color={getStatColor(meters.stats.sleepQuality, 10)}
           icon={<Brain className="w-4 h-4" />}
+          {...compareProps(m => m.stats.sleepQuality)}
+          {...statProps('sleepQuality')}
         />
         
         <LinearMeter
           value={meters.stats.stressLoad}
           max={10}
-          label="Carga de Stress"
+          label={t('stat.stressLoad')}
           color={getStatColor(meters.stats.stressLoad, 10, true)}
           icon={<Zap className="w-4 h-4" />}
+          {...compareProps(m => m.stats.stressLoad, true)}
+          {...statProps('stressLoad')}
         />
         
         <LinearMeter
           value={meters.stats.recoveryCapacity}
           max={10}
-          label="Capacidade de Recuperação"
+          label={t('stat.recoveryCapacity')}
           color={getStatColor(meters.stats.recoveryCapacity, 10)}
           icon={<Shield className="w-4 h-4" />}
+          {...compareProps(m => m.stats.recoveryCapacity)}
+          {...statProps('recoveryCapacity')}
         />
         
         <LinearMeter
           value={meters.stats.cognitiveFunction}
           max={10}
-          label="Função Cognitiva"
+          label={t('stat.cognitiveFunction')}
           color={getStatColor(meters.stats.cognitiveFunction, 10)}
           icon={<Brain className="w-4 h-4" />}
+          {...compareProps(m => m.stats.cognitiveFunction)}
+          {...statProps('cognitiveFunction')}
         />
         
         <LinearMeter
           value={meters.stats.immuneSystem}
           max={10}
-          label="Sistema Imunitário"
+          label={t('stat.immuneSystem')}
           color={getStatColor(meters.stats.immuneSystem, 10)}
           icon={<Shield className="w-4 h-4" />}
+          {...compareProps(m => m.stats.immuneSystem)}
+          {...statProps('immuneSystem')}
         />
         
         <LinearMeter
           value={meters.stats.metabolicHealth}
           max={10}
-          label="Saúde Metabólica"
+          label={t('stat.metabolicHealth')}
           color={getStatColor(meters.stats.metabolicHealth, 10)}
           icon={<TrendingUp className="w-4 h-4" />}
+          {...compareProps(m => m.stats.metabolicHealth)}
+          {...statProps('metabolicHealth')}
         />
       </div>
+
+      {explainedMeter && (
+        <PainelExplicacao
+          meter={explainedMeter}
+          breakdown={meters.meterBreakdown[explainedMeter]}
+          inverted={INVERTED_HEADLINE_METERS.includes(explainedMeter)}
+          onClose={() => setExplainedMeter(undefined)}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,68 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import type { HeadlineMeter } from '../utils/healthModel';
+import type { MeterBreakdown } from '../utils/meterBreakdown';
+import { MessageKey } from '../i18n';
+import { useTranslation } from '../i18n/useTranslation';
+import { Cascata } from './Cascata';
+
+interface PainelExplicacaoProps {
+  meter: HeadlineMeter;
+  breakdown: MeterBreakdown;
+  inverted?: boolean; // Higher is worse, as in the disease risk
+  onClose: () => void;
+}
+
+export const PainelExplicacao: React.FC<PainelExplicacaoProps> = ({ meter, breakdown, inverted = false, onClose }) => {
+  const { t } = useTranslation();
+  const meterLabel = t(`meter.${meter}` as MessageKey);
+
+  const formatValue = (value: number) => {
+    if (meter === 'lifeExpectancy') return `${value.toFixed(1)}${t('unit.years')}`;
+    if (meter === 'diseaseRisk') return `${value.toFixed(1)}%`;
+    return value.toFixed(1);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="explain-title"
+        className="bg-white rounded-lg shadow-2xl max-w-xl w-full max-h-[90vh] overflow-y-auto"
+      >
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 id="explain-title" className="text-lg font-semibold text-gray-900">
+              {t('explain.title', { meter: meterLabel })}
+            </h2>
+            <p className="text-sm text-gray-600">{formatValue(breakdown.value)}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+            aria-label={t('explain.close')}
+          >
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="p-6">
+          <p className="text-xs text-gray-500 mb-4">{t('explain.hint')}</p>
+
+          <Cascata
+            breakdown={{ baseline: breakdown.baseline, contributions: breakdown.contributions, final: breakdown.value }}
+            labels={{ baseline: t('explain.baseline'), clamp: t('explain.clamping'), final: t('explain.final') }}
+            label={t('explain.title', { meter: meterLabel })}
+            inverted={inverted}
+            formatValue={formatValue}
+          />
+
+          {breakdown.contributions.length === 0 && (
+            <p className="text-sm text-gray-500 mt-4">{t('explain.noHabits')}</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,228 +1,113 @@
 import React from 'react';
-import { X, Info, Heart, AlertTriangle, CheckCircle, TrendingDown, TrendingUp } from 'lucide-react';
+import { User, AlertTriangle, CheckCircle, TrendingDown, TrendingUp } from 'lucide-react';
 import { useAtlasStore } from '../store/useAtlasStore';
-import { calculateOrganHealth } from '../utils/organHealthCalculator';
-import { generateExponentialOrganMessage, getRelevantExponentialFactors } from '../utils/exponentialHealthCalculator';
-import organsData from '../data/organs.json';
+import { getRiskLevel, RiskLevel } from '../utils/healthModel';
+import { useTranslation } from '../i18n/useTranslation';
+import { getHabits } from '../utils/habitCatalog';
 
-export const PerfilUtilizador: React.FC = () => {
-  const { focusOrganId, setFocusOrgan, meters, selectedHabits } = useAtlasStore();
+const healthCategories: Record<RiskLevel, { color: string; bg: string }> = {
+  low: { color: 'text-green-700', bg: 'bg-green-50' },
+  moderate: { color: 'text-yellow-700', bg: 'bg-yellow-50' },
+  high: { color: 'text-orange-700', bg: 'bg-orange-50' },
+  critical: { color: 'text-red-700', bg: 'bg-red-50' },
+};
 
-  if (!focusOrganId) return null;
+export const PerfilUtilizador: React.FC = () => {
+  const { meters, selectedHabits, customHabits } = useAtlasStore();
+  const { t } = useTranslation();
 
-  const organ = organsData.organs.find(o => o.id === focusOrganId);
-  if (!organ) return null;
+  const healthLevel = getRiskLevel(meters.health);
+  const healthCategory = healthCategories[healthLevel];
 
-  // Use exponential organ health calculation
-  const organHealth = meters.organHealth?.[focusOrganId] || 80;
-  const healthRatio = organHealth / 100;
-  
-  // Determine risk level based on exponential factors
-  const exponentialFactors = meters.exponentialFactors || { positive: [], negative: [] };
-  const riskLevel = healthRatio >= 0.8 ? 'low' : healthRatio >= 0.6 ? 'moderate' : healthRatio >= 0.4 ? 'high' : 'critical';
-  
-  // Generate personalized message based on exponential impacts
-  const personalizedMessage = generateExponentialOrganMessage(focusOrganId, organHealth, exponentialFactors, selectedHabits);
-  
-  const getOrganStatus = () => {
-    if (healthRatio >= 0.8) return { status: 'Excelente', color: 'text-green-600', bg: 'bg-green-50' };
-    if (healthRatio >= 0.6) return { status: 'Bom', color: 'text-yellow-600', bg: 'bg-yellow-50' };
-    if (healthRatio >= 0.4) return { status: 'Preocupante', color: 'text-orange-600', bg: 'bg-orange-50' };
-    return { status: 'Crítico', color: 'text-red-600', bg: 'bg-red-50' };
-  };
+  // Habit balance: how many harmful and beneficial habits are currently active
+  const activeHabits = getHabits(customHabits).filter(h => (selectedHabits[h.id]?.level || 0) > 0);
+  const harmfulCount = activeHabits.filter(h => h.kind === 'bad').length;
+  const beneficialCount = activeHabits.filter(h => h.kind === 'good').length;
+  const totalActive = Math.max(1, harmfulCount + beneficialCount);
 
-  const organStatus = getOrganStatus();
+  // Organs most in need of attention
+  const weakestOrgans = Object.entries(meters.organs)
+    .filter(([, report]) => report.riskLevel === 'high' || report.riskLevel === 'critical')
+    .sort(([, a], [, b]) => a.health - b.health)
+    .slice(0, 2);
 
-  const getPersonalizedAdvice = () => {
-    const badHabits = exponentialFactors.negative;
-    const goodHabits = exponentialFactors.positive;
-    
-    let advice = [];
-    
-    if (badHabits.length > 0) {
-      const worstHabit = badHabits.reduce((worst, current) => 
-        current.impact > worst.impact ? current : worst
-      );
-      
-      advice.push({
-        type: 'warning',
-        text: `O teu ${worstHabit.habit.toLowerCase()} tem impacto exponencial negativo neste órgão. Este hábito pode anular múltiplos benefícios de outros hábitos saudáveis.`,
-        icon: <AlertTriangle className="w-4 h-4 text-orange-500" />
-      });
-    }
-    
-    if (goodHabits.length > 0) {
-      const bestHabit = goodHabits.reduce((best, current) => 
-        current.impact > best.impact ? current : best
-      );
-      
-      advice.push({
-        type: 'success',
-        text: `O teu ${bestHabit.habit.toLowerCase()} proporciona benefícios exponenciais. Este hábito pode compensar múltiplos fatores negativos.`,
-        icon: <CheckCircle className="w-4 h-4 text-green-500" />
-      });
-    }
-    
-    if (organHealth < 60) {
-      advice.push({
-        type: 'critical',
-        text: `Este órgão está em estado preocupante devido a fatores exponenciais. Recomenda-se consultar um profissional de saúde.`,
-        icon: <AlertTriangle className="w-4 h-4 text-red-500" />
-      });
-    }
-    
-    return advice;
+  const getValueColor = (value: number, inverted = false) => {
+    const score = inverted ? 100 - value : value;
+    if (score >= 80) return 'text-green-600';
+    if (score >= 60) return 'text-yellow-600';
+    if (score >= 40) return 'text-orange-600';
+    return 'text-red-600';
   };
 
-  const personalizedAdvice = getPersonalizedAdvice();
-  
-  // Get relevant exponential factors for this organ
-  const relevantFactors = getRelevantExponentialFactors(focusOrganId, exponentialFactors, selectedHabits);
-  
   return (
-    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
-      <div className="bg-white rounded-lg shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
-        {/* Header */}
-        <div className="flex items-center justify-between p-6 border-b border-gray-200">
-          <div className="flex items-center space-x-3">
-            <div className="w-12 h-12 rounded-full bg-blue-100 flex items-center justify-center">
-              <Heart className="w-6 h-6 text-blue-600" />
-            </div>
-            <div>
-              <h2 className="text-xl font-semibold text-gray-900">{organ.name}</h2>
-              <p className="text-sm text-gray-600">Sistema {organ.system}</p>
-            </div>
-          </div>
-          <button
-            onClick={() => setFocusOrgan(undefined)}
-            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
-            aria-label="Fechar vista do órgão"
-          >
-            <X className="w-5 h-5 text-gray-500" />
-          </button>
-        </div>
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xl font-semibold text-gray-900">{t('profile.title')}</h3>
+        <User className="w-5 h-5 text-gray-500" />
+      </div>
 
-        {/* Status */}
-        <div className={`mx-6 mt-6 p-4 rounded-lg ${organStatus.bg}`}>
-          <div className="flex items-center space-x-2">
-            <Info className={`w-5 h-5 ${organStatus.color}`} />
-            <span className={`font-semibold ${organStatus.color}`}>
-              Estado atual: {organStatus.status}
-            </span>
-            <span className="text-sm text-gray-600">
-              ({Math.round(organHealth)}% de saúde)
-            </span>
-          </div>
-          <p className="text-sm text-gray-700 mt-3">
-            {personalizedMessage}
+      {/* Health Summary */}
+      <div className={`p-3 rounded-lg mb-4 ${healthCategory.bg}`}>
+        <span className={`text-sm font-semibold ${healthCategory.color}`}>
+          {t('status.overall', { status: t(`status.${healthLevel}`) })}
+        </span>
+        {weakestOrgans.length > 0 && (
+          <p className="text-xs text-gray-700 mt-1">
+            {weakestOrgans.map(([, report]) => report.personalizedMessage.split('.')[0]).join('. ')}.
           </p>
-        </div>
-
-        {/* Personalized Advice */}
-        {personalizedAdvice.length > 0 && (
-          <div className="mx-6 mt-4 space-y-3">
-            <h4 className="font-semibold text-gray-900">Conselhos Personalizados</h4>
-            {personalizedAdvice.map((advice, index) => (
-              <div key={index} className={`p-3 rounded-lg flex items-start space-x-3 ${
-                advice.type === 'warning' ? 'bg-orange-50' :
-                advice.type === 'success' ? 'bg-green-50' :
-                'bg-red-50'
-              }`}>
-                {advice.icon}
-                <p className="text-sm text-gray-700 flex-1">{advice.text}</p>
-              </div>
-            ))}
-          </div>
-        )}
-
-        {/* Exponential Factors Affecting This Organ */}
-        {relevantFactors.length > 0 && (
-          <div className="mx-6 mt-4">
-            <h4 className="font-semibold text-gray-900 mb-3">Fatores Exponenciais para Este Órgão</h4>
-            <div className="space-y-2">
-              {relevantFactors.map((factor, index) => (
-                <div key={index} className="flex items-center justify-between p-2 bg-gray-50 rounded">
-                  <div className="flex items-center space-x-2">
-                    {factor.type === 'positive' ? (
-                      <TrendingUp className="w-4 h-4 text-green-500" />
-                    ) : (
-                      <TrendingDown className="w-4 h-4 text-red-500" />
-                    )}
-                    <div>
-                      <span className="text-sm font-medium">{habitName}</span>
-                      <p className="text-xs text-gray-500">{mechanism}</p>
-                    </div>
-                  </div>
-                  <div className="flex items-center space-x-2">
-                    <span className="text-xs text-gray-500">
-                      Nível {level}
-                    </span>
-                    <span className={`text-xs font-medium ${
-                      impact > 0 ? 'text-green-600' : 'text-red-600'
-                    }`}>
-                      {impact > 0 ? '+' : ''}{Math.round(Math.abs(impact))}%
-                    </span>
-                  </div>
-                </div>
-              ))}
-            </div>
-          </div>
         )}
-        {/* What Happens Section */}
-        <div className="p-6">
-          <h3 className="text-lg font-semibold text-gray-900 mb-3 flex items-center">
-            <span className="w-2 h-6 bg-red-500 rounded-full mr-3"></span>
-            O que acontece
-          </h3>
-          <p className="text-gray-700 leading-relaxed mb-6">
-            {organ.narration.what_happens}
-          </p>
-
-          <h3 className="text-lg font-semibold text-gray-900 mb-3 flex items-center">
-            <span className="w-2 h-6 bg-green-500 rounded-full mr-3"></span>
-            O que ajuda
-          </h3>
-          <p className="text-gray-700 leading-relaxed mb-6">
-            {organ.narration.what_helps}
-          </p>
-
-          {/* Metrics */}
-          <div className="border-t pt-6">
-            <h4 className="font-semibold text-gray-900 mb-3">Métricas Monitorizadas</h4>
-            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
-              {organ.metrics.map((metric) => (
-                <div key={metric} className="bg-gray-50 p-3 rounded-lg text-center">
-                  <span className="text-sm text-gray-600 capitalize">
-                    {metric.replace(/_/g, ' ')}
-                  </span>
-                </div>
-              ))}
-            </div>
-          </div>
+      </div>
 
-          {/* Recovery Tips */}
-          <div className="mt-6 p-4 bg-blue-50 rounded-lg">
-            <h4 className="font-semibold text-blue-900 mb-2">Dicas de Recuperação</h4>
-            <ul className="text-sm text-blue-800 space-y-1">
-              {riskLevel === 'high' || riskLevel === 'critical' && <li>• Reduz gradualmente os hábitos prejudiciais</li>}
-              {!selectedHabits['exercise']?.level && <li>• Aumenta a atividade física regular</li>}
-              {!selectedHabits['healthy_diet']?.level && <li>• Mantém uma alimentação equilibrada</li>}
-              {!selectedHabits['sleep_consistency']?.level && <li>• Garante um sono reparador</li>}
-              {riskLevel === 'critical' && <li>• Procura apoio médico se necessário</li>}
-              {selectedHabits['smoking']?.level > 0 && <li>• Considera programas de cessação tabágica</li>}
-              {selectedHabits['alcohol']?.level > 2 && <li>• Reduz o consumo de álcool gradualmente</li>}
-              {!selectedHabits['hydration']?.level && <li>• Mantém uma hidratação adequada</li>}
-            </ul>
-          </div>
+      {/* Main Metrics */}
+      <div className="grid grid-cols-3 gap-2 mb-4 text-center">
+        <div className="p-2 bg-gray-50 rounded-lg">
+          <span className={`text-lg font-bold ${getValueColor(meters.health)}`}>{Math.round(meters.health)}</span>
+          <p className="text-xs text-gray-600">{t('profile.health')}</p>
+        </div>
+        <div className="p-2 bg-gray-50 rounded-lg">
+          <span className="text-lg font-bold text-gray-900">{Math.round(meters.lifeExpectancy)}</span>
+          <p className="text-xs text-gray-600">{t('profile.years')}</p>
+        </div>
+        <div className="p-2 bg-gray-50 rounded-lg">
+          <span className={`text-lg font-bold ${getValueColor(meters.diseaseRisk, true)}`}>{Math.round(meters.diseaseRisk)}%</span>
+          <p className="text-xs text-gray-600">{t('profile.risk')}</p>
         </div>
+      </div>
 
-        {/* Footer */}
-        <div className="p-6 bg-gray-50 border-t">
-          <p className="text-xs text-gray-500 text-center">
-            Esta informação é apenas educativa. Consulta um profissional de saúde para orientação médica.
-          </p>
+      {/* Habit Balance */}
+      <div className="mb-4">
+        <div className="flex justify-between text-xs text-gray-600 mb-1">
+          <span className="flex items-center">
+            <TrendingDown className="w-3 h-3 text-red-500 mr-1" />
+            {t('profile.harmfulCount', { count: harmfulCount })}
+          </span>
+          <span className="flex items-center">
+            {t('profile.beneficialCount', { count: beneficialCount })}
+            <TrendingUp className="w-3 h-3 text-green-500 ml-1" />
+          </span>
+        </div>
+        <div className="flex w-full h-2 rounded-full overflow-hidden bg-gray-200">
+          <div className="bg-red-400" style={{ width: `${(harmfulCount / totalActive) * 100}%` }} />
+          <div className="bg-green-400" style={{ width: `${(beneficialCount / totalActive) * 100}%` }} />
         </div>
       </div>
+
+      {/* Priority Recommendations */}
+      {meters.prioritizedRecommendations.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold text-gray-700">{t('profile.recommendations')}</h4>
+          {meters.prioritizedRecommendations.slice(0, 3).map((rec, index) => (
+            <div key={index} className="flex items-start space-x-2 text-sm">
+              {rec.priority === 'critical' ? (
+                <AlertTriangle className="w-4 h-4 text-red-500 mt-0.5" />
+              ) : (
+                <CheckCircle className="w-4 h-4 text-green-500 mt-0.5" />
+              )}
+              <span className="text-gray-700">{rec.action}</span>
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
-};
\ No newline at end of file
+};
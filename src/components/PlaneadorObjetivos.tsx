@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import { Target } from 'lucide-react';
+import { HabitLevels, useAtlasStore } from '../store/useAtlasStore';
+import { INVERTED_HEADLINE_METERS, HeadlineMeter } from '../utils/healthModel';
+import type { Demographics } from '../utils/demographics';
+import type { HabitDefinition } from '../utils/habitCatalog';
+import { getGoalOrganId, GOAL_METRICS, GoalMetric, GoalPlan, planGoal, readGoalMetric } from '../utils/goalPlanner';
+import { getHabitText, getOrganText } from '../i18n';
+import { formatHabitAmount } from '../utils/habitDose';
+import { useTranslation } from '../i18n/useTranslation';
+import { IndicadorDelta } from './IndicadorDelta';
+
+interface PlanResult {
+  plan: GoalPlan;
+  habits: HabitLevels; // Habits the plan was computed from
+  modelId: string;
+  demographics: Demographics;
+  customHabits: HabitDefinition[];
+  checked: boolean[];
+}
+
+export const PlaneadorObjetivos: React.FC = () => {
+  const { selectedHabits, meters, activeModelId, demographics, customHabits, setHabitLevels } = useAtlasStore();
+  const { locale, t } = useTranslation();
+  const [metric, setMetric] = useState<GoalMetric>('health');
+  const [target, setTarget] = useState(75);
+  const [result, setResult] = useState<PlanResult>();
+
+  // A plan only applies to the habits, model, demographics and custom habits it was computed for
+  const plan = result
+    && result.habits === selectedHabits
+    && result.modelId === activeModelId
+    && result.demographics === demographics
+    && result.customHabits === customHabits
+    ? result.plan
+    : undefined;
+
+  const organId = getGoalOrganId(metric);
+  const inverted = INVERTED_HEADLINE_METERS.includes(metric as HeadlineMeter);
+  const unit = metric === 'lifeExpectancy' ? t('unit.years') : metric === 'diseaseRisk' || organId ? '%' : '';
+  const format = (value: number) => `${Math.round(value)}${unit}`;
+  const metricLabel = (option: GoalMetric) => {
+    const optionOrganId = getGoalOrganId(option);
+    return optionOrganId ? getOrganText(optionOrganId, locale).name : t(`meter.${option as HeadlineMeter}`);
+  };
+
+  const handlePlan = () => {
+    const newPlan = planGoal(selectedHabits, { metric, target }, { modelId: activeModelId, demographics, customHabits });
+    setResult({
+      plan: newPlan,
+      habits: selectedHabits,
+      modelId: activeModelId,
+      demographics,
+      customHabits,
+      checked: newPlan.steps.map(() => true),
+    });
+  };
+
+  const toggleStep = (index: number) => {
+    if (!result) return;
+    setResult({ ...result, checked: result.checked.map((checked, i) => (i === index ? !checked : checked)) });
+  };
+
+  const handleApply = () => {
+    if (!result || !plan) return;
+    const levels: HabitLevels = {};
+    plan.steps.forEach((step, index) => {
+      if (!result.checked[index]) return;
+      levels[step.habitId] = step.toQuantity === undefined
+        ? { level: step.toLevel }
+        : { level: step.toLevel, quantity: step.toQuantity };
+    });
+    setHabitLevels(levels);
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow-sm border">
+      <div className="flex items-center space-x-2 mb-4">
+        <Target className="w-5 h-5 text-gray-500" />
+        <h3 className="text-lg font-semibold text-gray-900">{t('goal.title')}</h3>
+      </div>
+
+      <div className="space-y-2">
+        <select
+          value={metric}
+          onChange={(e) => setMetric(e.target.value as GoalMetric)}
+          aria-label={t('goal.metric')}
+          className="w-full text-sm border border-gray-300 rounded-lg px-2 py-1 text-gray-700"
+        >
+          {GOAL_METRICS.map(option => (
+            <option key={option} value={option}>{metricLabel(option)}</option>
+          ))}
+        </select>
+
+        <div className="flex items-center space-x-2 text-sm text-gray-700">
+          <span>{t(inverted ? 'goal.atMost' : 'goal.atLeast')}</span>
+          <input
+            type="number"
+            value={target}
+            onChange={(e) => setTarget(Number(e.target.value))}
+            aria-label={t('goal.target')}
+            className="w-20 border border-gray-300 rounded-lg px-2 py-1"
+          />
+          <span className="flex-1 text-xs text-gray-500">
+            {t('goal.current', { value: format(readGoalMetric(meters, metric)) })}
+          </span>
+          <button
+            onClick={handlePlan}
+            className="px-3 py-1 text-sm rounded-lg font-medium bg-blue-600 text-white hover:bg-blue-700 transition-colors"
+          >
+            {t('goal.plan')}
+          </button>
+        </div>
+      </div>
+
+      {plan && result && (
+        <div className="mt-4 pt-4 border-t border-gray-200 space-y-3">
+          <p className="text-xs text-gray-600">
+            {plan.steps.length === 0 && plan.reached
+              ? t('goal.alreadyReached')
+              : t(plan.reached ? 'goal.reachable' : 'goal.unreachable', {
+                  count: plan.steps.length,
+                  value: format(plan.finalValue),
+                })}
+          </p>
+
+          {plan.steps.length > 0 && (
+            <>
+              <ul className="space-y-1 text-xs">
+                {plan.steps.map((step, index) => {
+                  const text = getHabitText(step.habitId, locale, customHabits);
+                  return (
+                    <li key={`${step.habitId}-${step.toLevel}`} className="flex items-center justify-between text-gray-700">
+                      <label className="flex items-center space-x-2">
+                        <input type="checkbox" checked={result.checked[index]} onChange={() => toggleStep(index)} />
+                        <span>
+                          {t('goal.step', {
+                            habit: text.name,
+                            from: formatHabitAmount(step.habitId, { level: step.fromLevel, quantity: step.fromQuantity }, locale, customHabits),
+                            to: formatHabitAmount(step.habitId, { level: step.toLevel, quantity: step.toQuantity }, locale, customHabits),
+                          })}
+                        </span>
+                      </label>
+                      <IndicadorDelta delta={step.delta} inverted={inverted} decimals={1} />
+                    </li>
+                  );
+                })}
+              </ul>
+
+              <p className="text-xs text-gray-500">{t('goal.effort', { effort: plan.effort })}</p>
+
+              <button
+                onClick={handleApply}
+                disabled={!result.checked.some(Boolean)}
+                className="w-full px-3 py-2 text-sm rounded-lg font-medium bg-gray-800 text-white hover:bg-gray-900 disabled:opacity-50 transition-colors"
+              >
+                {t('goal.apply')}
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
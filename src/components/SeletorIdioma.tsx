@@ -0,0 +1,26 @@
+import React from 'react';
+import { Languages } from 'lucide-react';
+import { useAtlasStore } from '../store/useAtlasStore';
+import { isLocale, LOCALE_NAMES, LOCALES } from '../i18n';
+import { useTranslation } from '../i18n/useTranslation';
+
+export const SeletorIdioma: React.FC = () => {
+  const { setLocale } = useAtlasStore();
+  const { locale, t } = useTranslation();
+
+  return (
+    <label className="flex items-center space-x-2 bg-white border border-gray-300 px-3 py-2 rounded-lg shadow-sm">
+      <Languages className="w-4 h-4 text-gray-500" />
+      <select
+        value={locale}
+        onChange={(e) => isLocale(e.target.value) && setLocale(e.target.value)}
+        aria-label={t('language.label')}
+        className="text-sm font-medium text-gray-700 bg-transparent focus:outline-none"
+      >
+        {LOCALES.map(option => (
+          <option key={option} value={option}>{LOCALE_NAMES[option]}</option>
+        ))}
+      </select>
+    </label>
+  );
+};
@@ -0,0 +1,40 @@
+import React from 'react';
+import { Calculator } from 'lucide-react';
+import { useAtlasStore } from '../store/useAtlasStore';
+import { HEALTH_MODELS, getHealthModel } from '../utils/models';
+import { useTranslation } from '../i18n/useTranslation';
+
+export const SeletorModelo: React.FC = () => {
+  const { activeModelId, setActiveModel } = useAtlasStore();
+  const { locale, t } = useTranslation();
+  const activeModel = getHealthModel(activeModelId);
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow-sm border">
+      <div className="flex items-center space-x-2 mb-4">
+        <Calculator className="w-5 h-5 text-gray-500" />
+        <h3 className="text-lg font-semibold text-gray-900">{t('model.title')}</h3>
+      </div>
+
+      <div className="flex space-x-2">
+        {HEALTH_MODELS.map(model => (
+          <button
+            key={model.id}
+            onClick={() => setActiveModel(model.id)}
+            className={`flex-1 px-3 py-2 text-sm rounded-lg font-medium transition-colors ${
+              model.id === activeModel.id
+                ? 'bg-blue-600 text-white'
+                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            {model.name[locale]}
+          </button>
+        ))}
+      </div>
+
+      <div className="mt-4 text-xs text-gray-500 bg-gray-50 p-3 rounded">
+        <p>{activeModel.description[locale]}</p>
+      </div>
+    </div>
+  );
+};
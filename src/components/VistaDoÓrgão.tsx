@@ -1,76 +1,61 @@
 import React from 'react';
-import { X, Info, Heart, AlertTriangle, CheckCircle, TrendingDown, TrendingUp } from 'lucide-react';
+import { X, Info, Heart, AlertTriangle, CheckCircle } from 'lucide-react';
 import { useAtlasStore } from '../store/useAtlasStore';
-import { calculateOrganHealth } from '../utils/organHealthCalculator';
-import organsData from '../data/organs.json';
+import { getRiskLevel, RiskLevel } from '../utils/healthModel';
+import { getOrganText } from '../i18n';
+import { useTranslation } from '../i18n/useTranslation';
+import { findOrgan } from '../utils/dataFiles';
+import { ORGAN_HEALTH_BOUNDS } from '../utils/organMetrics';
+import { IndicadorDelta } from './IndicadorDelta';
+import { Cascata } from './Cascata';
+
+const organStatuses: Record<RiskLevel, { color: string; bg: string }> = {
+  low: { color: 'text-green-600', bg: 'bg-green-50' },
+  moderate: { color: 'text-yellow-600', bg: 'bg-yellow-50' },
+  high: { color: 'text-orange-600', bg: 'bg-orange-50' },
+  critical: { color: 'text-red-600', bg: 'bg-red-50' },
+};
 
 export const VistaDoÓrgão: React.FC = () => {
-  const { focusOrganId, setFocusOrgan, meters, selectedHabits } = useAtlasStore();
+  const { focusOrganId, setFocusOrgan, meters, selectedHabits, compareMode, compareSnapshot } = useAtlasStore();
+  const { locale, t } = useTranslation();
 
   if (!focusOrganId) return null;
 
-  const organ = organsData.organs.find(o => o.id === focusOrganId);
+  const organ = findOrgan(focusOrganId);
   if (!organ) return null;
 
-  // Use exponential organ health calculation
-  const organHealth = meters.organHealth?.[focusOrganId] || 80;
-  const healthRatio = organHealth / 100;
-  
-  const getOrganStatus = () => {
-    if (healthRatio >= 0.8) return { status: 'Excelente', color: 'text-green-600', bg: 'bg-green-50' };
-    if (healthRatio >= 0.6) return { status: 'Bom', color: 'text-yellow-600', bg: 'bg-yellow-50' };
-    if (healthRatio >= 0.4) return { status: 'Preocupante', color: 'text-orange-600', bg: 'bg-orange-50' };
-    return { status: 'Crítico', color: 'text-red-600', bg: 'bg-red-50' };
-  };
-
-  const organStatus = getOrganStatus();
-
-  // Generate personalized message based on exponential factors
-  const generatePersonalizedMessage = () => {
-    const exponentialFactors = meters.exponentialFactors || { positive: [], negative: [] };
-    const organName = organ.name.toLowerCase();
-    
-    let message = `Os teus ${organName} estão `;
-    
-    if (organHealth >= 80) {
-      message += 'em excelente estado';
-    } else if (organHealth >= 60) {
-      message += 'em bom estado, mas com alguns sinais de stress';
-    } else if (organHealth >= 40) {
-      message += 'em estado preocupante';
-    } else {
-      message += 'em estado crítico';
-    }
-    
-    // Add exponential factor impacts
-    const relevantNegative = exponentialFactors.negative.filter(f => 
-      ['smoking', 'alcohol', 'drugs', 'chronic_stress', 'processed_diet'].includes(f.habit.toLowerCase().replace(/\s+/g, '_'))
-    );
-    
-    const relevantPositive = exponentialFactors.positive.filter(f => 
-      ['exercise', 'healthy_diet', 'sleep_consistency', 'hydration'].includes(f.habit.toLowerCase().replace(/\s+/g, '_'))
-    );
-    
-    if (relevantNegative.length > 0) {
-      message += `, principalmente devido aos efeitos exponenciais do ${relevantNegative[0].habit.toLowerCase()}`;
-    }
-    
-    if (relevantPositive.length > 0) {
-      message += `. Felizmente, o teu ${relevantPositive[0].habit.toLowerCase()} está a proporcionar benefícios exponenciais`;
-    }
-    
-    message += `. Estado atual: ${Math.round(organHealth)}% de saúde.`;
-    
-    if (organHealth < 60) {
-      message += ' Recomenda-se consultar um profissional de saúde.';
-    }
-    
-    return message;
-  };
-
-  const personalizedMessage = generatePersonalizedMessage();
-  const exponentialFactors = meters.exponentialFactors || { positive: [], negative: [] };
-  const prioritizedRecommendations = meters.prioritizedRecommendations || [];
+  const organReport = meters.organs[focusOrganId];
+  if (!organReport) return null;
+
+  const organHealth = organReport.health;
+  const organText = getOrganText(organ.id, locale);
+
+  const organStatus = organStatuses[organReport.riskLevel];
+  const personalizedMessage = organReport.personalizedMessage;
+
+  const metricScores = organReport.metrics;
+  // Recommendations that help this organ, biggest gain for the organ first
+  const organRecommendations = (meters.prioritizedRecommendations || [])
+    .filter(rec => (rec.organDeltas[organ.id] || 0) > 0)
+    .sort((a, b) => b.organDeltas[organ.id] - a.organDeltas[organ.id]);
+
+  // Habits whose contribution to this organ changed since the "before" snapshot
+  const beforeReport = compareMode !== 'off' ? compareSnapshot?.meters.organs[focusOrganId] : undefined;
+  const contributionChanges = beforeReport
+    ? [...new Set([...beforeReport.contributions, ...organReport.contributions].map(c => c.habitId))]
+        .map(habitId => {
+          const before = beforeReport.contributions.find(c => c.habitId === habitId);
+          const after = organReport.contributions.find(c => c.habitId === habitId);
+          return {
+            habitId,
+            habitName: (after || before)?.habitName || habitId,
+            delta: (after?.impact || 0) - (before?.impact || 0),
+          };
+        })
+        .filter(change => Math.abs(change.delta) >= 0.5)
+        .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta))
+    : [];
   
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
@@ -82,14 +67,14 @@ export const VistaDoÓrgão: React.FC = () => {
               <Heart className="w-6 h-6 text-blue-600" />
             </div>
             <div>
-              <h2 className="text-xl font-semibold text-gray-900">{organ.name}</h2>
-              <p className="text-sm text-gray-600">Sistema {organ.system}</p>
+              <h2 className="text-xl font-semibold text-gray-900">{organText.name}</h2>
+              <p className="text-sm text-gray-600">{t('organ.system', { system: organText.system })}</p>
             </div>
           </div>
           <button
             onClick={() => setFocusOrgan(undefined)}
             className="p-2 hover:bg-gray-100 rounded-full transition-colors"
-            aria-label="Fechar vista do órgão"
+            aria-label={t('organView.close')}
           >
             <X className="w-5 h-5 text-gray-500" />
           </button>
@@ -100,112 +85,127 @@ export const VistaDoÓrgão: React.FC = () => {
           <div className="flex items-center space-x-2">
             <Info className={`w-5 h-5 ${organStatus.color}`} />
             <span className={`font-semibold ${organStatus.color}`}>
-              Estado atual: {organStatus.status}
+              {t('organView.currentState', { status: t(`organView.status.${organReport.riskLevel}`) })}
             </span>
             <span className="text-sm text-gray-600">
-              ({Math.round(organHealth)}% de saúde)
+              {t('organView.healthPercent', { value: Math.round(organHealth) })}
             </span>
           </div>
           <p className="text-sm text-gray-700 mt-3">
             {personalizedMessage}
           </p>
+          {beforeReport && (
+            <div className="flex items-center space-x-2 text-sm text-gray-600 mt-3 pt-3 border-t border-gray-200">
+              <span>{t('organView.beforeValue', { value: Math.round(beforeReport.health) })}</span>
+              <span>→</span>
+              <span>{t('organView.afterValue', { value: Math.round(organHealth) })}</span>
+              <IndicadorDelta delta={organHealth - beforeReport.health} />
+            </div>
+          )}
         </div>
 
+        {/* Changes since the comparison snapshot */}
+        {contributionChanges.length > 0 && (
+          <div className="mx-6 mt-4">
+            <h4 className="font-semibold text-gray-900 mb-3">{t('organView.changes')}</h4>
+            <div className="space-y-2">
+              {contributionChanges.map(change => (
+                <div key={change.habitId} className="flex items-center justify-between p-2 bg-gray-50 rounded">
+                  <span className="text-sm font-medium">{change.habitName}</span>
+                  <IndicadorDelta delta={change.delta} decimals={1} />
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Personalized Advice */}
-        {prioritizedRecommendations.length > 0 && (
+        {organRecommendations.length > 0 && (
           <div className="mx-6 mt-4 space-y-3">
-            <h4 className="font-semibold text-gray-900">Recomendações Exponenciais</h4>
-            {prioritizedRecommendations.slice(0, 3).map((rec, index) => (
-              <div key={index} className={`p-3 rounded-lg flex items-start space-x-3 ${
+            <h4 className="font-semibold text-gray-900">{t('organView.recommendations')}</h4>
+            {organRecommendations.slice(0, 3).map((rec) => (
+              <div key={rec.habitId} className={`p-3 rounded-lg flex items-start space-x-3 ${
                 rec.priority === 'critical' ? 'bg-red-50' :
                 rec.priority === 'high' ? 'bg-orange-50' :
-                'bg-red-50'
+                'bg-gray-50'
               }`}>
                 {rec.priority === 'critical' ? (
                   <AlertTriangle className="w-4 h-4 text-red-500" />
-                ) : rec.action.includes('Increase') || rec.action.includes('Improve') ? (
-                  <CheckCircle className="w-4 h-4 text-green-500" />
                 ) : (
-                  <AlertTriangle className="w-4 h-4 text-orange-500" />
+                  <CheckCircle className="w-4 h-4 text-green-500" />
                 )}
                 <div className="flex-1">
-                  <p className="text-sm font-medium text-gray-800">{rec.action}</p>
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm font-medium text-gray-800">{rec.action}</p>
+                    <IndicadorDelta delta={rec.organDeltas[organ.id]} unit="%" decimals={1} />
+                  </div>
                   <p className="text-xs text-gray-600 mt-1">{rec.rationale}</p>
-                  <p className="text-xs text-gray-500 mt-1">{rec.expectedImpact}</p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {t('recommendation.impact', { value: rec.expectedImpact.toFixed(1) })}
+                  </p>
                 </div>
               </div>
             ))}
           </div>
         )}
 
-        {/* Exponential Factors Affecting This Organ */}
-        {(exponentialFactors.positive.length > 0 || exponentialFactors.negative.length > 0) && (
-          <div className="mx-6 mt-4">
-            <h4 className="font-semibold text-gray-900 mb-3">Fatores Exponenciais</h4>
-            <div className="space-y-2">
-              {exponentialFactors.negative.slice(0, 2).map((factor, index) => (
-                <div key={index} className="flex items-center justify-between p-2 bg-gray-50 rounded">
-                  <div className="flex items-center space-x-2">
-                    <TrendingDown className="w-4 h-4 text-red-500" />
-                    <div>
-                      <span className="text-sm font-medium">{factor.habit}</span>
-                      <p className="text-xs text-gray-500">Impacto exponencial negativo</p>
-                    </div>
-                  </div>
-                  <div className="flex items-center space-x-2">
-                    <span className="text-xs font-medium text-red-600">
-                      -{Math.round(factor.impact)}%
-                    </span>
-                  </div>
-                </div>
-              ))}
-              {exponentialFactors.positive.slice(0, 2).map((factor, index) => (
-                <div key={`pos-${index}`} className="flex items-center justify-between p-2 bg-gray-50 rounded">
-                  <div className="flex items-center space-x-2">
-                    <TrendingUp className="w-4 h-4 text-green-500" />
-                    <div>
-                      <span className="text-sm font-medium">{factor.habit}</span>
-                      <p className="text-xs text-gray-500">Benefício exponencial</p>
-                    </div>
-                  </div>
-                  <div className="flex items-center space-x-2">
-                    <span className="text-xs font-medium text-green-600">
-                      +{Math.round(factor.impact)}%
-                    </span>
-                  </div>
-                </div>
-              ))}
-            </div>
-          </div>
-        )}
-        
+        {/* Waterfall from the baseline to the current score */}
+        <div className="mx-6 mt-4">
+          <h4 className="font-semibold text-gray-900 mb-1">{t('organView.waterfall')}</h4>
+          <p className="text-xs text-gray-500 mb-3">{t('organView.waterfallHint')}</p>
+          <Cascata
+            breakdown={{ baseline: organReport.baseline, contributions: organReport.contributions, final: organReport.health }}
+            labels={{
+              baseline: t('organView.waterfall.baseline'),
+              clamp: t('organView.waterfall.clamp', ORGAN_HEALTH_BOUNDS),
+              final: t('organView.waterfall.final'),
+            }}
+            label={t('organView.waterfall')}
+            scaleMax={100}
+          />
+        </div>
+
         {/* What Happens Section */}
         <div className="p-6">
           <h3 className="text-lg font-semibold text-gray-900 mb-3 flex items-center">
             <span className="w-2 h-6 bg-red-500 rounded-full mr-3"></span>
-            O que acontece
+            {t('organView.whatHappens')}
           </h3>
           <p className="text-gray-700 leading-relaxed mb-6">
-            {organ.narration.what_happens}
+            {organText.narration.what_happens}
           </p>
 
           <h3 className="text-lg font-semibold text-gray-900 mb-3 flex items-center">
             <span className="w-2 h-6 bg-green-500 rounded-full mr-3"></span>
-            O que ajuda
+            {t('organView.whatHelps')}
           </h3>
           <p className="text-gray-700 leading-relaxed mb-6">
-            {organ.narration.what_helps}
+            {organText.narration.what_helps}
           </p>
 
-          {/* Metrics */}
+          {/* Metric sub-scores */}
           <div className="border-t pt-6">
-            <h4 className="font-semibold text-gray-900 mb-3">Métricas Monitorizadas</h4>
+            <h4 className="font-semibold text-gray-900">{t('organView.metrics')}</h4>
+            <p className="text-xs text-gray-500 mb-3">{t('organView.metricsHint')}</p>
             <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
-              {organ.metrics.map((metric) => (
-                <div key={metric} className="bg-gray-50 p-3 rounded-lg text-center">
-                  <span className="text-sm text-gray-600 capitalize">
-                    {metric.replace(/_/g, ' ')}
-                  </span>
+              {metricScores.map(({ metric, score, contributions }, index) => (
+                <div key={metric} className="bg-gray-50 p-3 rounded-lg">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm text-gray-600">
+                      {organText.metricLabels[index] || metric.replace(/_/g, ' ')}
+                    </span>
+                    <span className={`text-sm font-semibold ${organStatuses[getRiskLevel(score)].color}`}>
+                      {Math.round(score)}%
+                    </span>
+                  </div>
+                  <div className="h-1.5 bg-gray-200 rounded-full mt-2">
+                    <div className="h-1.5 rounded-full bg-blue-500" style={{ width: `${score}%` }} />
+                  </div>
+                  <p className="text-xs text-gray-500 mt-2">
+                    {contributions.length > 0
+                      ? contributions.map(c => c.habitName).join(', ')
+                      : t('organView.metricBaseline')}
+                  </p>
                 </div>
               ))}
             </div>
@@ -213,16 +213,16 @@ export const VistaDoÓrgão: React.FC = () => {
 
           {/* Recovery Tips */}
           <div className="mt-6 p-4 bg-blue-50 rounded-lg">
-            <h4 className="font-semibold text-blue-900 mb-2">Dicas de Recuperação</h4>
+            <h4 className="font-semibold text-blue-900 mb-2">{t('organView.recoveryTips')}</h4>
             <ul className="text-sm text-blue-800 space-y-1">
-              {organHealth < 60 && <li>• Reduz gradualmente os hábitos prejudiciais</li>}
-              {!selectedHabits['exercise']?.level && <li>• Aumenta a atividade física regular</li>}
-              {!selectedHabits['healthy_diet']?.level && <li>• Mantém uma alimentação equilibrada</li>}
-              {!selectedHabits['sleep_consistency']?.level && <li>• Garante um sono reparador</li>}
-              {organHealth < 40 && <li>• Procura apoio médico se necessário</li>}
-              {selectedHabits['smoking']?.level > 0 && <li>• Considera programas de cessação tabágica</li>}
-              {selectedHabits['alcohol']?.level > 2 && <li>• Reduz o consumo de álcool gradualmente</li>}
-              {!selectedHabits['hydration']?.level && <li>• Mantém uma hidratação adequada</li>}
+              {organHealth < 60 && <li>• {t('organView.tip.reduceHarmful')}</li>}
+              {!selectedHabits['exercise']?.level && <li>• {t('organView.tip.exercise')}</li>}
+              {!selectedHabits['healthy_diet']?.level && <li>• {t('organView.tip.diet')}</li>}
+              {!selectedHabits['sleep_consistency']?.level && <li>• {t('organView.tip.sleep')}</li>}
+              {organHealth < 40 && <li>• {t('organView.tip.medical')}</li>}
+              {selectedHabits['smoking']?.level > 0 && <li>• {t('organView.tip.smoking')}</li>}
+              {selectedHabits['alcohol']?.level > 2 && <li>• {t('organView.tip.alcohol')}</li>}
+              {!selectedHabits['hydration']?.level && <li>• {t('organView.tip.hydration')}</li>}
             </ul>
           </div>
         </div>
@@ -230,7 +230,7 @@ export const VistaDoÓrgão: React.FC = () => {
         {/* Footer */}
         <div className="p-6 bg-gray-50 border-t">
           <p className="text-xs text-gray-500 text-center">
-            Esta informação usa cálculos exponenciais baseados em investigação médica e destina-se apenas a fins educativos. Consulta um profissional de saúde para orientação médica.
+            {t('organView.disclaimer')}
           </p>
         </div>
       </div>
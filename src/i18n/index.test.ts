@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { formatMechanismTags, getHabitText, getOrganText, isMessageKey, translate } from './index';
+import { pt } from './messages/pt';
+import { en } from './messages/en';
+import { calculateHealthModel } from '../utils/healthModel';
+import habitsData from '../data/habits.json';
+import organsData from '../data/organs.json';
+
+const placeholders = (message: string) => [...message.matchAll(/\{(\w+)\}/g)].map(match => match[1]).sort();
+
+describe('message catalogs', () => {
+  it('use the same placeholders in every locale', () => {
+    for (const key of Object.keys(pt) as (keyof typeof pt)[]) {
+      expect(placeholders(en[key]), key).toEqual(placeholders(pt[key]));
+    }
+  });
+
+  it('fill in parameters and leave unknown placeholders alone', () => {
+    expect(translate('en', 'projection.months', { count: 3 })).toBe('3 months');
+    expect(translate('pt', 'projection.months')).toBe('{count} meses');
+  });
+});
+
+describe('localized data', () => {
+  it('translates every habit and organ into English', () => {
+    for (const habit of habitsData.habits) {
+      const text = getHabitText(habit.id, 'en');
+      expect(text.name).not.toBe(habit.name);
+      expect(text.labels).toHaveLength(habit.intensity.labels.length);
+    }
+    for (const organ of organsData.organs) {
+      const text = getOrganText(organ.id, 'en');
+      expect(text.narration.what_happens).not.toBe(organ.narration.what_happens);
+      expect(text.metricLabels).toHaveLength(organ.metrics.length);
+    }
+  });
+
+  it('keeps the Portuguese source for the default locale', () => {
+    expect(getHabitText('smoking', 'pt').name).toBe('Tabagismo');
+    expect(getOrganText('lungs', 'en').name).toBe('Lungs');
+  });
+
+  it('explains organ contributions in the chosen locale', () => {
+    const mechanism = (locale: 'pt' | 'en') =>
+      calculateHealthModel({ smoking: { level: 2 } }, undefined, locale).organs.lungs.contributions[0].mechanism;
+    expect(mechanism('pt')).toBe('Depósito direto de alcatrão, destruição dos cílios, inflamação crónica');
+    expect(mechanism('en')).toBe('Direct tar deposition, cilia destruction, chronic inflammation');
+  });
+
+  it('labels every mechanism tag of the habits', () => {
+    for (const habit of habitsData.habits) {
+      habit.mechanisms.flatMap(mechanism => mechanism.tags).forEach(tag => {
+        expect(isMessageKey(`mechanismTag.${tag}`), tag).toBe(true);
+      });
+    }
+    expect(formatMechanismTags(['tar', 'cilia_damage'], 'pt')).toBe('Alcatrão, dano nos cílios');
+    expect(formatMechanismTags(['tar', 'cilia_damage'], 'en')).toBe('Tar, cilia damage');
+  });
+
+  it('shows the tags of custom habits as typed', () => {
+    expect(formatMechanismTags(['late caffeine', 'inflammation'], 'en')).toBe('Late caffeine, inflammation');
+  });
+
+  it('writes recommendations in the chosen locale', () => {
+    const [recommendation] = calculateHealthModel({ smoking: { level: 3 } }, undefined, 'en').prioritizedRecommendations;
+    expect(recommendation.action).toBe('Cut smoking down to "Daily"');
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * INTERNATIONALISATION
+ *
+ * Message catalogs live in ./messages: Portuguese is the source catalog and every
+ * other locale must translate all of its keys (enforced by the Messages type).
+ * Messages use {placeholder} parameters, filled in by translate().
+ */
+
+import { pt } from './messages/pt';
+import { en } from './messages/en';
+
+export type Locale = 'pt' | 'en';
+
+export const LOCALES: Locale[] = ['pt', 'en'];
+
+export const DEFAULT_LOCALE: Locale = 'pt';
+
+// Each language is listed under its own name in the language switcher
+export const LOCALE_NAMES: Record<Locale, string> = {
+  pt: 'Português',
+  en: 'English',
+};
+
+// BCP 47 tags for dates, numbers and the document language
+export const LOCALE_TAGS: Record<Locale, string> = {
+  pt: 'pt-PT',
+  en: 'en-GB',
+};
+
+export type MessageKey = keyof typeof pt;
+
+export type Messages = Record<MessageKey, string>;
+
+export type MessageParams = Record<string, string | number>;
+
+// Text kept in code rather than in the catalogs, e.g. model names
+export type LocalizedText = Record<Locale, string>;
+
+const CATALOGS: Record<Locale, Messages> = { pt, en };
+
+/**
+ * Narrow any stored value to a supported locale
+ */
+export const isLocale = (value: unknown): value is Locale =>
+  typeof value === 'string' && (LOCALES as string[]).includes(value);
+
+/**
+ * Whether a key built at runtime, e.g. from an id of the data files, has a message
+ */
+export const isMessageKey = (key: string): key is MessageKey => key in pt;
+
+/**
+ * Look up a message and fill in its {placeholders}. Unknown placeholders are left as-is.
+ */
+export const translate = (locale: Locale, key: MessageKey, params?: MessageParams): string => {
+  const message = CATALOGS[locale][key] ?? pt[key];
+  if (!params) return message;
+
+  return message.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder
+  );
+};
+
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+/**
+ * Bind translate() to a locale
+ */
+export const createTranslator = (locale: Locale): Translate =>
+  (key, params) => translate(locale, key, params);
+
+export { formatMechanismTags, getHabitText, getMechanismText, getOrganText } from './localizedData';
+export type { HabitText, OrganText } from './localizedData';
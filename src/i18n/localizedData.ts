@@ -0,0 +1,69 @@
+/**
+ * Localized text of the habit and organ data files. The top-level fields of habits.json,
+ * organs.json and organHabitMappings.json are Portuguese; other locales live under "translations".
+ * Custom habits are written in a single language and show the same text in every locale.
+ */
+
+import { isMessageKey, Locale, translate } from './index';
+import { findHabit, HabitDefinition } from '../utils/habitCatalog';
+import { findOrgan, OrganHabitImpact } from '../utils/dataFiles';
+
+export interface HabitText {
+  name: string;
+  category: string;
+  labels: string[];
+  unit?: string; // Unit of the habit's quantity, for habits that have a dose
+}
+
+export interface OrganText {
+  name: string;
+  system: string;
+  narration: {
+    what_happens: string;
+    what_helps: string;
+  };
+  metricLabels: string[];
+}
+
+/**
+ * Name, category, intensity labels and quantity unit of a habit in the given locale,
+ * looked up among the built-in habits and the given custom ones
+ */
+export const getHabitText = (habitId: string, locale: Locale, customHabits: HabitDefinition[] = []): HabitText => {
+  const habit = findHabit(habitId, customHabits);
+  if (!habit) return { name: habitId, category: '', labels: [] };
+
+  const source = { name: habit.name, category: habit.category, labels: habit.intensity.labels, unit: habit.dose?.unit };
+  return locale === 'pt' ? source : { ...source, ...habit.translations[locale] };
+};
+
+/**
+ * Name, body system, narration and metric labels of an organ in the given locale
+ */
+export const getOrganText = (organId: string, locale: Locale): OrganText => {
+  const organ = findOrgan(organId);
+  if (!organ) {
+    return { name: organId, system: '', narration: { what_happens: '', what_helps: '' }, metricLabels: [] };
+  }
+
+  const source = { name: organ.name, system: organ.system, narration: organ.narration, metricLabels: organ.metricLabels };
+  return locale === 'pt' ? source : { ...source, ...organ.translations[locale] };
+};
+
+/**
+ * How a habit acts on an organ, from its entry in organHabitMappings.json, in the given locale
+ */
+export const getMechanismText = (impact: OrganHabitImpact, locale: Locale): string =>
+  locale === 'pt' ? impact.mechanism : impact.translations[locale]?.mechanism ?? impact.mechanism;
+
+/**
+ * Mechanism tags as a readable sentence in the given locale, e.g. "Dano nos cílios, inflamação".
+ * Tags of custom habits have no label and read as typed.
+ */
+export const formatMechanismTags = (tags: string[], locale: Locale): string => {
+  const text = tags.map(tag => {
+    const key = `mechanismTag.${tag}`;
+    return isMessageKey(key) ? translate(locale, key) : tag.replace(/_/g, ' ');
+  }).join(', ');
+  return text.charAt(0).toUpperCase() + text.slice(1);
+};
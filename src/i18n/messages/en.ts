@@ -0,0 +1,603 @@
+import type { Messages } from '../index';
+
+export const en: Messages = {
+  // App shell
+  'app.title': 'Your habits',
+  'app.subtitle': 'See what bad habits do to your body',
+  'app.model': 'Model: {name}',
+  'app.bodyState': 'Body state',
+  'app.bodyType': 'Obesity',
+  'app.tagline': 'An educational tool for health awareness',
+  'app.disclaimer': 'This application is for educational purposes only. Always consult a qualified health professional for personalised medical advice.',
+  'language.label': 'Language',
+
+  // Shared words
+  'common.before': 'Before',
+  'common.after': 'After',
+  'common.beforeValue': 'before: {value}',
+  'common.afterValue': 'after: {value}',
+  'unit.years': ' years',
+
+  // Headline meters
+  'meter.health': 'General Health',
+  'meter.happiness': 'Happiness',
+  'meter.qualityOfLife': 'Quality of Life',
+  'meter.mentalHealth': 'Mental Health',
+  'meter.lifeExpectancy': 'Life Expectancy',
+  'meter.diseaseRisk': 'Disease Risk',
+  'meter.physicalFitness': 'Physical Fitness',
+  'meter.overallWellness': 'Overall Wellness',
+
+  // Detailed stats
+  'stat.cardioStrain': 'Cardiac Strain',
+  'stat.inflammation': 'Inflammation',
+  'stat.sleepQuality': 'Sleep Quality',
+  'stat.stressLoad': 'Stress Load',
+  'stat.recoveryCapacity': 'Recovery Capacity',
+  'stat.cognitiveFunction': 'Cognitive Function',
+  'stat.immuneSystem': 'Immune System',
+  'stat.metabolicHealth': 'Metabolic Health',
+
+  // Metric names inside sentences, with their article
+  'metric.general_health': 'general health',
+  'metric.mental_health': 'mental health',
+  'metric.quality_of_life': 'quality of life',
+  'metric.physical_fitness': 'physical fitness',
+  'metric.happiness': 'happiness',
+  'metric.life_expectancy': 'life expectancy',
+  'metric.disease_risk': 'disease risk',
+  'metric.overall_wellness': 'overall wellness',
+
+  // Risk levels
+  'status.low': 'Excellent',
+  'status.moderate': 'Good',
+  'status.high': 'Needs attention',
+  'status.critical': 'Critical',
+  'status.overall': 'Overall state: {status}',
+
+  // Recommendation priorities
+  'priority.critical': 'Critical',
+  'priority.high': 'High',
+  'priority.moderate': 'Moderate',
+  'priority.low': 'Low',
+
+  // Habits sidebar
+  'habits.subtitle': 'Adjust the controls to see the impact',
+  'habits.activeInteractions': 'Active interactions',
+  'habits.interactionPair': '{first} + {second} make each other worse (×{multiplier})',
+  'habits.harmful': 'Harmful Habits',
+  'habits.beneficial': 'Beneficial Habits',
+  'habits.current': 'Current: {label}',
+  'habits.quantity': 'Amount ({unit})',
+  'habits.worsensWith': 'Made worse by {partner} (×{multiplier})',
+
+  // Meters panel
+  'meters.title': 'Look inside',
+  'meters.subtitle': 'Health Metrics',
+  'meters.detailed': 'Detailed Metrics',
+  'meters.statBaseline': 'Neutral starting point',
+  'meters.statNoHabits': 'None of your habits moves this stat.',
+  'meters.statDirect': 'direct effect',
+  'explain.open': 'Explain {meter}',
+  'explain.title': 'Why is {meter} at this value?',
+  'explain.hint': 'The meter starts from its baseline and adds the points of every active habit; habit pairs that compound each other appear together. When the total leaves the meter bounds, the cut shows as its own step.',
+  'explain.baseline': 'Baseline (no habits)',
+  'explain.clamping': 'Cut by the bounds',
+  'explain.final': 'Current value',
+  'explain.noHabits': 'No active habit moves this meter.',
+  'explain.interaction': 'Habit pair',
+  'explain.close': 'Close explanation',
+
+  // Body map and projection
+  'bodyMap.projection': 'Projection over time',
+  'bodyMap.projectionMonth': 'Projection month',
+  'bodyMap.tooltip': '{organ}: {score}%',
+  'bodyMap.tooltipMetric': '• {metric}: {score}%',
+  'projection.today': 'Today',
+  'projection.in': 'In {duration}',
+  'projection.year': '{count} year',
+  'projection.years': '{count} years',
+  'projection.month': '{count} month',
+  'projection.months': '{count} months',
+  'projection.join': '{first} and {second}',
+
+  // Timeline
+  'timeline.title': 'Evolution over time',
+  'timeline.series': 'Series to show',
+  'timeline.meters': 'Meters',
+  'timeline.organs': 'Organs',
+  'timeline.target': 'Heading for',
+  'timeline.targetCurrent': 'Keep the current habits',
+  'timeline.targetCompare': 'Back to the "before" of the comparison',
+  'timeline.targetScenarios': 'Scenarios',
+  'timeline.targetQuit': 'Quit a habit',
+  'timeline.quitHabit': 'Without {habit}',
+  'timeline.chart': 'Projection over 10 years',
+  'timeline.yearTick': '{years}y',
+  'timeline.today': 'Today: {value}',
+  'timeline.inTenYears': 'In 10 years: {value}',
+  'timeline.hint': 'The chart starts from the body as it is today. Pick what to head for and click the chart to see the body at that moment: organs degrade slowly and recover at their own pace.',
+  'sensitivity.title': 'Strongest levers',
+  'sensitivity.target': 'Meter or organ to analyse',
+  'sensitivity.chart': 'How much each habit moves it at its best and worst level',
+  'sensitivity.best': 'Habit at its best level',
+  'sensitivity.worst': 'Habit at its worst level',
+  'sensitivity.swing': 'Best level ({bestLevel}): {best} · Worst level ({worstLevel}): {worst}',
+  'sensitivity.empty': 'No habit moves this value.',
+  'sensitivity.hint': 'Each bar shows how much the value would change from your current habits if only that habit went to its best or worst level. The habits at the top matter most for you.',
+
+  // Organ detail
+  'organ.system': '{system} system',
+  'organView.close': 'Close organ view',
+  'organView.status.low': 'Excellent',
+  'organView.status.moderate': 'Good',
+  'organView.status.high': 'Worrying',
+  'organView.status.critical': 'Critical',
+  'organView.currentState': 'Current state: {status}',
+  'organView.healthPercent': '({value}% health)',
+  'organView.beforeValue': 'Before: {value}%',
+  'organView.afterValue': 'After: {value}%',
+  'organView.changes': 'What changed since "Before"',
+  'organView.recommendations': 'Exponential Recommendations',
+  'organView.waterfall': 'From baseline to current health',
+  'organView.waterfallHint': 'Each habit adds points to or takes points from the organ baseline. Next to it you see the mechanism and the level of evidence.',
+  'organView.waterfall.baseline': 'Baseline health',
+  'organView.waterfall.clamp': 'Organ bounds ({min}–{max})',
+  'organView.waterfall.final': 'Current health',
+  'organView.metricBaseline': 'No habit acts on this metric',
+  'evidence.strong': 'Strong evidence',
+  'evidence.moderate': 'Moderate evidence',
+  'evidence.custom': 'Custom',
+  'organView.whatHappens': 'What happens',
+  'organView.whatHelps': 'What helps',
+  'organView.metrics': 'Monitored Metrics',
+  'organView.metricsHint': 'The organ health is the average of these metrics; each habit counts in the metrics it acts on.',
+  'organView.recoveryTips': 'Recovery Tips',
+  'organView.tip.reduceHarmful': 'Gradually cut down on harmful habits',
+  'organView.tip.exercise': 'Increase regular physical activity',
+  'organView.tip.diet': 'Keep a balanced diet',
+  'organView.tip.sleep': 'Make sure you get restful sleep',
+  'organView.tip.medical': 'Seek medical support if needed',
+  'organView.tip.smoking': 'Consider a smoking cessation programme',
+  'organView.tip.alcohol': 'Gradually reduce your alcohol intake',
+  'organView.tip.hydration': 'Stay properly hydrated',
+  'organView.disclaimer': 'This information uses exponential calculations based on medical research and is for educational purposes only. Consult a health professional for medical advice.',
+
+  // Profile
+  'profile.title': 'Your profile',
+  'profile.health': 'Health',
+  'profile.years': 'Years',
+  'profile.risk': 'Risk',
+  'profile.harmfulCount': '{count} harmful',
+  'profile.beneficialCount': '{count} beneficial',
+  'profile.recommendations': 'Priority recommendations',
+
+  // Demographics
+  'demographics.title': 'Personal details',
+  'demographics.intro': 'They adjust the starting values to your age, body and family.',
+  'demographics.age': 'Age',
+  'demographics.ageValue': '{value} years',
+  'demographics.sex': 'Sex',
+  'demographics.sex.unspecified': 'Not stated',
+  'demographics.sex.female': 'Female',
+  'demographics.sex.male': 'Male',
+  'demographics.height': 'Height',
+  'demographics.weight': 'Weight',
+  'demographics.bmi': 'BMI {value}',
+  'demographics.familyHistory': 'Family history',
+  'demographics.familyHistoryCount': 'Family history ({count})',
+  'demographics.baselines': 'With no habits: life expectancy {years} years, disease risk {risk}%',
+  'demographics.reset': 'Reset',
+  'riskFactor.respiratory_infection': 'Respiratory infections',
+  'riskFactor.copd': 'COPD',
+  'riskFactor.lung_cancer': 'Lung cancer',
+  'riskFactor.heart_attack': 'Heart attack',
+  'riskFactor.stroke': 'Stroke',
+  'riskFactor.hypertension': 'Hypertension',
+  'riskFactor.dementia': 'Dementia',
+  'riskFactor.depression': 'Depression',
+  'riskFactor.cognitive_decline': 'Cognitive decline',
+  'riskFactor.fatty_liver': 'Fatty liver',
+  'riskFactor.cirrhosis': 'Cirrhosis',
+  'riskFactor.liver_cancer': 'Liver cancer',
+  'riskFactor.kidney_disease': 'Kidney disease',
+  'riskFactor.kidney_stones': 'Kidney stones',
+  'riskFactor.ibs': 'Irritable bowel syndrome',
+  'riskFactor.inflammatory_bowel': 'Inflammatory bowel disease',
+  'riskFactor.digestive_issues': 'Digestive issues',
+  'riskFactor.premature_aging': 'Premature aging',
+  'riskFactor.skin_cancer': 'Skin cancer',
+  'riskFactor.dermatitis': 'Dermatitis',
+  'riskFactor.gastritis': 'Gastritis',
+  'riskFactor.peptic_ulcer': 'Peptic ulcer',
+  'riskFactor.acid_reflux': 'Acid reflux',
+  'riskFactor.type2_diabetes': 'Type 2 diabetes',
+  'riskFactor.pancreatitis': 'Pancreatitis',
+  'riskFactor.pancreatic_cancer': 'Pancreatic cancer',
+  'riskFactor.infertility': 'Infertility',
+  'riskFactor.hormonal_imbalance': 'Hormonal imbalance',
+  'riskFactor.sexual_dysfunction': 'Sexual dysfunction',
+  'riskFactor.atherosclerosis': 'Atherosclerosis',
+  'riskFactor.peripheral_artery_disease': 'Peripheral artery disease',
+  'riskFactor.varicose_veins': 'Varicose veins',
+  'riskFactor.osteoporosis': 'Osteoporosis',
+  'riskFactor.osteoarthritis': 'Osteoarthritis',
+  'riskFactor.fractures': 'Fractures',
+  'riskFactor.glaucoma': 'Glaucoma',
+  'riskFactor.macular_degeneration': 'Macular degeneration',
+  'riskFactor.cataracts': 'Cataracts',
+  'riskFactor.cavities': 'Cavities',
+  'riskFactor.gum_disease': 'Gum disease',
+  'riskFactor.tooth_loss': 'Tooth loss',
+
+  // Mechanism tags of habits.json
+  'mechanismTag.tar': 'tar',
+  'mechanismTag.cilia_damage': 'cilia damage',
+  'mechanismTag.inflammation': 'inflammation',
+  'mechanismTag.atherosclerosis': 'atherosclerosis',
+  'mechanismTag.blood_pressure': 'blood pressure',
+  'mechanismTag.oxygen_reduction': 'oxygen reduction',
+  'mechanismTag.stroke_risk': 'stroke risk',
+  'mechanismTag.premature_aging': 'premature ageing',
+  'mechanismTag.wrinkles': 'wrinkles',
+  'mechanismTag.ulcer_risk': 'ulcer risk',
+  'mechanismTag.mucosal_defence_loss': 'loss of mucosal defence',
+  'mechanismTag.cancer_risk': 'cancer risk',
+  'mechanismTag.reduced_fertility': 'reduced fertility',
+  'mechanismTag.poor_blood_flow': 'poor blood flow',
+  'mechanismTag.endothelial_damage': 'endothelial damage',
+  'mechanismTag.arterial_stiffening': 'arterial stiffening',
+  'mechanismTag.bone_density_loss': 'bone density loss',
+  'mechanismTag.macular_degeneration': 'macular degeneration',
+  'mechanismTag.cataract_risk': 'cataract risk',
+  'mechanismTag.gum_disease': 'gum disease',
+  'mechanismTag.staining': 'staining',
+  'mechanismTag.fatty_liver': 'fatty liver',
+  'mechanismTag.fibrosis': 'fibrosis',
+  'mechanismTag.neurotoxicity': 'neurotoxicity',
+  'mechanismTag.memory_impairment': 'memory impairment',
+  'mechanismTag.cardiomyopathy': 'cardiomyopathy',
+  'mechanismTag.arrhythmia': 'arrhythmia',
+  'mechanismTag.leaky_gut': 'leaky gut',
+  'mechanismTag.microbiome_disruption': 'microbiome disruption',
+  'mechanismTag.gastritis': 'gastritis',
+  'mechanismTag.mucosal_irritation': 'mucosal irritation',
+  'mechanismTag.pancreatitis': 'pancreatitis',
+  'mechanismTag.enzyme_disruption': 'enzyme disruption',
+  'mechanismTag.hormone_disruption': 'hormone disruption',
+  'mechanismTag.calcium_malabsorption': 'calcium malabsorption',
+  'mechanismTag.enamel_erosion': 'enamel erosion',
+  'mechanismTag.dry_mouth': 'dry mouth',
+  'mechanismTag.dopamine_disruption': 'dopamine disruption',
+  'mechanismTag.cardiac_stress': 'cardiac stress',
+  'mechanismTag.hepatotoxicity': 'hepatotoxicity',
+  'mechanismTag.metabolism_stress': 'metabolic stress',
+  'mechanismTag.nephrotoxicity': 'nephrotoxicity',
+  'mechanismTag.dehydration': 'dehydration',
+  'mechanismTag.sexual_dysfunction': 'sexual dysfunction',
+  'mechanismTag.bruxism': 'bruxism',
+  'mechanismTag.dopamine_desensitization': 'dopamine desensitisation',
+  'mechanismTag.addiction_pathways': 'addiction pathways',
+  'mechanismTag.dopamine_dysregulation': 'dopamine dysregulation',
+  'mechanismTag.attention_problems': 'attention problems',
+  'mechanismTag.poor_hygiene': 'poor hygiene',
+  'mechanismTag.stress_acne': 'stress acne',
+  'mechanismTag.poor_posture': 'poor posture',
+  'mechanismTag.repetitive_strain': 'repetitive strain',
+  'mechanismTag.digital_eye_strain': 'digital eye strain',
+  'mechanismTag.dry_eyes': 'dry eyes',
+  'mechanismTag.deconditioning': 'deconditioning',
+  'mechanismTag.poor_circulation': 'poor circulation',
+  'mechanismTag.reduced_neuroplasticity': 'reduced neuroplasticity',
+  'mechanismTag.mood_issues': 'mood issues',
+  'mechanismTag.slow_digestion': 'slow digestion',
+  'mechanismTag.microbiome_changes': 'microbiome changes',
+  'mechanismTag.insulin_resistance': 'insulin resistance',
+  'mechanismTag.fatty_accumulation': 'fat accumulation',
+  'mechanismTag.bone_loss': 'bone loss',
+  'mechanismTag.joint_stiffness': 'joint stiffness',
+  'mechanismTag.cognitive_decline': 'cognitive decline',
+  'mechanismTag.acid_reflux': 'acid reflux',
+  'mechanismTag.sugar_spikes': 'sugar spikes',
+  'mechanismTag.plaque_buildup': 'plaque buildup',
+  'mechanismTag.nutrient_deficiency': 'nutrient deficiency',
+  'mechanismTag.retinal_vessel_damage': 'retinal vessel damage',
+  'mechanismTag.sugar': 'sugar',
+  'mechanismTag.cavities': 'cavities',
+  'mechanismTag.depression': 'depression',
+  'mechanismTag.anxiety': 'anxiety',
+  'mechanismTag.stress_hormones': 'stress hormones',
+  'mechanismTag.stress_response': 'stress response',
+  'mechanismTag.cortisol_elevation': 'cortisol elevation',
+  'mechanismTag.neuroinflammation': 'neuroinflammation',
+  'mechanismTag.hypertension': 'hypertension',
+  'mechanismTag.digestive_issues': 'digestive issues',
+  'mechanismTag.stress_aging': 'stress ageing',
+  'mechanismTag.breakouts': 'breakouts',
+  'mechanismTag.acid_hypersecretion': 'acid hypersecretion',
+  'mechanismTag.slow_emptying': 'slow gastric emptying',
+  'mechanismTag.cortisol_suppression': 'cortisol suppression',
+  'mechanismTag.vasoconstriction': 'vasoconstriction',
+  'mechanismTag.neuroplasticity': 'neuroplasticity',
+  'mechanismTag.stress_reduction': 'stress reduction',
+  'mechanismTag.parasympathetic_activation': 'parasympathetic activation',
+  'mechanismTag.lower_bp': 'lower blood pressure',
+  'mechanismTag.vagal_tone': 'vagal tone',
+  'mechanismTag.acid_regulation': 'acid regulation',
+  'mechanismTag.cognitive_reserve': 'cognitive reserve',
+  'mechanismTag.emotional_processing': 'emotional processing',
+  'mechanismTag.cardiovascular_fitness': 'cardiovascular fitness',
+  'mechanismTag.bdnf_increase': 'BDNF increase',
+  'mechanismTag.neurogenesis': 'neurogenesis',
+  'mechanismTag.improved_metabolism': 'improved metabolism',
+  'mechanismTag.fat_oxidation': 'fat oxidation',
+  'mechanismTag.microbiome_diversity': 'microbiome diversity',
+  'mechanismTag.motility': 'motility',
+  'mechanismTag.insulin_sensitivity': 'insulin sensitivity',
+  'mechanismTag.glucose_uptake': 'glucose uptake',
+  'mechanismTag.hormone_balance': 'hormone balance',
+  'mechanismTag.blood_flow': 'blood flow',
+  'mechanismTag.nitric_oxide': 'nitric oxide',
+  'mechanismTag.arterial_elasticity': 'arterial elasticity',
+  'mechanismTag.bone_loading': 'bone loading',
+  'mechanismTag.joint_mobility': 'joint mobility',
+  'mechanismTag.retinal_blood_flow': 'retinal blood flow',
+  'mechanismTag.oxytocin_release': 'oxytocin release',
+  'mechanismTag.reduced_depression': 'reduced depression',
+  'mechanismTag.stress_buffering': 'stress buffering',
+  'mechanismTag.longevity': 'longevity',
+  'mechanismTag.microbiome_health': 'microbiome health',
+  'mechanismTag.fiber_benefits': 'fibre benefits',
+  'mechanismTag.detoxification': 'detoxification',
+  'mechanismTag.nutrient_processing': 'nutrient processing',
+  'mechanismTag.anti_inflammatory': 'anti-inflammatory',
+  'mechanismTag.cholesterol_balance': 'cholesterol balance',
+  'mechanismTag.cognitive_support': 'cognitive support',
+  'mechanismTag.neuroprotection': 'neuroprotection',
+  'mechanismTag.mucosal_protection': 'mucosal protection',
+  'mechanismTag.stable_blood_sugar': 'stable blood sugar',
+  'mechanismTag.antioxidants': 'antioxidants',
+  'mechanismTag.plaque_reduction': 'plaque reduction',
+  'mechanismTag.calcium_vitamin_d': 'calcium and vitamin D',
+  'mechanismTag.retinal_protection': 'retinal protection',
+  'mechanismTag.enamel_minerals': 'enamel minerals',
+  'mechanismTag.memory_consolidation': 'memory consolidation',
+  'mechanismTag.glymphatic_clearance': 'glymphatic clearance',
+  'mechanismTag.recovery': 'recovery',
+  'mechanismTag.rhythm_regulation': 'rhythm regulation',
+  'mechanismTag.circadian_metabolism': 'circadian metabolism',
+  'mechanismTag.detox_cycles': 'detox cycles',
+  'mechanismTag.mucosal_repair': 'mucosal repair',
+  'mechanismTag.circadian_glucose_control': 'circadian glucose control',
+  'mechanismTag.hormone_production': 'hormone production',
+  'mechanismTag.bone_repair': 'bone repair',
+  'mechanismTag.tear_film_recovery': 'tear film recovery',
+  'mechanismTag.filtration_efficiency': 'filtration efficiency',
+  'mechanismTag.waste_removal': 'waste removal',
+  'mechanismTag.cognitive_performance': 'cognitive performance',
+  'mechanismTag.headache_prevention': 'headache prevention',
+  'mechanismTag.hydration': 'hydration',
+  'mechanismTag.elasticity': 'elasticity',
+  'mechanismTag.blood_volume': 'blood volume',
+  'mechanismTag.saliva_flow': 'saliva flow',
+
+  // Custom habits
+  'customHabits.title': 'Custom habits',
+  'customHabits.intro': 'Create habits the atlas does not ship, such as caffeine, screens before bed or sun exposure. They show up in the habit list and count in the calculations.',
+  'customHabits.new': 'New habit',
+  'customHabits.badge': 'Custom',
+  'customHabits.name': 'Name',
+  'customHabits.kind': 'Kind',
+  'customHabits.kind.bad': 'Harmful',
+  'customHabits.kind.good': 'Beneficial',
+  'customHabits.category': 'Category',
+  'customHabits.defaultCategory': 'Custom',
+  'customHabits.labels': 'Level labels',
+  'customHabits.labelLevel': 'Label of level {level}',
+  'customHabits.defaultLabel.0': 'Never',
+  'customHabits.defaultLabel.1': 'Sometimes',
+  'customHabits.defaultLabel.2': 'Often',
+  'customHabits.defaultLabel.3': 'Daily',
+  'customHabits.organs': 'Affected organs ({count})',
+  'customHabits.weight': 'Mechanism weight',
+  'customHabits.mechanism': 'Mechanism',
+  'customHabits.mechanismPlaceholder': 'E.g. inflammation, blood pressure',
+  'customHabits.defaultMechanism': 'User-defined effect',
+  'customHabits.effects': 'Effects on the meters',
+  'customHabits.effectsHint': 'Points at the maximum level, from -30 to 30. Positive raises the meter (for disease risk, higher is worse). Only the curve model uses them; the weights model uses the organs.',
+  'customHabits.edit': 'Edit {name}',
+  'customHabits.delete': 'Delete {name}',
+  'customHabits.confirmDelete': 'Delete the habit "{name}"? It is also removed from every scenario.',
+  'customHabits.save': 'Save',
+  'customHabits.cancel': 'Cancel',
+  'customHabits.error.notHabit': 'The habit definition is not an object.',
+  'customHabits.error.id': 'Invalid identifier: {id}.',
+  'customHabits.error.name': 'A name is required (up to {max} characters).',
+  'customHabits.error.kind': 'The kind must be harmful or beneficial.',
+  'customHabits.error.category': 'A category is required (up to {max} characters).',
+  'customHabits.error.labels': '{count} level labels are required, none of them empty.',
+  'customHabits.error.mechanisms': 'Missing list of affected organs.',
+  'customHabits.error.organ': 'Invalid or repeated organ: {organ}.',
+  'customHabits.error.weight': 'The weight on "{organ}" must be between {min} and {max}.',
+  'customHabits.error.tags': 'The mechanism on "{organ}" accepts up to {max} short terms.',
+  'customHabits.error.effects': 'The effects must give points per meter.',
+  'customHabits.error.effect': 'Invalid effect on "{metric}".',
+  'customHabits.error.noEffect': 'Pick at least one affected organ or one meter effect.',
+
+  // Model selector
+  'model.title': 'Calculation model',
+
+  // Habit journal
+  'journal.title': 'Habit journal',
+  'journal.mode': 'Habit mode',
+  'journal.simulate': 'Simulate',
+  'journal.log': 'Log today',
+  'journal.logHint': 'The buttons log today and the meters follow the average of the last {days} days, kept in a scenario of its own so yours are left alone.',
+  'journal.scenarioName': 'Journal (average)',
+  'journal.window': 'Average of the last',
+  'journal.days': '{count} days',
+  'journal.habit': 'Habit',
+  'journal.today': 'Today: {label}',
+  'journal.notLoggedToday': 'Not logged today yet',
+  'journal.average': 'Average: {label}',
+  'journal.streak': '{count} days in a row on track',
+  'journal.noStreak': 'No active streak',
+  'journal.heatmap': 'Last {weeks} weeks',
+  'journal.day': '{date}: {label}',
+  'journal.notLogged': 'not logged',
+  'journal.empty': 'No days logged yet. Switch the habits to "Log today" to start.',
+
+  // Meter history
+  'history.title': 'History',
+  'history.range': 'Period',
+  'history.week': 'Week',
+  'history.month': 'Month',
+  'history.year': 'Year',
+  'history.view': 'Series',
+  'history.meters': 'Meters',
+  'history.stats': 'Stats',
+  'history.organs': 'Organs',
+  'history.empty': 'The history starts when you change a habit.',
+  'history.changes': '{date}: {changes}',
+  'history.change': '{habit} {from} → {to}',
+
+  // Goal planner
+  'goal.title': 'Plan a goal',
+  'goal.metric': 'Meter or organ',
+  'goal.target': 'Target value',
+  'goal.atLeast': 'at least',
+  'goal.atMost': 'at most',
+  'goal.current': 'Now: {value}',
+  'goal.plan': 'Plan',
+  'goal.alreadyReached': 'Your current habits already meet this goal.',
+  'goal.reachable': '{count} one-level changes get you to {value}.',
+  'goal.unreachable': 'This is out of reach within {count} changes; the closest is {value}.',
+  'goal.step': '{habit}: {from} → {to}',
+  'goal.effort': 'Total effort: {effort}',
+  'goal.apply': 'Apply the ticked steps',
+
+  // Comparison
+  'compare.title': 'Compare',
+  'compare.start': 'Start comparison',
+  'compare.stop': 'End comparison',
+  'compare.noChanges': 'Adjust a habit to see what changes.',
+  'compare.captureBefore': 'Use the current state as "Before"',
+  'compare.showingBefore': 'Showing the state before the habit changes. Switch to "After" to see the difference.',
+  'compare.showingAfter': 'Showing the state after the habit changes. Compare it with the "Before" state.',
+
+  // Delta indicator
+  'delta.up': 'Up {value}',
+  'delta.down': 'Down {value}',
+
+  // Accessibility
+  'accessibility.title': 'Accessibility',
+  'accessibility.reduceMotion': 'Reduce motion',
+  'accessibility.highContrast': 'High contrast',
+  'accessibility.hint': 'These options help make the application more accessible for users with special needs.',
+
+  // Scenarios
+  'scenarios.title': 'Scenarios',
+  'scenarios.new': 'New',
+  'scenarios.defaultName': 'Scenario {number}',
+  'scenarios.current': 'Current me',
+  'scenarios.copyName': '{name} (copy)',
+  'scenarios.nameLabel': 'Scenario name',
+  'scenarios.saveName': 'Save name',
+  'scenarios.rename': 'Rename {name}',
+  'scenarios.duplicate': 'Duplicate {name}',
+  'scenarios.delete': 'Delete {name}',
+  'scenarios.confirmDelete': 'Delete the scenario "{name}"?',
+  'scenarios.showDiff': 'Show differences between scenarios',
+  'scenarios.hideDiff': 'Hide differences',
+  'diff.title': 'Differences between scenarios',
+  'diff.scenarioA': 'Scenario A',
+  'diff.scenarioB': 'Scenario B',
+  'diff.identical': 'Both scenarios have the same habits.',
+  'diff.habits': 'Habits',
+  'diff.meters': 'Meters',
+  'diff.organs': 'Organs',
+
+  // Share links
+  'share.copy': 'Copy link',
+  'share.copied': 'Link copied',
+  'share.copyPrompt': 'Copy this link:',
+  'share.invalid': 'This profile link is incomplete or damaged. Your data was not changed.',
+  'share.unsupportedVersion': 'This link was created by a different version of Atlas de Hábitos and cannot be opened. Your data was not changed.',
+  'share.opened': 'You opened a shared profile. It was saved as a new scenario.',
+  'share.scenarioName': 'Shared profile',
+  'share.dismiss': 'Dismiss notice',
+
+  // JSON export and import
+  'data.button': 'Data',
+  'data.export': 'Export data (JSON)',
+  'data.import': 'Import data (JSON)',
+  'data.importFailed': 'The file could not be imported:\n\n{errors}',
+  'data.unreadable': 'The file could not be read.',
+  'data.importedName': 'Imported',
+  'stateFile.invalidJson': 'The file is not valid JSON.',
+  'stateFile.notAtlas': 'The file is not an Atlas de Hábitos export.',
+  'stateFile.unsupportedVersion': 'Unsupported file version: {version}.',
+  'stateFile.invalidDate': 'Missing or invalid export date.',
+  'stateFile.missingHabits': 'Missing habit list.',
+  'stateFile.unknownHabit': 'Unknown habit: "{habitId}".',
+  'stateFile.invalidLevel': 'Invalid level for "{habitId}": {level} (must be an integer from 0 to 3).',
+  'stateFile.invalidQuantity': 'Invalid quantity for "{habitId}": {quantity}.',
+  'stateFile.invalidAccessibility': 'Missing or invalid accessibility settings.',
+  'stateFile.missingModel': 'Missing calculation model.',
+  'stateFile.invalidCustomHabits': 'Invalid list of custom habits.',
+  'stateFile.invalidCustomHabit': 'Custom habit {index}: {error}',
+
+  // Image export
+  'export.button': 'Export',
+  'export.exporting': 'Exporting...',
+  'export.capturing': 'Capturing an image of your Atlas de Hábitos...',
+  'export.processing': 'Processing...',
+  'export.save': 'Save as image',
+  'export.failed': 'Error exporting the image. Please try again.',
+
+  // PDF report
+  'report.button': 'PDF report',
+  'report.generating': 'Generating...',
+  'report.failed': 'Error generating the PDF report. Please try again.',
+  'report.title': 'Health report',
+  'report.subtitle': '{scenario} | {date} | Model: {model}',
+  'report.summary': 'Health {health} | Life expectancy {lifeExpectancy} years | Disease risk {diseaseRisk}%',
+  'report.years': '{value} years',
+  'report.meters': 'Meters',
+  'report.detailedStats': 'Detailed metrics',
+  'report.organs': 'Organs',
+  'report.whatHappens': 'What happens: {text}',
+  'report.whatHelps': 'What helps: {text}',
+  'report.recommendations': 'Priority recommendations',
+  'report.noRecommendations': 'There are no priority recommendations for the current habits.',
+  'report.priority': 'Priority: {priority}. {rationale}',
+
+  // Organ messages
+  'organMessage.low': '{organ} in excellent condition',
+  'organMessage.moderate': '{organ} showing some signs of stress',
+  'organMessage.high': '{organ} in a worrying state',
+  'organMessage.critical': '{organ} in a critical state',
+  'organMessage.mainCause': ', mainly because of: {habit}',
+  'organMessage.secondCause': ' and {habit}',
+  'organMessage.helpingRecovery': '. Fortunately, {habit} is helping it recover',
+  'organMessage.benefiting': ', benefiting from {habit}',
+  'organMessage.current': '. Current state: {health}% health.',
+  'organMessage.seeProfessional': ' Consulting a health professional is recommended.',
+
+  // Factor explanations
+  'explanation.intensity.dramatically': 'dramatically',
+  'explanation.intensity.significantly': 'significantly',
+  'explanation.intensity.moderately': 'moderately',
+  'explanation.habit.improves': '{habit} at level {level} {intensity} improves {metric} by {points} points.',
+  'explanation.habit.reduces': '{habit} at level {level} {intensity} reduces {metric} by {points} points.',
+  'explanation.interaction.adds': '{first} and {second} amplify each other (×{multiplier}), which raises {metric} by another {points} points.',
+  'explanation.interaction.removes': '{first} and {second} amplify each other (×{multiplier}), which lowers {metric} by another {points} points.',
+  'explanation.organs': '{habit} changes organ health by {points} points across {organs}.',
+  'interaction.mechanism': 'Combined effect amplified ×{multiplier}',
+
+  // Recommendations
+  'recommendation.reduce': 'Cut {habit} down to "{level}"',
+  'recommendation.increase': 'Raise {habit} to "{level}"',
+  'recommendation.rationale': 'Biggest effect: {highlights}.',
+  'recommendation.impact': 'Expected impact: {value} points on average across meters and organs',
+};
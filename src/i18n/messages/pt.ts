@@ -0,0 +1,602 @@
+// Source catalog: every key defined here must be translated in the other locales
+export const pt = {
+  // App shell
+  'app.title': 'Os teus hábitos',
+  'app.subtitle': 'Vê o que os maus hábitos fazem ao teu corpo',
+  'app.model': 'Modelo: {name}',
+  'app.bodyState': 'Estado do corpo',
+  'app.bodyType': 'Obesidade',
+  'app.tagline': 'Uma ferramenta educativa para consciencialização sobre saúde',
+  'app.disclaimer': 'Esta aplicação destina-se apenas a fins educativos. Consulta sempre um profissional de saúde qualificado para orientação médica personalizada.',
+  'language.label': 'Idioma',
+
+  // Shared words
+  'common.before': 'Antes',
+  'common.after': 'Depois',
+  'common.beforeValue': 'antes: {value}',
+  'common.afterValue': 'depois: {value}',
+  'unit.years': ' anos',
+
+  // Headline meters
+  'meter.health': 'Saúde Geral',
+  'meter.happiness': 'Felicidade',
+  'meter.qualityOfLife': 'Qualidade de Vida',
+  'meter.mentalHealth': 'Saúde Mental',
+  'meter.lifeExpectancy': 'Esperança de Vida',
+  'meter.diseaseRisk': 'Risco de Doença',
+  'meter.physicalFitness': 'Forma Física',
+  'meter.overallWellness': 'Bem-estar Geral',
+
+  // Detailed stats
+  'stat.cardioStrain': 'Tensão Cardíaca',
+  'stat.inflammation': 'Inflamação',
+  'stat.sleepQuality': 'Qualidade do Sono',
+  'stat.stressLoad': 'Carga de Stress',
+  'stat.recoveryCapacity': 'Capacidade de Recuperação',
+  'stat.cognitiveFunction': 'Função Cognitiva',
+  'stat.immuneSystem': 'Sistema Imunitário',
+  'stat.metabolicHealth': 'Saúde Metabólica',
+
+  // Metric names inside sentences, with their article
+  'metric.general_health': 'a saúde geral',
+  'metric.mental_health': 'a saúde mental',
+  'metric.quality_of_life': 'a qualidade de vida',
+  'metric.physical_fitness': 'a forma física',
+  'metric.happiness': 'a felicidade',
+  'metric.life_expectancy': 'a esperança de vida',
+  'metric.disease_risk': 'o risco de doença',
+  'metric.overall_wellness': 'o bem-estar geral',
+
+  // Risk levels
+  'status.low': 'Excelente',
+  'status.moderate': 'Bom',
+  'status.high': 'Precisa de atenção',
+  'status.critical': 'Crítico',
+  'status.overall': 'Estado geral: {status}',
+
+  // Recommendation priorities
+  'priority.critical': 'Crítica',
+  'priority.high': 'Alta',
+  'priority.moderate': 'Moderada',
+  'priority.low': 'Baixa',
+
+  // Habits sidebar
+  'habits.subtitle': 'Ajusta os controlos para ver o impacto',
+  'habits.activeInteractions': 'Interações ativas',
+  'habits.interactionPair': '{first} + {second} agravam-se mutuamente (×{multiplier})',
+  'habits.harmful': 'Hábitos Prejudiciais',
+  'habits.beneficial': 'Hábitos Benéficos',
+  'habits.current': 'Atual: {label}',
+  'habits.quantity': 'Quantidade ({unit})',
+  'habits.worsensWith': 'Agrava-se com {partner} (×{multiplier})',
+
+  // Meters panel
+  'meters.title': 'Ver por dentro',
+  'meters.subtitle': 'Métricas de Saúde',
+  'meters.detailed': 'Métricas Detalhadas',
+  'meters.statBaseline': 'Ponto de partida neutro',
+  'meters.statNoHabits': 'Nenhum dos teus hábitos mexe neste indicador.',
+  'meters.statDirect': 'efeito direto',
+  'explain.open': 'Explicar {meter}',
+  'explain.title': 'Porque está {meter} neste valor?',
+  'explain.hint': 'O medidor parte do valor base e soma os pontos de cada hábito ativo; os pares de hábitos que se agravam aparecem juntos. Quando o total sai dos limites do medidor, o corte aparece num passo próprio.',
+  'explain.baseline': 'Valor base (sem hábitos)',
+  'explain.clamping': 'Corte pelos limites',
+  'explain.final': 'Valor atual',
+  'explain.noHabits': 'Nenhum hábito ativo mexe neste medidor.',
+  'explain.interaction': 'Par de hábitos',
+  'explain.close': 'Fechar explicação',
+
+  // Body map and projection
+  'bodyMap.projection': 'Projeção no tempo',
+  'bodyMap.projectionMonth': 'Mês da projeção',
+  'bodyMap.tooltip': '{organ}: {score}%',
+  'bodyMap.tooltipMetric': '• {metric}: {score}%',
+  'projection.today': 'Hoje',
+  'projection.in': 'Daqui a {duration}',
+  'projection.year': '{count} ano',
+  'projection.years': '{count} anos',
+  'projection.month': '{count} mês',
+  'projection.months': '{count} meses',
+  'projection.join': '{first} e {second}',
+
+  // Timeline
+  'timeline.title': 'Evolução no tempo',
+  'timeline.series': 'Série a mostrar',
+  'timeline.meters': 'Medidores',
+  'timeline.organs': 'Órgãos',
+  'timeline.target': 'Rumo a',
+  'timeline.targetCurrent': 'Manter os hábitos atuais',
+  'timeline.targetCompare': 'Voltar ao "antes" da comparação',
+  'timeline.targetScenarios': 'Cenários',
+  'timeline.targetQuit': 'Deixar um hábito',
+  'timeline.quitHabit': 'Sem {habit}',
+  'timeline.chart': 'Projeção ao longo de 10 anos',
+  'timeline.yearTick': '{years}a',
+  'timeline.today': 'Hoje: {value}',
+  'timeline.inTenYears': 'Daqui a 10 anos: {value}',
+  'timeline.hint': 'O gráfico parte do corpo de hoje. Escolhe para onde projetar e clica no gráfico para ver o corpo nesse momento: os órgãos degradam-se lentamente e recuperam ao ritmo próprio de cada um.',
+  'sensitivity.title': 'Alavancas mais fortes',
+  'sensitivity.target': 'Medidor ou órgão a analisar',
+  'sensitivity.chart': 'Quanto muda com cada hábito no melhor e no pior nível',
+  'sensitivity.best': 'Hábito no melhor nível',
+  'sensitivity.worst': 'Hábito no pior nível',
+  'sensitivity.swing': 'Melhor nível ({bestLevel}): {best} · Pior nível ({worstLevel}): {worst}',
+  'sensitivity.empty': 'Nenhum hábito mexe neste valor.',
+  'sensitivity.hint': 'Cada barra mostra quanto o valor mudaria a partir dos teus hábitos atuais se apenas esse hábito fosse para o melhor ou para o pior nível. Os hábitos no topo são os que mais pesam para ti.',
+
+  // Organ detail
+  'organ.system': 'Sistema {system}',
+  'organView.close': 'Fechar vista do órgão',
+  'organView.status.low': 'Excelente',
+  'organView.status.moderate': 'Bom',
+  'organView.status.high': 'Preocupante',
+  'organView.status.critical': 'Crítico',
+  'organView.currentState': 'Estado atual: {status}',
+  'organView.healthPercent': '({value}% de saúde)',
+  'organView.beforeValue': 'Antes: {value}%',
+  'organView.afterValue': 'Depois: {value}%',
+  'organView.changes': 'O que mudou desde "Antes"',
+  'organView.recommendations': 'Recomendações Exponenciais',
+  'organView.waterfall': 'Da saúde base ao valor atual',
+  'organView.waterfallHint': 'Cada hábito soma ou tira pontos à saúde base do órgão. Ao lado vês o mecanismo e o nível de evidência.',
+  'organView.waterfall.baseline': 'Saúde base',
+  'organView.waterfall.clamp': 'Limite do órgão ({min}–{max})',
+  'organView.waterfall.final': 'Saúde atual',
+  'organView.metricBaseline': 'Nenhum hábito atua nesta métrica',
+  'evidence.strong': 'Evidência forte',
+  'evidence.moderate': 'Evidência moderada',
+  'evidence.custom': 'Personalizado',
+  'organView.whatHappens': 'O que acontece',
+  'organView.whatHelps': 'O que ajuda',
+  'organView.metrics': 'Métricas Monitorizadas',
+  'organView.metricsHint': 'A saúde do órgão é a média destas métricas; cada hábito conta nas métricas em que atua.',
+  'organView.recoveryTips': 'Dicas de Recuperação',
+  'organView.tip.reduceHarmful': 'Reduz gradualmente os hábitos prejudiciais',
+  'organView.tip.exercise': 'Aumenta a atividade física regular',
+  'organView.tip.diet': 'Mantém uma alimentação equilibrada',
+  'organView.tip.sleep': 'Garante um sono reparador',
+  'organView.tip.medical': 'Procura apoio médico se necessário',
+  'organView.tip.smoking': 'Considera programas de cessação tabágica',
+  'organView.tip.alcohol': 'Reduz o consumo de álcool gradualmente',
+  'organView.tip.hydration': 'Mantém uma hidratação adequada',
+  'organView.disclaimer': 'Esta informação usa cálculos exponenciais baseados em investigação médica e destina-se apenas a fins educativos. Consulta um profissional de saúde para orientação médica.',
+
+  // Profile
+  'profile.title': 'O teu perfil',
+  'profile.health': 'Saúde',
+  'profile.years': 'Anos',
+  'profile.risk': 'Risco',
+  'profile.harmfulCount': '{count} prejudiciais',
+  'profile.beneficialCount': '{count} benéficos',
+  'profile.recommendations': 'Recomendações prioritárias',
+
+  // Demographics
+  'demographics.title': 'Dados pessoais',
+  'demographics.intro': 'Ajustam os valores de partida à tua idade, corpo e família.',
+  'demographics.age': 'Idade',
+  'demographics.ageValue': '{value} anos',
+  'demographics.sex': 'Sexo',
+  'demographics.sex.unspecified': 'Não indicado',
+  'demographics.sex.female': 'Feminino',
+  'demographics.sex.male': 'Masculino',
+  'demographics.height': 'Altura',
+  'demographics.weight': 'Peso',
+  'demographics.bmi': 'IMC {value}',
+  'demographics.familyHistory': 'Historial familiar',
+  'demographics.familyHistoryCount': 'Historial familiar ({count})',
+  'demographics.baselines': 'Sem hábitos: esperança de vida {years} anos, risco de doença {risk}%',
+  'demographics.reset': 'Repor',
+  'riskFactor.respiratory_infection': 'Infeções respiratórias',
+  'riskFactor.copd': 'DPOC',
+  'riskFactor.lung_cancer': 'Cancro do pulmão',
+  'riskFactor.heart_attack': 'Enfarte',
+  'riskFactor.stroke': 'AVC',
+  'riskFactor.hypertension': 'Hipertensão',
+  'riskFactor.dementia': 'Demência',
+  'riskFactor.depression': 'Depressão',
+  'riskFactor.cognitive_decline': 'Declínio cognitivo',
+  'riskFactor.fatty_liver': 'Fígado gordo',
+  'riskFactor.cirrhosis': 'Cirrose',
+  'riskFactor.liver_cancer': 'Cancro do fígado',
+  'riskFactor.kidney_disease': 'Doença renal',
+  'riskFactor.kidney_stones': 'Pedras nos rins',
+  'riskFactor.ibs': 'Síndrome do intestino irritável',
+  'riskFactor.inflammatory_bowel': 'Doença inflamatória intestinal',
+  'riskFactor.digestive_issues': 'Problemas digestivos',
+  'riskFactor.premature_aging': 'Envelhecimento precoce',
+  'riskFactor.skin_cancer': 'Cancro da pele',
+  'riskFactor.dermatitis': 'Dermatite',
+  'riskFactor.gastritis': 'Gastrite',
+  'riskFactor.peptic_ulcer': 'Úlcera péptica',
+  'riskFactor.acid_reflux': 'Refluxo ácido',
+  'riskFactor.type2_diabetes': 'Diabetes tipo 2',
+  'riskFactor.pancreatitis': 'Pancreatite',
+  'riskFactor.pancreatic_cancer': 'Cancro do pâncreas',
+  'riskFactor.infertility': 'Infertilidade',
+  'riskFactor.hormonal_imbalance': 'Desequilíbrio hormonal',
+  'riskFactor.sexual_dysfunction': 'Disfunção sexual',
+  'riskFactor.atherosclerosis': 'Aterosclerose',
+  'riskFactor.peripheral_artery_disease': 'Doença arterial periférica',
+  'riskFactor.varicose_veins': 'Varizes',
+  'riskFactor.osteoporosis': 'Osteoporose',
+  'riskFactor.osteoarthritis': 'Artrose',
+  'riskFactor.fractures': 'Fraturas',
+  'riskFactor.glaucoma': 'Glaucoma',
+  'riskFactor.macular_degeneration': 'Degenerescência macular',
+  'riskFactor.cataracts': 'Cataratas',
+  'riskFactor.cavities': 'Cáries',
+  'riskFactor.gum_disease': 'Doença das gengivas',
+  'riskFactor.tooth_loss': 'Perda de dentes',
+
+  // Mechanism tags of habits.json
+  'mechanismTag.tar': 'alcatrão',
+  'mechanismTag.cilia_damage': 'dano nos cílios',
+  'mechanismTag.inflammation': 'inflamação',
+  'mechanismTag.atherosclerosis': 'aterosclerose',
+  'mechanismTag.blood_pressure': 'tensão arterial',
+  'mechanismTag.oxygen_reduction': 'menos oxigénio',
+  'mechanismTag.stroke_risk': 'risco de AVC',
+  'mechanismTag.premature_aging': 'envelhecimento precoce',
+  'mechanismTag.wrinkles': 'rugas',
+  'mechanismTag.ulcer_risk': 'risco de úlcera',
+  'mechanismTag.mucosal_defence_loss': 'perda de defesa da mucosa',
+  'mechanismTag.cancer_risk': 'risco de cancro',
+  'mechanismTag.reduced_fertility': 'menor fertilidade',
+  'mechanismTag.poor_blood_flow': 'mau fluxo sanguíneo',
+  'mechanismTag.endothelial_damage': 'dano no endotélio',
+  'mechanismTag.arterial_stiffening': 'rigidez arterial',
+  'mechanismTag.bone_density_loss': 'perda de densidade óssea',
+  'mechanismTag.macular_degeneration': 'degenerescência macular',
+  'mechanismTag.cataract_risk': 'risco de cataratas',
+  'mechanismTag.gum_disease': 'doença das gengivas',
+  'mechanismTag.staining': 'manchas',
+  'mechanismTag.fatty_liver': 'fígado gordo',
+  'mechanismTag.fibrosis': 'fibrose',
+  'mechanismTag.neurotoxicity': 'neurotoxicidade',
+  'mechanismTag.memory_impairment': 'perda de memória',
+  'mechanismTag.cardiomyopathy': 'cardiomiopatia',
+  'mechanismTag.arrhythmia': 'arritmia',
+  'mechanismTag.leaky_gut': 'intestino permeável',
+  'mechanismTag.microbiome_disruption': 'perturbação do microbioma',
+  'mechanismTag.gastritis': 'gastrite',
+  'mechanismTag.mucosal_irritation': 'irritação da mucosa',
+  'mechanismTag.pancreatitis': 'pancreatite',
+  'mechanismTag.enzyme_disruption': 'perturbação das enzimas',
+  'mechanismTag.hormone_disruption': 'perturbação hormonal',
+  'mechanismTag.calcium_malabsorption': 'má absorção de cálcio',
+  'mechanismTag.enamel_erosion': 'erosão do esmalte',
+  'mechanismTag.dry_mouth': 'boca seca',
+  'mechanismTag.dopamine_disruption': 'perturbação da dopamina',
+  'mechanismTag.cardiac_stress': 'sobrecarga cardíaca',
+  'mechanismTag.hepatotoxicity': 'hepatotoxicidade',
+  'mechanismTag.metabolism_stress': 'sobrecarga metabólica',
+  'mechanismTag.nephrotoxicity': 'nefrotoxicidade',
+  'mechanismTag.dehydration': 'desidratação',
+  'mechanismTag.sexual_dysfunction': 'disfunção sexual',
+  'mechanismTag.bruxism': 'bruxismo',
+  'mechanismTag.dopamine_desensitization': 'dessensibilização à dopamina',
+  'mechanismTag.addiction_pathways': 'circuitos de dependência',
+  'mechanismTag.dopamine_dysregulation': 'desregulação da dopamina',
+  'mechanismTag.attention_problems': 'problemas de atenção',
+  'mechanismTag.poor_hygiene': 'má higiene',
+  'mechanismTag.stress_acne': 'acne de stress',
+  'mechanismTag.poor_posture': 'má postura',
+  'mechanismTag.repetitive_strain': 'esforço repetitivo',
+  'mechanismTag.digital_eye_strain': 'fadiga visual digital',
+  'mechanismTag.dry_eyes': 'olho seco',
+  'mechanismTag.deconditioning': 'descondicionamento',
+  'mechanismTag.poor_circulation': 'má circulação',
+  'mechanismTag.reduced_neuroplasticity': 'menos neuroplasticidade',
+  'mechanismTag.mood_issues': 'alterações de humor',
+  'mechanismTag.slow_digestion': 'digestão lenta',
+  'mechanismTag.microbiome_changes': 'alterações do microbioma',
+  'mechanismTag.insulin_resistance': 'resistência à insulina',
+  'mechanismTag.fatty_accumulation': 'acumulação de gordura',
+  'mechanismTag.bone_loss': 'perda óssea',
+  'mechanismTag.joint_stiffness': 'rigidez articular',
+  'mechanismTag.cognitive_decline': 'declínio cognitivo',
+  'mechanismTag.acid_reflux': 'refluxo ácido',
+  'mechanismTag.sugar_spikes': 'picos de açúcar',
+  'mechanismTag.plaque_buildup': 'acumulação de placa',
+  'mechanismTag.nutrient_deficiency': 'carência de nutrientes',
+  'mechanismTag.retinal_vessel_damage': 'dano nos vasos da retina',
+  'mechanismTag.sugar': 'açúcar',
+  'mechanismTag.cavities': 'cáries',
+  'mechanismTag.depression': 'depressão',
+  'mechanismTag.anxiety': 'ansiedade',
+  'mechanismTag.stress_hormones': 'hormonas do stress',
+  'mechanismTag.stress_response': 'resposta de stress',
+  'mechanismTag.cortisol_elevation': 'cortisol elevado',
+  'mechanismTag.neuroinflammation': 'neuroinflamação',
+  'mechanismTag.hypertension': 'hipertensão',
+  'mechanismTag.digestive_issues': 'problemas digestivos',
+  'mechanismTag.stress_aging': 'envelhecimento por stress',
+  'mechanismTag.breakouts': 'borbulhas',
+  'mechanismTag.acid_hypersecretion': 'excesso de ácido',
+  'mechanismTag.slow_emptying': 'esvaziamento gástrico lento',
+  'mechanismTag.cortisol_suppression': 'supressão pelo cortisol',
+  'mechanismTag.vasoconstriction': 'vasoconstrição',
+  'mechanismTag.neuroplasticity': 'neuroplasticidade',
+  'mechanismTag.stress_reduction': 'menos stress',
+  'mechanismTag.parasympathetic_activation': 'ativação parassimpática',
+  'mechanismTag.lower_bp': 'tensão arterial mais baixa',
+  'mechanismTag.vagal_tone': 'tónus vagal',
+  'mechanismTag.acid_regulation': 'regulação do ácido',
+  'mechanismTag.cognitive_reserve': 'reserva cognitiva',
+  'mechanismTag.emotional_processing': 'processamento emocional',
+  'mechanismTag.cardiovascular_fitness': 'condição cardiovascular',
+  'mechanismTag.bdnf_increase': 'aumento do BDNF',
+  'mechanismTag.neurogenesis': 'neurogénese',
+  'mechanismTag.improved_metabolism': 'melhor metabolismo',
+  'mechanismTag.fat_oxidation': 'queima de gordura',
+  'mechanismTag.microbiome_diversity': 'diversidade do microbioma',
+  'mechanismTag.motility': 'trânsito intestinal',
+  'mechanismTag.insulin_sensitivity': 'sensibilidade à insulina',
+  'mechanismTag.glucose_uptake': 'absorção de glicose',
+  'mechanismTag.hormone_balance': 'equilíbrio hormonal',
+  'mechanismTag.blood_flow': 'fluxo sanguíneo',
+  'mechanismTag.nitric_oxide': 'óxido nítrico',
+  'mechanismTag.arterial_elasticity': 'elasticidade arterial',
+  'mechanismTag.bone_loading': 'carga nos ossos',
+  'mechanismTag.joint_mobility': 'mobilidade articular',
+  'mechanismTag.retinal_blood_flow': 'fluxo sanguíneo da retina',
+  'mechanismTag.oxytocin_release': 'libertação de oxitocina',
+  'mechanismTag.reduced_depression': 'menos depressão',
+  'mechanismTag.stress_buffering': 'amortecimento do stress',
+  'mechanismTag.longevity': 'longevidade',
+  'mechanismTag.microbiome_health': 'microbioma saudável',
+  'mechanismTag.fiber_benefits': 'benefícios da fibra',
+  'mechanismTag.detoxification': 'desintoxicação',
+  'mechanismTag.nutrient_processing': 'processamento de nutrientes',
+  'mechanismTag.anti_inflammatory': 'anti-inflamatório',
+  'mechanismTag.cholesterol_balance': 'equilíbrio do colesterol',
+  'mechanismTag.cognitive_support': 'apoio cognitivo',
+  'mechanismTag.neuroprotection': 'neuroproteção',
+  'mechanismTag.mucosal_protection': 'proteção da mucosa',
+  'mechanismTag.stable_blood_sugar': 'açúcar no sangue estável',
+  'mechanismTag.antioxidants': 'antioxidantes',
+  'mechanismTag.plaque_reduction': 'menos placa',
+  'mechanismTag.calcium_vitamin_d': 'cálcio e vitamina D',
+  'mechanismTag.retinal_protection': 'proteção da retina',
+  'mechanismTag.enamel_minerals': 'minerais do esmalte',
+  'mechanismTag.memory_consolidation': 'consolidação da memória',
+  'mechanismTag.glymphatic_clearance': 'limpeza glinfática',
+  'mechanismTag.recovery': 'recuperação',
+  'mechanismTag.rhythm_regulation': 'regulação do ritmo',
+  'mechanismTag.circadian_metabolism': 'metabolismo circadiano',
+  'mechanismTag.detox_cycles': 'ciclos de desintoxicação',
+  'mechanismTag.mucosal_repair': 'reparação da mucosa',
+  'mechanismTag.circadian_glucose_control': 'controlo circadiano da glicose',
+  'mechanismTag.hormone_production': 'produção hormonal',
+  'mechanismTag.bone_repair': 'reparação óssea',
+  'mechanismTag.tear_film_recovery': 'recuperação da película lacrimal',
+  'mechanismTag.filtration_efficiency': 'eficiência da filtração',
+  'mechanismTag.waste_removal': 'eliminação de resíduos',
+  'mechanismTag.cognitive_performance': 'desempenho cognitivo',
+  'mechanismTag.headache_prevention': 'prevenção de dores de cabeça',
+  'mechanismTag.hydration': 'hidratação',
+  'mechanismTag.elasticity': 'elasticidade',
+  'mechanismTag.blood_volume': 'volume sanguíneo',
+  'mechanismTag.saliva_flow': 'fluxo de saliva',
+
+  // Custom habits
+  'customHabits.title': 'Hábitos personalizados',
+  'customHabits.intro': 'Cria hábitos que o atlas não inclui, como cafeína, ecrãs antes de dormir ou exposição solar. Aparecem na lista de hábitos e entram nos cálculos.',
+  'customHabits.new': 'Novo hábito',
+  'customHabits.badge': 'Personalizado',
+  'customHabits.name': 'Nome',
+  'customHabits.kind': 'Tipo',
+  'customHabits.kind.bad': 'Prejudicial',
+  'customHabits.kind.good': 'Benéfico',
+  'customHabits.category': 'Categoria',
+  'customHabits.defaultCategory': 'Personalizado',
+  'customHabits.labels': 'Etiquetas dos níveis',
+  'customHabits.labelLevel': 'Etiqueta do nível {level}',
+  'customHabits.defaultLabel.0': 'Nunca',
+  'customHabits.defaultLabel.1': 'Às vezes',
+  'customHabits.defaultLabel.2': 'Frequente',
+  'customHabits.defaultLabel.3': 'Diário',
+  'customHabits.organs': 'Órgãos afetados ({count})',
+  'customHabits.weight': 'Peso do mecanismo',
+  'customHabits.mechanism': 'Mecanismo',
+  'customHabits.mechanismPlaceholder': 'Ex.: inflamação, tensão arterial',
+  'customHabits.defaultMechanism': 'Efeito definido pelo utilizador',
+  'customHabits.effects': 'Efeitos nos medidores',
+  'customHabits.effectsHint': 'Pontos no nível máximo, de -30 a 30. Positivo sobe o medidor (no risco de doença, subir é pior). Só o modelo de curvas os usa; o de pesos usa os órgãos.',
+  'customHabits.edit': 'Editar {name}',
+  'customHabits.delete': 'Apagar {name}',
+  'customHabits.confirmDelete': 'Apagar o hábito "{name}"? Sai também de todos os cenários.',
+  'customHabits.save': 'Guardar',
+  'customHabits.cancel': 'Cancelar',
+  'customHabits.error.notHabit': 'A definição do hábito não é um objeto.',
+  'customHabits.error.id': 'Identificador inválido: {id}.',
+  'customHabits.error.name': 'O nome é obrigatório (até {max} caracteres).',
+  'customHabits.error.kind': 'O tipo deve ser prejudicial ou benéfico.',
+  'customHabits.error.category': 'A categoria é obrigatória (até {max} caracteres).',
+  'customHabits.error.labels': 'São precisas {count} etiquetas de nível, nenhuma vazia.',
+  'customHabits.error.mechanisms': 'Lista de órgãos afetados em falta.',
+  'customHabits.error.organ': 'Órgão inválido ou repetido: {organ}.',
+  'customHabits.error.weight': 'O peso em "{organ}" deve estar entre {min} e {max}.',
+  'customHabits.error.tags': 'O mecanismo em "{organ}" aceita até {max} termos curtos.',
+  'customHabits.error.effects': 'Os efeitos devem indicar pontos por medidor.',
+  'customHabits.error.effect': 'Efeito inválido em "{metric}".',
+  'customHabits.error.noEffect': 'Escolhe pelo menos um órgão afetado ou um efeito num medidor.',
+
+  // Model selector
+  'model.title': 'Modelo de cálculo',
+
+  // Habit journal
+  'journal.title': 'Diário de hábitos',
+  'journal.mode': 'Modo dos hábitos',
+  'journal.simulate': 'Simular',
+  'journal.log': 'Registar hoje',
+  'journal.logHint': 'Os botões registam o dia de hoje e os medidores seguem a média dos últimos {days} dias, guardada num cenário próprio para não mexer nos teus.',
+  'journal.scenarioName': 'Diário (média)',
+  'journal.window': 'Média dos últimos',
+  'journal.days': '{count} dias',
+  'journal.habit': 'Hábito',
+  'journal.today': 'Hoje: {label}',
+  'journal.notLoggedToday': 'Ainda sem registo hoje',
+  'journal.average': 'Média: {label}',
+  'journal.streak': '{count} dias seguidos no bom caminho',
+  'journal.noStreak': 'Sem sequência ativa',
+  'journal.heatmap': 'Últimas {weeks} semanas',
+  'journal.day': '{date}: {label}',
+  'journal.notLogged': 'sem registo',
+  'journal.empty': 'Ainda não há dias registados. Muda para "Registar hoje" nos hábitos para começar.',
+
+  // Meter history
+  'history.title': 'Histórico',
+  'history.range': 'Período',
+  'history.week': 'Semana',
+  'history.month': 'Mês',
+  'history.year': 'Ano',
+  'history.view': 'Séries',
+  'history.meters': 'Medidores',
+  'history.stats': 'Estatísticas',
+  'history.organs': 'Órgãos',
+  'history.empty': 'O histórico começa quando mudas um hábito.',
+  'history.changes': '{date}: {changes}',
+  'history.change': '{habit} {from} → {to}',
+
+  // Goal planner
+  'goal.title': 'Planear um objetivo',
+  'goal.metric': 'Medidor ou órgão',
+  'goal.target': 'Valor a atingir',
+  'goal.atLeast': 'pelo menos',
+  'goal.atMost': 'no máximo',
+  'goal.current': 'Agora: {value}',
+  'goal.plan': 'Planear',
+  'goal.alreadyReached': 'Já atinges este objetivo com os hábitos atuais.',
+  'goal.reachable': '{count} mudanças de um nível chegam a {value}.',
+  'goal.unreachable': 'Não é possível chegar lá com {count} mudanças; o mais perto é {value}.',
+  'goal.step': '{habit}: {from} → {to}',
+  'goal.effort': 'Esforço total: {effort}',
+  'goal.apply': 'Aplicar os passos marcados',
+
+  // Comparison
+  'compare.title': 'Comparar',
+  'compare.start': 'Começar comparação',
+  'compare.stop': 'Terminar comparação',
+  'compare.noChanges': 'Ajusta um hábito para ver o que muda.',
+  'compare.captureBefore': 'Usar o estado atual como "Antes"',
+  'compare.showingBefore': 'A mostrar o estado antes das mudanças de hábitos. Alterna para "Depois" para ver a diferença.',
+  'compare.showingAfter': 'A mostrar o estado depois das mudanças de hábitos. Compara com o estado "Antes".',
+
+  // Delta indicator
+  'delta.up': 'Subiu {value}',
+  'delta.down': 'Desceu {value}',
+
+  // Accessibility
+  'accessibility.title': 'Acessibilidade',
+  'accessibility.reduceMotion': 'Reduzir movimento',
+  'accessibility.highContrast': 'Alto contraste',
+  'accessibility.hint': 'Estas opções ajudam a tornar a aplicação mais acessível para utilizadores com necessidades especiais.',
+
+  // Scenarios
+  'scenarios.title': 'Cenários',
+  'scenarios.new': 'Novo',
+  'scenarios.defaultName': 'Cenário {number}',
+  'scenarios.current': 'Eu atual',
+  'scenarios.copyName': '{name} (cópia)',
+  'scenarios.nameLabel': 'Nome do cenário',
+  'scenarios.saveName': 'Guardar nome',
+  'scenarios.rename': 'Mudar o nome de {name}',
+  'scenarios.duplicate': 'Duplicar {name}',
+  'scenarios.delete': 'Apagar {name}',
+  'scenarios.confirmDelete': 'Apagar o cenário "{name}"?',
+  'scenarios.showDiff': 'Ver diferenças entre cenários',
+  'scenarios.hideDiff': 'Esconder diferenças',
+  'diff.title': 'Diferenças entre cenários',
+  'diff.scenarioA': 'Cenário A',
+  'diff.scenarioB': 'Cenário B',
+  'diff.identical': 'Os dois cenários têm os mesmos hábitos.',
+  'diff.habits': 'Hábitos',
+  'diff.meters': 'Medidores',
+  'diff.organs': 'Órgãos',
+
+  // Share links
+  'share.copy': 'Copiar link',
+  'share.copied': 'Link copiado',
+  'share.copyPrompt': 'Copia este link:',
+  'share.invalid': 'Este link de perfil está incompleto ou danificado. Os teus dados não foram alterados.',
+  'share.unsupportedVersion': 'Este link foi criado por uma versão diferente do Atlas de Hábitos e não pode ser aberto. Os teus dados não foram alterados.',
+  'share.opened': 'Abriste um perfil partilhado. Foi guardado como um novo cenário.',
+  'share.scenarioName': 'Perfil partilhado',
+  'share.dismiss': 'Fechar aviso',
+
+  // JSON export and import
+  'data.button': 'Dados',
+  'data.export': 'Exportar dados (JSON)',
+  'data.import': 'Importar dados (JSON)',
+  'data.importFailed': 'Não foi possível importar o ficheiro:\n\n{errors}',
+  'data.unreadable': 'Não foi possível ler o ficheiro.',
+  'data.importedName': 'Importado',
+  'stateFile.invalidJson': 'O ficheiro não é JSON válido.',
+  'stateFile.notAtlas': 'O ficheiro não é uma exportação do Atlas de Hábitos.',
+  'stateFile.unsupportedVersion': 'Versão do ficheiro não suportada: {version}.',
+  'stateFile.invalidDate': 'Data de exportação em falta ou inválida.',
+  'stateFile.missingHabits': 'Lista de hábitos em falta.',
+  'stateFile.unknownHabit': 'Hábito desconhecido: "{habitId}".',
+  'stateFile.invalidLevel': 'Nível inválido para "{habitId}": {level} (deve ser um inteiro de 0 a 3).',
+  'stateFile.invalidQuantity': 'Quantidade inválida para "{habitId}": {quantity}.',
+  'stateFile.invalidAccessibility': 'Definições de acessibilidade em falta ou inválidas.',
+  'stateFile.missingModel': 'Modelo de cálculo em falta.',
+  'stateFile.invalidCustomHabits': 'Lista de hábitos personalizados inválida.',
+  'stateFile.invalidCustomHabit': 'Hábito personalizado {index}: {error}',
+
+  // Image export
+  'export.button': 'Exportar',
+  'export.exporting': 'A exportar...',
+  'export.capturing': 'A capturar a imagem do teu Atlas de Hábitos...',
+  'export.processing': 'A processar...',
+  'export.save': 'Guardar como imagem',
+  'export.failed': 'Erro ao exportar a imagem. Tenta novamente.',
+
+  // PDF report
+  'report.button': 'Relatório PDF',
+  'report.generating': 'A gerar...',
+  'report.failed': 'Erro ao gerar o relatório PDF. Tenta novamente.',
+  'report.title': 'Relatório de saúde',
+  'report.subtitle': '{scenario} | {date} | Modelo: {model}',
+  'report.summary': 'Saúde {health} | Esperança de vida {lifeExpectancy} anos | Risco de doença {diseaseRisk}%',
+  'report.years': '{value} anos',
+  'report.meters': 'Medidores',
+  'report.detailedStats': 'Métricas detalhadas',
+  'report.organs': 'Órgãos',
+  'report.whatHappens': 'O que acontece: {text}',
+  'report.whatHelps': 'O que ajuda: {text}',
+  'report.recommendations': 'Recomendações prioritárias',
+  'report.noRecommendations': 'Não há recomendações prioritárias para os hábitos atuais.',
+  'report.priority': 'Prioridade: {priority}. {rationale}',
+
+  // Organ messages
+  'organMessage.low': '{organ} em excelente estado',
+  'organMessage.moderate': '{organ} com alguns sinais de stress',
+  'organMessage.high': '{organ} em estado preocupante',
+  'organMessage.critical': '{organ} em estado crítico',
+  'organMessage.mainCause': ', principalmente devido a: {habit}',
+  'organMessage.secondCause': ' e {habit}',
+  'organMessage.helpingRecovery': '. Felizmente, {habit} está a ajudar na recuperação',
+  'organMessage.benefiting': ', beneficiando de {habit}',
+  'organMessage.current': '. Estado atual: {health}% de saúde.',
+  'organMessage.seeProfessional': ' Recomenda-se consultar um profissional de saúde.',
+
+  // Factor explanations
+  'explanation.intensity.dramatically': 'drasticamente',
+  'explanation.intensity.significantly': 'significativamente',
+  'explanation.intensity.moderately': 'moderadamente',
+  'explanation.habit.improves': '{habit} no nível {level} melhora {intensity} {metric} em {points} pontos.',
+  'explanation.habit.reduces': '{habit} no nível {level} reduz {intensity} {metric} em {points} pontos.',
+  'explanation.interaction.adds': '{first} e {second} potenciam-se mutuamente (×{multiplier}), o que faz subir {metric} mais {points} pontos.',
+  'explanation.interaction.removes': '{first} e {second} potenciam-se mutuamente (×{multiplier}), o que faz descer {metric} mais {points} pontos.',
+  'explanation.organs': '{habit} altera a saúde dos órgãos em {points} pontos: {organs}.',
+  'interaction.mechanism': 'Efeito combinado amplificado ×{multiplier}',
+
+  // Recommendations
+  'recommendation.reduce': 'Reduzir {habit} para "{level}"',
+  'recommendation.increase': 'Aumentar {habit} para "{level}"',
+  'recommendation.rationale': 'Maior efeito: {highlights}.',
+  'recommendation.impact': 'Impacto esperado: {value} pontos em média nos medidores e órgãos',
+};
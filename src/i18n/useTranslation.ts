@@ -0,0 +1,13 @@
+import { useMemo } from 'react';
+import { useAtlasStore } from '../store/useAtlasStore';
+import { createTranslator } from './index';
+
+/**
+ * Translator bound to the locale chosen in the store
+ */
+export const useTranslation = () => {
+  const locale = useAtlasStore(state => state.locale);
+  const t = useMemo(() => createTranslator(locale), [locale]);
+
+  return { locale, t };
+};
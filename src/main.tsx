@@ -2,6 +2,13 @@ import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
 import './index.css';
+import { reportDataFileIssues } from './utils/dataFiles';
+import { HABIT_EFFECT_IDS } from './utils/exponentialHealthCalculator';
+
+// Catch typos in the data files while developing
+if (import.meta.env.DEV) {
+  reportDataFileIssues({ habitEffectIds: HABIT_EFFECT_IDS });
+}
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
@@ -0,0 +1,340 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// The store persists to localStorage, which Node does not provide
+vi.hoisted(() => {
+  const items = new Map<string, string>();
+  globalThis.localStorage = {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+    removeItem: (key: string) => void items.delete(key),
+    clear: () => items.clear(),
+    key: (index: number) => [...items.keys()][index] ?? null,
+    get length() {
+      return items.size;
+    },
+  };
+});
+
+// IndexedDB does not exist in Node either; the local database is covered by the browser
+vi.mock('../utils/localDatabase', () => ({
+  loadJournalEntries: vi.fn(async () => [{ date: '2000-01-01', levels: { smoking: 3 } }]),
+  saveJournalEntry: vi.fn(async () => {}),
+  loadHistorySnapshots: vi.fn(async () => []),
+  saveHistorySnapshot: vi.fn(async () => {}),
+}));
+
+import { useAtlasStore } from './useAtlasStore';
+import { saveHistorySnapshot, saveJournalEntry } from '../utils/localDatabase';
+import { toDateKey } from '../utils/journal';
+import { calculateHealthModel } from '../utils/healthModel';
+import { DEFAULT_DEMOGRAPHICS } from '../utils/demographics';
+
+describe('comparison snapshots', () => {
+  beforeEach(() => {
+    const { setCompareMode, setHabitLevel } = useAtlasStore.getState();
+    setCompareMode('off');
+    setHabitLevel('smoking', 0);
+  });
+
+  it('freezes the current habits and meters when comparison starts', () => {
+    const store = useAtlasStore.getState();
+    store.setHabitLevel('smoking', 3);
+    store.setCompareMode('after');
+    store.setHabitLevel('smoking', 0);
+
+    const { compareSnapshot, meters } = useAtlasStore.getState();
+    expect(compareSnapshot?.selectedHabits.smoking.level).toBe(3);
+    expect(meters.organHealth.lungs).toBeGreaterThan(compareSnapshot!.meters.organHealth.lungs);
+  });
+
+  it('keeps the snapshot when switching between before and after', () => {
+    const store = useAtlasStore.getState();
+    store.setCompareMode('after');
+    const snapshot = useAtlasStore.getState().compareSnapshot;
+    store.setHabitLevel('smoking', 2);
+    store.setCompareMode('before');
+    expect(useAtlasStore.getState().compareSnapshot).toBe(snapshot);
+  });
+
+  it('clears the snapshot when comparison stops', () => {
+    const store = useAtlasStore.getState();
+    store.setCompareMode('after');
+    store.setCompareMode('off');
+    expect(useAtlasStore.getState().compareSnapshot).toBeUndefined();
+  });
+
+  it('recalculates the snapshot with the active model', () => {
+    const store = useAtlasStore.getState();
+    store.setCompareMode('after');
+    store.setActiveModel('linear');
+    expect(useAtlasStore.getState().compareSnapshot?.meters.modelId).toBe('linear');
+    store.setActiveModel('curves');
+  });
+});
+
+describe('scenarios', () => {
+  it('keeps habit edits in the active scenario only', () => {
+    const store = useAtlasStore.getState();
+    const firstId = store.activeScenarioId;
+    store.setHabitLevel('alcohol', 2);
+    const secondId = store.createScenario('Objetivo');
+
+    expect(useAtlasStore.getState().activeScenarioId).toBe(secondId);
+    expect(useAtlasStore.getState().selectedHabits).toEqual({});
+
+    useAtlasStore.getState().setHabitLevel('exercise', 3);
+    useAtlasStore.getState().switchScenario(firstId);
+
+    const state = useAtlasStore.getState();
+    expect(state.selectedHabits.alcohol.level).toBe(2);
+    expect(state.selectedHabits.exercise).toBeUndefined();
+    expect(state.scenarios.find(s => s.id === secondId)?.habits.exercise.level).toBe(3);
+
+    state.deleteScenario(secondId);
+    state.setHabitLevel('alcohol', 0);
+  });
+
+  it('duplicates and renames scenarios', () => {
+    const store = useAtlasStore.getState();
+    const copyId = store.duplicateScenario(store.activeScenarioId)!;
+    useAtlasStore.getState().renameScenario(copyId, '  O meu pai  ');
+
+    const copy = useAtlasStore.getState().scenarios.find(s => s.id === copyId);
+    expect(copy?.name).toBe('O meu pai');
+    useAtlasStore.getState().renameScenario(copyId, '   ');
+    expect(useAtlasStore.getState().scenarios.find(s => s.id === copyId)?.name).toBe('O meu pai');
+
+    useAtlasStore.getState().deleteScenario(copyId);
+  });
+
+  it('moves to another scenario when the active one is deleted, but never deletes the last', () => {
+    const store = useAtlasStore.getState();
+    const firstId = store.activeScenarioId;
+    const otherId = store.createScenario('Temporário');
+
+    useAtlasStore.getState().deleteScenario(otherId);
+    expect(useAtlasStore.getState().activeScenarioId).toBe(firstId);
+
+    useAtlasStore.getState().deleteScenario(firstId);
+    expect(useAtlasStore.getState().scenarios).toHaveLength(1);
+  });
+
+  it('migrates a single stored profile into the first scenario', () => {
+    const { migrate } = useAtlasStore.persist.getOptions();
+    const migrated = migrate!({ selectedHabits: { smoking: { level: 2 } }, compareMode: 'off' }, 2) as {
+      scenarios: { habits: unknown }[];
+      activeScenarioId: string;
+      selectedHabits?: unknown;
+    };
+
+    expect(migrated.scenarios).toHaveLength(1);
+    expect(migrated.scenarios[0].habits).toEqual({ smoking: { level: 2 } });
+    expect(migrated.activeScenarioId).toBeDefined();
+    expect(migrated.selectedHabits).toBeUndefined();
+  });
+});
+
+describe('setHabitLevels', () => {
+  it('applies several habit changes in one update', () => {
+    const store = useAtlasStore.getState();
+    store.setHabitLevels({ smoking: { level: 1 }, exercise: { level: 2 } });
+
+    const { selectedHabits, meters, activeModelId } = useAtlasStore.getState();
+    expect(selectedHabits.smoking.level).toBe(1);
+    expect(selectedHabits.exercise.level).toBe(2);
+    expect(meters.health).toBe(calculateHealthModel(selectedHabits, activeModelId).health);
+
+    useAtlasStore.getState().setHabitLevels({ smoking: { level: 0 }, exercise: { level: 0 } });
+  });
+
+  it('rejects the whole update if any level is invalid', () => {
+    const before = useAtlasStore.getState().selectedHabits;
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    useAtlasStore.getState().setHabitLevels({ smoking: { level: 2 }, exercise: { level: 5 } });
+    expect(useAtlasStore.getState().selectedHabits).toBe(before);
+    vi.restoreAllMocks();
+  });
+});
+
+describe('setHabitQuantity', () => {
+  it('stores the quantity with its nearest level and falls back to levels', () => {
+    const store = useAtlasStore.getState();
+    store.setHabitQuantity('smoking', 12);
+    expect(useAtlasStore.getState().selectedHabits.smoking).toEqual({ level: 2, quantity: 12 });
+
+    // Past the last anchor the amount is kept and counts as the last level
+    store.setHabitQuantity('smoking', 500);
+    expect(useAtlasStore.getState().selectedHabits.smoking).toEqual({ level: 3, quantity: 500 });
+
+    store.setHabitLevels({ smoking: { level: 2, quantity: -2 } });
+    store.setHabitQuantity('drugs', 1);
+    expect(useAtlasStore.getState().selectedHabits.smoking).toEqual({ level: 3, quantity: 500 });
+    expect(useAtlasStore.getState().selectedHabits.drugs).toBeUndefined();
+
+    store.setHabitLevel('smoking', 0);
+    expect(useAtlasStore.getState().selectedHabits.smoking).toEqual({ level: 0 });
+  });
+});
+
+describe('locale', () => {
+  it('recomputes the meters in the chosen language and persists it', () => {
+    const store = useAtlasStore.getState();
+    store.setHabitLevel('smoking', 3);
+    store.setLocale('en');
+
+    const { meters } = useAtlasStore.getState();
+    expect(meters.prioritizedRecommendations[0].action).toBe('Cut smoking down to "Daily"');
+    expect(useAtlasStore.persist.getOptions().partialize!(useAtlasStore.getState())).toMatchObject({ locale: 'en' });
+
+    useAtlasStore.getState().setLocale('pt');
+    expect(useAtlasStore.getState().meters.prioritizedRecommendations[0].action).toBe('Reduzir tabagismo para "Diário"');
+    useAtlasStore.getState().setHabitLevel('smoking', 0);
+  });
+});
+
+describe('demographics', () => {
+  it('recomputes the meters with the personal baselines and persists them', () => {
+    const store = useAtlasStore.getState();
+    const generic = store.meters;
+    store.setDemographics({ ...DEFAULT_DEMOGRAPHICS, age: 70, familyHistory: ['copd', 'unknown'] });
+
+    const { demographics, meters } = useAtlasStore.getState();
+    expect(demographics.familyHistory).toEqual(['copd']);
+    expect(meters.diseaseRisk).toBeGreaterThan(generic.diseaseRisk);
+    expect(meters.organHealth.lungs).toBeLessThan(generic.organHealth.lungs);
+    expect(useAtlasStore.persist.getOptions().partialize!(useAtlasStore.getState())).toMatchObject({ demographics });
+
+    useAtlasStore.getState().setDemographics(DEFAULT_DEMOGRAPHICS);
+    expect(useAtlasStore.getState().meters.diseaseRisk).toBe(generic.diseaseRisk);
+  });
+});
+
+describe('custom habits', () => {
+  const caffeine = {
+    id: 'custom_caffeine',
+    name: 'Cafeína',
+    kind: 'bad' as const,
+    category: 'Substâncias',
+    intensity: { min: 0, max: 3, labels: ['Nunca', '1 café', '3 cafés', '6 cafés'] },
+    translations: {},
+    affects: ['heart'],
+    mechanisms: [{ organ: 'heart', tags: ['blood_pressure'], weight: 0.2 }],
+    pairs: [],
+  };
+
+  it('adds a habit to the calculations, persists it and forgets it everywhere on delete', () => {
+    const store = useAtlasStore.getState();
+    const generic = store.meters;
+    store.saveCustomHabit(caffeine);
+    useAtlasStore.getState().setHabitLevel('custom_caffeine', 3);
+    expect(useAtlasStore.getState().meters.organHealth.heart).toBeLessThan(generic.organHealth.heart);
+    expect(useAtlasStore.persist.getOptions().partialize!(useAtlasStore.getState()))
+      .toMatchObject({ customHabits: [expect.objectContaining({ id: 'custom_caffeine' })] });
+
+    useAtlasStore.getState().deleteCustomHabit('custom_caffeine');
+    const { customHabits, selectedHabits, scenarios, meters } = useAtlasStore.getState();
+    expect(customHabits).toEqual([]);
+    expect(selectedHabits.custom_caffeine).toBeUndefined();
+    expect(scenarios.every(scenario => !scenario.habits.custom_caffeine)).toBe(true);
+    expect(meters.organHealth.heart).toBe(generic.organHealth.heart);
+  });
+
+  it('rejects invalid definitions', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    useAtlasStore.getState().saveCustomHabit({ ...caffeine, mechanisms: [{ organ: 'heart', tags: [], weight: 5 }] });
+    expect(useAtlasStore.getState().customHabits).toEqual([]);
+    vi.restoreAllMocks();
+  });
+});
+
+describe('habit journal', () => {
+  beforeEach(() => {
+    useAtlasStore.setState({ journal: [] });
+    useAtlasStore.getState().setHabitInputMode('simulate');
+  });
+
+  it('logs today, saves the day and follows the rolling average', () => {
+    const store = useAtlasStore.getState();
+    store.setHabitInputMode('journal');
+    store.logHabitLevel('exercise', 2);
+
+    const today = toDateKey(new Date());
+    const { journal, selectedHabits } = useAtlasStore.getState();
+    expect(journal).toEqual([{ date: today, levels: { exercise: 2 } }]);
+    expect(saveJournalEntry).toHaveBeenCalledWith({ date: today, levels: { exercise: 2 } });
+    expect(selectedHabits.exercise.level).toBe(2);
+  });
+
+  it('leaves the simulated habits alone until journal mode is on', async () => {
+    useAtlasStore.getState().setHabitLevel('smoking', 2);
+    await useAtlasStore.getState().loadJournal();
+    expect(useAtlasStore.getState().journal).toHaveLength(1);
+    expect(useAtlasStore.getState().selectedHabits.smoking.level).toBe(2);
+
+    // The stored day is far outside any window
+    useAtlasStore.getState().setHabitInputMode('journal');
+    expect(useAtlasStore.getState().selectedHabits.smoking.level).toBe(0);
+  });
+
+  it('keeps the journal averages in a scenario of their own', () => {
+    useAtlasStore.getState().setHabitLevel('smoking', 2);
+    const simulated = useAtlasStore.getState().activeScenarioId;
+
+    useAtlasStore.getState().setHabitInputMode('journal');
+    useAtlasStore.getState().logHabitLevel('smoking', 0);
+    const { activeScenarioId, journalScenarioId, scenarios } = useAtlasStore.getState();
+    expect(activeScenarioId).toBe(journalScenarioId);
+    expect(scenarios.find(scenario => scenario.id === simulated)!.habits.smoking.level).toBe(2);
+
+    useAtlasStore.getState().setHabitInputMode('simulate');
+    expect(useAtlasStore.getState().activeScenarioId).toBe(simulated);
+    expect(useAtlasStore.getState().selectedHabits.smoking.level).toBe(2);
+  });
+
+  it('only accepts the offered averaging windows', () => {
+    useAtlasStore.getState().setJournalWindow(30);
+    useAtlasStore.getState().setJournalWindow(5);
+    expect(useAtlasStore.getState().journalWindowDays).toBe(30);
+    useAtlasStore.getState().setJournalWindow(7);
+  });
+});
+
+describe('projection', () => {
+  it('starts from the current body and heads for the chosen target', () => {
+    const store = useAtlasStore.getState();
+    store.setHabitLevel('smoking', 3);
+
+    const { projection, meters } = useAtlasStore.getState();
+    expect(projection[0].organHealth).toEqual(meters.organHealth);
+    expect(projection[projection.length - 1].organHealth).toEqual(meters.organHealth);
+
+    store.setProjectionTarget('quit:smoking');
+    const lungs = useAtlasStore.getState().projection.map(point => point.organHealth.lungs);
+    expect(lungs[0]).toBe(meters.organHealth.lungs);
+    expect(lungs[1]).toBeGreaterThan(lungs[0]);
+    expect(lungs[lungs.length - 1]).toBeCloseTo(calculateHealthModel({}).organHealth.lungs, 1);
+
+    store.setProjectionTarget('current');
+    store.setHabitLevel('smoking', 0);
+  });
+});
+
+describe('meter history', () => {
+  it('records a snapshot when the habits change once the history is loaded', async () => {
+    useAtlasStore.getState().setHabitLevel('alcohol', 1);
+    expect(useAtlasStore.getState().history).toHaveLength(0);
+
+    await useAtlasStore.getState().loadHistory();
+    expect(useAtlasStore.getState().history).toHaveLength(1);
+
+    useAtlasStore.getState().setHabitLevel('alcohol', 2);
+    const { history, meters } = useAtlasStore.getState();
+    // Quick successive changes are merged into one snapshot
+    expect(history).toHaveLength(1);
+    expect(history[0].habits.alcohol.level).toBe(2);
+    expect(history[0].meters.health).toBe(meters.health);
+    expect(saveHistorySnapshot).toHaveBeenLastCalledWith(history[0]);
+
+    useAtlasStore.getState().setHabitLevel('alcohol', 0);
+  });
+});
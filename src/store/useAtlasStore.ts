@@ -1,167 +1,440 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import { calculateExponentialHealth } from '../utils/exponentialHealthCalculator';
+import { calculateHealthModel, Meters } from '../utils/healthModel';
+import { DEFAULT_MODEL_ID, getHealthModel } from '../utils/models';
+import { DEFAULT_LOCALE, isLocale, Locale, translate } from '../i18n';
+import {
+  averageJournalLevels,
+  DEFAULT_JOURNAL_WINDOW,
+  JOURNAL_WINDOWS,
+  JournalEntry,
+  toDateKey,
+  upsertJournalEntry,
+} from '../utils/journal';
+import { appendHistorySnapshot, HistorySnapshot } from '../utils/meterHistory';
+import { DEFAULT_DEMOGRAPHICS, Demographics, sanitizeDemographics } from '../utils/demographics';
+import { getHabitDose, getNearestLevel, isValidQuantity } from '../utils/habitDose';
+import type { HabitDefinition } from '../utils/habitCatalog';
+import { sanitizeCustomHabits, validateCustomHabit } from '../utils/customHabits';
+import {
+  DEFAULT_PROJECTION_TARGET,
+  ProjectionPoint,
+  ProjectionTarget,
+  resolveProjectionTarget,
+  simulateProjection,
+} from '../utils/projectionSimulator';
+import {
+  loadHistorySnapshots,
+  loadJournalEntries,
+  saveHistorySnapshot,
+  saveJournalEntry,
+} from '../utils/localDatabase';
 
 export interface HabitLevel {
   level: number;
+  quantity?: number; // Real amount for habits with a dose (see habitDose.ts); level is then the nearest level
 }
 
 export interface HabitLevels {
   [key: string]: HabitLevel;
 }
 
-interface MeterStats {
-  cardioStrain: number;
-  inflammation: number;
-  sleepQuality: number;
-  stressLoad: number;
-  recoveryCapacity: number;
-  cognitiveFunction: number;
-  immuneSystem: number;
-  metabolicHealth: number;
+// A saved habit configuration, e.g. "Eu atual" or "Objetivo a 6 meses"
+export interface Scenario {
+  id: string;
+  name: string;
+  habits: HabitLevels;
+  createdAt: string;
+  updatedAt: string;
 }
 
-interface Meters {
-  health: number;
-  happiness: number;
-  qualityOfLife: number;
-  mentalHealth: number;
-  lifeExpectancy: number;
-  diseaseRisk: number;
-  physicalFitness: number;
-  overallWellness: number;
-  stats: MeterStats;
-  exponentialFactors: {
-    positive: Array<{ habit: string, impact: number, explanation: string }>;
-    negative: Array<{ habit: string, impact: number, explanation: string }>;
-  };
-  organHealth: Record<string, number>;
-  prioritizedRecommendations: Array<{
-    priority: 'critical' | 'high' | 'moderate';
-    action: string;
-    rationale: string;
-    expectedImpact: string;
-  }>;
+export type CompareMode = 'off' | 'before' | 'after';
+
+// Simulate: the habit buttons set hypothetical levels. Journal: they log today and the
+// habits follow the journal's rolling average.
+export type HabitInputMode = 'simulate' | 'journal';
+
+// State frozen when a comparison starts, shown as "before"
+export interface CompareSnapshot {
+  selectedHabits: HabitLevels;
+  meters: Meters;
 }
 
-interface AccessibilitySettings {
+export interface AccessibilitySettings {
   reduceMotion: boolean;
   highContrast: boolean;
 }
 
 interface AtlasState {
-  selectedHabits: HabitLevels;
+  scenarios: Scenario[];
+  activeScenarioId: string;
+  selectedHabits: HabitLevels; // Habits of the active scenario
   meters: Meters;
+  activeModelId: string;
+  locale: Locale;
+  demographics: Demographics;
+  customHabits: HabitDefinition[]; // Habits defined in the habit editor, passed to the models next to the built-in ones
   focusOrganId: string | undefined;
-  compareMode: 'off' | 'before' | 'after';
+  projectionMonth: number | undefined; // Month shown on the body map, undefined for the current snapshot
+  projectionTarget: ProjectionTarget; // What the projection heads for, starting from today
+  projection: ProjectionPoint[]; // Derived from the habits and the target, shared by the body map and the timeline
+  compareMode: CompareMode;
+  compareSnapshot: CompareSnapshot | undefined;
   accessibility: AccessibilitySettings;
+  journal: JournalEntry[]; // Loaded from IndexedDB, not persisted with the rest of the state
+  habitInputMode: HabitInputMode;
+  journalWindowDays: number;
+  journalScenarioId: string | undefined; // Scenario holding the journal averages
+  simulateScenarioId: string | undefined; // Scenario to go back to when journal mode is turned off
+  history: HistorySnapshot[]; // Loaded from IndexedDB, not persisted with the rest of the state
+  historyLoaded: boolean;
   setHabitLevel: (habitId: string, level: number) => void;
+  setHabitLevels: (levels: HabitLevels) => void;
+  setHabitQuantity: (habitId: string, quantity: number) => void;
+  createScenario: (name: string, habits?: HabitLevels) => string;
+  renameScenario: (scenarioId: string, name: string) => void;
+  duplicateScenario: (scenarioId: string) => string | undefined;
+  deleteScenario: (scenarioId: string) => void;
+  switchScenario: (scenarioId: string) => void;
+  setActiveModel: (modelId: string) => void;
+  setLocale: (locale: Locale) => void;
+  setDemographics: (demographics: Demographics) => void;
+  saveCustomHabit: (habit: HabitDefinition) => void;
+  deleteCustomHabit: (habitId: string) => void;
   setFocusOrgan: (organId: string | undefined) => void;
-  setCompareMode: (mode: 'off' | 'before' | 'after') => void;
+  setProjectionMonth: (month: number | undefined) => void;
+  setProjectionTarget: (target: ProjectionTarget) => void;
+  setCompareMode: (mode: CompareMode) => void;
+  captureCompareSnapshot: () => void;
+  setAccessibility: (settings: AccessibilitySettings) => void;
   toggleReduceMotion: () => void;
   toggleHighContrast: () => void;
+  loadJournal: () => Promise<void>;
+  logHabitLevel: (habitId: string, level: number) => void;
+  setHabitInputMode: (mode: HabitInputMode) => void;
+  setJournalWindow: (days: number) => void;
+  applyJournalAverage: () => void;
+  loadHistory: () => Promise<void>;
+  recordHistory: () => void;
 }
 
-/**
- * EXPONENTIAL HEALTH IMPACT SYSTEM
- * 
- * This system implements exponential weighting for critical habits that have
- * disproportionate impacts on health outcomes. Some habits can override multiple
- * other factors, while others provide exponential benefits.
- * 
- * Based on epidemiological studies and longitudinal health research.
- */
-const calculateMeters = (habits: HabitLevels): Meters => {
-  // Use exponential health calculation system
-  const exponentialResult = calculateExponentialHealth(habits);
-  
-  // Extract values from exponential calculation
-  const health = exponentialResult.overallHealth;
-  const happiness = exponentialResult.riskAssessment.mentalHealth;
-  const mentalHealth = exponentialResult.riskAssessment.mentalHealth;
-  const physicalFitness = exponentialResult.riskAssessment.physicalHealth;
-  const lifeExpectancy = exponentialResult.riskAssessment.lifeExpectancy;
-  const diseaseRisk = exponentialResult.riskAssessment.diseaseRisk;
-  
-  // Calculate composite metrics
-  const qualityOfLife = Math.max(0, Math.min(100, (health + happiness + mentalHealth) / 3));
-  const overallWellness = Math.max(0, Math.min(100, (health + happiness + physicalFitness) / 3));
-  
-  // Calculate detailed stats based on exponential factors
-  const negativeImpact = exponentialResult.exponentialFactors.negative.reduce((sum, factor) => sum + factor.impact, 0);
-  const positiveImpact = exponentialResult.exponentialFactors.positive.reduce((sum, factor) => sum + factor.impact, 0);
-  
-  const stats: MeterStats = {
-    cardioStrain: Math.max(0, Math.min(10, 5 + (negativeImpact * 0.15) - (positiveImpact * 0.1))),
-    inflammation: Math.max(0, Math.min(10, 5 + (negativeImpact * 0.12) - (positiveImpact * 0.08))),
-    sleepQuality: Math.max(0, Math.min(10, 5 + ((habits.sleep_consistency?.level || 0) * 1.8) - ((habits.chronic_stress?.level || 0) * 1.5))),
-    stressLoad: Math.max(0, Math.min(10, 5 + ((habits.chronic_stress?.level || 0) * 2.2) - ((habits.meditation?.level || 0) * 1.2))),
-    recoveryCapacity: Math.max(0, Math.min(10, 5 + (positiveImpact * 0.1) - (negativeImpact * 0.08))),
-    cognitiveFunction: Math.max(0, Math.min(10, 5 + (positiveImpact * 0.12) - (negativeImpact * 0.15))),
-    immuneSystem: Math.max(0, Math.min(10, 5 + (positiveImpact * 0.1) - (negativeImpact * 0.12))),
-    metabolicHealth: Math.max(0, Math.min(10, 5 + (positiveImpact * 0.11) - (negativeImpact * 0.14))),
-  };
-  
+const createScenario = (name: string, habits: HabitLevels = {}): Scenario => {
+  const now = new Date().toISOString();
   return {
-    health,
-    happiness,
-    qualityOfLife,
-    mentalHealth,
-    lifeExpectancy,
-    diseaseRisk,
-    physicalFitness,
-    overallWellness,
-    stats,
-    exponentialFactors: exponentialResult.exponentialFactors,
-    organHealth: exponentialResult.organHealth,
-    prioritizedRecommendations: exponentialResult.prioritizedRecommendations,
+    id: `scenario-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    name,
+    habits,
+    createdAt: now,
+    updatedAt: now,
   };
 };
 
+const initialScenario = createScenario(translate(DEFAULT_LOCALE, 'scenarios.current'));
+
+type ProjectionInputs = Pick<
+  AtlasState,
+  'selectedHabits' | 'projectionTarget' | 'compareSnapshot' | 'scenarios' | 'activeModelId' | 'demographics' | 'customHabits'
+>;
+
+// Everything the projection is computed from
+const PROJECTION_INPUTS: (keyof ProjectionInputs)[] = [
+  'selectedHabits',
+  'projectionTarget',
+  'compareSnapshot',
+  'scenarios',
+  'activeModelId',
+  'demographics',
+  'customHabits',
+];
+
+/**
+ * Project the body from the active habits towards the chosen target
+ */
+const projectState = (state: ProjectionInputs): ProjectionPoint[] =>
+  simulateProjection(
+    resolveProjectionTarget(state.projectionTarget, state.selectedHabits, {
+      compareHabits: state.compareSnapshot?.selectedHabits,
+      scenarios: state.scenarios,
+    }),
+    {
+      fromHabits: state.selectedHabits,
+      modelId: state.activeModelId,
+      demographics: state.demographics,
+      customHabits: state.customHabits,
+    }
+  );
+
 export const useAtlasStore = create<AtlasState>()(
   persist(
     (set, get) => ({
+      scenarios: [initialScenario],
+      activeScenarioId: initialScenario.id,
       selectedHabits: {},
-      meters: calculateMeters({}),
+      meters: calculateHealthModel({}),
+      activeModelId: DEFAULT_MODEL_ID,
+      locale: DEFAULT_LOCALE,
+      demographics: DEFAULT_DEMOGRAPHICS,
+      customHabits: [],
       focusOrganId: undefined,
+      projectionMonth: undefined,
+      projectionTarget: DEFAULT_PROJECTION_TARGET,
+      projection: simulateProjection({}),
       compareMode: 'off',
+      compareSnapshot: undefined,
       accessibility: {
         reduceMotion: false,
         highContrast: false,
       },
+      journal: [],
+      habitInputMode: 'simulate',
+      journalWindowDays: DEFAULT_JOURNAL_WINDOW,
+      journalScenarioId: undefined,
+      simulateScenarioId: undefined,
+      history: [],
+      historyLoaded: false,
       
       setHabitLevel: (habitId: string, level: number) => {
+        get().setHabitLevels({ [habitId]: { level } });
+      },
+      
+      setHabitLevels: (levels: HabitLevels) => {
         // Validate input
-        if (typeof level !== 'number' || level < 0 || level > 3 || !Number.isInteger(level)) {
-          console.error(`Invalid habit level: ${level} for habit ${habitId}`);
-          return;
+        for (const [habitId, { level, quantity }] of Object.entries(levels)) {
+          if (typeof level !== 'number' || level < 0 || level > 3 || !Number.isInteger(level)) {
+            console.error(`Invalid habit level: ${level} for habit ${habitId}`);
+            return;
+          }
+          const dose = getHabitDose(habitId);
+          if (quantity !== undefined && (!dose || !isValidQuantity(quantity))) {
+            console.error(`Invalid habit quantity: ${quantity} for habit ${habitId}`);
+            return;
+          }
         }
         
         const currentHabits = get().selectedHabits;
         const newHabits = {
           ...currentHabits,
-          [habitId]: { level }
+          ...levels
         };
         
         try {
-          const newMeters = calculateMeters(newHabits);
-          set({
+          const { activeModelId, locale, demographics, customHabits } = get();
+          const newMeters = calculateHealthModel(newHabits, activeModelId, locale, demographics, customHabits);
+          set((state) => ({
             selectedHabits: newHabits,
             meters: newMeters,
-          });
+            scenarios: state.scenarios.map(scenario =>
+              scenario.id === state.activeScenarioId
+                ? { ...scenario, habits: newHabits, updatedAt: new Date().toISOString() }
+                : scenario
+            ),
+          }));
         } catch (error) {
           console.error('Error calculating meters:', error);
         }
       },
       
+      setHabitQuantity: (habitId: string, quantity: number) => {
+        const dose = getHabitDose(habitId);
+        if (!dose) {
+          console.error(`Habit ${habitId} has no quantity`);
+          return;
+        }
+        
+        get().setHabitLevels({ [habitId]: { level: getNearestLevel(dose, quantity), quantity } });
+      },
+      
+      createScenario: (name: string, habits: HabitLevels = {}) => {
+        const scenario = createScenario(name.trim() || translate(get().locale, 'scenarios.current'), habits);
+        set((state) => ({ scenarios: [...state.scenarios, scenario] }));
+        get().switchScenario(scenario.id);
+        return scenario.id;
+      },
+      
+      renameScenario: (scenarioId: string, name: string) => {
+        const trimmed = name.trim();
+        if (!trimmed) return;
+        
+        set((state) => ({
+          scenarios: state.scenarios.map(scenario =>
+            scenario.id === scenarioId
+              ? { ...scenario, name: trimmed, updatedAt: new Date().toISOString() }
+              : scenario
+          ),
+        }));
+      },
+      
+      duplicateScenario: (scenarioId: string) => {
+        const original = get().scenarios.find(scenario => scenario.id === scenarioId);
+        if (!original) return undefined;
+        
+        return get().createScenario(
+          translate(get().locale, 'scenarios.copyName', { name: original.name }),
+          { ...original.habits }
+        );
+      },
+      
+      deleteScenario: (scenarioId: string) => {
+        const { scenarios, activeScenarioId } = get();
+        // There must always be a scenario to edit
+        if (scenarios.length <= 1) return;
+        
+        const index = scenarios.findIndex(scenario => scenario.id === scenarioId);
+        if (index === -1) return;
+        
+        const remaining = scenarios.filter(scenario => scenario.id !== scenarioId);
+        set({ scenarios: remaining });
+        
+        if (scenarioId === activeScenarioId) {
+          get().switchScenario(remaining[Math.min(index, remaining.length - 1)].id);
+        }
+      },
+      
+      switchScenario: (scenarioId: string) => {
+        const scenario = get().scenarios.find(s => s.id === scenarioId);
+        if (!scenario) {
+          console.error(`Unknown scenario: ${scenarioId}`);
+          return;
+        }
+        
+        const { activeModelId, locale, demographics, customHabits } = get();
+        set({
+          activeScenarioId: scenario.id,
+          selectedHabits: scenario.habits,
+          meters: calculateHealthModel(scenario.habits, activeModelId, locale, demographics, customHabits),
+        });
+      },
+      
+      setActiveModel: (modelId: string) => {
+        const model = getHealthModel(modelId);
+        const { selectedHabits, compareSnapshot, locale, demographics, customHabits } = get();
+        set({
+          activeModelId: model.id,
+          meters: calculateHealthModel(selectedHabits, model.id, locale, demographics, customHabits),
+          // Keep the comparison on the same model as the current numbers
+          compareSnapshot: compareSnapshot && {
+            selectedHabits: compareSnapshot.selectedHabits,
+            meters: calculateHealthModel(compareSnapshot.selectedHabits, model.id, locale, demographics, customHabits),
+          },
+        });
+      },
+      
+      setLocale: (locale: Locale) => {
+        const { selectedHabits, compareSnapshot, activeModelId, demographics, customHabits } = get();
+        // Explanations, recommendations and organ messages are generated in the locale
+        set({
+          locale,
+          meters: calculateHealthModel(selectedHabits, activeModelId, locale, demographics, customHabits),
+          compareSnapshot: compareSnapshot && {
+            selectedHabits: compareSnapshot.selectedHabits,
+            meters: calculateHealthModel(compareSnapshot.selectedHabits, activeModelId, locale, demographics, customHabits),
+          },
+        });
+      },
+      
+      setDemographics: (input: Demographics) => {
+        const demographics = sanitizeDemographics(input);
+        const { selectedHabits, compareSnapshot, activeModelId, locale, customHabits } = get();
+        // The baselines change for both sides of a comparison, since it is the same person
+        set({
+          demographics,
+          meters: calculateHealthModel(selectedHabits, activeModelId, locale, demographics, customHabits),
+          compareSnapshot: compareSnapshot && {
+            selectedHabits: compareSnapshot.selectedHabits,
+            meters: calculateHealthModel(compareSnapshot.selectedHabits, activeModelId, locale, demographics, customHabits),
+          },
+        });
+      },
+      
+      saveCustomHabit: (input: HabitDefinition) => {
+        const result = validateCustomHabit(input, get().locale);
+        if (!result.ok) {
+          console.error(`Invalid custom habit: ${result.errors.join(' ')}`);
+          return;
+        }
+        
+        // Editing a habit keeps its place in the list
+        const { habit } = result;
+        const existing = get().customHabits.some(h => h.id === habit.id);
+        const customHabits = existing
+          ? get().customHabits.map(h => (h.id === habit.id ? habit : h))
+          : [...get().customHabits, habit];
+        
+        const { selectedHabits, compareSnapshot, activeModelId, locale, demographics } = get();
+        set({
+          customHabits,
+          meters: calculateHealthModel(selectedHabits, activeModelId, locale, demographics, customHabits),
+          compareSnapshot: compareSnapshot && {
+            selectedHabits: compareSnapshot.selectedHabits,
+            meters: calculateHealthModel(compareSnapshot.selectedHabits, activeModelId, locale, demographics, customHabits),
+          },
+        });
+      },
+      
+      deleteCustomHabit: (habitId: string) => {
+        const customHabits = get().customHabits.filter(habit => habit.id !== habitId);
+        if (customHabits.length === get().customHabits.length) return;
+        
+        // Forget the habit in every scenario so it cannot come back with a stale level
+        const withoutHabit = (habits: HabitLevels): HabitLevels =>
+          Object.fromEntries(Object.entries(habits).filter(([id]) => id !== habitId));
+        const scenarios = get().scenarios.map(scenario =>
+          scenario.habits[habitId] ? { ...scenario, habits: withoutHabit(scenario.habits) } : scenario
+        );
+        const selectedHabits = scenarios.find(scenario => scenario.id === get().activeScenarioId)!.habits;
+        const { compareSnapshot, activeModelId, locale, demographics } = get();
+        const compareHabits = compareSnapshot && withoutHabit(compareSnapshot.selectedHabits);
+        
+        set({
+          customHabits,
+          scenarios,
+          selectedHabits,
+          meters: calculateHealthModel(selectedHabits, activeModelId, locale, demographics, customHabits),
+          compareSnapshot: compareHabits && {
+            selectedHabits: compareHabits,
+            meters: calculateHealthModel(compareHabits, activeModelId, locale, demographics, customHabits),
+          },
+        });
+      },
+      
       setFocusOrgan: (organId: string | undefined) => {
         set({ focusOrganId: organId });
       },
       
-      setCompareMode: (mode: 'off' | 'before' | 'after') => {
+      setProjectionMonth: (month: number | undefined) => {
+        set({ projectionMonth: month });
+      },
+      
+      setProjectionTarget: (target: ProjectionTarget) => {
+        set({ projectionTarget: target });
+      },
+      
+      setCompareMode: (mode: CompareMode) => {
+        if (mode === 'off') {
+          set({ compareMode: mode, compareSnapshot: undefined });
+          return;
+        }
+        
+        // Starting a comparison freezes the current state as "before"
+        if (!get().compareSnapshot) {
+          get().captureCompareSnapshot();
+        }
         set({ compareMode: mode });
       },
       
+      captureCompareSnapshot: () => {
+        set((state) => ({
+          compareSnapshot: {
+            selectedHabits: state.selectedHabits,
+            meters: state.meters,
+          },
+        }));
+      },
+      
+      setAccessibility: (settings: AccessibilitySettings) => {
+        set({ accessibility: { ...settings } });
+      },
+      
       toggleReduceMotion: () => {
         set((state) => ({
           accessibility: {
@@ -179,10 +452,186 @@ export const useAtlasStore = create<AtlasState>()(
           },
         }));
       },
+      
+      loadJournal: async () => {
+        try {
+          const journal = await loadJournalEntries();
+          set({ journal });
+          if (get().habitInputMode === 'journal') {
+            get().applyJournalAverage();
+          }
+        } catch (error) {
+          console.error('Error loading the habit journal:', error);
+        }
+      },
+      
+      logHabitLevel: (habitId: string, level: number) => {
+        if (typeof level !== 'number' || level < 0 || level > 3 || !Number.isInteger(level)) {
+          console.error(`Invalid habit level: ${level} for habit ${habitId}`);
+          return;
+        }
+        
+        const today = toDateKey(new Date());
+        const journal = upsertJournalEntry(get().journal, today, habitId, level);
+        set({ journal });
+        get().applyJournalAverage();
+        
+        const entry = journal.find(e => e.date === today)!;
+        saveJournalEntry(entry).catch(error => console.error('Error saving the habit journal:', error));
+      },
+      
+      setHabitInputMode: (mode: HabitInputMode) => {
+        const { habitInputMode, activeScenarioId, simulateScenarioId, scenarios } = get();
+        if (mode === habitInputMode) return;
+        
+        set({ habitInputMode: mode });
+        if (mode === 'journal') {
+          set({ simulateScenarioId: activeScenarioId });
+          get().applyJournalAverage();
+        } else if (scenarios.some(scenario => scenario.id === simulateScenarioId)) {
+          get().switchScenario(simulateScenarioId!);
+        }
+      },
+      
+      setJournalWindow: (days: number) => {
+        if (!JOURNAL_WINDOWS.includes(days)) return;
+        set({ journalWindowDays: days });
+        if (get().habitInputMode === 'journal') {
+          get().applyJournalAverage();
+        }
+      },
+      
+      applyJournalAverage: () => {
+        const { journal, journalWindowDays, journalScenarioId, scenarios, activeScenarioId, locale, customHabits } = get();
+        const levels = averageJournalLevels(journal, journalWindowDays, toDateKey(new Date()), customHabits);
+        
+        // The averages go into a scenario of their own, so the habits set by hand are kept
+        if (!scenarios.some(scenario => scenario.id === journalScenarioId)) {
+          set({ journalScenarioId: get().createScenario(translate(locale, 'journal.scenarioName'), levels) });
+          return;
+        }
+        if (activeScenarioId !== journalScenarioId) {
+          get().switchScenario(journalScenarioId!);
+        }
+        get().setHabitLevels(levels);
+      },
+      
+      loadHistory: async () => {
+        try {
+          const history = await loadHistorySnapshots();
+          set({ history, historyLoaded: true });
+          // Record the habits the app opened with if they differ from the last snapshot
+          get().recordHistory();
+        } catch (error) {
+          console.error('Error loading the meter history:', error);
+        }
+      },
+      
+      recordHistory: () => {
+        const { history, historyLoaded, selectedHabits, meters, customHabits } = get();
+        // Recording before the stored history arrives would fork it
+        if (!historyLoaded) return;
+        
+        const updated = appendHistorySnapshot(history, selectedHabits, meters, new Date(), customHabits);
+        if (updated === history) return;
+        
+        set({ history: updated });
+        saveHistorySnapshot(updated[updated.length - 1]).catch(error =>
+          console.error('Error saving the meter history:', error)
+        );
+      },
     }),
     {
       name: 'atlas-habits-storage',
-      version: 2, // Incremented version for new calculation system
+      version: 3, // Habits now live in named scenarios
+      // Meters are derived from the habits, so recompute them on load instead of trusting a stored snapshot
+      partialize: (state) => ({
+        scenarios: state.scenarios,
+        activeScenarioId: state.activeScenarioId,
+        activeModelId: state.activeModelId,
+        locale: state.locale,
+        demographics: state.demographics,
+        customHabits: state.customHabits,
+        focusOrganId: state.focusOrganId,
+        compareMode: state.compareMode,
+        compareSnapshot: state.compareSnapshot && { selectedHabits: state.compareSnapshot.selectedHabits },
+        accessibility: state.accessibility,
+        habitInputMode: state.habitInputMode,
+        journalWindowDays: state.journalWindowDays,
+        journalScenarioId: state.journalScenarioId,
+        simulateScenarioId: state.simulateScenarioId,
+      }),
+      migrate: (persistedState, version) => {
+        const state = persistedState as Record<string, unknown>;
+        
+        // Versions before 3 stored a single set of habits: keep it as the first scenario
+        if (version < 3) {
+          const { selectedHabits, ...rest } = state;
+          const scenario = createScenario(
+            translate(DEFAULT_LOCALE, 'scenarios.current'),
+            (selectedHabits as HabitLevels | undefined) || {}
+          );
+          return { ...rest, scenarios: [scenario], activeScenarioId: scenario.id };
+        }
+        
+        return state;
+      },
+      merge: (persistedState, currentState) => {
+        const state = { ...currentState, ...(persistedState as Partial<AtlasState>) };
+        const scenarios = state.scenarios.length > 0 ? state.scenarios : currentState.scenarios;
+        const activeScenario = scenarios.find(scenario => scenario.id === state.activeScenarioId) || scenarios[0];
+        const selectedHabits = activeScenario.habits;
+        const activeModelId = getHealthModel(state.activeModelId).id;
+        const locale = isLocale(state.locale) ? state.locale : DEFAULT_LOCALE;
+        const demographics = sanitizeDemographics(state.demographics);
+        const customHabits = sanitizeCustomHabits(state.customHabits);
+        const journalWindowDays = JOURNAL_WINDOWS.includes(state.journalWindowDays)
+          ? state.journalWindowDays
+          : DEFAULT_JOURNAL_WINDOW;
+        const compareHabits = state.compareSnapshot?.selectedHabits;
+        const compareSnapshot = compareHabits && {
+          selectedHabits: compareHabits,
+          meters: calculateHealthModel(compareHabits, activeModelId, locale, demographics, customHabits),
+        };
+        return {
+          ...state,
+          scenarios,
+          activeScenarioId: activeScenario.id,
+          selectedHabits,
+          activeModelId,
+          locale,
+          demographics,
+          customHabits,
+          habitInputMode: state.habitInputMode === 'journal' ? 'journal' : 'simulate',
+          journalWindowDays,
+          meters: calculateHealthModel(selectedHabits, activeModelId, locale, demographics, customHabits),
+          compareMode: compareHabits ? state.compareMode : 'off',
+          compareSnapshot,
+          projection: projectState({
+            selectedHabits,
+            projectionTarget: state.projectionTarget,
+            compareSnapshot,
+            scenarios,
+            activeModelId,
+            demographics,
+            customHabits,
+          }),
+        };
+      },
     }
   )
-);
\ No newline at end of file
+);
+
+// Every change of habits is recorded for the history charts
+useAtlasStore.subscribe((state, previousState) => {
+  if (state.selectedHabits !== previousState.selectedHabits) {
+    state.recordHistory();
+  }
+});
+
+// The projection is computed once here, whichever views show it
+useAtlasStore.subscribe((state, previousState) => {
+  if (PROJECTION_INPUTS.some(key => state[key] !== previousState[key])) {
+    useAtlasStore.setState({ projection: projectState(state) });
+  }
+});
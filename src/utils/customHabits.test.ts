@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { createCustomHabitId, sanitizeCustomHabits, validateCustomHabit } from './customHabits';
+import { findHabit, getHabits } from './habitCatalog';
+import { calculateHealthModel } from './healthModel';
+import { HEALTH_MODELS } from './models';
+import { getHabitText } from '../i18n';
+
+const screens = {
+  id: 'custom_screens_before_bed',
+  name: 'Ecrãs antes de dormir',
+  kind: 'bad',
+  category: 'Sono',
+  intensity: { min: 0, max: 3, labels: ['Nunca', '15 min', '1 hora', '2+ horas'] },
+  mechanisms: [{ organ: 'brain', tags: ['melatonin_suppression'], weight: 0.3 }],
+  effects: { mental_health: { base: -10, curve: 1.2 } },
+};
+
+describe('validateCustomHabit', () => {
+  it('rebuilds a valid definition in the shape of habits.json', () => {
+    const result = validateCustomHabit({ ...screens, extra: 'ignored' });
+    expect(result).toEqual({
+      ok: true,
+      habit: {
+        ...screens,
+        translations: {},
+        affects: ['brain'],
+        pairs: [],
+        custom: true,
+      },
+    });
+  });
+
+  it('collects every problem of an invalid definition', () => {
+    const result = validateCustomHabit({
+      ...screens,
+      id: 'smoking',
+      name: ' ',
+      intensity: { labels: ['Nunca'] },
+      mechanisms: [{ organ: 'spleen', weight: 0.3, tags: [] }, { organ: 'heart', weight: -0.3, tags: [] }],
+      effects: { mental_health: { base: Infinity, curve: 1 } },
+    });
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.errors).toHaveLength(6);
+  });
+
+  it('requires the weights to follow the kind of habit', () => {
+    const good = { ...screens, kind: 'good' };
+    expect(validateCustomHabit(good).ok).toBe(false);
+    expect(validateCustomHabit({ ...good, mechanisms: [{ ...screens.mechanisms[0], weight: -0.3 }] }).ok).toBe(true);
+  });
+
+  it('needs at least one organ or meter effect', () => {
+    expect(validateCustomHabit({ ...screens, mechanisms: [], effects: { happiness: { base: 0, curve: 1 } } }, 'en'))
+      .toEqual({ ok: false, errors: ['Pick at least one affected organ or one meter effect.'] });
+  });
+
+  it('keeps only the valid, distinct entries of a stored list', () => {
+    expect(sanitizeCustomHabits([screens, screens, { ...screens, id: 'custom_x', kind: 'neutral' }, null]))
+      .toHaveLength(1);
+    expect(sanitizeCustomHabits('not a list')).toEqual([]);
+  });
+
+  it('derives unique ids from the name', () => {
+    expect(createCustomHabitId('Exposição solar', [])).toBe('custom_exposicao_solar');
+    expect(createCustomHabitId('Cafeína', ['custom_cafeina'])).toBe('custom_cafeina_2');
+  });
+});
+
+describe('custom habits in the catalog', () => {
+  it('list after the built-in habits and speak one language', () => {
+    const { habit } = validateCustomHabit(screens) as { habit: NonNullable<ReturnType<typeof findHabit>> };
+    const catalog = getHabits([habit]);
+
+    expect(catalog[catalog.length - 1].id).toBe(screens.id);
+    expect(findHabit(screens.id, [habit])).toBe(habit);
+    expect(getHabitText(screens.id, 'en', [habit]).name).toBe('Ecrãs antes de dormir');
+  });
+
+  it('move the meters and organs in every model', () => {
+    const { habit } = validateCustomHabit(screens) as { habit: NonNullable<ReturnType<typeof findHabit>> };
+
+    HEALTH_MODELS.forEach(model => {
+      const none = calculateHealthModel({}, model.id, 'pt', undefined, [habit]);
+      const daily = calculateHealthModel({ [screens.id]: { level: 3 } }, model.id, 'pt', undefined, [habit]);
+      expect(daily.organHealth.brain).toBeLessThan(none.organHealth.brain);
+      expect(daily.mentalHealth).toBeLessThan(none.mentalHealth);
+      expect(daily.organs.brain.contributions.map(c => c.habitId)).toContain(screens.id);
+    });
+  });
+
+  it('are ignored by the models when not passed in', () => {
+    const meters = calculateHealthModel({ [screens.id]: { level: 3 } });
+    expect(meters).toEqual(calculateHealthModel({}));
+    expect(findHabit(screens.id)).toBeUndefined();
+  });
+});
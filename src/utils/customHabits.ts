@@ -0,0 +1,198 @@
+/**
+ * CUSTOM HABITS
+ *
+ * Habits the user defines in the habit editor (caffeine, screen time before bed,
+ * sun exposure...). A custom habit has the same shape as a habits.json entry plus
+ * the points it moves each meter at its maximum level, which the curve model reads
+ * the way it reads its built-in curves. The linear model only reads the mechanism
+ * weights, like it does for the built-in habits.
+ *
+ * Definitions come from a form, from storage or from an imported file, so they are
+ * rebuilt field by field here and anything out of range is rejected before it can
+ * reach the models.
+ */
+
+import { createTranslator, DEFAULT_LOCALE, Locale } from '../i18n';
+import { HEALTH_METRICS, HealthMetric } from './exponentialHealthCalculator';
+import { BUILT_IN_HABIT_IDS, HabitDefinition, HabitKind, HabitMechanism, HabitMeterEffect } from './habitCatalog';
+import type { HeadlineMeter } from './healthModel';
+import { ORGANS } from './dataFiles';
+
+export const CUSTOM_HABIT_LIMITS = {
+  textLength: 40,
+  tags: 5,
+  weight: { min: 0.05, max: 0.5 }, // Magnitude; the sign follows the kind
+  effect: { min: -30, max: 30 },
+  curve: { min: 1, max: 2 },
+};
+
+export const CUSTOM_HABIT_ID_PREFIX = 'custom_';
+
+// Curve the editor gives every meter effect
+export const DEFAULT_EFFECT_CURVE = 1.2;
+
+// Meter each curve-model metric is shown as
+export const METRIC_METERS: Record<HealthMetric, HeadlineMeter> = {
+  general_health: 'health',
+  mental_health: 'mentalHealth',
+  happiness: 'happiness',
+  quality_of_life: 'qualityOfLife',
+  physical_fitness: 'physicalFitness',
+  life_expectancy: 'lifeExpectancy',
+  disease_risk: 'diseaseRisk',
+  overall_wellness: 'overallWellness',
+};
+
+const ORGAN_IDS = new Set(ORGANS.map(organ => organ.id));
+const KINDS: HabitKind[] = ['bad', 'good'];
+const LEVELS = 4;
+
+export type ValidatedCustomHabit =
+  | { ok: true; habit: HabitDefinition }
+  | { ok: false; errors: string[] };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isText = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0 && value.trim().length <= CUSTOM_HABIT_LIMITS.textLength;
+
+const isWithin = (value: unknown, range: { min: number; max: number }): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= range.min && value <= range.max;
+
+/**
+ * Id for a new custom habit, derived from its name and unique among the given ids
+ */
+export const createCustomHabitId = (name: string, existingIds: string[]): string => {
+  const slug = name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '') || 'habit';
+  const base = `${CUSTOM_HABIT_ID_PREFIX}${slug}`;
+
+  let id = base;
+  for (let suffix = 2; existingIds.includes(id); suffix++) {
+    id = `${base}_${suffix}`;
+  }
+  return id;
+};
+
+/**
+ * Validate a custom habit definition, collecting every problem found (reported in the given locale)
+ */
+export const validateCustomHabit = (value: unknown, locale: Locale = DEFAULT_LOCALE): ValidatedCustomHabit => {
+  const t = createTranslator(locale);
+  if (!isRecord(value)) {
+    return { ok: false, errors: [t('customHabits.error.notHabit')] };
+  }
+
+  const errors: string[] = [];
+  const id = value.id;
+  if (typeof id !== 'string' || !new RegExp(`^${CUSTOM_HABIT_ID_PREFIX}[a-z0-9_]+$`).test(id) || BUILT_IN_HABIT_IDS.includes(id)) {
+    errors.push(t('customHabits.error.id', { id: String(JSON.stringify(id)) }));
+  }
+  if (!isText(value.name)) {
+    errors.push(t('customHabits.error.name', { max: CUSTOM_HABIT_LIMITS.textLength }));
+  }
+  if (!KINDS.includes(value.kind as HabitKind)) {
+    errors.push(t('customHabits.error.kind'));
+  }
+  if (!isText(value.category)) {
+    errors.push(t('customHabits.error.category', { max: CUSTOM_HABIT_LIMITS.textLength }));
+  }
+
+  const labels = isRecord(value.intensity) ? value.intensity.labels : undefined;
+  if (!Array.isArray(labels) || labels.length !== LEVELS || !labels.every(isText)) {
+    errors.push(t('customHabits.error.labels', { count: LEVELS }));
+  }
+
+  const kind = value.kind as HabitKind;
+  const mechanisms: HabitMechanism[] = [];
+  if (!Array.isArray(value.mechanisms)) {
+    errors.push(t('customHabits.error.mechanisms'));
+  } else {
+    value.mechanisms.forEach(mechanism => {
+      const organ = isRecord(mechanism) ? mechanism.organ : undefined;
+      if (typeof organ !== 'string' || !ORGAN_IDS.has(organ) || mechanisms.some(m => m.organ === organ)) {
+        errors.push(t('customHabits.error.organ', { organ: String(JSON.stringify(organ)) }));
+        return;
+      }
+      const { weight, tags } = mechanism as Record<string, unknown>;
+      // Harmful habits take health away (positive weight), beneficial ones give it back
+      const signed = kind === 'good' ? -(weight as number) : (weight as number);
+      if (!isWithin(signed, CUSTOM_HABIT_LIMITS.weight)) {
+        errors.push(t('customHabits.error.weight', {
+          organ,
+          min: CUSTOM_HABIT_LIMITS.weight.min,
+          max: CUSTOM_HABIT_LIMITS.weight.max,
+        }));
+        return;
+      }
+      if (!Array.isArray(tags) || tags.length > CUSTOM_HABIT_LIMITS.tags || !tags.every(isText)) {
+        errors.push(t('customHabits.error.tags', { organ, max: CUSTOM_HABIT_LIMITS.tags }));
+        return;
+      }
+      mechanisms.push({ organ, tags: tags.map(tag => tag.trim()), weight: weight as number });
+    });
+  }
+
+  const effects: Partial<Record<HealthMetric, HabitMeterEffect>> = {};
+  if (value.effects !== undefined && !isRecord(value.effects)) {
+    errors.push(t('customHabits.error.effects'));
+  } else {
+    Object.entries(value.effects || {}).forEach(([metric, effect]) => {
+      const { base, curve } = isRecord(effect) ? effect : { base: undefined, curve: undefined };
+      if (!HEALTH_METRICS.includes(metric as HealthMetric)
+        || !isWithin(base, CUSTOM_HABIT_LIMITS.effect)
+        || !isWithin(curve, CUSTOM_HABIT_LIMITS.curve)) {
+        errors.push(t('customHabits.error.effect', { metric }));
+        return;
+      }
+      if (base !== 0) effects[metric as HealthMetric] = { base, curve };
+    });
+  }
+
+  if (errors.length === 0 && mechanisms.length === 0 && Object.keys(effects).length === 0) {
+    errors.push(t('customHabits.error.noEffect'));
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  // Rebuilt from the checked fields only, so nothing unexpected reaches the models
+  return {
+    ok: true,
+    habit: {
+      id: id as string,
+      name: (value.name as string).trim(),
+      kind,
+      category: (value.category as string).trim(),
+      intensity: { min: 0, max: LEVELS - 1, labels: (labels as string[]).map(label => label.trim()) },
+      translations: {},
+      affects: mechanisms.map(mechanism => mechanism.organ),
+      mechanisms,
+      pairs: [],
+      effects,
+      custom: true,
+    },
+  };
+};
+
+/**
+ * Keep the valid custom habits of a stored or imported list, dropping duplicated ids
+ */
+export const sanitizeCustomHabits = (value: unknown): HabitDefinition[] => {
+  if (!Array.isArray(value)) return [];
+
+  const habits: HabitDefinition[] = [];
+  value.forEach(entry => {
+    const result = validateCustomHabit(entry);
+    if (result.ok && !habits.some(habit => habit.id === result.habit.id)) {
+      habits.push(result.habit);
+    }
+  });
+  return habits;
+};
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { DataFiles, formatDataFileIssues, validateDataFiles } from './dataFiles';
+import { HABIT_EFFECT_IDS } from './exponentialHealthCalculator';
+import habitsData from '../data/habits.json';
+import organsData from '../data/organs.json';
+import organMappingsData from '../data/organHabitMappings.json';
+
+// Deep copies the tests can break without touching the shipped data
+const copyFiles = () => JSON.parse(JSON.stringify({
+  habits: habitsData,
+  organs: organsData,
+  organMappings: organMappingsData,
+})) as { habits: typeof habitsData; organs: typeof organsData; organMappings: typeof organMappingsData };
+
+const problems = (files: DataFiles) => formatDataFileIssues(validateDataFiles(files)).split('\n');
+
+describe('validateDataFiles', () => {
+  it('accepts the shipped data files and meter curves', () => {
+    const issues = validateDataFiles(undefined, { habitEffectIds: HABIT_EFFECT_IDS });
+    expect(formatDataFileIssues(issues)).toBe('');
+  });
+
+  it('reports habit references that do not resolve', () => {
+    const files = copyFiles();
+    const smoking = files.habits.habits[0];
+    smoking.affects[0] = 'lung';
+    smoking.pairs[0].with = 'sedentry';
+
+    expect(problems(files)).toEqual([
+      'habits.json › habits.smoking.affects[0]: unknown organ "lung"',
+      'habits.json › habits.smoking.mechanisms[0].organ: "lungs" is missing from affects',
+      'habits.json › habits.smoking.pairs[0].with: unknown habit "sedentry"',
+    ]);
+  });
+
+  it('reports weights out of range or against the kind of habit', () => {
+    const files = copyFiles();
+    files.habits.habits[0].mechanisms[0].weight = -0.4;
+    files.habits.habits[0].pairs[0].multiplier = 3;
+    files.organs.organs[0].weight = 0;
+
+    expect(problems(files)).toEqual([
+      'organs.json › organs.lungs.weight: 0 is out of range (0.01 to 1)',
+      'habits.json › habits.smoking.mechanisms[0].weight: -0.4 is out of range for a bad habit (0.01 to 1)',
+      'habits.json › habits.smoking.pairs[0].multiplier: 3 is out of range (1.01 to 2)',
+    ]);
+  });
+
+  it('reports mappings to unknown or mismatched habits and organs', () => {
+    const files = copyFiles();
+    const mappings = files.organMappings.organMappings as Record<string, (typeof files.organMappings.organMappings)['lungs']>;
+    mappings.lungs.topHarmful[0].habitId = 'smokin';
+    mappings.lungs.topBeneficial[0].habitId = 'sedentary';
+    mappings.spleen = mappings.skin;
+    delete mappings.skin;
+
+    expect(problems(files)).toEqual([
+      'organHabitMappings.json › organMappings: organ "skin" has no mapping',
+      'organHabitMappings.json › organMappings.lungs.topHarmful[0].habitId: unknown habit "smokin"',
+      'organHabitMappings.json › organMappings.lungs.topBeneficial[0].habitId: "sedentary" is not a good habit',
+      'organHabitMappings.json › organMappings.lungs.topBeneficial[0].habitId: "sedentary" is mapped to this organ more than once',
+      'organHabitMappings.json › organMappings.spleen: unknown organ "spleen"',
+    ]);
+  });
+
+  it('reports body map shapes that cannot be drawn', () => {
+    const files = copyFiles();
+    const [lungs, heart] = files.organs.organs as { shapes: Record<string, unknown>[] }[];
+    lungs.shapes[0] = { type: 'circle', cx: 175, cy: 180, r: 20 };
+    lungs.shapes[1].rx = '20';
+    heart.shapes[0].line = 'dotted';
+
+    expect(problems(files)).toEqual([
+      'organs.json › organs.lungs.shapes[0].type: expected one of ellipse, rect, path, found "circle"',
+      'organs.json › organs.lungs.shapes[1].rx: expected a number, found "20"',
+      'organs.json › organs.heart.shapes[0].line: expected one of solid, dashed, found "dotted"',
+    ]);
+  });
+
+  it('reports mechanism tags that no organ metric picks up', () => {
+    const files = copyFiles();
+    const lungs = files.organs.organs[0] as { metricTags: Partial<Record<string, string[]>> };
+    lungs.metricTags.cilia_health = [];
+    lungs.metricTags.cilia = ['cilia_damage'];
+
+    expect(problems(files)).toEqual([
+      'organs.json › organs.lungs.metricTags.cilia: unknown metric "cilia"',
+      'habits.json › habits.smoking.mechanisms[0].tags[1]: "cilia_damage" is not linked to any metric of "lungs"',
+    ]);
+  });
+
+  it('reports missing fields and duplicate ids without crashing', () => {
+    const files = copyFiles();
+    files.habits.habits[1].id = 'smoking';
+    (files.organs.organs[0] as Partial<(typeof files.organs.organs)[number]>).translations = undefined;
+
+    const report = problems(files);
+    expect(report).toContain('habits.json › habits.smoking.id: duplicate id "smoking"');
+    expect(report).toContain('organs.json › organs.lungs.translations: expected an object, found undefined');
+    expect(validateDataFiles({ habits: null, organs: 'x', organMappings: [] }).length).toBeGreaterThan(0);
+  });
+
+  it('checks the meter curves against the habits', () => {
+    expect(validateDataFiles(undefined, { habitEffectIds: [...HABIT_EFFECT_IDS.slice(1), 'smokng'] })).toEqual([
+      { file: 'HABIT_EFFECTS', path: 'smokng', message: 'unknown habit "smokng"' },
+      { file: 'HABIT_EFFECTS', path: HABIT_EFFECT_IDS[0], message: 'habit has no meter curves' },
+    ]);
+  });
+});
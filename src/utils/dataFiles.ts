@@ -0,0 +1,491 @@
+/**
+ * DATA FILES
+ *
+ * Typed loaders for habits.json, organs.json and organHabitMappings.json, and a
+ * validator for them. TypeScript only infers the shape of a JSON import, so a typo
+ * in an id or a weight out of range would otherwise fail silently: the lookup
+ * returns undefined and the habit or organ simply stops counting.
+ *
+ * validateDataFiles checks the shape of every entry and that every cross-reference
+ * resolves: habit "affects", "mechanisms.organ" and "pairs.with", the mechanism tags
+ * behind each organ metric, and the organ and habit ids of the mappings. It runs at
+ * startup in development (see main.tsx) and in dataFiles.test.ts, and reports each
+ * problem with the path of the bad field.
+ */
+
+import type { Locale } from '../i18n';
+import type { HabitDose } from './habitDose';
+import habitsData from '../data/habits.json';
+import organsData from '../data/organs.json';
+import organMappingsData from '../data/organHabitMappings.json';
+
+export type HabitKind = 'good' | 'bad';
+
+export interface HabitMechanism {
+  organ: string;
+  tags: string[];
+  weight: number; // Positive for harmful habits, negative for beneficial ones
+}
+
+export interface HabitPair {
+  with: string;
+  multiplier: number; // Above 1: how much the two habits compound each other
+}
+
+export interface HabitTranslation {
+  name: string;
+  category: string;
+  labels: string[];
+  unit?: string;
+}
+
+export interface HabitEntry {
+  id: string;
+  name: string;
+  kind: HabitKind;
+  category: string;
+  intensity: { min: number; max: number; labels: string[] };
+  dose?: HabitDose;
+  translations: Partial<Record<Locale, HabitTranslation>>;
+  affects: string[];
+  mechanisms: HabitMechanism[];
+  pairs: HabitPair[];
+}
+
+export interface OrganTranslation {
+  name: string;
+  system: string;
+  metricLabels: string[];
+  narration: { what_happens: string; what_helps: string };
+}
+
+// One piece of the organ on the body map (viewBox 0 0 400 600). A "line" is drawn as a
+// stroke in the organ color instead of a filled shape, e.g. the skin outline
+export type OrganShape = (
+  | { type: 'ellipse'; cx: number; cy: number; rx: number; ry: number }
+  | { type: 'rect'; x: number; y: number; width: number; height: number; rx?: number }
+  | { type: 'path'; d: string }
+) & { line?: 'solid' | 'dashed' };
+
+export interface OrganEntry {
+  id: string;
+  name: string;
+  system: string;
+  svgId: string;
+  color: string;
+  healthyColor: string;
+  affectedColor: string;
+  weight: number; // Share of the organ in the overall health average
+  dynamics: { damageRate: number; recoveryRate: number }; // Monthly rates of the projection
+  metrics: string[];
+  metricLabels: string[];
+  metricTags: Partial<Record<string, string[]>>; // Mechanism tags of habits.json that act on each metric
+  narration: { what_happens: string; what_helps: string };
+  translations: Partial<Record<Locale, OrganTranslation>>;
+  shapes: OrganShape[];
+}
+
+export interface OrganHabitImpactTranslation {
+  mechanism: string;
+}
+
+export interface OrganHabitImpact {
+  habitId: string;
+  impact: number;
+  mechanism: string;
+  translations: Partial<Record<Locale, OrganHabitImpactTranslation>>;
+  evidenceLevel: string;
+}
+
+export interface OrganMapping {
+  topHarmful: OrganHabitImpact[];
+  topBeneficial: OrganHabitImpact[];
+  baselineHealth: number;
+  riskFactors: string[];
+}
+
+export interface HabitsFile {
+  habits: HabitEntry[];
+}
+
+export interface OrgansFile {
+  organs: OrganEntry[];
+}
+
+export interface OrganMappingsFile {
+  organMappings: Record<string, OrganMapping>;
+}
+
+export const HABITS_FILE = habitsData as HabitsFile;
+export const ORGANS_FILE = organsData as OrgansFile;
+export const ORGAN_MAPPINGS_FILE = organMappingsData as OrganMappingsFile;
+
+export const ORGANS: OrganEntry[] = ORGANS_FILE.organs;
+
+/**
+ * Organ with the given id
+ */
+export const findOrgan = (organId: string): OrganEntry | undefined =>
+  ORGANS.find(organ => organ.id === organId);
+
+export const DATA_FILE_NAMES = {
+  habits: 'habits.json',
+  organs: 'organs.json',
+  organMappings: 'organHabitMappings.json',
+};
+
+// Contents to validate; unknown so broken copies can be checked too
+export interface DataFiles {
+  habits: unknown;
+  organs: unknown;
+  organMappings: unknown;
+}
+
+export interface DataFileIssue {
+  file: string;
+  path: string; // e.g. "habits.smoking.mechanisms[1].organ"
+  message: string;
+}
+
+export interface DataFileValidationOptions {
+  habitEffectIds?: string[]; // Habits with meter curves in the curve model, checked against habits.json
+}
+
+const LOCALES_TO_CHECK: Locale[] = ['en'];
+const LEVELS = 4;
+const EVIDENCE_LEVELS = ['strong', 'moderate'];
+const RANGES = {
+  mechanismWeight: { min: 0.01, max: 1 },
+  pairMultiplier: { min: 1.01, max: 2 },
+  organWeight: { min: 0.01, max: 1 },
+  organRate: { min: 0.001, max: 1 },
+  mappingImpact: { min: 0.01, max: 1 },
+  baselineHealth: { min: 0, max: 100 },
+};
+const SHAPE_FIELDS: Record<string, string[]> = {
+  ellipse: ['cx', 'cy', 'rx', 'ry'],
+  rect: ['x', 'y', 'width', 'height'],
+  path: [],
+};
+const SHAPE_LINES = ['solid', 'dashed'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const show = (value: unknown) => JSON.stringify(value) ?? String(value);
+
+/**
+ * Check the data files, returning every problem found (none for valid files)
+ */
+export const validateDataFiles = (
+  files: DataFiles = { habits: habitsData, organs: organsData, organMappings: organMappingsData },
+  options: DataFileValidationOptions = {}
+): DataFileIssue[] => {
+  const issues: DataFileIssue[] = [];
+
+  const checker = (file: string) => {
+    const report = (path: string, message: string) => issues.push({ file, path, message });
+
+    const text = (value: unknown, path: string): value is string => {
+      if (typeof value === 'string' && value.trim().length > 0) return true;
+      report(path, `expected a non-empty string, found ${show(value)}`);
+      return false;
+    };
+
+    const number = (value: unknown, path: string, range?: { min: number; max: number }): value is number => {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        report(path, `expected a number, found ${show(value)}`);
+        return false;
+      }
+      if (range && (value < range.min || value > range.max)) {
+        report(path, `${value} is out of range (${range.min} to ${range.max})`);
+        return false;
+      }
+      return true;
+    };
+
+    const list = (value: unknown, path: string): unknown[] => {
+      if (Array.isArray(value)) return value;
+      report(path, `expected a list, found ${show(value)}`);
+      return [];
+    };
+
+    const texts = (value: unknown, path: string, length?: number): string[] => {
+      const items = list(value, path);
+      if (length !== undefined && Array.isArray(value) && items.length !== length) {
+        report(path, `expected ${length} entries, found ${items.length}`);
+      }
+      return items.filter((item, index): item is string => text(item, `${path}[${index}]`));
+    };
+
+    const record = (value: unknown, path: string): Record<string, unknown> => {
+      if (isRecord(value)) return value;
+      report(path, `expected an object, found ${show(value)}`);
+      return {};
+    };
+
+    // Entries are named by id where possible, e.g. "organs.lungs" instead of "organs[0]"
+    const entries = (value: unknown, path: string) => {
+      const seen = new Set<string>();
+      return list(value, path).map((entry, index) => {
+        const fields = record(entry, `${path}[${index}]`);
+        const id = typeof fields.id === 'string' && fields.id ? fields.id : undefined;
+        const entryPath = id ? `${path}.${id}` : `${path}[${index}]`;
+        if (!id) report(`${path}[${index}].id`, `expected a non-empty string, found ${show(fields.id)}`);
+        if (id && seen.has(id)) report(`${entryPath}.id`, `duplicate id "${id}"`);
+        if (id) seen.add(id);
+        return { id, fields, path: entryPath };
+      });
+    };
+
+    return { report, text, number, list, texts, record, entries };
+  };
+
+  // organs.json
+  const organFile = checker(DATA_FILE_NAMES.organs);
+  const organs = organFile.entries(organFile.record(files.organs, 'organs').organs, 'organs');
+  const organIds = new Set(organs.flatMap(organ => (organ.id ? [organ.id] : [])));
+  const metricTagsByOrgan = new Map<string, Set<string>>();
+
+  organs.forEach(({ id, fields, path }) => {
+    ['name', 'system', 'svgId'].forEach(key => organFile.text(fields[key], `${path}.${key}`));
+    ['color', 'healthyColor', 'affectedColor'].forEach(key => {
+      if (organFile.text(fields[key], `${path}.${key}`) && !/^#[0-9a-f]{6}$/i.test(fields[key] as string)) {
+        organFile.report(`${path}.${key}`, `expected a #rrggbb color, found ${show(fields[key])}`);
+      }
+    });
+    organFile.number(fields.weight, `${path}.weight`, RANGES.organWeight);
+    const dynamics = organFile.record(fields.dynamics, `${path}.dynamics`);
+    organFile.number(dynamics.damageRate, `${path}.dynamics.damageRate`, RANGES.organRate);
+    organFile.number(dynamics.recoveryRate, `${path}.dynamics.recoveryRate`, RANGES.organRate);
+    const metrics = organFile.texts(fields.metrics, `${path}.metrics`);
+    organFile.texts(fields.metricLabels, `${path}.metricLabels`, metrics.length);
+    const metricTags = organFile.record(fields.metricTags, `${path}.metricTags`);
+    const linkedTags = new Set<string>();
+    metrics.forEach(metric => {
+      if (!(metric in metricTags)) organFile.report(`${path}.metricTags`, `metric "${metric}" has no tags`);
+    });
+    Object.entries(metricTags).forEach(([metric, tags]) => {
+      const tagList = organFile.texts(tags, `${path}.metricTags.${metric}`);
+      if (!metrics.includes(metric)) {
+        organFile.report(`${path}.metricTags.${metric}`, `unknown metric "${metric}"`);
+      } else {
+        tagList.forEach(tag => linkedTags.add(tag));
+      }
+    });
+    if (id) metricTagsByOrgan.set(id, linkedTags);
+    const narration = organFile.record(fields.narration, `${path}.narration`);
+    organFile.text(narration.what_happens, `${path}.narration.what_happens`);
+    organFile.text(narration.what_helps, `${path}.narration.what_helps`);
+
+    LOCALES_TO_CHECK.forEach(locale => {
+      const translationPath = `${path}.translations.${locale}`;
+      const translation = organFile.record(organFile.record(fields.translations, `${path}.translations`)[locale], translationPath);
+      organFile.text(translation.name, `${translationPath}.name`);
+      organFile.text(translation.system, `${translationPath}.system`);
+      organFile.texts(translation.metricLabels, `${translationPath}.metricLabels`, metrics.length);
+      const translatedNarration = organFile.record(translation.narration, `${translationPath}.narration`);
+      organFile.text(translatedNarration.what_happens, `${translationPath}.narration.what_happens`);
+      organFile.text(translatedNarration.what_helps, `${translationPath}.narration.what_helps`);
+    });
+
+    const shapes = organFile.list(fields.shapes, `${path}.shapes`);
+    if (Array.isArray(fields.shapes) && shapes.length === 0) organFile.report(`${path}.shapes`, 'expected at least one shape');
+    shapes.forEach((entry, index) => {
+      const shapePath = `${path}.shapes[${index}]`;
+      const shape = organFile.record(entry, shapePath);
+      const numbers = SHAPE_FIELDS[shape.type as string];
+      if (!numbers) {
+        organFile.report(`${shapePath}.type`, `expected one of ${Object.keys(SHAPE_FIELDS).join(', ')}, found ${show(shape.type)}`);
+        return;
+      }
+      numbers.forEach(key => organFile.number(shape[key], `${shapePath}.${key}`));
+      if (shape.type === 'rect' && shape.rx !== undefined) organFile.number(shape.rx, `${shapePath}.rx`);
+      if (shape.type === 'path') organFile.text(shape.d, `${shapePath}.d`);
+      if (shape.line !== undefined && !SHAPE_LINES.includes(shape.line as string)) {
+        organFile.report(`${shapePath}.line`, `expected one of ${SHAPE_LINES.join(', ')}, found ${show(shape.line)}`);
+      }
+    });
+  });
+
+  // habits.json
+  const habitFile = checker(DATA_FILE_NAMES.habits);
+  const habits = habitFile.entries(habitFile.record(files.habits, 'habits').habits, 'habits');
+  const habitKinds = new Map(habits.flatMap(habit => (habit.id ? [[habit.id, habit.fields.kind] as const] : [])));
+
+  habits.forEach(({ id, fields, path }) => {
+    habitFile.text(fields.name, `${path}.name`);
+    habitFile.text(fields.category, `${path}.category`);
+    const kind = fields.kind as HabitKind;
+    if (kind !== 'good' && kind !== 'bad') {
+      habitFile.report(`${path}.kind`, `expected "good" or "bad", found ${show(fields.kind)}`);
+    }
+
+    const intensity = habitFile.record(fields.intensity, `${path}.intensity`);
+    if (intensity.min !== 0 || intensity.max !== LEVELS - 1) {
+      habitFile.report(`${path}.intensity`, `levels must go from 0 to ${LEVELS - 1}`);
+    }
+    habitFile.texts(intensity.labels, `${path}.intensity.labels`, LEVELS);
+
+    const hasDose = fields.dose !== undefined;
+    if (hasDose) {
+      const dose = habitFile.record(fields.dose, `${path}.dose`);
+      habitFile.text(dose.unit, `${path}.dose.unit`);
+      habitFile.number(dose.step, `${path}.dose.step`, { min: Number.MIN_VALUE, max: Infinity });
+      const anchors = habitFile.list(dose.levels, `${path}.dose.levels`);
+      if (anchors.length !== LEVELS
+        || !anchors.every((anchor, index) => typeof anchor === 'number' && (index === 0 || anchor > (anchors[index - 1] as number)))) {
+        habitFile.report(`${path}.dose.levels`, `expected ${LEVELS} increasing quantities, found ${show(dose.levels)}`);
+      }
+    }
+
+    LOCALES_TO_CHECK.forEach(locale => {
+      const translationPath = `${path}.translations.${locale}`;
+      const translation = habitFile.record(habitFile.record(fields.translations, `${path}.translations`)[locale], translationPath);
+      habitFile.text(translation.name, `${translationPath}.name`);
+      habitFile.text(translation.category, `${translationPath}.category`);
+      habitFile.texts(translation.labels, `${translationPath}.labels`, LEVELS);
+      if (hasDose) {
+        habitFile.text(translation.unit, `${translationPath}.unit`);
+      } else if (translation.unit !== undefined) {
+        habitFile.report(`${translationPath}.unit`, 'only habits with a dose have a unit');
+      }
+    });
+
+    const affects = habitFile.texts(fields.affects, `${path}.affects`);
+    affects.forEach((organ, index) => {
+      if (!organIds.has(organ)) habitFile.report(`${path}.affects[${index}]`, `unknown organ "${organ}"`);
+    });
+
+    const mechanismOrgans = new Set<string>();
+    habitFile.list(fields.mechanisms, `${path}.mechanisms`).forEach((entry, index) => {
+      const mechanismPath = `${path}.mechanisms[${index}]`;
+      const mechanism = habitFile.record(entry, mechanismPath);
+      if (habitFile.text(mechanism.organ, `${mechanismPath}.organ`)) {
+        const organ = mechanism.organ as string;
+        mechanismOrgans.add(organ);
+        if (!organIds.has(organ)) {
+          habitFile.report(`${mechanismPath}.organ`, `unknown organ "${organ}"`);
+        } else if (!affects.includes(organ)) {
+          habitFile.report(`${mechanismPath}.organ`, `"${organ}" is missing from affects`);
+        }
+      }
+      habitFile.texts(mechanism.tags, `${mechanismPath}.tags`);
+      // Every tag must feed at least one metric of the organ, or it would not show in the sub-scores
+      const linkedTags = metricTagsByOrgan.get(mechanism.organ as string);
+      (Array.isArray(mechanism.tags) ? mechanism.tags : []).forEach((tag, tagIndex) => {
+        if (linkedTags && typeof tag === 'string' && tag && !linkedTags.has(tag)) {
+          habitFile.report(`${mechanismPath}.tags[${tagIndex}]`, `"${tag}" is not linked to any metric of "${mechanism.organ}"`);
+        }
+      });
+      if (habitFile.number(mechanism.weight, `${mechanismPath}.weight`)) {
+        const weight = mechanism.weight as number;
+        // Harmful habits take health away (positive weight), beneficial ones give it back
+        const magnitude = kind === 'good' ? -weight : weight;
+        if (magnitude < RANGES.mechanismWeight.min || magnitude > RANGES.mechanismWeight.max) {
+          habitFile.report(
+            `${mechanismPath}.weight`,
+            `${weight} is out of range for a ${kind} habit (${kind === 'good' ? '-' : ''}${RANGES.mechanismWeight.min} to ${kind === 'good' ? '-' : ''}${RANGES.mechanismWeight.max})`
+          );
+        }
+      }
+    });
+    affects.forEach(organ => {
+      if (organIds.has(organ) && !mechanismOrgans.has(organ)) {
+        habitFile.report(`${path}.affects`, `"${organ}" has no mechanism`);
+      }
+    });
+
+    habitFile.list(fields.pairs, `${path}.pairs`).forEach((entry, index) => {
+      const pairPath = `${path}.pairs[${index}]`;
+      const pair = habitFile.record(entry, pairPath);
+      if (habitFile.text(pair.with, `${pairPath}.with`)) {
+        if (!habitKinds.has(pair.with as string)) {
+          habitFile.report(`${pairPath}.with`, `unknown habit "${pair.with}"`);
+        } else if (pair.with === id) {
+          habitFile.report(`${pairPath}.with`, 'a habit cannot pair with itself');
+        }
+      }
+      habitFile.number(pair.multiplier, `${pairPath}.multiplier`, RANGES.pairMultiplier);
+    });
+  });
+
+  // organHabitMappings.json
+  const mappingFile = checker(DATA_FILE_NAMES.organMappings);
+  const mappings = mappingFile.record(mappingFile.record(files.organMappings, 'organMappings').organMappings, 'organMappings');
+
+  organIds.forEach(organId => {
+    if (!(organId in mappings)) mappingFile.report('organMappings', `organ "${organId}" has no mapping`);
+  });
+
+  Object.entries(mappings).forEach(([organId, value]) => {
+    const path = `organMappings.${organId}`;
+    if (!organIds.has(organId)) mappingFile.report(path, `unknown organ "${organId}"`);
+
+    const mapping = mappingFile.record(value, path);
+    mappingFile.number(mapping.baselineHealth, `${path}.baselineHealth`, RANGES.baselineHealth);
+    mappingFile.texts(mapping.riskFactors, `${path}.riskFactors`);
+
+    const mappedHabits = new Set<string>();
+    (['topHarmful', 'topBeneficial'] as const).forEach(list => {
+      const expectedKind: HabitKind = list === 'topHarmful' ? 'bad' : 'good';
+
+      mappingFile.list(mapping[list], `${path}.${list}`).forEach((entry, index) => {
+        const entryPath = `${path}.${list}[${index}]`;
+        const impact = mappingFile.record(entry, entryPath);
+        if (mappingFile.text(impact.habitId, `${entryPath}.habitId`)) {
+          const habitId = impact.habitId as string;
+          if (!habitKinds.has(habitId)) {
+            mappingFile.report(`${entryPath}.habitId`, `unknown habit "${habitId}"`);
+          } else if (habitKinds.get(habitId) !== expectedKind) {
+            mappingFile.report(`${entryPath}.habitId`, `"${habitId}" is not a ${expectedKind} habit`);
+          }
+          if (mappedHabits.has(habitId)) {
+            mappingFile.report(`${entryPath}.habitId`, `"${habitId}" is mapped to this organ more than once`);
+          }
+          mappedHabits.add(habitId);
+        }
+        mappingFile.number(impact.impact, `${entryPath}.impact`, RANGES.mappingImpact);
+        mappingFile.text(impact.mechanism, `${entryPath}.mechanism`);
+        LOCALES_TO_CHECK.forEach(locale => {
+          const translationPath = `${entryPath}.translations.${locale}`;
+          const translation = mappingFile.record(mappingFile.record(impact.translations, `${entryPath}.translations`)[locale], translationPath);
+          mappingFile.text(translation.mechanism, `${translationPath}.mechanism`);
+        });
+        if (!EVIDENCE_LEVELS.includes(impact.evidenceLevel as string)) {
+          mappingFile.report(`${entryPath}.evidenceLevel`, `expected one of ${EVIDENCE_LEVELS.join(', ')}, found ${show(impact.evidenceLevel)}`);
+        }
+      });
+    });
+  });
+
+  // Meter curves of the curve model, keyed by habit id
+  if (options.habitEffectIds) {
+    const effectFile = checker('HABIT_EFFECTS');
+    options.habitEffectIds.forEach(habitId => {
+      if (!habitKinds.has(habitId)) effectFile.report(habitId, `unknown habit "${habitId}"`);
+    });
+    [...habitKinds.keys()].forEach(habitId => {
+      if (!options.habitEffectIds!.includes(habitId)) effectFile.report(habitId, 'habit has no meter curves');
+    });
+  }
+
+  return issues;
+};
+
+/**
+ * One line per problem, e.g. "habits.json › habits.smoking.affects[0]: unknown organ "lung""
+ */
+export const formatDataFileIssues = (issues: DataFileIssue[]): string =>
+  issues.map(issue => `${issue.file} › ${issue.path}: ${issue.message}`).join('\n');
+
+/**
+ * Validate the shipped data files and log any problem, for startup checks in development
+ */
+export const reportDataFileIssues = (options: DataFileValidationOptions = {}): DataFileIssue[] => {
+  const issues = validateDataFiles(undefined, options);
+  if (issues.length > 0) {
+    console.error(`Found ${issues.length} problem(s) in the data files:\n${formatDataFileIssues(issues)}`);
+  }
+  return issues;
+};
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateBmi,
+  DEFAULT_DEMOGRAPHICS,
+  Demographics,
+  getOrganVulnerability,
+  getProfileBaselines,
+  sanitizeDemographics,
+} from './demographics';
+import { calculateHealthModel } from './healthModel';
+import { HEALTH_MODELS } from './models';
+
+const person = (changes: Partial<Demographics>): Demographics => ({ ...DEFAULT_DEMOGRAPHICS, ...changes });
+
+describe('getProfileBaselines', () => {
+  it('describes the generic adult by default', () => {
+    expect(getProfileBaselines()).toEqual({
+      lifeExpectancy: 78,
+      diseaseRisk: 25,
+      lifeExpectancyBounds: { min: 65, max: 95 },
+    });
+  });
+
+  it('raises disease risk with age, excess weight and family history', () => {
+    const base = getProfileBaselines().diseaseRisk;
+    expect(getProfileBaselines(person({ age: 65 })).diseaseRisk).toBeGreaterThan(base);
+    expect(getProfileBaselines(person({ weightKg: 100 })).diseaseRisk).toBeGreaterThan(base);
+    expect(getProfileBaselines(person({ familyHistory: ['stroke'] })).diseaseRisk).toBeGreaterThan(base);
+    expect(getProfileBaselines(person({ age: 20 })).diseaseRisk).toBeLessThan(base);
+  });
+
+  it('never expects someone to die before the age they reached', () => {
+    const baselines = getProfileBaselines(person({ age: 90, sex: 'male', familyHistory: ['heart_attack'] }));
+    expect(baselines.lifeExpectancy).toBeGreaterThan(90);
+    expect(baselines.lifeExpectancyBounds.min).toBe(90);
+  });
+});
+
+describe('getOrganVulnerability', () => {
+  it('leaves the organs alone by default', () => {
+    const vulnerability = getOrganVulnerability('lungs');
+    expect(vulnerability.baselineOffset).toBeCloseTo(0);
+    expect(vulnerability.harmfulMultiplier).toBe(1);
+  });
+
+  it('only weakens the organs a family history flag belongs to', () => {
+    const copd = person({ familyHistory: ['copd'] });
+    expect(getOrganVulnerability('lungs', copd).baselineOffset).toBeLessThan(0);
+    expect(getOrganVulnerability('lungs', copd).harmfulMultiplier).toBeGreaterThan(1);
+    expect(getOrganVulnerability('liver', copd).baselineOffset).toBeCloseTo(0);
+    expect(getOrganVulnerability('liver', copd).harmfulMultiplier).toBe(1);
+  });
+});
+
+describe('personalised models', () => {
+  it('match the generic numbers with the default demographics', () => {
+    HEALTH_MODELS.forEach(model => {
+      expect(calculateHealthModel({ smoking: { level: 2 } }, model.id, 'pt', DEFAULT_DEMOGRAPHICS))
+        .toEqual(calculateHealthModel({ smoking: { level: 2 } }, model.id));
+    });
+  });
+
+  it('make the same habit hurt a vulnerable organ more', () => {
+    HEALTH_MODELS.forEach(model => {
+      const habits = { smoking: { level: 3 } };
+      const generic = calculateHealthModel(habits, model.id);
+      const vulnerable = calculateHealthModel(habits, model.id, 'pt', person({ familyHistory: ['lung_cancer'] }));
+
+      const damage = (meters: typeof generic) => meters.organs.lungs.baseline - meters.organHealth.lungs;
+      expect(damage(vulnerable)).toBeGreaterThan(damage(generic));
+      expect(vulnerable.lifeExpectancy).toBeLessThan(generic.lifeExpectancy);
+    });
+  });
+});
+
+describe('sanitizeDemographics', () => {
+  it('computes the body mass index', () => {
+    expect(calculateBmi(person({ heightCm: 180, weightKg: 81 }))).toBeCloseTo(25);
+  });
+
+  it('falls back to the defaults field by field and drops unknown flags', () => {
+    expect(sanitizeDemographics(undefined)).toEqual(DEFAULT_DEMOGRAPHICS);
+    expect(sanitizeDemographics({ age: 200, sex: 'other', heightCm: 'tall', familyHistory: ['copd', 'copd', 'x'] })).toEqual({
+      ...DEFAULT_DEMOGRAPHICS,
+      age: 100,
+      familyHistory: ['copd'],
+    });
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * DEMOGRAPHICS
+ *
+ * Personalises the starting point of the health models. Without demographics every
+ * user is the same generic 40-year-old adult (life expectancy 78, disease risk 25);
+ * age, sex, body mass index and family history move those baselines and make the
+ * organs more or less vulnerable to harmful habits.
+ *
+ * The default demographics are that generic adult, so they change nothing.
+ * Family history flags are the riskFactors of organHabitMappings.json.
+ */
+
+import { ORGAN_MAPPINGS_FILE } from './dataFiles';
+
+export type Sex = 'female' | 'male' | 'unspecified';
+
+export interface Demographics {
+  age: number;
+  sex: Sex;
+  heightCm: number;
+  weightKg: number;
+  familyHistory: string[]; // Risk factor ids, e.g. "copd" or "heart_attack"
+}
+
+export interface ProfileBaselines {
+  lifeExpectancy: number;
+  diseaseRisk: number;
+  lifeExpectancyBounds: { min: number; max: number };
+}
+
+export interface OrganVulnerability {
+  baselineOffset: number; // Points added to the organ's baseline health
+  harmfulMultiplier: number; // Scales the damage of harmful habits
+}
+
+export const SEXES: Sex[] = ['unspecified', 'female', 'male'];
+
+export const DEMOGRAPHIC_LIMITS = {
+  age: { min: 18, max: 100 },
+  heightCm: { min: 120, max: 220 },
+  weightKg: { min: 35, max: 250 },
+};
+
+export const DEFAULT_DEMOGRAPHICS: Demographics = {
+  age: 40,
+  sex: 'unspecified',
+  heightCm: 170,
+  weightKg: 68,
+  familyHistory: [],
+};
+
+// Every family history flag, grouped by the organ it belongs to
+export const FAMILY_HISTORY_FACTORS: { organId: string; factors: string[] }[] = Object.entries(
+  ORGAN_MAPPINGS_FILE.organMappings
+).map(([organId, mapping]) => ({ organId, factors: mapping.riskFactors }));
+
+const KNOWN_FACTORS = new Set(FAMILY_HISTORY_FACTORS.flatMap(group => group.factors));
+
+// Reference adult the generic baselines describe
+const REFERENCE_AGE = 40;
+const BASE_LIFE_EXPECTANCY = 78;
+const BASE_DISEASE_RISK = 25;
+
+// How far habits can move life expectancy from the personal baseline (65-95 for the reference adult)
+const LIFE_EXPECTANCY_RANGE = { below: 13, above: 17 };
+
+const SEX_OFFSETS: Record<Sex, { lifeExpectancy: number; diseaseRisk: number }> = {
+  unspecified: { lifeExpectancy: 0, diseaseRisk: 0 },
+  female: { lifeExpectancy: 2.5, diseaseRisk: -2 },
+  male: { lifeExpectancy: -2.5, diseaseRisk: 2 },
+};
+
+// Healthy BMI range; outside it every point counts as excess (underweight counts 1.5x)
+const HEALTHY_BMI = { min: 18.5, max: 25 };
+const UNDERWEIGHT_FACTOR = 1.5;
+
+// Effects per year above the reference age, per point of BMI excess and per family history flag
+const PER_YEAR = { diseaseRisk: 0.6, organBaseline: -0.2, harmfulMultiplier: 0.01 };
+const PER_BMI_POINT = { lifeExpectancy: -0.35, diseaseRisk: 1.2, organBaseline: -1 };
+const PER_FAMILY_FLAG = { lifeExpectancy: -1, diseaseRisk: 4, organBaseline: -5, harmfulMultiplier: 0.2 };
+
+// Organs that carry the load of excess weight
+const BMI_ORGANS = ['heart', 'liver', 'kidneys', 'pancreas', 'blood_vessels', 'bones'];
+
+// Survivors of older ages are expected to live at least this many more years
+const MIN_REMAINING_YEARS = 3;
+
+/**
+ * Body mass index in kg/m²
+ */
+export const calculateBmi = (demographics: Demographics): number =>
+  demographics.weightKg / Math.pow(demographics.heightCm / 100, 2);
+
+/**
+ * BMI points outside the healthy range
+ */
+const getBmiExcess = (demographics: Demographics): number => {
+  const bmi = calculateBmi(demographics);
+  if (bmi > HEALTHY_BMI.max) return bmi - HEALTHY_BMI.max;
+  if (bmi < HEALTHY_BMI.min) return (HEALTHY_BMI.min - bmi) * UNDERWEIGHT_FACTOR;
+  return 0;
+};
+
+/**
+ * Life expectancy and disease risk of someone with these demographics and no habits
+ */
+export const getProfileBaselines = (demographics: Demographics = DEFAULT_DEMOGRAPHICS): ProfileBaselines => {
+  const yearsAbove = demographics.age - REFERENCE_AGE;
+  const bmiExcess = getBmiExcess(demographics);
+  const flags = demographics.familyHistory.length;
+  const sex = SEX_OFFSETS[demographics.sex];
+
+  const lifeExpectancy = Math.max(
+    demographics.age + MIN_REMAINING_YEARS,
+    BASE_LIFE_EXPECTANCY + sex.lifeExpectancy + bmiExcess * PER_BMI_POINT.lifeExpectancy + flags * PER_FAMILY_FLAG.lifeExpectancy
+  );
+  const diseaseRisk = Math.max(
+    5,
+    Math.min(
+      85,
+      BASE_DISEASE_RISK
+        + sex.diseaseRisk
+        + yearsAbove * PER_YEAR.diseaseRisk
+        + bmiExcess * PER_BMI_POINT.diseaseRisk
+        + flags * PER_FAMILY_FLAG.diseaseRisk
+    )
+  );
+
+  return {
+    lifeExpectancy,
+    diseaseRisk,
+    lifeExpectancyBounds: {
+      // Nobody is expected to die before the age they already reached
+      min: Math.max(demographics.age, lifeExpectancy - LIFE_EXPECTANCY_RANGE.below),
+      max: lifeExpectancy + LIFE_EXPECTANCY_RANGE.above,
+    },
+  };
+};
+
+/**
+ * How much the demographics weaken an organ before any habit acts on it
+ */
+export const getOrganVulnerability = (
+  organId: string,
+  demographics: Demographics = DEFAULT_DEMOGRAPHICS
+): OrganVulnerability => {
+  const yearsAbove = Math.max(0, demographics.age - REFERENCE_AGE);
+  const bmiExcess = BMI_ORGANS.includes(organId) ? getBmiExcess(demographics) : 0;
+  const riskFactors = FAMILY_HISTORY_FACTORS.find(group => group.organId === organId)?.factors || [];
+  const flags = demographics.familyHistory.filter(factor => riskFactors.includes(factor)).length;
+
+  return {
+    baselineOffset: yearsAbove * PER_YEAR.organBaseline + bmiExcess * PER_BMI_POINT.organBaseline + flags * PER_FAMILY_FLAG.organBaseline,
+    harmfulMultiplier: 1 + yearsAbove * PER_YEAR.harmfulMultiplier + flags * PER_FAMILY_FLAG.harmfulMultiplier,
+  };
+};
+
+/**
+ * Validate demographics read from storage or a form, falling back to the defaults field by field
+ */
+export const sanitizeDemographics = (value: unknown): Demographics => {
+  const input = (typeof value === 'object' && value !== null ? value : {}) as Partial<Record<keyof Demographics, unknown>>;
+
+  const number = (key: keyof typeof DEMOGRAPHIC_LIMITS) => {
+    const candidate = input[key];
+    const { min, max } = DEMOGRAPHIC_LIMITS[key];
+    return typeof candidate === 'number' && Number.isFinite(candidate)
+      ? Math.max(min, Math.min(max, candidate))
+      : DEFAULT_DEMOGRAPHICS[key];
+  };
+
+  return {
+    age: Math.round(number('age')),
+    sex: SEXES.includes(input.sex as Sex) ? (input.sex as Sex) : DEFAULT_DEMOGRAPHICS.sex,
+    heightCm: number('heightCm'),
+    weightKg: number('weightKg'),
+    familyHistory: Array.isArray(input.familyHistory)
+      ? Array.from(new Set(input.familyHistory.filter((factor): factor is string => KNOWN_FACTORS.has(factor))))
+      : [],
+  };
+};
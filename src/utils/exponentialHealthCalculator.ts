@@ -9,8 +9,15 @@
  */
 
 import { HabitLevels } from '../store/useAtlasStore';
-import habitsData from '../data/habits.json';
-import organsData from '../data/organs.json';
+import { DEFAULT_LOCALE, formatMechanismTags, getHabitText, getMechanismText, Locale, translate } from '../i18n';
+import { DEFAULT_DEMOGRAPHICS, Demographics, getOrganVulnerability, getProfileBaselines } from './demographics';
+import { getEffectiveLevel, getHabitIntensity, interpolateScale } from './habitDose';
+import { findHabit, getHabits, HabitDefinition } from './habitCatalog';
+import { ORGAN_MAPPINGS_FILE, OrganHabitImpact, OrganMapping } from './dataFiles';
+import { OrganMetricScore, scoreOrganMetrics } from './organMetrics';
+import { createMeterBreakdown, MeterBreakdown, MeterContribution } from './meterBreakdown';
+
+export { ORGAN_HEALTH_BOUNDS } from './organMetrics';
 
 // TARGETED HABIT EFFECTS - Each habit has specific primary and secondary impacts
 const HABIT_EFFECTS = {
@@ -259,7 +266,8 @@ const HABIT_EFFECTS = {
   }
 };
 
-// BASELINE HEALTH VALUES - realistic starting points
+// BASELINE HEALTH VALUES - realistic starting points for a generic adult;
+// life expectancy and disease risk are replaced by the personal baselines (see demographics.ts)
 const BASELINE_HEALTH = {
   general_health: 50,
   mental_health: 50,
@@ -271,71 +279,206 @@ const BASELINE_HEALTH = {
   overall_wellness: 50
 };
 
+export type HealthMetric = keyof typeof BASELINE_HEALTH;
+
+export const HEALTH_METRICS = Object.keys(BASELINE_HEALTH) as HealthMetric[];
+
+interface HabitEffect {
+  base: number;
+  curve: number;
+}
+
+const HABIT_EFFECT_TABLE: Record<string, Partial<Record<HealthMetric, HabitEffect>>> = HABIT_EFFECTS;
+
+// Habits with built-in meter curves, checked against habits.json by validateDataFiles
+export const HABIT_EFFECT_IDS = Object.keys(HABIT_EFFECT_TABLE);
+
+// Metrics where a higher value is worse for the user
+const INVERTED_METRICS: HealthMetric[] = ['disease_risk'];
+
+export interface ExponentialFactor {
+  habit: string;
+  impact: number;
+  explanation: string;
+  kind: 'habit' | 'interaction';
+  habitIds: string[];
+}
+
+export interface HabitInteraction {
+  habitIds: [string, string];
+  habitNames: [string, string];
+  multiplier: number;
+}
+
 interface TargetedHealthResult {
   overallHealth: number;
+  metrics: Record<HealthMetric, number>;
+  meterBreakdown: Record<HealthMetric, MeterBreakdown>;
   organHealth: Record<string, number>;
+  organBreakdown: Record<string, OrganBreakdown>;
   exponentialFactors: {
-    positive: Array<{ habit: string, impact: number, explanation: string }>;
-    negative: Array<{ habit: string, impact: number, explanation: string }>;
+    positive: ExponentialFactor[];
+    negative: ExponentialFactor[];
   };
+  interactions: HabitInteraction[];
   riskAssessment: {
     physicalHealth: number;
     mentalHealth: number;
     lifeExpectancy: number;
     diseaseRisk: number;
   };
-  prioritizedRecommendations: Array<{
-    priority: 'critical' | 'high' | 'moderate';
-    action: string;
-    rationale: string;
-    expectedImpact: string;
-  }>;
 }
 
+const isBeneficialImpact = (metric: HealthMetric, impact: number) =>
+  INVERTED_METRICS.includes(metric) ? impact < 0 : impact > 0;
+
+/**
+ * Find every declared habit pair (see "pairs" in habits.json) where both habits are active.
+ * Pairs declared from both sides are merged, keeping the strongest multiplier.
+ */
+export const findActiveInteractions = (
+  habits: HabitLevels,
+  locale: Locale = DEFAULT_LOCALE,
+  customHabits: HabitDefinition[] = []
+): HabitInteraction[] => {
+  const interactions = new Map<string, HabitInteraction>();
+
+  getHabits(customHabits).forEach(habit => {
+    if (getHabitIntensity(habits, habit.id) === 0) return;
+
+    habit.pairs.forEach(pair => {
+      if (getHabitIntensity(habits, pair.with) === 0) return;
+
+      const partner = findHabit(pair.with, customHabits);
+      if (!partner) return;
+
+      const key = [habit.id, pair.with].sort().join('+');
+      const existing = interactions.get(key);
+      if (!existing || pair.multiplier > existing.multiplier) {
+        interactions.set(key, {
+          habitIds: [habit.id, partner.id],
+          habitNames: [getHabitText(habit.id, locale, customHabits).name, getHabitText(partner.id, locale, customHabits).name],
+          multiplier: pair.multiplier
+        });
+      }
+    });
+  });
+
+  return Array.from(interactions.values());
+};
+
 /**
- * Calculate targeted health impact with realistic, specific effects
+ * Calculate targeted health impact with realistic, specific effects, for the built-in
+ * habits and the given custom ones
  */
-export const calculateExponentialHealth = (habits: HabitLevels): TargetedHealthResult => {
-  const healthMetrics = { ...BASELINE_HEALTH };
-  const exponentialFactors = { positive: [], negative: [] };
+export const calculateExponentialHealth = (
+  habits: HabitLevels,
+  locale: Locale = DEFAULT_LOCALE,
+  demographics: Demographics = DEFAULT_DEMOGRAPHICS,
+  customHabits: HabitDefinition[] = []
+): TargetedHealthResult => {
+  const baselines = getProfileBaselines(demographics);
+  const healthMetrics = {
+    ...BASELINE_HEALTH,
+    life_expectancy: baselines.lifeExpectancy,
+    disease_risk: baselines.diseaseRisk
+  };
+  const baselineMetrics = { ...healthMetrics };
+  const exponentialFactors: TargetedHealthResult['exponentialFactors'] = { positive: [], negative: [] };
+  const habitImpacts: Record<string, Partial<Record<HealthMetric, number>>> = {};
+  const metricContributions = Object.fromEntries(
+    HEALTH_METRICS.map(metric => [metric, [] as MeterContribution[]])
+  ) as Record<HealthMetric, MeterContribution[]>;
+
+  const trackFactor = (metric: HealthMetric, impact: number, factor: ExponentialFactor) => {
+    if (isBeneficialImpact(metric, impact)) {
+      exponentialFactors.positive.push(factor);
+    } else {
+      exponentialFactors.negative.push(factor);
+    }
+  };
   
   // Calculate effects for each habit
   Object.entries(habits).forEach(([habitId, habitData]) => {
-    const level = habitData?.level || 0;
+    // Fractional when the habit was entered as a quantity
+    const level = getEffectiveLevel(habitData, habitId);
     if (level === 0) return;
     
-    const habitEffects = HABIT_EFFECTS[habitId];
-    if (!habitEffects) return;
-    
-    const habit = habitsData.habits.find(h => h.id === habitId);
+    const habit = findHabit(habitId, customHabits);
     if (!habit) return;
+
+    // Custom habits carry their own curves
+    const habitEffects = HABIT_EFFECT_TABLE[habitId] || habit.effects;
+    if (!habitEffects) return;
+
+    habitImpacts[habitId] = {};
     
     // Apply effects to each metric
-    Object.entries(habitEffects).forEach(([metric, effect]) => {
-      if (healthMetrics[metric] !== undefined) {
-        // Calculate impact using curve scaling
-        const scaledLevel = Math.pow(level, effect.curve);
-        const impact = effect.base * (scaledLevel / Math.pow(3, effect.curve));
-        
-        healthMetrics[metric] += impact;
-        
-        // Track significant effects for exponential factors
-        if (Math.abs(impact) >= 5) {
-          const factorData = {
-            habit: habit.name,
-            impact: Math.abs(impact),
-            explanation: getTargetedExplanation(habitId, metric, level, impact)
-          };
-          
-          if (impact > 0) {
-            exponentialFactors.positive.push(factorData);
-          } else {
-            exponentialFactors.negative.push(factorData);
-          }
-        }
+    (Object.entries(habitEffects) as Array<[HealthMetric, HabitEffect]>).forEach(([metric, effect]) => {
+      // Calculate impact using curve scaling
+      const scaledLevel = Math.pow(level, effect.curve);
+      const impact = effect.base * (scaledLevel / Math.pow(3, effect.curve));
+      
+      healthMetrics[metric] += impact;
+      habitImpacts[habitId][metric] = impact;
+      metricContributions[metric].push({
+        habitId,
+        habitName: getHabitText(habit.id, locale, customHabits).name,
+        impact,
+        kind: 'habit',
+        habitIds: [habitId]
+      });
+      
+      // Track significant effects for exponential factors
+      if (Math.abs(impact) >= 5) {
+        trackFactor(metric, impact, {
+          habit: getHabitText(habit.id, locale, customHabits).name,
+          impact: Math.abs(impact),
+          explanation: getTargetedExplanation(habitId, metric, level, impact, locale, customHabits),
+          kind: 'habit',
+          habitIds: [habitId]
+        });
       }
     });
   });
+
+  // Amplify the combined effect of active habit pairs
+  const interactions = findActiveInteractions(habits, locale, customHabits);
+  interactions.forEach(interaction => {
+    const [first, second] = interaction.habitIds;
+    let strongest: { metric: HealthMetric, extra: number } | undefined;
+
+    (Object.keys(healthMetrics) as HealthMetric[]).forEach(metric => {
+      const a = habitImpacts[first]?.[metric] ?? 0;
+      const b = habitImpacts[second]?.[metric] ?? 0;
+      // Only habits pushing the metric in the same direction compound each other
+      if (a === 0 || b === 0 || Math.sign(a) !== Math.sign(b)) return;
+
+      const extra = (a + b) * (interaction.multiplier - 1);
+      healthMetrics[metric] += extra;
+      metricContributions[metric].push({
+        habitId: interaction.habitIds.join('+'),
+        habitName: interaction.habitNames.join(' + '),
+        impact: extra,
+        kind: 'interaction',
+        habitIds: [...interaction.habitIds]
+      });
+
+      if (!strongest || Math.abs(extra) > Math.abs(strongest.extra)) {
+        strongest = { metric, extra };
+      }
+    });
+
+    if (strongest) {
+      trackFactor(strongest.metric, strongest.extra, {
+        habit: interaction.habitNames.join(' + '),
+        impact: Math.abs(strongest.extra),
+        explanation: getInteractionExplanation(interaction, strongest.metric, strongest.extra, locale),
+        kind: 'interaction',
+        habitIds: [...interaction.habitIds]
+      });
+    }
+  });
   
   // Ensure realistic bounds
   healthMetrics.general_health = Math.max(10, Math.min(100, healthMetrics.general_health));
@@ -343,286 +486,228 @@ export const calculateExponentialHealth = (habits: HabitLevels): TargetedHealthR
   healthMetrics.happiness = Math.max(10, Math.min(100, healthMetrics.happiness));
   healthMetrics.quality_of_life = Math.max(10, Math.min(100, healthMetrics.quality_of_life));
   healthMetrics.physical_fitness = Math.max(10, Math.min(100, healthMetrics.physical_fitness));
-  healthMetrics.life_expectancy = Math.max(65, Math.min(95, healthMetrics.life_expectancy));
+  healthMetrics.life_expectancy = Math.max(
+    baselines.lifeExpectancyBounds.min,
+    Math.min(baselines.lifeExpectancyBounds.max, healthMetrics.life_expectancy)
+  );
   healthMetrics.disease_risk = Math.max(5, Math.min(85, healthMetrics.disease_risk));
   healthMetrics.overall_wellness = Math.max(10, Math.min(100, healthMetrics.overall_wellness));
+
+  // Baseline, habit and pair points, and what the bounds above cut off, per metric
+  const meterBreakdown = Object.fromEntries(HEALTH_METRICS.map(metric => [
+    metric,
+    createMeterBreakdown(baselineMetrics[metric], metricContributions[metric], healthMetrics[metric])
+  ])) as Record<HealthMetric, MeterBreakdown>;
   
   // Calculate organ health based on relevant habits
-  const organHealth = calculateOrganHealthFromHabits(habits);
+  const organBreakdown = calculateOrganHealthFromHabits(habits, interactions, locale, demographics, customHabits);
+  const organHealth = Object.fromEntries(
+    Object.entries(organBreakdown).map(([organId, breakdown]) => [organId, breakdown.health])
+  );
   
   // Sort exponential factors by impact
   exponentialFactors.positive.sort((a, b) => b.impact - a.impact);
   exponentialFactors.negative.sort((a, b) => b.impact - a.impact);
   
-  // Generate prioritized recommendations
-  const prioritizedRecommendations = generateTargetedRecommendations(habits, exponentialFactors);
-  
   return {
     overallHealth: healthMetrics.general_health,
+    metrics: healthMetrics,
+    meterBreakdown,
     organHealth,
+    organBreakdown,
     exponentialFactors,
+    interactions,
     riskAssessment: {
       physicalHealth: healthMetrics.physical_fitness,
       mentalHealth: healthMetrics.mental_health,
       lifeExpectancy: healthMetrics.life_expectancy,
       diseaseRisk: healthMetrics.disease_risk
-    },
-    prioritizedRecommendations
+    }
   };
 };
 
+// ORGAN MODEL - driven entirely by organHabitMappings.json
+// Harmful habits scale linearly up to full impact; beneficial habits have diminishing returns
+const HARMFUL_INTENSITY = [0, 0.3, 0.6, 1.0];
+const BENEFICIAL_INTENSITY = [0, 0.4, 0.7, 0.9];
+
+// Points removed/added at full intensity for a mapping impact of 1.0
+const ORGAN_IMPACT_POINTS = {
+  harmful: 30,
+  beneficial: 20
+};
+
+// Custom habits have no entry in organHabitMappings.json; their mechanism weights stand in
+// for the mapping impact, which is about twice the mechanism weight for the built-in habits
+const CUSTOM_MECHANISM_IMPACT = 2;
+
+export const ORGAN_MAPPINGS: Record<string, OrganMapping> = ORGAN_MAPPINGS_FILE.organMappings;
+
 /**
- * Calculate organ health based on habits that specifically affect each organ
+ * Mapping entries of the custom habits acting on an organ in the given direction
  */
-const calculateOrganHealthFromHabits = (habits: HabitLevels): Record<string, number> => {
-  const organHealth = {
-    lungs: 80,
-    heart: 75,
-    brain: 85,
-    liver: 80,
-    kidneys: 85,
-    gut: 75,
-    skin: 80
-  };
-  
-  // Apply habit effects to specific organs
-  Object.entries(habits).forEach(([habitId, habitData]) => {
-    const level = habitData?.level || 0;
-    if (level === 0) return;
-    
-    // Organ-specific effects based on medical evidence
-    switch (habitId) {
-      case 'smoking':
-        organHealth.lungs -= level * 8;
-        organHealth.heart -= level * 6;
-        organHealth.skin -= level * 5;
-        break;
-      case 'alcohol':
-        organHealth.liver -= level * 10;
-        organHealth.brain -= level * 6;
-        organHealth.gut -= level * 4;
-        break;
-      case 'drugs':
-        organHealth.brain -= level * 12;
-        organHealth.liver -= level * 8;
-        organHealth.kidneys -= level * 8;
-        organHealth.heart -= level * 6;
-        break;
-      case 'processed_diet':
-        organHealth.gut -= level * 6;
-        organHealth.liver -= level * 4;
-        organHealth.heart -= level * 4;
-        break;
-      case 'chronic_stress':
-        organHealth.brain -= level * 6;
-        organHealth.heart -= level * 5;
-        organHealth.gut -= level * 4;
-        organHealth.skin -= level * 3;
-        break;
-      case 'exercise':
-        organHealth.heart += level * 5;
-        organHealth.lungs += level * 4;
-        organHealth.brain += level * 3;
-        break;
-      case 'healthy_diet':
-        organHealth.gut += level * 6;
-        organHealth.liver += level * 4;
-        organHealth.heart += level * 4;
-        organHealth.brain += level * 3;
-        break;
-      case 'sleep_consistency':
-        organHealth.brain += level * 5;
-        organHealth.heart += level * 3;
-        organHealth.liver += level * 3;
-        break;
-      case 'hydration':
-        organHealth.kidneys += level * 4;
-        organHealth.skin += level * 3;
-        organHealth.brain += level * 2;
-        break;
-    }
-  });
-  
-  // Ensure realistic bounds for all organs
-  Object.keys(organHealth).forEach(organ => {
-    organHealth[organ] = Math.max(15, Math.min(100, organHealth[organ]));
-  });
-  
-  return organHealth;
-};
+const getCustomOrganImpacts = (
+  customHabits: HabitDefinition[],
+  organId: string,
+  type: 'harmful' | 'beneficial',
+  locale: Locale
+): OrganHabitImpact[] =>
+  customHabits.flatMap(habit => habit.mechanisms
+    .filter(mechanism => mechanism.organ === organId && (mechanism.weight > 0) === (type === 'harmful'))
+    .map(mechanism => ({
+      habitId: habit.id,
+      impact: Math.min(1, Math.abs(mechanism.weight) * CUSTOM_MECHANISM_IMPACT),
+      mechanism: formatMechanismTags(mechanism.tags, locale) || translate(locale, 'customHabits.defaultMechanism'),
+      translations: {},
+      evidenceLevel: 'custom'
+    })));
+
+export interface OrganContribution {
+  habitId: string; // Joined with "+" for interactions
+  habitName: string;
+  level: number;
+  impact: number; // Signed points applied to the organ
+  mechanism: string;
+  evidenceLevel: string;
+  type: 'harmful' | 'beneficial';
+  kind: 'habit' | 'interaction';
+  habitIds: string[];
+}
+
+export interface OrganBreakdown {
+  baseline: number;
+  health: number; // Average of the metric scores
+  contributions: OrganContribution[];
+  metrics: OrganMetricScore[];
+}
 
 /**
- * Generate explanations for targeted habit impacts
+ * Build the extra contributions of habit pairs that act on the same organ in the same direction
  */
-const getTargetedExplanation = (habitId: string, metric: string, level: number, impact: number): string => {
-  const habitName = habitsData.habits.find(h => h.id === habitId)?.name || habitId;
-  const direction = impact > 0 ? 'improves' : 'reduces';
-  const intensity = Math.abs(impact) > 15 ? 'dramatically' : Math.abs(impact) > 8 ? 'significantly' : 'moderately';
-  
-  return `${habitName} at level ${level} ${intensity} ${direction} ${metric.replace(/_/g, ' ')} by ${Math.round(Math.abs(impact))} points.`;
+export const getInteractionContributions = (
+  contributions: OrganContribution[],
+  interactions: HabitInteraction[],
+  locale: Locale = DEFAULT_LOCALE
+): OrganContribution[] => {
+  const interactionContributions: OrganContribution[] = [];
+
+  interactions.forEach(interaction => {
+    const [first, second] = interaction.habitIds.map(id => contributions.find(c => c.habitId === id));
+    if (!first || !second || first.type !== second.type) return;
+
+    interactionContributions.push({
+      habitId: interaction.habitIds.join('+'),
+      habitName: interaction.habitNames.join(' + '),
+      level: Math.max(first.level, second.level),
+      impact: (first.impact + second.impact) * (interaction.multiplier - 1),
+      mechanism: translate(locale, 'interaction.mechanism', { multiplier: interaction.multiplier.toFixed(2) }),
+      evidenceLevel: first.evidenceLevel === 'strong' && second.evidenceLevel === 'strong' ? 'strong' : 'moderate',
+      type: first.type,
+      kind: 'interaction',
+      habitIds: [...interaction.habitIds]
+    });
+  });
+
+  return interactionContributions;
 };
 
 /**
- * Generate prioritized recommendations based on targeted effects
+ * Calculate organ health from the harmful and beneficial habits mapped to each organ,
+ * keeping every contribution and its mechanism so the UI can explain the result
  */
-const generateTargetedRecommendations = (habits: HabitLevels, exponentialFactors: any) => {
-  const recommendations = [];
-  
-  // Critical: Address most harmful habits first
-  const criticalHarmful = ['drugs', 'chronic_stress', 'smoking'];
-  criticalHarmful.forEach(habitId => {
-    const level = habits[habitId]?.level || 0;
-    if (level > 0) {
-      const habit = habitsData.habits.find(h => h.id === habitId);
-      recommendations.push({
-        priority: 'critical' as const,
-        action: `Reduce ${habit?.name.toLowerCase()} immediately`,
-        rationale: `This habit has severe negative effects on multiple health areas.`,
-        expectedImpact: `Could improve overall health by 10-20 points.`
-      });
-    }
-  });
-  
-  // High: Implement foundational beneficial habits
-  const foundationalHabits = ['sleep_consistency', 'exercise', 'healthy_diet'];
-  foundationalHabits.forEach(habitId => {
-    const level = habits[habitId]?.level || 0;
-    if (level < 2) {
-      const habit = habitsData.habits.find(h => h.id === habitId);
-      recommendations.push({
-        priority: 'high' as const,
-        action: `Improve ${habit?.name.toLowerCase()}`,
-        rationale: `This foundational habit affects multiple health areas positively.`,
-        expectedImpact: `Could improve overall health by 8-15 points.`
-      });
-    }
-  });
-  
-  // Moderate: Optimize targeted beneficial habits
-  const targetedHabits = ['social_connection', 'meditation', 'hydration'];
-  targetedHabits.forEach(habitId => {
-    const level = habits[habitId]?.level || 0;
-    if (level < 3) {
-      const habit = habitsData.habits.find(h => h.id === habitId);
-      recommendations.push({
-        priority: 'moderate' as const,
-        action: `Increase ${habit?.name.toLowerCase()}`,
-        rationale: `This habit provides targeted benefits for specific health areas.`,
-        expectedImpact: `Could improve specific metrics by 5-10 points.`
+const calculateOrganHealthFromHabits = (
+  habits: HabitLevels,
+  interactions: HabitInteraction[],
+  locale: Locale,
+  demographics: Demographics,
+  customHabits: HabitDefinition[]
+): Record<string, OrganBreakdown> => {
+  const organBreakdown: Record<string, OrganBreakdown> = {};
+
+  Object.entries(ORGAN_MAPPINGS).forEach(([organId, mapping]) => {
+    const contributions: OrganContribution[] = [];
+    const vulnerability = getOrganVulnerability(organId, demographics);
+    const baseline = mapping.baselineHealth + vulnerability.baselineOffset;
+
+    const applyImpacts = (entries: OrganHabitImpact[], type: OrganContribution['type']) => {
+      entries.forEach(entry => {
+        const { habitId, impact, evidenceLevel } = entry;
+        const effectiveLevel = getHabitIntensity(habits, habitId);
+        if (effectiveLevel === 0) return;
+
+        const habit = findHabit(habitId, customHabits);
+        if (!habit) return;
+
+        const level = habits[habitId].level;
+        const intensity = interpolateScale(type === 'harmful' ? HARMFUL_INTENSITY : BENEFICIAL_INTENSITY, effectiveLevel);
+        const points = impact * intensity * ORGAN_IMPACT_POINTS[type]
+          * (type === 'harmful' ? vulnerability.harmfulMultiplier : 1);
+
+        contributions.push({
+          habitId,
+          habitName: getHabitText(habit.id, locale, customHabits).name,
+          level,
+          impact: type === 'harmful' ? -points : points,
+          mechanism: getMechanismText(entry, locale),
+          evidenceLevel,
+          type,
+          kind: 'habit',
+          habitIds: [habitId]
+        });
       });
-    }
+    };
+
+    applyImpacts([...mapping.topHarmful, ...getCustomOrganImpacts(customHabits, organId, 'harmful', locale)], 'harmful');
+    applyImpacts([...mapping.topBeneficial, ...getCustomOrganImpacts(customHabits, organId, 'beneficial', locale)], 'beneficial');
+
+    contributions.push(...getInteractionContributions(contributions, interactions, locale));
+
+    const { metrics, health } = scoreOrganMetrics(organId, baseline, contributions, customHabits);
+
+    organBreakdown[organId] = {
+      baseline,
+      health,
+      contributions: contributions.sort((a, b) => Math.abs(b.impact) - Math.abs(a.impact)),
+      metrics
+    };
   });
-  
-  return recommendations.slice(0, 5);
+
+  return organBreakdown;
 };
 
 /**
- * Generate personalized organ message based on exponential factors
+ * Generate explanations for targeted habit impacts
  */
-export const generateExponentialOrganMessage = (
-  organId: string, 
-  organHealth: number, 
-  exponentialFactors: any, 
-  selectedHabits: HabitLevels
+const getTargetedExplanation = (
+  habitId: string,
+  metric: HealthMetric,
+  level: number,
+  impact: number,
+  locale: Locale,
+  customHabits: HabitDefinition[]
 ): string => {
-  const organ = organsData.organs.find(o => o.id === organId);
-  if (!organ) return "Órgão não encontrado.";
-  
-  const healthRatio = organHealth / 100;
-  const badFactors = exponentialFactors.negative || [];
-  const goodFactors = exponentialFactors.positive || [];
-  
-  if (healthRatio >= 0.8) {
-    if (goodFactors.length > 0) {
-      const bestHabit = goodFactors[0];
-      return `O teu ${organ.name.toLowerCase()} está em excelente estado! Os teus hábitos saudáveis, especialmente ${bestHabit.habit.toLowerCase()}, estão a proporcionar benefícios exponenciais.`;
-    }
-    return `O teu ${organ.name.toLowerCase()} está em excelente estado! Continua com os teus hábitos saudáveis.`;
-  }
-  
-  if (healthRatio >= 0.6) {
-    if (badFactors.length > 0) {
-      const worstHabit = badFactors[0];
-      return `O teu ${organ.name.toLowerCase()} está em bom estado, mas o ${worstHabit.habit.toLowerCase()} está a ter um impacto exponencial negativo. Considera reduzir este hábito.`;
-    }
-    return `O teu ${organ.name.toLowerCase()} está em bom estado. Alguns ajustes nos hábitos podem melhorar ainda mais a sua saúde.`;
-  }
-  
-  if (healthRatio >= 0.4) {
-    if (badFactors.length > 0) {
-      const worstHabit = badFactors[0];
-      return `O teu ${organ.name.toLowerCase()} está em estado preocupante. O ${worstHabit.habit.toLowerCase()} está a causar danos exponenciais. É urgente fazer mudanças.`;
-    }
-    return `O teu ${organ.name.toLowerCase()} está em estado preocupante. Recomenda-se fazer mudanças significativas nos hábitos.`;
-  }
-  
-  return `O teu ${organ.name.toLowerCase()} está em estado crítico. É essencial procurar ajuda médica e fazer mudanças imediatas nos hábitos prejudiciais.`;
+  const intensity = Math.abs(impact) > 15 ? 'dramatically' : Math.abs(impact) > 8 ? 'significantly' : 'moderately';
+
+  return translate(locale, impact > 0 ? 'explanation.habit.improves' : 'explanation.habit.reduces', {
+    habit: getHabitText(habitId, locale, customHabits).name,
+    level: Math.round(level * 10) / 10,
+    intensity: translate(locale, `explanation.intensity.${intensity}`),
+    metric: translate(locale, `metric.${metric}`),
+    points: Math.round(Math.abs(impact)),
+  });
 };
 
 /**
- * Get relevant exponential factors for a specific organ
+ * Generate explanations for compounding habit pairs
  */
-export const getRelevantExponentialFactors = (
-  organId: string, 
-  exponentialFactors: any, 
-  selectedHabits: HabitLevels
-): Array<{ type: 'positive' | 'negative', habitName: string, mechanism: string, level: number, impact: number }> => {
-  const relevantFactors = [];
-  
-  // Get organ-specific habit mappings
-  const organHabitMap = {
-    lungs: ['smoking', 'exercise', 'chronic_stress'],
-    heart: ['exercise', 'smoking', 'chronic_stress', 'healthy_diet'],
-    brain: ['sleep_consistency', 'drugs', 'alcohol', 'meditation', 'reading'],
-    liver: ['alcohol', 'drugs', 'healthy_diet', 'processed_diet'],
-    kidneys: ['hydration', 'drugs', 'alcohol'],
-    gut: ['healthy_diet', 'processed_diet', 'chronic_stress'],
-    skin: ['hydration', 'smoking', 'sleep_consistency']
-  };
-  
-  const relevantHabits = organHabitMap[organId] || [];
-  
-  // Process positive factors
-  (exponentialFactors.positive || []).forEach(factor => {
-    const habitId = Object.keys(selectedHabits).find(id => {
-      const habit = habitsData.habits.find(h => h.id === id);
-      return habit?.name === factor.habit;
-    });
-    
-    if (habitId && relevantHabits.includes(habitId)) {
-      const habit = habitsData.habits.find(h => h.id === habitId);
-      const level = selectedHabits[habitId]?.level || 0;
-      
-      relevantFactors.push({
-        type: 'positive',
-        habitName: habit?.name || factor.habit,
-        mechanism: `Beneficia ${organId} através de múltiplos mecanismos`,
-        level,
-        impact: factor.impact
-      });
-    }
-  });
-  
-  // Process negative factors
-  (exponentialFactors.negative || []).forEach(factor => {
-    const habitId = Object.keys(selectedHabits).find(id => {
-      const habit = habitsData.habits.find(h => h.id === id);
-      return habit?.name === factor.habit;
-    });
-    
-    if (habitId && relevantHabits.includes(habitId)) {
-      const habit = habitsData.habits.find(h => h.id === habitId);
-      const level = selectedHabits[habitId]?.level || 0;
-      
-      relevantFactors.push({
-        type: 'negative',
-        habitName: habit?.name || factor.habit,
-        mechanism: `Prejudica ${organId} de forma exponencial`,
-        level,
-        impact: -factor.impact
-      });
-    }
+const getInteractionExplanation = (interaction: HabitInteraction, metric: HealthMetric, extra: number, locale: Locale): string => {
+  const [first, second] = interaction.habitNames;
+
+  return translate(locale, extra > 0 ? 'explanation.interaction.adds' : 'explanation.interaction.removes', {
+    first,
+    second,
+    multiplier: interaction.multiplier.toFixed(2),
+    metric: translate(locale, `metric.${metric}`),
+    points: Math.round(Math.abs(extra) * 10) / 10,
   });
-  
-  return relevantFactors.sort((a, b) => Math.abs(b.impact) - Math.abs(a.impact));
-};
\ No newline at end of file
+};
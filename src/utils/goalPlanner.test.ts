@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { planGoal, readGoalMetric } from './goalPlanner';
+import { calculateHealthModel } from './healthModel';
+import type { HabitLevels } from '../store/useAtlasStore';
+
+const unhealthy: HabitLevels = {
+  smoking: { level: 3 },
+  alcohol: { level: 3 },
+  sedentary: { level: 3 },
+  processed_diet: { level: 2 },
+};
+
+describe('planGoal', () => {
+  it('needs no steps when the goal is already met', () => {
+    const plan = planGoal(unhealthy, { metric: 'health', target: 0 });
+    expect(plan.reached).toBe(true);
+    expect(plan.steps).toEqual([]);
+  });
+
+  it('reaches the target with single-level changes in the healthy direction', () => {
+    const start = calculateHealthModel(unhealthy).health;
+    const plan = planGoal(unhealthy, { metric: 'health', target: start + 15 });
+
+    expect(plan.reached).toBe(true);
+    expect(plan.finalValue).toBeGreaterThanOrEqual(start + 15);
+    for (const step of plan.steps) {
+      expect(Math.abs(step.toLevel - step.fromLevel)).toBe(1);
+    }
+    expect(plan.steps.find(step => step.habitId === 'smoking')?.toLevel).toBeLessThan(3);
+  });
+
+  it('reports each step delta as computed by the model', () => {
+    const plan = planGoal(unhealthy, { metric: 'organHealth.liver', target: 80 });
+    const total = plan.steps.reduce((sum, step) => sum + step.delta, 0);
+
+    expect(plan.startValue + total).toBeCloseTo(plan.finalValue);
+    expect(readGoalMetric(calculateHealthModel(plan.habits), 'organHealth.liver')).toBeCloseTo(plan.finalValue);
+  });
+
+  it('lowers inverted meters such as disease risk', () => {
+    const start = calculateHealthModel(unhealthy).diseaseRisk;
+    const plan = planGoal(unhealthy, { metric: 'diseaseRisk', target: start - 10 });
+    expect(plan.reached).toBe(true);
+    expect(plan.finalValue).toBeLessThanOrEqual(start - 10);
+  });
+
+  it('gets as close as it can to an unreachable target', () => {
+    const plan = planGoal(unhealthy, { metric: 'health', target: 101 }, { maxSteps: 3 });
+    expect(plan.reached).toBe(false);
+    expect(plan.steps).toHaveLength(3);
+    expect(plan.finalValue).toBeGreaterThan(plan.startValue);
+  });
+
+  it('adds up the effort of each step', () => {
+    const plan = planGoal(unhealthy, { metric: 'health', target: 60 });
+    expect(plan.effort).toBe(plan.steps.reduce((sum, step) => sum + step.effort, 0));
+    expect(plan.steps.every(step => step.effort >= 1)).toBe(true);
+  });
+
+  it('steps a habit entered as a quantity through the quantities of its levels', () => {
+    const plan = planGoal({ smoking: { level: 3, quantity: 40 } }, { metric: 'organHealth.lungs', target: 101 }, { maxSteps: 2 });
+    const smokingSteps = plan.steps.filter(step => step.habitId === 'smoking');
+
+    expect(smokingSteps[0]).toMatchObject({ fromLevel: 3, toLevel: 2, fromQuantity: 40, toQuantity: 15 });
+    expect(plan.habits.smoking).toEqual({
+      level: smokingSteps[smokingSteps.length - 1].toLevel,
+      quantity: smokingSteps[smokingSteps.length - 1].toQuantity,
+    });
+  });
+
+  it('takes the single obvious step when it is enough', () => {
+    const after = calculateHealthModel({ smoking: { level: 2 } }).organHealth.lungs;
+    const plan = planGoal({ smoking: { level: 3 } }, { metric: 'organHealth.lungs', target: after });
+    expect(plan.steps).toEqual([expect.objectContaining({ habitId: 'smoking', fromLevel: 3, toLevel: 2, effort: 1 })]);
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * GOAL PLANNER
+ *
+ * Finds the fewest one-step habit changes that bring a meter or organ to a target,
+ * e.g. "health at least 75" or "liver at least 60". A step moves one habit a single
+ * level in its healthy direction: bad habits down, good habits up.
+ *
+ * Every candidate is scored by the real health model. The search is a beam search
+ * over the number of steps: at each depth only the most promising configurations
+ * are expanded, and the first depth that reaches the target wins. Among the plans
+ * of that length the one with the least effort is returned, where moving a habit
+ * further from where it is today costs more (1 for its first level, 2 for its
+ * second, and so on). A habit entered as a quantity moves to the quantity of each
+ * level it steps to.
+ */
+
+import type { HabitLevels } from '../store/useAtlasStore';
+import { HEADLINE_METERS, HeadlineMeter, INVERTED_HEADLINE_METERS, ModelMeters } from './healthModel';
+import type { Demographics } from './demographics';
+import { DEFAULT_MODEL_ID, getHealthModel } from './models';
+import { getHabits, HabitDefinition } from './habitCatalog';
+import { moveToLevel } from './habitDose';
+import { ORGANS } from './dataFiles';
+
+// A headline meter, or an organ as "organHealth.<organId>"
+export type GoalMetric = HeadlineMeter | `organHealth.${string}`;
+
+export interface Goal {
+  metric: GoalMetric;
+  target: number;
+}
+
+export interface GoalStep {
+  habitId: string;
+  fromLevel: number;
+  toLevel: number;
+  fromQuantity?: number;
+  toQuantity?: number;
+  delta: number; // Change in the goal metric when this step is applied after the previous ones
+  effort: number;
+}
+
+export interface GoalPlan {
+  goal: Goal;
+  startValue: number;
+  finalValue: number;
+  reached: boolean; // False when no plan within reach gets there; the steps then get as close as possible
+  effort: number;
+  steps: GoalStep[];
+  habits: HabitLevels; // Habits once every step is applied
+}
+
+export interface GoalPlanOptions {
+  modelId?: string;
+  demographics?: Demographics;
+  customHabits?: HabitDefinition[]; // Can be changed along with the built-in habits
+  maxSteps?: number;
+  beamWidth?: number;
+}
+
+export const GOAL_METRICS: GoalMetric[] = [
+  ...HEADLINE_METERS,
+  ...ORGANS.map(organ => `organHealth.${organ.id}` as const),
+];
+
+const ORGAN_PREFIX = 'organHealth.';
+
+interface Candidate {
+  habits: HabitLevels;
+  steps: Omit<GoalStep, 'delta'>[];
+  effort: number;
+  value: number;
+}
+
+/**
+ * Organ id of an organ goal, undefined for headline meters
+ */
+export const getGoalOrganId = (metric: GoalMetric): string | undefined =>
+  metric.startsWith(ORGAN_PREFIX) ? metric.slice(ORGAN_PREFIX.length) : undefined;
+
+/**
+ * Read the value a goal is measured on
+ */
+export const readGoalMetric = (meters: ModelMeters, metric: GoalMetric): number => {
+  const organId = getGoalOrganId(metric);
+  return organId ? meters.organHealth[organId] : meters[metric as HeadlineMeter];
+};
+
+// Disease risk has to go down to reach its goal; everything else has to go up
+const isInverted = (metric: GoalMetric) => INVERTED_HEADLINE_METERS.includes(metric as HeadlineMeter);
+
+export const isGoalReached = (value: number, goal: Goal): boolean =>
+  isInverted(goal.metric) ? value <= goal.target : value >= goal.target;
+
+// Quantities are part of the key: 12 cigarettes a day scores differently from level 2
+const habitsKey = (habits: HabitLevels, customHabits: HabitDefinition[]) =>
+  getHabits(customHabits).map(habit => `${habits[habit.id]?.level || 0}:${habits[habit.id]?.quantity ?? ''}`).join(',');
+
+/**
+ * Plan the fewest habit changes that reach the goal from the given habits
+ */
+export const planGoal = (habits: HabitLevels, goal: Goal, options: GoalPlanOptions = {}): GoalPlan => {
+  const { modelId = DEFAULT_MODEL_ID, demographics, customHabits = [], maxSteps = 12, beamWidth = 12 } = options;
+  const inverted = isInverted(goal.metric);
+  // Only the numbers matter here, so skip the recommendations calculateHealthModel adds
+  const model = getHealthModel(modelId);
+
+  const values = new Map<string, number>();
+  const evaluate = (candidateHabits: HabitLevels) => {
+    const key = habitsKey(candidateHabits, customHabits);
+    let value = values.get(key);
+    if (value === undefined) {
+      value = readGoalMetric(model.calculate(candidateHabits, undefined, demographics, customHabits), goal.metric);
+      values.set(key, value);
+    }
+    return value;
+  };
+
+  // Higher is better, whichever way the metric points
+  const progress = (candidate: Candidate) => (inverted ? -candidate.value : candidate.value);
+
+  const start: Candidate = { habits, steps: [], effort: 0, value: evaluate(habits) };
+  let beam = [start];
+  let best = start;
+  let reached = isGoalReached(start.value, goal) ? start : undefined;
+
+  for (let depth = 0; depth < maxSteps && !reached && beam.length > 0; depth++) {
+    const seen = new Set<string>();
+    const expanded: Candidate[] = [];
+
+    for (const candidate of beam) {
+      for (const habit of getHabits(customHabits)) {
+        const from = candidate.habits[habit.id];
+        const fromLevel = from?.level || 0;
+        const toLevel = habit.kind === 'bad' ? fromLevel - 1 : fromLevel + 1;
+        if (toLevel < habit.intensity.min || toLevel > habit.intensity.max) continue;
+
+        const to = moveToLevel(habit.id, from, toLevel);
+        const nextHabits = { ...candidate.habits, [habit.id]: to };
+        const key = habitsKey(nextHabits, customHabits);
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        const effort = Math.abs(toLevel - (habits[habit.id]?.level || 0));
+        expanded.push({
+          habits: nextHabits,
+          steps: [
+            ...candidate.steps,
+            { habitId: habit.id, fromLevel, toLevel, fromQuantity: from?.quantity, toQuantity: to.quantity, effort },
+          ],
+          effort: candidate.effort + effort,
+          value: evaluate(nextHabits),
+        });
+      }
+    }
+
+    const reaching = expanded.filter(candidate => isGoalReached(candidate.value, goal));
+    if (reaching.length > 0) {
+      reaching.sort((a, b) => a.effort - b.effort || progress(b) - progress(a));
+      reached = reaching[0];
+    }
+
+    beam = expanded.sort((a, b) => progress(b) - progress(a)).slice(0, beamWidth);
+    if (beam.length > 0 && progress(beam[0]) > progress(best)) best = beam[0];
+  }
+
+  const plan = reached || best;
+  let previous = start.value;
+  let stepHabits = habits;
+  const steps = plan.steps.map(step => {
+    stepHabits = { ...stepHabits, [step.habitId]: moveToLevel(step.habitId, stepHabits[step.habitId], step.toLevel) };
+    const value = evaluate(stepHabits);
+    const delta = value - previous;
+    previous = value;
+    return { ...step, delta };
+  });
+
+  return {
+    goal,
+    startValue: start.value,
+    finalValue: plan.value,
+    reached: reached !== undefined,
+    effort: plan.effort,
+    steps,
+    habits: plan.habits,
+  };
+};
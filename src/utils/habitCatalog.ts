@@ -0,0 +1,43 @@
+/**
+ * HABIT CATALOG
+ *
+ * Every habit the app knows about: the built-in entries of habits.json followed by
+ * the custom habits the user defined in the habit editor. Code that lists or looks
+ * up habits goes through getHabits() and findHabit() instead of reading habits.json,
+ * so custom habits show up everywhere the built-in ones do.
+ *
+ * The custom habits are always passed in by the caller (the store keeps them, after
+ * they pass validateCustomHabit), so the same inputs always give the same habits and
+ * the models stay pure functions of their arguments.
+ */
+
+import type { HealthMetric } from './exponentialHealthCalculator';
+import { HABITS_FILE, HabitEntry } from './dataFiles';
+
+export type { HabitKind, HabitMechanism } from './dataFiles';
+
+export interface HabitMeterEffect {
+  base: number; // Points at the maximum level
+  curve: number; // 1 is linear, higher values concentrate the effect at high levels
+}
+
+export interface HabitDefinition extends HabitEntry {
+  effects?: Partial<Record<HealthMetric, HabitMeterEffect>>; // Custom habits only; built-in curves live in the calculator
+  custom?: boolean;
+}
+
+const BUILT_IN_HABITS: HabitDefinition[] = HABITS_FILE.habits;
+
+export const BUILT_IN_HABIT_IDS = BUILT_IN_HABITS.map(habit => habit.id);
+
+/**
+ * Built-in habits followed by the given custom ones
+ */
+export const getHabits = (customHabits: HabitDefinition[] = []): HabitDefinition[] =>
+  customHabits.length > 0 ? [...BUILT_IN_HABITS, ...customHabits] : BUILT_IN_HABITS;
+
+/**
+ * Habit with the given id, built-in or one of the given custom habits
+ */
+export const findHabit = (habitId: string, customHabits: HabitDefinition[] = []): HabitDefinition | undefined =>
+  BUILT_IN_HABITS.find(habit => habit.id === habitId) || customHabits.find(habit => habit.id === habitId);
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatHabitAmount,
+  getHabitDose,
+  getHabitIntensity,
+  getNearestLevel,
+  interpolateScale,
+  isValidQuantity,
+  moveToLevel,
+  quantityToLevel,
+} from './habitDose';
+import { calculateHealthModel } from './healthModel';
+import { HEALTH_MODELS } from './models';
+import { diffScenarios } from './scenarioDiff';
+import habitsData from '../data/habits.json';
+
+const smoking = getHabitDose('smoking')!;
+
+describe('dose-response mapping', () => {
+  it('declares increasing anchors for the four levels', () => {
+    habitsData.habits.forEach(habit => {
+      const dose = getHabitDose(habit.id);
+      if (!dose) return;
+      expect(dose.levels).toHaveLength(4);
+      dose.levels.slice(1).forEach((anchor, index) => expect(anchor).toBeGreaterThan(dose.levels[index]));
+    });
+  });
+
+  it('interpolates quantities between the anchors and clamps outside them', () => {
+    expect(quantityToLevel(smoking, 0)).toBe(0);
+    expect(quantityToLevel(smoking, 15)).toBe(2);
+    expect(quantityToLevel(smoking, 10)).toBe(1.5);
+    expect(quantityToLevel(smoking, 60)).toBe(3);
+
+    const sleep = getHabitDose('sleep_consistency')!;
+    expect(quantityToLevel(sleep, 4)).toBe(0);
+    expect(quantityToLevel(sleep, 7.5)).toBe(2.5);
+  });
+
+  it('labels any amount above the first anchor as at least level 1', () => {
+    expect(getNearestLevel(smoking, 1)).toBe(1);
+    expect(getNearestLevel(smoking, 12)).toBe(2);
+    expect(getNearestLevel(smoking, 0)).toBe(0);
+  });
+
+  it('accepts amounts past the last anchor as the last level', () => {
+    const sleep = getHabitDose('sleep_consistency')!;
+    expect(isValidQuantity(9)).toBe(true);
+    expect(isValidQuantity(-1)).toBe(false);
+    expect(quantityToLevel(sleep, 9)).toBe(3);
+  });
+
+  it('moves a habit entered as a quantity to the quantity of the new level', () => {
+    expect(moveToLevel('smoking', { level: 2, quantity: 12 }, 1)).toEqual({ level: 1, quantity: smoking.levels[1] });
+    expect(moveToLevel('smoking', { level: 2 }, 1)).toEqual({ level: 1 });
+    expect(moveToLevel('smoking', undefined, 1)).toEqual({ level: 1 });
+  });
+
+  it('reads intensity tables at fractional levels', () => {
+    expect(interpolateScale([0, 0.3, 0.6, 1.0], 1.5)).toBeCloseTo(0.45);
+    expect(interpolateScale([0, 0.3, 0.6, 1.0], 3)).toBe(1.0);
+  });
+
+  it('uses the level for habits entered as levels', () => {
+    expect(getHabitIntensity({ smoking: { level: 2 } }, 'smoking')).toBe(2);
+    expect(getHabitIntensity({ smoking: { level: 2, quantity: 10 } }, 'smoking')).toBe(1.5);
+    expect(getHabitIntensity({}, 'smoking')).toBe(0);
+  });
+});
+
+describe('quantities in the models', () => {
+  it('match the level when the quantity is an anchor', () => {
+    HEALTH_MODELS.forEach(model => {
+      const byLevel = calculateHealthModel({ smoking: { level: 2 }, exercise: { level: 1 } }, model.id);
+      const byQuantity = calculateHealthModel(
+        { smoking: { level: 2, quantity: 15 }, exercise: { level: 1, quantity: 60 } },
+        model.id
+      );
+      expect(byQuantity.health).toBeCloseTo(byLevel.health);
+      expect(byQuantity.organHealth).toEqual(byLevel.organHealth);
+    });
+  });
+
+  it('fall between the neighbouring levels', () => {
+    HEALTH_MODELS.forEach(model => {
+      const lungs = (habits: Parameters<typeof calculateHealthModel>[0]) =>
+        calculateHealthModel(habits, model.id).organHealth.lungs;
+      const between = lungs({ smoking: { level: 2, quantity: 10 } });
+      expect(between).toBeLessThan(lungs({ smoking: { level: 1 } }));
+      expect(between).toBeGreaterThan(lungs({ smoking: { level: 2 } }));
+    });
+  });
+});
+
+describe('formatHabitAmount', () => {
+  it('shows the quantity with its unit, or the level label', () => {
+    expect(formatHabitAmount('smoking', { level: 2, quantity: 12 }, 'pt')).toBe('12 cigarros/dia');
+    expect(formatHabitAmount('sleep_consistency', { level: 3, quantity: 7.5 }, 'en')).toBe('7.5 hours of sleep');
+    expect(formatHabitAmount('smoking', { level: 2 }, 'en')).toBe('Daily');
+  });
+
+  it('lets a scenario diff tell apart quantities of the same level', () => {
+    const diff = diffScenarios({ smoking: { level: 2, quantity: 12 } }, { smoking: { level: 2, quantity: 18 } });
+    expect(diff.habits).toEqual([expect.objectContaining({ labelA: '12 cigarros/dia', labelB: '18 cigarros/dia' })]);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * HABIT DOSES
+ *
+ * Some habits can be entered as a real quantity instead of one of the four levels:
+ * cigarettes per day, drinks per week, hours of sleep, minutes of exercise or hours
+ * of gaming. The "dose" of such a habit in habits.json lists the quantity at each
+ * level; quantities in between map to fractional levels by linear interpolation, and
+ * the models read that fractional level wherever they used the integer one. Amounts
+ * past the last anchor are kept as entered and count as the last level (9 hours of
+ * sleep is as good as 8).
+ *
+ * A habit always keeps an integer level next to its quantity (the nearest level), so
+ * labels, the journal and share links keep working on levels, and profiles made of
+ * 0–3 levels alone behave exactly as before. Share links and the journal store the
+ * level only, so a quantity does not survive them. Recommendations and the goal
+ * planner move a habit entered as a quantity to the quantity of the target level.
+ */
+
+import type { HabitLevel, HabitLevels } from '../store/useAtlasStore';
+import { getHabitText, Locale, LOCALE_TAGS } from '../i18n';
+import { findHabit, HabitDefinition } from './habitCatalog';
+
+export interface HabitDose {
+  unit: string;
+  levels: number[]; // Quantity at each level, increasing
+  step: number;
+}
+
+const MAX_LEVEL = 3;
+
+/**
+ * Dose-response mapping of a habit, undefined for habits that only have levels (custom
+ * habits among them)
+ */
+export const getHabitDose = (habitId: string): HabitDose | undefined =>
+  findHabit(habitId)?.dose;
+
+/**
+ * Fractional level of a quantity: 0 at or below the first anchor, 3 at or above the last
+ */
+export const quantityToLevel = (dose: HabitDose, quantity: number): number => {
+  const { levels } = dose;
+  if (quantity <= levels[0]) return 0;
+  if (quantity >= levels[levels.length - 1]) return levels.length - 1;
+
+  const index = levels.findIndex((anchor, i) => quantity >= anchor && quantity < levels[i + 1]);
+  return index + (quantity - levels[index]) / (levels[index + 1] - levels[index]);
+};
+
+/**
+ * Quantity a level stands for
+ */
+export const levelToQuantity = (dose: HabitDose, level: number): number =>
+  dose.levels[Math.max(0, Math.min(dose.levels.length - 1, level))];
+
+/**
+ * Integer level stored next to a quantity. Any amount above the first anchor counts
+ * as at least level 1, so a little is never labelled as none.
+ */
+export const getNearestLevel = (dose: HabitDose, quantity: number): number => {
+  const level = quantityToLevel(dose, quantity);
+  return level > 0 ? Math.max(1, Math.round(level)) : 0;
+};
+
+/**
+ * Whether a quantity is a valid amount of a habit with a dose. Any amount past the
+ * last anchor is valid and counts as the last level.
+ */
+export const isValidQuantity = (quantity: number): boolean =>
+  Number.isFinite(quantity) && quantity >= 0;
+
+/**
+ * A habit moved to another level. A habit entered as a quantity stays one, at the
+ * quantity that level stands for.
+ */
+export const moveToLevel = (habitId: string, habitLevel: HabitLevel | undefined, level: number): HabitLevel => {
+  const dose = habitLevel?.quantity !== undefined ? getHabitDose(habitId) : undefined;
+  return dose ? { level, quantity: levelToQuantity(dose, level) } : { level };
+};
+
+/**
+ * Level the models use for a habit: fractional when a quantity was entered
+ */
+export const getEffectiveLevel = (habitLevel: HabitLevel | undefined, habitId: string): number => {
+  if (!habitLevel) return 0;
+  const dose = habitLevel.quantity !== undefined ? getHabitDose(habitId) : undefined;
+  return dose ? quantityToLevel(dose, habitLevel.quantity!) : habitLevel.level || 0;
+};
+
+/**
+ * Effective level of a habit in a configuration
+ */
+export const getHabitIntensity = (habits: HabitLevels, habitId: string): number =>
+  getEffectiveLevel(habits[habitId], habitId);
+
+/**
+ * Read an intensity table indexed by level (e.g. [0, 0.3, 0.6, 1.0]) at a fractional level
+ */
+export const interpolateScale = (scale: number[], level: number): number => {
+  const clamped = Math.max(0, Math.min(MAX_LEVEL, level));
+  const lower = Math.floor(clamped);
+  if (lower === clamped) return scale[lower];
+  return scale[lower] + (scale[lower + 1] - scale[lower]) * (clamped - lower);
+};
+
+/**
+ * Amount of a habit in words: the quantity and its unit when one was entered, e.g.
+ * "12 cigarros/dia", otherwise the label of its level
+ */
+export const formatHabitAmount = (
+  habitId: string,
+  habitLevel: HabitLevel | undefined,
+  locale: Locale,
+  customHabits: HabitDefinition[] = []
+): string => {
+  const text = getHabitText(habitId, locale, customHabits);
+  if (habitLevel?.quantity !== undefined && text.unit) {
+    return `${habitLevel.quantity.toLocaleString(LOCALE_TAGS[locale])} ${text.unit}`;
+  }
+  return text.labels[habitLevel?.level || 0];
+};
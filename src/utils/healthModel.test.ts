@@ -0,0 +1,180 @@
+import { describe, expect, it } from 'vitest';
+import { calculateHealthModel, getRiskLevel } from './healthModel';
+import type { HabitLevels } from '../store/useAtlasStore';
+import habitsData from '../data/habits.json';
+import organsData from '../data/organs.json';
+import organMappings from '../data/organHabitMappings.json';
+
+const profile = (levelFor: (kind: string) => number): HabitLevels =>
+  Object.fromEntries(habitsData.habits.map(h => [h.id, { level: levelFor(h.kind) }]));
+
+const worstCase = profile(kind => (kind === 'bad' ? 3 : 0));
+const bestCase = profile(kind => (kind === 'good' ? 3 : 0));
+
+describe('calculateHealthModel', () => {
+  describe('all-zero profile', () => {
+    const meters = calculateHealthModel({});
+
+    it('returns the baseline meters', () => {
+      expect(meters.health).toBe(50);
+      expect(meters.happiness).toBe(50);
+      expect(meters.qualityOfLife).toBe(50);
+      expect(meters.mentalHealth).toBe(50);
+      expect(meters.physicalFitness).toBe(50);
+      expect(meters.overallWellness).toBe(50);
+      expect(meters.lifeExpectancy).toBe(78);
+      expect(meters.diseaseRisk).toBe(25);
+    });
+
+    it('keeps every organ at its mapped baseline with no contributions', () => {
+      Object.entries(organMappings.organMappings).forEach(([organId, mapping]) => {
+        expect(meters.organHealth[organId]).toBe(mapping.baselineHealth);
+        expect(meters.organs[organId].contributions).toHaveLength(0);
+      });
+    });
+
+    it('has no factors or interactions', () => {
+      expect(meters.exponentialFactors.positive).toHaveLength(0);
+      expect(meters.exponentialFactors.negative).toHaveLength(0);
+      expect(meters.interactions).toHaveLength(0);
+    });
+  });
+
+  describe('worst-case profile', () => {
+    const meters = calculateHealthModel(worstCase);
+
+    it('hits the lower bounds of the headline meters', () => {
+      expect(meters.health).toBe(10);
+      expect(meters.mentalHealth).toBe(10);
+      expect(meters.physicalFitness).toBe(10);
+      expect(meters.lifeExpectancy).toBe(65);
+      expect(meters.diseaseRisk).toBe(85);
+      expect(meters.happiness).toBeCloseTo(22.2, 1);
+    });
+
+    it('puts the most exposed organs at the floor', () => {
+      expect(meters.organHealth.heart).toBe(15);
+      expect(meters.organHealth.brain).toBe(15);
+      expect(meters.organHealth.blood_vessels).toBe(15);
+      expect(meters.organHealth.liver).toBeCloseTo(17.91, 2);
+      expect(meters.organHealth.lungs).toBeCloseTo(41.05, 2);
+      expect(meters.organs.heart.riskLevel).toBe('critical');
+    });
+
+    it('reports every declared habit pair as an interaction', () => {
+      expect(meters.interactions).toHaveLength(7);
+      expect(meters.exponentialFactors.negative.filter(f => f.kind === 'interaction')).toHaveLength(7);
+    });
+
+    it('still finds changes worth recommending when the meters are at their floor', () => {
+      expect(meters.prioritizedRecommendations.length).toBeGreaterThan(0);
+      expect(meters.prioritizedRecommendations.every(rec => rec.expectedImpact > 0)).toBe(true);
+    });
+  });
+
+  describe('best-case profile', () => {
+    const meters = calculateHealthModel(bestCase);
+
+    it('hits the upper bounds of the headline meters', () => {
+      expect(meters.health).toBe(100);
+      expect(meters.happiness).toBe(100);
+      expect(meters.lifeExpectancy).toBe(95);
+      expect(meters.diseaseRisk).toBe(5);
+      expect(meters.physicalFitness).toBeCloseTo(90, 1);
+    });
+
+    it('leaves every organ healthy and no metric below its baseline', () => {
+      Object.values(meters.organs).forEach(report => {
+        expect(report.riskLevel).toBe('low');
+        report.metrics.forEach(metric => expect(metric.score).toBeGreaterThanOrEqual(report.baseline));
+      });
+    });
+
+    it('recovers completely only the metrics a good habit acts on', () => {
+      // Every metric of these organs is targeted by a good habit
+      expect(meters.organHealth.heart).toBe(100);
+      expect(meters.organHealth.lungs).toBe(100);
+      expect(meters.organHealth.brain).toBe(100);
+      // No good habit acts on liver inflammation, so it stays short of 100
+      const liver = meters.organs.liver.metrics;
+      expect(liver.find(metric => metric.metric === 'metabolism')!.score).toBe(100);
+      expect(liver.find(metric => metric.metric === 'inflammation')!.score).toBeLessThan(100);
+      expect(meters.organHealth.liver).toBeLessThan(100);
+    });
+
+    it('has nothing left to recommend', () => {
+      expect(meters.prioritizedRecommendations).toHaveLength(0);
+    });
+  });
+
+  it('reports the same organ numbers in organHealth and the organ reports', () => {
+    const meters = calculateHealthModel({ smoking: { level: 2 }, exercise: { level: 1 } });
+    Object.entries(meters.organs).forEach(([organId, report]) => {
+      expect(meters.organHealth[organId]).toBe(report.health);
+    });
+  });
+
+  it('covers every organ shown on the body map', () => {
+    const meters = calculateHealthModel({});
+    organsData.organs.forEach(organ => {
+      expect(meters.organs[organ.id]).toBeDefined();
+    });
+  });
+
+  it('is pure', () => {
+    const habits: HabitLevels = { alcohol: { level: 3 }, processed_diet: { level: 2 } };
+    expect(calculateHealthModel(habits)).toEqual(calculateHealthModel(habits));
+  });
+});
+
+describe('recommendations', () => {
+  const habits: HabitLevels = { smoking: { level: 1 }, exercise: { level: 1 } };
+  const meters = calculateHealthModel(habits);
+  const recommendations = meters.prioritizedRecommendations;
+
+  it('moves one habit a single level in its healthy direction', () => {
+    expect(recommendations.find(rec => rec.habitId === 'smoking')).toMatchObject({ fromLevel: 1, toLevel: 0 });
+    expect(recommendations.find(rec => rec.habitId === 'exercise')).toMatchObject({ fromLevel: 1, toLevel: 2 });
+  });
+
+  it('reports the deltas the model gives when the change is applied', () => {
+    const [top] = recommendations;
+    const changed = calculateHealthModel({ ...habits, [top.habitId]: { level: top.toLevel } });
+    expect(top.meterDeltas.health).toBeCloseTo(changed.health - meters.health);
+    expect(top.organDeltas.lungs).toBeCloseTo(changed.organHealth.lungs - meters.organHealth.lungs);
+  });
+
+  it('keeps a habit entered as a quantity in quantities', () => {
+    const withQuantity: HabitLevels = { smoking: { level: 2, quantity: 12 } };
+    const smoking = calculateHealthModel(withQuantity).prioritizedRecommendations.find(rec => rec.habitId === 'smoking')!;
+    const changed = calculateHealthModel({ smoking: { level: 1, quantity: smoking.toQuantity } });
+
+    expect(smoking).toMatchObject({ fromLevel: 2, toLevel: 1, toQuantity: 5 });
+    expect(smoking.action).toContain('5');
+    expect(smoking.meterDeltas.health).toBeCloseTo(changed.health - calculateHealthModel(withQuantity).health);
+  });
+
+  it('ranks by expected impact and tiers by its size', () => {
+    const impacts = recommendations.map(rec => rec.expectedImpact);
+    expect(impacts).toEqual([...impacts].sort((a, b) => b - a));
+    recommendations.forEach(rec => {
+      const expected = rec.expectedImpact >= 3 ? 'critical' : rec.expectedImpact >= 2 ? 'high' : rec.expectedImpact >= 1 ? 'moderate' : 'low';
+      expect(rec.priority).toBe(expected);
+    });
+  });
+
+  it('considers every habit, not a fixed list', () => {
+    const gamer = calculateHealthModel({ ...bestCase, gaming: { level: 3 } });
+    expect(gamer.prioritizedRecommendations.map(rec => rec.habitId)).toEqual(['gaming']);
+  });
+});
+
+describe('getRiskLevel', () => {
+  it('maps health scores to risk levels', () => {
+    expect(getRiskLevel(95)).toBe('low');
+    expect(getRiskLevel(80)).toBe('low');
+    expect(getRiskLevel(60)).toBe('moderate');
+    expect(getRiskLevel(45)).toBe('high');
+    expect(getRiskLevel(10)).toBe('critical');
+  });
+});
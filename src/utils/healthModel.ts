@@ -0,0 +1,232 @@
+/**
+ * UNIFIED HEALTH MODEL
+ *
+ * Single entry point for every number the app displays. Meters, per-organ reports,
+ * risk levels and recommendations all come from one pure function, so the body map,
+ * the meters and the organ view can never disagree about the same habits.
+ *
+ * The scoring itself is pluggable: each model in ./models implements HealthModel,
+ * and calculateHealthModel dispatches to the requested one.
+ *
+ * Recommendations are not hand-picked: every habit is moved one level in its
+ * healthy direction, the model is run again, and the habits are ranked by how much
+ * the meters and organs actually improve.
+ */
+
+import type { HabitLevels } from '../store/useAtlasStore';
+import type { ExponentialFactor, HabitInteraction, OrganBreakdown } from './exponentialHealthCalculator';
+import { DEFAULT_MODEL_ID, getHealthModel } from './models';
+import { DEFAULT_DEMOGRAPHICS, Demographics } from './demographics';
+import { createTranslator, DEFAULT_LOCALE, getHabitText, getOrganText, Locale, LocalizedText } from '../i18n';
+import { getHabits, HabitDefinition } from './habitCatalog';
+import { formatHabitAmount, moveToLevel } from './habitDose';
+import type { StatBreakdown, StatId } from './meterStats';
+import type { MeterBreakdown } from './meterBreakdown';
+
+export { getRiskLevel } from './models/shared';
+
+export interface MeterStats {
+  cardioStrain: number;
+  inflammation: number;
+  sleepQuality: number;
+  stressLoad: number;
+  recoveryCapacity: number;
+  cognitiveFunction: number;
+  immuneSystem: number;
+  metabolicHealth: number;
+}
+
+export type RiskLevel = 'low' | 'moderate' | 'high' | 'critical';
+
+export interface OrganReport extends OrganBreakdown {
+  riskLevel: RiskLevel;
+  personalizedMessage: string;
+}
+
+export type RecommendationPriority = 'critical' | 'high' | 'moderate' | 'low';
+
+// One habit moved a single level in its healthy direction
+export interface Recommendation {
+  habitId: string;
+  fromLevel: number;
+  toLevel: number;
+  toQuantity?: number; // Amount of the target level, for habits entered as a quantity
+  priority: RecommendationPriority;
+  action: string;
+  rationale: string;
+  expectedImpact: number; // Average improvement in points across the headline meters and organs
+  meterDeltas: Record<HeadlineMeter, number>;
+  organDeltas: Record<string, number>;
+}
+
+export interface Meters {
+  modelId: string; // Model that produced these numbers
+  health: number;
+  happiness: number;
+  qualityOfLife: number;
+  mentalHealth: number;
+  lifeExpectancy: number;
+  diseaseRisk: number;
+  physicalFitness: number;
+  overallWellness: number;
+  meterBreakdown: Record<HeadlineMeter, MeterBreakdown>; // Baseline, habit points and clamping of each meter
+  stats: MeterStats;
+  statBreakdown: Record<StatId, StatBreakdown>; // The habits behind each stat
+  exponentialFactors: {
+    positive: ExponentialFactor[];
+    negative: ExponentialFactor[];
+  };
+  interactions: HabitInteraction[];
+  organHealth: Record<string, number>;
+  organs: Record<string, OrganReport>;
+  prioritizedRecommendations: Recommendation[];
+}
+
+// Headline meters shared by every model, in display order
+export type HeadlineMeter =
+  | 'health'
+  | 'happiness'
+  | 'qualityOfLife'
+  | 'mentalHealth'
+  | 'lifeExpectancy'
+  | 'diseaseRisk'
+  | 'physicalFitness'
+  | 'overallWellness';
+
+export const HEADLINE_METERS: HeadlineMeter[] = [
+  'health',
+  'happiness',
+  'qualityOfLife',
+  'mentalHealth',
+  'lifeExpectancy',
+  'diseaseRisk',
+  'physicalFitness',
+  'overallWellness',
+];
+
+// Meters where a higher value is worse
+export const INVERTED_HEADLINE_METERS: HeadlineMeter[] = ['diseaseRisk'];
+
+// What a model computes; recommendations are added on top by calculateHealthModel
+export type ModelMeters = Omit<Meters, 'prioritizedRecommendations'>;
+
+export interface HealthModel {
+  id: string;
+  name: LocalizedText;
+  description: LocalizedText;
+  calculate: (habits: HabitLevels, locale?: Locale, demographics?: Demographics, customHabits?: HabitDefinition[]) => ModelMeters;
+}
+
+const MAX_RECOMMENDATIONS = 5;
+
+// Changes below this average improvement are not worth recommending
+const MIN_EXPECTED_IMPACT = 0.1;
+
+// Minimum expected impact for each tier, highest first
+const PRIORITY_THRESHOLDS: [RecommendationPriority, number][] = [
+  ['critical', 3],
+  ['high', 2],
+  ['moderate', 1],
+  ['low', 0],
+];
+
+// Life expectancy moves in years; one year counts as this many points on the 0-100 scales
+const POINTS_PER_LIFE_YEAR = 2.5;
+
+/**
+ * Improvement of a headline meter in points, positive when it gets better
+ */
+const meterImprovement = (key: HeadlineMeter, delta: number) => {
+  if (key === 'lifeExpectancy') return delta * POINTS_PER_LIFE_YEAR;
+  return INVERTED_HEADLINE_METERS.includes(key) ? -delta : delta;
+};
+
+/**
+ * Rank one-level habit changes by re-running the model with each of them
+ */
+const generateRecommendations = (
+  habits: HabitLevels,
+  baseline: ModelMeters,
+  model: HealthModel,
+  locale: Locale,
+  demographics: Demographics,
+  customHabits: HabitDefinition[]
+): Recommendation[] => {
+  const t = createTranslator(locale);
+  const signed = (value: number) => `${value > 0 ? '+' : ''}${Math.round(value * 10) / 10}`;
+
+  const recommendations = getHabits(customHabits).flatMap(habit => {
+    const fromLevel = habits[habit.id]?.level || 0;
+    const toLevel = habit.kind === 'bad' ? fromLevel - 1 : fromLevel + 1;
+    if (toLevel < habit.intensity.min || toLevel > habit.intensity.max) return [];
+
+    // A habit entered as a quantity moves to the amount of the target level
+    const target = moveToLevel(habit.id, habits[habit.id], toLevel);
+    const changed = model.calculate({ ...habits, [habit.id]: target }, locale, demographics, customHabits);
+    const meterDeltas = Object.fromEntries(
+      HEADLINE_METERS.map(key => [key, changed[key] - baseline[key]])
+    ) as Record<HeadlineMeter, number>;
+    const organDeltas = Object.fromEntries(
+      Object.keys(baseline.organHealth).map(organId => [organId, changed.organHealth[organId] - baseline.organHealth[organId]])
+    );
+
+    const improvements = [
+      ...HEADLINE_METERS.map(key => meterImprovement(key, meterDeltas[key])),
+      ...Object.values(organDeltas),
+    ];
+    const expectedImpact = improvements.reduce((sum, value) => sum + value, 0) / improvements.length;
+    if (expectedImpact < MIN_EXPECTED_IMPACT) return [];
+
+    // Name the meter and the organ that gain the most
+    const [topMeter] = [...HEADLINE_METERS].sort(
+      (a, b) => meterImprovement(b, meterDeltas[b]) - meterImprovement(a, meterDeltas[a])
+    );
+    const [topOrgan] = Object.keys(organDeltas).sort((a, b) => organDeltas[b] - organDeltas[a]);
+    const highlights = [
+      `${t(`meter.${topMeter}`)} ${signed(meterDeltas[topMeter])}${topMeter === 'lifeExpectancy' ? t('unit.years') : ''}`,
+      ...(topOrgan && organDeltas[topOrgan] > 0 ? [`${getOrganText(topOrgan, locale).name} ${signed(organDeltas[topOrgan])}%`] : []),
+    ];
+
+    const text = getHabitText(habit.id, locale, customHabits);
+    const priority = PRIORITY_THRESHOLDS.find(([, threshold]) => expectedImpact >= threshold)![0];
+
+    return [{
+      habitId: habit.id,
+      fromLevel,
+      toLevel,
+      toQuantity: target.quantity,
+      priority,
+      action: t(habit.kind === 'bad' ? 'recommendation.reduce' : 'recommendation.increase', {
+        habit: text.name.toLowerCase(),
+        level: formatHabitAmount(habit.id, target, locale, customHabits),
+      }),
+      rationale: t('recommendation.rationale', { highlights: highlights.join(', ') }),
+      expectedImpact,
+      meterDeltas,
+      organDeltas,
+    }];
+  });
+
+  return recommendations
+    .sort((a, b) => b.expectedImpact - a.expectedImpact)
+    .slice(0, MAX_RECOMMENDATIONS);
+};
+
+/**
+ * Calculate everything the app displays for a set of habits and a person, with texts in
+ * the given locale. The custom habits are the user's own, next to the built-in ones.
+ */
+export const calculateHealthModel = (
+  habits: HabitLevels,
+  modelId: string = DEFAULT_MODEL_ID,
+  locale: Locale = DEFAULT_LOCALE,
+  demographics: Demographics = DEFAULT_DEMOGRAPHICS,
+  customHabits: HabitDefinition[] = []
+): Meters => {
+  const model = getHealthModel(modelId);
+  const meters = model.calculate(habits, locale, demographics, customHabits);
+  return {
+    ...meters,
+    prioritizedRecommendations: generateRecommendations(habits, meters, model, locale, demographics, customHabits),
+  };
+};
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addDays,
+  averageJournalLevels,
+  getHabitStreak,
+  getHeatmapDays,
+  JournalEntry,
+  toDateKey,
+  upsertJournalEntry,
+} from './journal';
+
+const journal: JournalEntry[] = [
+  { date: '2026-03-10', levels: { smoking: 3, exercise: 0 } },
+  { date: '2026-03-12', levels: { smoking: 0, exercise: 2 } },
+  { date: '2026-03-13', levels: { smoking: 0, exercise: 1 } },
+  { date: '2026-03-14', levels: { smoking: 0 } },
+];
+
+describe('dates', () => {
+  it('keys days by their local date', () => {
+    expect(toDateKey(new Date(2026, 0, 5, 23, 30))).toBe('2026-01-05');
+  });
+
+  it('moves across month and year boundaries', () => {
+    expect(addDays('2026-03-01', -1)).toBe('2026-02-28');
+    expect(addDays('2025-12-31', 1)).toBe('2026-01-01');
+  });
+});
+
+describe('upsertJournalEntry', () => {
+  it('adds a habit to an existing day without losing the others', () => {
+    const updated = upsertJournalEntry(journal, '2026-03-14', 'exercise', 3);
+    expect(updated.find(entry => entry.date === '2026-03-14')?.levels).toEqual({ smoking: 0, exercise: 3 });
+    expect(updated).toHaveLength(journal.length);
+  });
+
+  it('keeps the days in order', () => {
+    const updated = upsertJournalEntry(journal, '2026-03-11', 'smoking', 1);
+    expect(updated.map(entry => entry.date)).toEqual(['2026-03-10', '2026-03-11', '2026-03-12', '2026-03-13', '2026-03-14']);
+  });
+});
+
+describe('averageJournalLevels', () => {
+  it('averages the logged days inside the window', () => {
+    const levels = averageJournalLevels(journal, 7, '2026-03-14');
+    expect(levels.smoking.level).toBe(1); // (3 + 0 + 0 + 0) / 4
+    expect(levels.exercise.level).toBe(1); // (0 + 2 + 1) / 3
+  });
+
+  it('ignores days before the window and treats unlogged habits as level 0', () => {
+    const levels = averageJournalLevels(journal, 3, '2026-03-14');
+    expect(levels.smoking.level).toBe(0);
+    expect(levels.exercise.level).toBe(2); // (2 + 1) / 2 rounds up
+    expect(levels.meditation.level).toBe(0);
+  });
+});
+
+describe('getHabitStreak', () => {
+  it('counts consecutive on-track days up to today', () => {
+    expect(getHabitStreak(journal, 'smoking', '2026-03-14')).toBe(3);
+  });
+
+  it('does not break the streak before today is logged', () => {
+    expect(getHabitStreak(journal, 'exercise', '2026-03-14')).toBe(2);
+    expect(getHabitStreak(journal, 'smoking', '2026-03-15')).toBe(3);
+  });
+
+  it('stops at a missed day', () => {
+    expect(getHabitStreak(journal, 'smoking', '2026-03-17')).toBe(0);
+  });
+});
+
+describe('getHeatmapDays', () => {
+  it('returns every day of the period ending today', () => {
+    const days = getHeatmapDays(journal, 'exercise', '2026-03-14', 1);
+    expect(days).toHaveLength(7);
+    expect(days[0].date).toBe('2026-03-08');
+    expect(days[6]).toEqual({ date: '2026-03-14', level: undefined });
+    expect(days[4]).toEqual({ date: '2026-03-12', level: 2 });
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * HABIT JOURNAL
+ *
+ * Daily log of the levels a user actually lived, as opposed to the hypothetical
+ * levels of a scenario. Days are keyed by their local date ("2026-03-14"); each
+ * entry holds the levels logged that day, so a habit may be missing from a day.
+ *
+ * Entries are kept in IndexedDB (see localDatabase.ts); everything here is pure.
+ */
+
+import type { HabitLevels } from '../store/useAtlasStore';
+import { findHabit, getHabits, HabitDefinition } from './habitCatalog';
+
+export interface JournalEntry {
+  date: string; // Local date, YYYY-MM-DD
+  levels: Record<string, number>;
+}
+
+export interface HeatmapDay {
+  date: string;
+  level: number | undefined; // Undefined when the habit was not logged that day
+}
+
+// Windows offered for the rolling average, in days
+export const JOURNAL_WINDOWS = [7, 14, 30];
+
+export const DEFAULT_JOURNAL_WINDOW = 7;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Local date key of a moment, e.g. "2026-03-14"
+ */
+export const toDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+/**
+ * Date key a number of days before (negative) or after a given one
+ */
+export const addDays = (dateKey: string, days: number): string => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  // Noon keeps daylight saving changes from moving the date
+  return toDateKey(new Date(year, month - 1, day + days, 12));
+};
+
+/**
+ * Record a habit level for a day, returning the journal sorted by date
+ */
+export const upsertJournalEntry = (
+  journal: JournalEntry[],
+  date: string,
+  habitId: string,
+  level: number
+): JournalEntry[] => {
+  const existing = journal.find(entry => entry.date === date);
+  const entry = { date, levels: { ...existing?.levels, [habitId]: level } };
+  return [...journal.filter(e => e.date !== date), entry].sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * Habit levels averaged over the days logged in the window ending today, rounded to
+ * the nearest level. Habits with no log in the window count as level 0.
+ */
+export const averageJournalLevels = (
+  journal: JournalEntry[],
+  windowDays: number,
+  today: string,
+  customHabits: HabitDefinition[] = []
+): HabitLevels => {
+  const from = addDays(today, -(windowDays - 1));
+  const entries = journal.filter(entry => entry.date >= from && entry.date <= today);
+
+  return Object.fromEntries(
+    getHabits(customHabits).map(habit => {
+      const levels = entries
+        .map(entry => entry.levels[habit.id])
+        .filter((level): level is number => level !== undefined);
+      const average = levels.length > 0 ? levels.reduce((sum, level) => sum + level, 0) / levels.length : 0;
+      return [habit.id, { level: Math.round(average) }];
+    })
+  );
+};
+
+/**
+ * Whether a logged level counts towards a streak: none of a harmful habit, any of a beneficial one
+ */
+export const isOnTrack = (habitId: string, level: number, customHabits: HabitDefinition[] = []): boolean => {
+  const habit = findHabit(habitId, customHabits);
+  return habit?.kind === 'bad' ? level === 0 : level > 0;
+};
+
+/**
+ * Consecutive on-track days up to today. A day not logged yet today does not break the streak.
+ */
+export const getHabitStreak = (
+  journal: JournalEntry[],
+  habitId: string,
+  today: string,
+  customHabits: HabitDefinition[] = []
+): number => {
+  const levelOn = (date: string) => journal.find(entry => entry.date === date)?.levels[habitId];
+
+  let date = levelOn(today) === undefined ? addDays(today, -1) : today;
+  let streak = 0;
+  for (let level = levelOn(date); level !== undefined && isOnTrack(habitId, level, customHabits); level = levelOn(date)) {
+    streak++;
+    date = addDays(date, -1);
+  }
+  return streak;
+};
+
+/**
+ * One cell per day for the calendar heatmap, oldest first, ending today
+ */
+export const getHeatmapDays = (journal: JournalEntry[], habitId: string, today: string, weeks: number): HeatmapDay[] => {
+  const levels = new Map(journal.map(entry => [entry.date, entry.levels[habitId]]));
+  return Array.from({ length: weeks * 7 }, (_, index) => {
+    const date = addDays(today, index - (weeks * 7 - 1));
+    return { date, level: levels.get(date) };
+  });
+};
@@ -0,0 +1,87 @@
+/**
+ * LOCAL DATABASE
+ *
+ * Data that grows without an upper bound (the habit journal and the meter history)
+ * lives in IndexedDB rather than in the localStorage blob the rest of the store uses.
+ */
+
+import type { JournalEntry } from './journal';
+import type { HistorySnapshot } from './meterHistory';
+
+const DATABASE_NAME = 'atlas-habits-journal';
+const DATABASE_VERSION = 2; // Version 2 added the meter history
+const ENTRY_STORE = 'entries';
+const HISTORY_STORE = 'history';
+
+let database: Promise<IDBDatabase> | undefined;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(ENTRY_STORE)) {
+          db.createObjectStore(ENTRY_STORE, { keyPath: 'date' });
+        }
+        if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+          db.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call retry after a failure
+    database.catch(() => {
+      database = undefined;
+    });
+  }
+  return database;
+};
+
+const complete = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const getAll = async <T>(storeName: string): Promise<T[]> => {
+  const db = await openDatabase();
+  return complete<T[]>(db.transaction(storeName).objectStore(storeName).getAll());
+};
+
+const put = async (storeName: string, value: unknown): Promise<void> => {
+  const db = await openDatabase();
+  await complete(db.transaction(storeName, 'readwrite').objectStore(storeName).put(value));
+};
+
+/**
+ * Every logged day, oldest first
+ */
+export const loadJournalEntries = async (): Promise<JournalEntry[]> => {
+  const entries = await getAll<JournalEntry>(ENTRY_STORE);
+  return entries.sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * Insert or replace the entry of one day
+ */
+export const saveJournalEntry = (entry: JournalEntry): Promise<void> => put(ENTRY_STORE, entry);
+
+/**
+ * Every recorded state, oldest first
+ */
+export const loadHistorySnapshots = async (): Promise<HistorySnapshot[]> => {
+  const snapshots = await getAll<HistorySnapshot>(HISTORY_STORE);
+  return snapshots.sort((a, b) => a.recordedAt.localeCompare(b.recordedAt));
+};
+
+/**
+ * Insert or replace a recorded state
+ */
+export const saveHistorySnapshot = (snapshot: HistorySnapshot): Promise<void> => put(HISTORY_STORE, snapshot);
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { combineMeterBreakdowns, createMeterBreakdown, MeterBreakdown, MeterContribution } from './meterBreakdown';
+import { calculateHealthModel, HEADLINE_METERS } from './healthModel';
+import { HEALTH_MODELS } from './models';
+import habitsData from '../data/habits.json';
+
+const contribution = (habitId: string, impact: number): MeterContribution => ({
+  habitId,
+  habitName: habitId,
+  impact,
+  kind: 'habit',
+  habitIds: [habitId],
+});
+
+const total = (breakdown: MeterBreakdown) =>
+  breakdown.contributions.reduce((sum, c) => sum + c.impact, breakdown.baseline) + breakdown.clamping;
+
+describe('createMeterBreakdown', () => {
+  it('merges the points of one habit and sorts by size', () => {
+    const breakdown = createMeterBreakdown(50, [contribution('exercise', 4), contribution('smoking', -9), contribution('exercise', 2)], 47);
+
+    expect(breakdown.contributions.map(c => [c.habitId, c.impact])).toEqual([['smoking', -9], ['exercise', 6]]);
+    expect(breakdown.clamping).toBe(0);
+  });
+
+  it('reports what the bounds cut off', () => {
+    const breakdown = createMeterBreakdown(50, [contribution('smoking', -50)], 10);
+    expect(breakdown.clamping).toBe(10);
+  });
+
+  it('combines parts with their weights', () => {
+    const brain = createMeterBreakdown(80, [contribution('smoking', -20)], 60);
+    const happiness = createMeterBreakdown(50, [contribution('smoking', -10), contribution('reading', 5)], 45);
+    const mental = combineMeterBreakdowns([[brain, 0.5], [happiness, 0.5]], 52.5);
+
+    expect(mental.baseline).toBe(65);
+    expect(mental.contributions.map(c => [c.habitId, c.impact])).toEqual([['smoking', -15], ['reading', 2.5]]);
+    expect(mental.clamping).toBe(0);
+  });
+});
+
+describe('meter breakdowns of the models', () => {
+  const worstCase = Object.fromEntries(habitsData.habits.map(h => [h.id, { level: h.kind === 'bad' ? 3 : 0 }]));
+  const profiles = [
+    {},
+    { smoking: { level: 2 }, exercise: { level: 1 }, sleep_consistency: { level: 3 } },
+    { alcohol: { level: 3 }, drugs: { level: 2 }, chronic_stress: { level: 3 }, social_isolation: { level: 2 } },
+    worstCase,
+  ];
+
+  HEALTH_MODELS.forEach(model => {
+    it(`adds up to every meter in the ${model.id} model`, () => {
+      profiles.forEach(habits => {
+        const meters = calculateHealthModel(habits, model.id);
+        HEADLINE_METERS.forEach(meter => {
+          expect(meters.meterBreakdown[meter].value).toBe(meters[meter]);
+          expect(total(meters.meterBreakdown[meter])).toBeCloseTo(meters[meter], 6);
+        });
+      });
+    });
+
+    it(`traces the ${model.id} meters back to the active habits`, () => {
+      const meters = calculateHealthModel({ smoking: { level: 3 } }, model.id);
+      expect(meters.meterBreakdown.health.contributions.map(c => c.habitId)).toEqual(['smoking']);
+      expect(meters.meterBreakdown.health.contributions[0].impact).toBeLessThan(0);
+      expect(meters.meterBreakdown.diseaseRisk.contributions[0].impact).toBeGreaterThan(0);
+    });
+
+    it(`shows the clamping of the worst case in the ${model.id} model`, () => {
+      const meters = calculateHealthModel(worstCase, model.id);
+      expect(meters.meterBreakdown.health.clamping).toBeGreaterThan(0);
+      expect(meters.meterBreakdown.health.contributions.some(c => c.kind === 'interaction')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * METER BREAKDOWN
+ *
+ * Structured answer to "why is this meter at this value?". Every model returns,
+ * for each headline meter, the baseline it starts from, the signed points each
+ * habit (or compounding habit pair) adds, and the points the bounds cut off:
+ *
+ *   value = baseline + Σ contribution.impact + clamping
+ *
+ * Meters built from other numbers (an average of organs, the mean of two meters)
+ * combine the breakdowns of their parts with the same weights, so every point can
+ * still be traced back to a habit.
+ */
+
+export interface MeterContribution {
+  habitId: string; // Joined with "+" for interactions
+  habitName: string;
+  impact: number; // Signed points added to the meter
+  kind: 'habit' | 'interaction';
+  habitIds: string[];
+}
+
+export interface MeterBreakdown {
+  baseline: number;
+  value: number;
+  contributions: MeterContribution[]; // Largest first
+  clamping: number; // Signed points the bounds removed or added
+}
+
+// Below this, a leftover is floating-point noise rather than a real clamp
+const CLAMP_EPSILON = 1e-9;
+
+/**
+ * Merge contributions of the same habit (or pair) and sort them, largest first
+ */
+const mergeContributions = (contributions: MeterContribution[]): MeterContribution[] => {
+  const merged = new Map<string, MeterContribution>();
+  contributions.forEach(contribution => {
+    const existing = merged.get(contribution.habitId);
+    // Copied field by field: organ contributions carry more than a meter needs
+    merged.set(contribution.habitId, {
+      habitId: contribution.habitId,
+      habitName: contribution.habitName,
+      impact: (existing?.impact ?? 0) + contribution.impact,
+      kind: contribution.kind,
+      habitIds: contribution.habitIds,
+    });
+  });
+
+  return Array.from(merged.values())
+    .filter(contribution => contribution.impact !== 0)
+    .sort((a, b) => Math.abs(b.impact) - Math.abs(a.impact));
+};
+
+/**
+ * Breakdown of a meter whose final value is already known (after its bounds)
+ */
+export const createMeterBreakdown = (
+  baseline: number,
+  contributions: MeterContribution[],
+  value: number
+): MeterBreakdown => {
+  const merged = mergeContributions(contributions);
+  const unclamped = merged.reduce((sum, contribution) => sum + contribution.impact, baseline);
+  const clamping = value - unclamped;
+
+  return {
+    baseline,
+    value,
+    contributions: merged,
+    clamping: Math.abs(clamping) < CLAMP_EPSILON ? 0 : clamping,
+  };
+};
+
+/**
+ * Breakdown of a meter computed as a weighted sum of other breakdowns; the clamping
+ * of the parts carries over into the clamping of the result
+ */
+export const combineMeterBreakdowns = (
+  parts: Array<[MeterBreakdown, number]>,
+  value: number
+): MeterBreakdown => createMeterBreakdown(
+  parts.reduce((sum, [part, weight]) => sum + part.baseline * weight, 0),
+  parts.flatMap(([part, weight]) => part.contributions.map(contribution => ({
+    ...contribution,
+    impact: contribution.impact * weight,
+  }))),
+  value
+);
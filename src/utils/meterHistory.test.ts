@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import {
+  appendHistorySnapshot,
+  buildHistorySeries,
+  getHistoryAnnotations,
+  HISTORY_MERGE_MS,
+  HistorySnapshot,
+} from './meterHistory';
+import { calculateHealthModel } from './healthModel';
+import type { HabitLevels } from '../store/useAtlasStore';
+
+const start = new Date('2026-03-01T09:00:00Z');
+const later = (ms: number) => new Date(start.getTime() + ms);
+const record = (history: HistorySnapshot[], habits: HabitLevels, at: Date) =>
+  appendHistorySnapshot(history, habits, calculateHealthModel(habits), at);
+
+describe('appendHistorySnapshot', () => {
+  const first = record([], { smoking: { level: 2 } }, start);
+
+  it('stores the computed meters, stats and organs with a timestamp', () => {
+    expect(first).toHaveLength(1);
+    expect(first[0]).toMatchObject({ id: start.toISOString(), recordedAt: start.toISOString(), modelId: 'curves' });
+    expect(first[0].meters.health).toBe(calculateHealthModel({ smoking: { level: 2 } }).health);
+    expect(first[0].stats.cardioStrain).toBeDefined();
+    expect(first[0].organHealth.lungs).toBeDefined();
+  });
+
+  it('ignores states whose habits did not change', () => {
+    expect(record(first, { smoking: { level: 2 }, exercise: { level: 0 } }, later(HISTORY_MERGE_MS * 10))).toBe(first);
+  });
+
+  it('merges changes made in quick succession', () => {
+    const merged = record(first, { smoking: { level: 1 } }, later(HISTORY_MERGE_MS / 2));
+    expect(merged).toHaveLength(1);
+    expect(merged[0].id).toBe(first[0].id);
+    expect(merged[0].habits.smoking.level).toBe(1);
+  });
+
+  it('adds a new snapshot for later changes', () => {
+    expect(record(first, { smoking: { level: 1 } }, later(HISTORY_MERGE_MS * 2))).toHaveLength(2);
+  });
+});
+
+describe('series and annotations', () => {
+  const day = 24 * 60 * 60 * 1000;
+  let history = record([], { smoking: { level: 3 } }, start);
+  history = record(history, { smoking: { level: 1 } }, later(2 * day));
+  history = record(history, { smoking: { level: 0 } }, later(5 * day));
+
+  it('carries the state before the period over to its start', () => {
+    const from = start.getTime() + day;
+    const points = buildHistorySeries(history, snapshot => snapshot.habits.smoking.level, from, later(10 * day).getTime());
+    expect(points).toEqual([
+      { time: from, value: 3 },
+      { time: later(2 * day).getTime(), value: 1 },
+      { time: later(5 * day).getTime(), value: 0 },
+    ]);
+  });
+
+  it('leaves out snapshots after the period', () => {
+    const points = buildHistorySeries(history, () => 1, start.getTime() - day, later(3 * day).getTime());
+    expect(points).toHaveLength(2);
+  });
+
+  it('marks each habit change inside the period', () => {
+    const annotations = getHistoryAnnotations(history, start.getTime() + 3 * day, later(10 * day).getTime());
+    expect(annotations).toEqual([
+      { time: later(5 * day).getTime(), changes: [{ habitId: 'smoking', fromLevel: 1, toLevel: 0 }] },
+    ]);
+  });
+});
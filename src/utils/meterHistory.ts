@@ -0,0 +1,148 @@
+/**
+ * METER HISTORY
+ *
+ * Every time the habits change, the computed state is recorded with a timestamp so
+ * the history view can chart how the meters, detailed stats and organs evolved.
+ * Changes made in quick succession (e.g. clicking through several levels) are merged
+ * into one snapshot so the history is not flooded.
+ *
+ * Snapshots are kept in IndexedDB (see localDatabase.ts); everything here is pure.
+ */
+
+import type { HabitLevels } from '../store/useAtlasStore';
+import { HEADLINE_METERS, HeadlineMeter, Meters, MeterStats } from './healthModel';
+import { getHabits, HabitDefinition } from './habitCatalog';
+
+export interface HistorySnapshot {
+  id: string; // Time of the first change merged into this snapshot
+  recordedAt: string; // ISO timestamp of the latest change
+  modelId: string;
+  habits: HabitLevels;
+  meters: Record<HeadlineMeter, number>;
+  stats: MeterStats;
+  organHealth: Record<string, number>;
+}
+
+export interface HistoryPoint {
+  time: number; // Milliseconds since the epoch
+  value: number;
+}
+
+export interface HabitChange {
+  habitId: string;
+  fromLevel: number;
+  toLevel: number;
+  fromQuantity?: number;
+  toQuantity?: number;
+}
+
+export interface HistoryAnnotation {
+  time: number;
+  changes: HabitChange[];
+}
+
+export type HistoryRange = 'week' | 'month' | 'year';
+
+export const HISTORY_RANGES: Record<HistoryRange, number> = {
+  week: 7,
+  month: 30,
+  year: 365,
+};
+
+// Changes closer together than this are merged into the previous snapshot
+export const HISTORY_MERGE_MS = 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Habits, built-in or among the given custom ones, whose level or quantity differs
+ * between two configurations
+ */
+export const getHabitChanges = (
+  previous: HabitLevels,
+  current: HabitLevels,
+  customHabits: HabitDefinition[] = []
+): HabitChange[] =>
+  getHabits(customHabits)
+    .map(habit => ({
+      habitId: habit.id,
+      fromLevel: previous[habit.id]?.level || 0,
+      toLevel: current[habit.id]?.level || 0,
+      fromQuantity: previous[habit.id]?.quantity,
+      toQuantity: current[habit.id]?.quantity,
+    }))
+    .filter(change => change.fromLevel !== change.toLevel || change.fromQuantity !== change.toQuantity);
+
+/**
+ * Add the current state to the history. Returns the history unchanged when the
+ * habits did not change, and replaces the last snapshot when it is very recent.
+ */
+export const appendHistorySnapshot = (
+  history: HistorySnapshot[],
+  habits: HabitLevels,
+  meters: Meters,
+  now: Date,
+  customHabits: HabitDefinition[] = []
+): HistorySnapshot[] => {
+  const last = history[history.length - 1];
+  if (last && getHabitChanges(last.habits, habits, customHabits).length === 0) return history;
+
+  const recordedAt = now.toISOString();
+  const merge = last && now.getTime() - new Date(last.recordedAt).getTime() < HISTORY_MERGE_MS;
+  const snapshot: HistorySnapshot = {
+    id: merge ? last.id : recordedAt,
+    recordedAt,
+    modelId: meters.modelId,
+    habits,
+    meters: Object.fromEntries(HEADLINE_METERS.map(key => [key, meters[key]])) as Record<HeadlineMeter, number>,
+    stats: meters.stats,
+    organHealth: meters.organHealth,
+  };
+
+  return merge ? [...history.slice(0, -1), snapshot] : [...history, snapshot];
+};
+
+/**
+ * Start of the period a range shows, ending now
+ */
+export const getRangeStart = (range: HistoryRange, now: number): number => now - HISTORY_RANGES[range] * DAY_MS;
+
+/**
+ * Values of one series over a period. The state before the period carries over to
+ * its start, since the values hold until the habits change again.
+ */
+export const buildHistorySeries = (
+  history: HistorySnapshot[],
+  read: (snapshot: HistorySnapshot) => number,
+  from: number,
+  to: number
+): HistoryPoint[] => {
+  const points: HistoryPoint[] = [];
+  history.forEach(snapshot => {
+    const time = new Date(snapshot.recordedAt).getTime();
+    if (time > to) return;
+    if (time <= from) {
+      points.length = 0;
+      points.push({ time: from, value: read(snapshot) });
+    } else {
+      points.push({ time, value: read(snapshot) });
+    }
+  });
+  return points;
+};
+
+/**
+ * Habit changes within a period, for marking them on the charts
+ */
+export const getHistoryAnnotations = (
+  history: HistorySnapshot[],
+  from: number,
+  to: number,
+  customHabits: HabitDefinition[] = []
+): HistoryAnnotation[] =>
+  history.flatMap((snapshot, index) => {
+    const time = new Date(snapshot.recordedAt).getTime();
+    if (index === 0 || time <= from || time > to) return [];
+    const changes = getHabitChanges(history[index - 1].habits, snapshot.habits, customHabits);
+    return changes.length > 0 ? [{ time, changes }] : [];
+  });
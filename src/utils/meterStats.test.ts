@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { calculateMeterStats, calculateStatBreakdown, STAT_BASELINE, STAT_IDS } from './meterStats';
+import { calculateHealthModel } from './healthModel';
+import type { HabitDefinition } from './habitCatalog';
+import { validateCustomHabit } from './customHabits';
+
+describe('calculateStatBreakdown', () => {
+  it('leaves every stat at the neutral baseline with no habits', () => {
+    const { stats, statBreakdown } = calculateMeterStats({});
+    STAT_IDS.forEach(statId => {
+      expect(stats[statId]).toBe(STAT_BASELINE);
+      expect(statBreakdown[statId].contributions).toHaveLength(0);
+    });
+  });
+
+  it('moves a stat only with the habits whose tags drive it', () => {
+    const inflammation = calculateStatBreakdown('inflammation', { processed_diet: { level: 3 }, reading: { level: 3 } });
+
+    expect(inflammation.contributions.map(c => c.habitId)).toEqual(['processed_diet']);
+    expect(inflammation.contributions[0].tags).toEqual(['microbiome_disruption', 'inflammation', 'fatty_liver']);
+    expect(inflammation.value).toBeGreaterThan(STAT_BASELINE);
+  });
+
+  it('reads sleep quality from the habits named for it', () => {
+    const sleep = calculateStatBreakdown('sleepQuality', {
+      sleep_consistency: { level: 1 },
+      gaming: { level: 1 },
+      smoking: { level: 3 },
+    });
+
+    expect(sleep.contributions.map(c => [c.habitId, c.impact])).toEqual([['sleep_consistency', 1.8], ['gaming', -0.8]]);
+    expect(sleep.contributions.every(c => c.tags.length === 0)).toBe(true);
+    expect(sleep.value).toBeCloseTo(6);
+  });
+
+  it('lowers the stats where higher is worse for good habits', () => {
+    const cardio = calculateStatBreakdown('cardioStrain', { exercise: { level: 3 } });
+    expect(cardio.contributions[0].impact).toBeLessThan(0);
+    expect(cardio.value).toBeLessThan(STAT_BASELINE);
+  });
+
+  it('adds up to the stat within 0-10', () => {
+    const habits = { smoking: { level: 3 }, chronic_stress: { level: 3 }, processed_diet: { level: 2 }, exercise: { level: 1 } };
+    STAT_IDS.forEach(statId => {
+      const { value, baseline, contributions } = calculateStatBreakdown(statId, habits);
+      const sum = contributions.reduce((total, c) => total + c.impact, baseline);
+      expect(value).toBeCloseTo(Math.max(0, Math.min(10, sum)));
+    });
+  });
+
+  it('counts custom habits through their mechanism tags', () => {
+    const { habit } = validateCustomHabit({
+      id: 'custom_late_snacks',
+      name: 'Petiscos noturnos',
+      kind: 'bad',
+      category: 'Alimentação',
+      intensity: { min: 0, max: 3, labels: ['Nunca', 'Às vezes', 'Muitas vezes', 'Todas as noites'] },
+      mechanisms: [{ organ: 'pancreas', tags: ['sugar_spikes'], weight: 0.2 }],
+      effects: {},
+    }) as { habit: HabitDefinition };
+
+    const metabolic = calculateStatBreakdown('metabolicHealth', { custom_late_snacks: { level: 3 } }, 'pt', [habit]);
+    expect(metabolic.contributions).toMatchObject([{ habitId: 'custom_late_snacks', tags: ['sugar_spikes'] }]);
+    expect(metabolic.value).toBeCloseTo(STAT_BASELINE - 0.6);
+  });
+});
+
+it('gives both models the same traceable stats', () => {
+  const habits = { alcohol: { level: 2 }, meditation: { level: 1 } };
+  const curves = calculateHealthModel(habits);
+  const linear = calculateHealthModel(habits, 'linear');
+
+  expect(curves.statBreakdown).toEqual(linear.statBreakdown);
+  STAT_IDS.forEach(statId => expect(curves.stats[statId]).toBe(curves.statBreakdown[statId].value));
+});
@@ -0,0 +1,177 @@
+/**
+ * DETAILED STATS
+ *
+ * The eight 0-10 stats under the meters (cardio strain, inflammation, sleep quality...)
+ * start at a neutral 5 and move only with the habits that drive them:
+ *
+ *   - a habit mechanism of habits.json counts when one of its tags is listed for the
+ *     stat (inflammation: "inflammation", "neuroinflammation", "leaky_gut"...), with
+ *     its weight, so custom habits with the same tags count too;
+ *   - a few stats also name habits directly, for effects the tags do not describe
+ *     (sleep quality: sleep consistency, chronic stress, gaming and alcohol).
+ *
+ * Every habit that moves a stat is listed in its breakdown with the signed points
+ * it adds and the tags that matched, so the stat can be traced back to the habits.
+ */
+
+import type { HabitLevels } from '../store/useAtlasStore';
+import type { MeterStats } from './healthModel';
+import { getHabits, HabitDefinition } from './habitCatalog';
+import { getHabitIntensity } from './habitDose';
+import { DEFAULT_LOCALE, getHabitText, Locale } from '../i18n';
+
+export type StatId = keyof MeterStats;
+
+interface StatDriver {
+  higherIsWorse: boolean; // Cardio strain, inflammation and stress load
+  tags: string[];
+  habits?: Partial<Record<string, number>>; // Signed points per level, on top of the tags
+}
+
+export interface StatContribution {
+  habitId: string;
+  habitName: string;
+  level: number;
+  impact: number; // Signed points added to the stat
+  tags: string[]; // Mechanism tags that matched; empty when the habit is named directly
+}
+
+export interface StatBreakdown {
+  baseline: number;
+  value: number;
+  contributions: StatContribution[]; // Largest first
+}
+
+export const STAT_BASELINE = 5;
+export const STAT_MAX = 10;
+
+// Stat points per level for a mechanism weight of 1.0
+const TAG_POINTS_PER_LEVEL = 1;
+
+export const STAT_DRIVERS: Record<StatId, StatDriver> = {
+  cardioStrain: {
+    higherIsWorse: true,
+    tags: [
+      'atherosclerosis', 'blood_pressure', 'hypertension', 'cardiomyopathy', 'arrhythmia', 'cardiac_stress',
+      'deconditioning', 'poor_circulation', 'stress_response', 'vasoconstriction', 'endothelial_damage',
+      'arterial_stiffening', 'plaque_buildup', 'cardiovascular_fitness', 'lower_bp', 'parasympathetic_activation',
+      'stress_buffering', 'rhythm_regulation', 'cholesterol_balance', 'nitric_oxide', 'arterial_elasticity',
+      'plaque_reduction', 'blood_volume',
+    ],
+  },
+  inflammation: {
+    higherIsWorse: true,
+    tags: [
+      'inflammation', 'neuroinflammation', 'fatty_liver', 'fibrosis', 'leaky_gut', 'microbiome_disruption',
+      'gastritis', 'pancreatitis', 'stress_acne', 'breakouts', 'anti_inflammatory', 'microbiome_health',
+      'microbiome_diversity', 'antioxidants',
+    ],
+  },
+  sleepQuality: {
+    higherIsWorse: false,
+    tags: [],
+    habits: { sleep_consistency: 1.8, chronic_stress: -1.2, gaming: -0.8, alcohol: -0.6 },
+  },
+  stressLoad: {
+    higherIsWorse: true,
+    tags: [
+      'cortisol_elevation', 'stress_hormones', 'stress_response', 'anxiety', 'hypertension', 'stress_reduction',
+      'stress_buffering', 'parasympathetic_activation', 'emotional_processing', 'vagal_tone', 'oxytocin_release',
+    ],
+    habits: { chronic_stress: 1 },
+  },
+  recoveryCapacity: {
+    higherIsWorse: false,
+    tags: [
+      'recovery', 'memory_consolidation', 'glymphatic_clearance', 'mucosal_repair', 'bone_repair', 'tear_film_recovery',
+      'hormone_production', 'cardiovascular_fitness', 'blood_volume', 'deconditioning', 'cortisol_elevation',
+      'cortisol_suppression', 'dehydration', 'hepatotoxicity', 'nephrotoxicity',
+    ],
+  },
+  cognitiveFunction: {
+    higherIsWorse: false,
+    tags: [
+      'neurotoxicity', 'memory_impairment', 'oxygen_reduction', 'attention_problems', 'cognitive_decline',
+      'reduced_neuroplasticity', 'dopamine_disruption', 'dopamine_desensitization', 'dopamine_dysregulation',
+      'neuroplasticity', 'cognitive_reserve', 'bdnf_increase', 'neurogenesis', 'cognitive_support', 'neuroprotection',
+      'memory_consolidation', 'cognitive_performance', 'headache_prevention',
+    ],
+  },
+  immuneSystem: {
+    higherIsWorse: false,
+    tags: [
+      'inflammation', 'leaky_gut', 'microbiome_disruption', 'microbiome_changes', 'cortisol_elevation', 'stress_hormones',
+      'nutrient_deficiency', 'microbiome_health', 'microbiome_diversity', 'antioxidants', 'anti_inflammatory',
+      'recovery', 'glymphatic_clearance',
+    ],
+  },
+  metabolicHealth: {
+    higherIsWorse: false,
+    tags: [
+      'insulin_resistance', 'fatty_liver', 'fatty_accumulation', 'sugar_spikes', 'metabolism_stress',
+      'enzyme_disruption', 'improved_metabolism', 'fat_oxidation', 'insulin_sensitivity', 'glucose_uptake',
+      'stable_blood_sugar', 'circadian_metabolism', 'circadian_glucose_control', 'nutrient_processing',
+    ],
+  },
+};
+
+export const STAT_IDS = Object.keys(STAT_DRIVERS) as StatId[];
+
+const clampStat = (value: number) => Math.max(0, Math.min(STAT_MAX, value));
+
+/**
+ * Trace one stat back to the habits and mechanism tags that drive it
+ */
+export const calculateStatBreakdown = (
+  statId: StatId,
+  habits: HabitLevels,
+  locale: Locale = DEFAULT_LOCALE,
+  customHabits: HabitDefinition[] = []
+): StatBreakdown => {
+  const driver = STAT_DRIVERS[statId];
+  const contributions: StatContribution[] = [];
+
+  getHabits(customHabits).forEach(habit => {
+    const level = getHabitIntensity(habits, habit.id);
+    if (level === 0) return;
+
+    // Mechanism weights are positive for harm, so they raise the stats where higher is worse
+    const matched = habit.mechanisms.filter(mechanism => mechanism.tags.some(tag => driver.tags.includes(tag)));
+    const harm = matched.reduce((sum, mechanism) => sum + mechanism.weight, 0);
+    const impact = (driver.higherIsWorse ? harm : -harm) * TAG_POINTS_PER_LEVEL * level
+      + (driver.habits?.[habit.id] ?? 0) * level;
+    if (impact === 0) return;
+
+    contributions.push({
+      habitId: habit.id,
+      habitName: getHabitText(habit.id, locale, customHabits).name,
+      level,
+      impact,
+      tags: [...new Set(matched.flatMap(mechanism => mechanism.tags.filter(tag => driver.tags.includes(tag))))],
+    });
+  });
+
+  contributions.sort((a, b) => Math.abs(b.impact) - Math.abs(a.impact));
+
+  return {
+    baseline: STAT_BASELINE,
+    value: clampStat(contributions.reduce((sum, c) => sum + c.impact, STAT_BASELINE)),
+    contributions,
+  };
+};
+
+/**
+ * Every detailed stat with its breakdown
+ */
+export const calculateMeterStats = (
+  habits: HabitLevels,
+  locale: Locale = DEFAULT_LOCALE,
+  customHabits: HabitDefinition[] = []
+): { stats: MeterStats; statBreakdown: Record<StatId, StatBreakdown> } => {
+  const statBreakdown = Object.fromEntries(
+    STAT_IDS.map(statId => [statId, calculateStatBreakdown(statId, habits, locale, customHabits)])
+  ) as Record<StatId, StatBreakdown>;
+  const stats = Object.fromEntries(STAT_IDS.map(statId => [statId, statBreakdown[statId].value])) as Record<StatId, number>;
+
+  return { stats, statBreakdown };
+};
@@ -0,0 +1,65 @@
+/**
+ * CURVE MODEL
+ *
+ * The original scoring philosophy: every habit moves each meter along its own
+ * exponential curve (see HABIT_EFFECTS), and organs follow organHabitMappings.json.
+ */
+
+import type { HabitLevels } from '../../store/useAtlasStore';
+import type { HealthModel, ModelMeters } from '../healthModel';
+import { calculateExponentialHealth } from '../exponentialHealthCalculator';
+import { buildOrganReports } from './shared';
+import { calculateMeterStats } from '../meterStats';
+import { DEFAULT_LOCALE, Locale } from '../../i18n';
+import { DEFAULT_DEMOGRAPHICS, Demographics } from '../demographics';
+import type { HabitDefinition } from '../habitCatalog';
+
+const calculate = (
+  habits: HabitLevels,
+  locale: Locale = DEFAULT_LOCALE,
+  demographics: Demographics = DEFAULT_DEMOGRAPHICS,
+  customHabits: HabitDefinition[] = []
+): ModelMeters => {
+  const result = calculateExponentialHealth(habits, locale, demographics, customHabits);
+  const { metrics, meterBreakdown } = result;
+
+  return {
+    modelId: curveModel.id,
+    health: metrics.general_health,
+    happiness: metrics.happiness,
+    qualityOfLife: metrics.quality_of_life,
+    mentalHealth: metrics.mental_health,
+    lifeExpectancy: metrics.life_expectancy,
+    diseaseRisk: metrics.disease_risk,
+    physicalFitness: metrics.physical_fitness,
+    overallWellness: metrics.overall_wellness,
+    meterBreakdown: {
+      health: meterBreakdown.general_health,
+      happiness: meterBreakdown.happiness,
+      qualityOfLife: meterBreakdown.quality_of_life,
+      mentalHealth: meterBreakdown.mental_health,
+      lifeExpectancy: meterBreakdown.life_expectancy,
+      diseaseRisk: meterBreakdown.disease_risk,
+      physicalFitness: meterBreakdown.physical_fitness,
+      overallWellness: meterBreakdown.overall_wellness,
+    },
+    ...calculateMeterStats(habits, locale, customHabits),
+    exponentialFactors: result.exponentialFactors,
+    interactions: result.interactions,
+    organHealth: result.organHealth,
+    organs: buildOrganReports(result.organBreakdown, locale),
+  };
+};
+
+export const curveModel: HealthModel = {
+  id: 'curves',
+  name: {
+    pt: 'Curvas de impacto',
+    en: 'Impact curves',
+  },
+  description: {
+    pt: 'Cada hábito segue uma curva exponencial própria para cada medidor. Os órgãos seguem o mapeamento hábito-órgão.',
+    en: 'Each habit follows its own exponential curve for every meter. The organs follow the habit-organ mapping.',
+  },
+  calculate,
+};
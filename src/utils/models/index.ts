@@ -0,0 +1,20 @@
+/**
+ * HEALTH MODEL REGISTRY
+ *
+ * Every scoring philosophy the app can switch between at runtime. To add a model,
+ * implement the HealthModel interface and append it here.
+ */
+
+import type { HealthModel } from '../healthModel';
+import { curveModel } from './curveModel';
+import { linearModel } from './linearModel';
+
+export const HEALTH_MODELS: HealthModel[] = [curveModel, linearModel];
+
+export const DEFAULT_MODEL_ID = curveModel.id;
+
+/**
+ * Look up a model by id, falling back to the default for unknown ids
+ */
+export const getHealthModel = (modelId: string): HealthModel =>
+  HEALTH_MODELS.find(model => model.id === modelId) ?? curveModel;
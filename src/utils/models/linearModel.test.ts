@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { linearModel } from './linearModel';
+import { DEFAULT_MODEL_ID, getHealthModel, HEALTH_MODELS } from './index';
+import { calculateHealthModel } from '../healthModel';
+import type { HabitLevels } from '../../store/useAtlasStore';
+import organMappings from '../../data/organHabitMappings.json';
+
+describe('linearModel', () => {
+  it('keeps every organ at its mapped baseline with no habits', () => {
+    const meters = linearModel.calculate({});
+    Object.entries(organMappings.organMappings).forEach(([organId, mapping]) => {
+      expect(meters.organHealth[organId]).toBe(mapping.baselineHealth);
+    });
+    expect(meters.lifeExpectancy).toBe(78);
+    expect(meters.diseaseRisk).toBe(25);
+  });
+
+  it('applies the README formula to each mechanism', () => {
+    // Smoking lungs weight 0.40 × maximum intensity 1.0 × 50 points × high-impact 1.5
+    const meters = linearModel.calculate({ smoking: { level: 3 } });
+    expect(meters.organHealth.lungs).toBe(85 - 30);
+    expect(meters.organs.lungs.contributions[0]).toMatchObject({
+      habitId: 'smoking',
+      impact: -30,
+      type: 'harmful',
+      evidenceLevel: 'strong',
+    });
+  });
+
+  it('dampens beneficial habits', () => {
+    const meters = linearModel.calculate({ exercise: { level: 2 } });
+    expect(meters.organHealth.heart).toBeGreaterThan(80);
+    expect(meters.exponentialFactors.positive[0].habitIds).toEqual(['exercise']);
+  });
+
+  it('tags its output with its own id', () => {
+    expect(linearModel.calculate({}).modelId).toBe('linear');
+  });
+});
+
+describe('model registry', () => {
+  const habits: HabitLevels = { smoking: { level: 2 }, sedentary: { level: 3 }, exercise: { level: 1 } };
+
+  it('registers models with unique ids', () => {
+    const ids = HEALTH_MODELS.map(model => model.id);
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(ids).toContain(DEFAULT_MODEL_ID);
+  });
+
+  it('falls back to the default model for unknown ids', () => {
+    expect(getHealthModel('unknown').id).toBe(DEFAULT_MODEL_ID);
+  });
+
+  it('dispatches calculateHealthModel to the requested model', () => {
+    expect(calculateHealthModel(habits, 'linear')).toMatchObject(linearModel.calculate(habits));
+    expect(calculateHealthModel(habits).modelId).toBe(DEFAULT_MODEL_ID);
+  });
+
+  it('reports every organ from every model', () => {
+    HEALTH_MODELS.forEach(model => {
+      const meters = model.calculate(habits);
+      Object.entries(meters.organs).forEach(([organId, report]) => {
+        expect(meters.organHealth[organId]).toBe(report.health);
+      });
+      expect(Object.keys(meters.organs).sort()).toEqual(Object.keys(organMappings.organMappings).sort());
+    });
+  });
+});
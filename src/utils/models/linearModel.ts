@@ -0,0 +1,311 @@
+/**
+ * LINEAR MECHANISM-WEIGHT MODEL
+ *
+ * Implements the formula documented in the README, using the mechanism weights
+ * declared in habits.json (negative weights belong to beneficial habits):
+ *
+ *   organHealth = baseline - Σ(mechanism.weight × intensityScalar × impact × multiplier)
+ *
+ * Global meters are derived from the organs instead of from per-meter curves.
+ */
+
+import type { HabitLevels } from '../../store/useAtlasStore';
+import type { HealthModel, ModelMeters } from '../healthModel';
+import {
+  ExponentialFactor,
+  findActiveInteractions,
+  getInteractionContributions,
+  HabitInteraction,
+  ORGAN_MAPPINGS,
+  OrganBreakdown,
+  OrganContribution,
+} from '../exponentialHealthCalculator';
+import { buildOrganReports } from './shared';
+import { calculateMeterStats } from '../meterStats';
+import { DEFAULT_LOCALE, formatMechanismTags, getHabitText, getOrganText, Locale, translate } from '../../i18n';
+import { DEFAULT_DEMOGRAPHICS, Demographics, getOrganVulnerability, getProfileBaselines } from '../demographics';
+import { getHabitIntensity, interpolateScale } from '../habitDose';
+import { getHabits, HabitDefinition } from '../habitCatalog';
+import { ORGANS } from '../dataFiles';
+import { scoreOrganMetrics } from '../organMetrics';
+import { combineMeterBreakdowns, createMeterBreakdown, MeterBreakdown, MeterContribution } from '../meterBreakdown';
+
+// Intensity mapping from the README: none, light, moderate, maximum
+const INTENSITY_SCALARS = [0, 0.5, 0.8, 1.0];
+
+// Impact multipliers from the README
+const HIGH_IMPACT_HABITS = ['smoking', 'alcohol', 'drugs', 'pornography'];
+const IMPACT_MULTIPLIERS = {
+  highImpact: 1.5,
+  standard: 1.0,
+  beneficial: 0.8 // Avoids overcompensation by good habits
+};
+
+// Organ points for a mechanism weight of 1.0 at full intensity
+const MECHANISM_IMPACT_POINTS = 50;
+
+// Felicidade: points at full intensity, on top of a neutral 50
+const HAPPINESS_POINTS: Record<string, number> = {
+  social_connection: 20,
+  exercise: 10,
+  meditation: 8,
+  chronic_stress: -20,
+  social_isolation: -15,
+};
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+const intensityOf = (habits: HabitLevels, habitId: string) =>
+  interpolateScale(INTENSITY_SCALARS, getHabitIntensity(habits, habitId));
+
+const scaleContributions = (contributions: MeterContribution[], factor: number): MeterContribution[] =>
+  contributions.map(contribution => ({ ...contribution, impact: contribution.impact * factor }));
+
+/**
+ * Share of each organ in the weighted average, for the organs with a value
+ */
+const getOrganShares = (values: Record<string, number>): Array<[string, number]> => {
+  const present = ORGANS.filter(organ => values[organ.id] !== undefined);
+  const totalWeight = present.reduce((sum, organ) => sum + organ.weight, 0);
+  return present.map(organ => [organ.id, totalWeight > 0 ? organ.weight / totalWeight : 0]);
+};
+
+const weightedOrganAverage = (values: Record<string, number>) => {
+  let total = 0;
+  let totalWeight = 0;
+  ORGANS.forEach(organ => {
+    if (values[organ.id] === undefined) return;
+    total += values[organ.id] * organ.weight;
+    totalWeight += organ.weight;
+  });
+  return totalWeight > 0 ? total / totalWeight : 0;
+};
+
+/**
+ * Apply the README formula to every organ
+ */
+const calculateOrganBreakdown = (
+  habits: HabitLevels,
+  interactions: HabitInteraction[],
+  locale: Locale,
+  demographics: Demographics,
+  customHabits: HabitDefinition[]
+): Record<string, OrganBreakdown> => {
+  const organBreakdown: Record<string, OrganBreakdown> = {};
+
+  Object.entries(ORGAN_MAPPINGS).forEach(([organId, mapping]) => {
+    const contributions: OrganContribution[] = [];
+    const vulnerability = getOrganVulnerability(organId, demographics);
+    const baseline = mapping.baselineHealth + vulnerability.baselineOffset;
+
+    getHabits(customHabits).forEach(habit => {
+      const intensity = intensityOf(habits, habit.id);
+      if (intensity === 0) return;
+      const level = habits[habit.id].level;
+
+      const multiplier = habit.kind === 'good'
+        ? IMPACT_MULTIPLIERS.beneficial
+        : HIGH_IMPACT_HABITS.includes(habit.id) ? IMPACT_MULTIPLIERS.highImpact : IMPACT_MULTIPLIERS.standard;
+
+      habit.mechanisms
+        .filter(mechanism => mechanism.organ === organId)
+        .forEach(mechanism => {
+          const points = mechanism.weight * intensity * MECHANISM_IMPACT_POINTS * multiplier
+            * (mechanism.weight > 0 ? vulnerability.harmfulMultiplier : 1);
+          const mapped = [...mapping.topHarmful, ...mapping.topBeneficial].find(entry => entry.habitId === habit.id);
+
+          contributions.push({
+            habitId: habit.id,
+            habitName: getHabitText(habit.id, locale, customHabits).name,
+            level,
+            impact: -points,
+            mechanism: formatMechanismTags(mechanism.tags, locale) || translate(locale, 'customHabits.defaultMechanism'),
+            evidenceLevel: mapped?.evidenceLevel || (habit.custom ? 'custom' : 'moderate'),
+            type: points > 0 ? 'harmful' : 'beneficial',
+            kind: 'habit',
+            habitIds: [habit.id]
+          });
+        });
+    });
+
+    contributions.push(...getInteractionContributions(contributions, interactions, locale));
+
+    const { metrics, health } = scoreOrganMetrics(organId, baseline, contributions, customHabits);
+
+    organBreakdown[organId] = {
+      baseline,
+      health,
+      contributions: contributions.sort((a, b) => Math.abs(b.impact) - Math.abs(a.impact)),
+      metrics
+    };
+  });
+
+  return organBreakdown;
+};
+
+/**
+ * Summarise each habit's total organ impact as an exponential factor
+ */
+const collectFactors = (organBreakdown: Record<string, OrganBreakdown>, locale: Locale) => {
+  const totals = new Map<string, { contribution: OrganContribution; impact: number; organs: string[] }>();
+
+  Object.entries(organBreakdown).forEach(([organId, breakdown]) => {
+    breakdown.contributions.forEach(contribution => {
+      const entry = totals.get(contribution.habitId) || { contribution, impact: 0, organs: [] };
+      entry.impact += contribution.impact;
+      entry.organs.push(organId);
+      totals.set(contribution.habitId, entry);
+    });
+  });
+
+  const exponentialFactors: { positive: ExponentialFactor[]; negative: ExponentialFactor[] } = { positive: [], negative: [] };
+
+  totals.forEach(({ contribution, impact, organs }) => {
+    if (Math.abs(impact) < 5) return;
+
+    const factor: ExponentialFactor = {
+      habit: contribution.habitName,
+      impact: Math.abs(impact),
+      explanation: translate(locale, 'explanation.organs', {
+        habit: contribution.habitName,
+        points: Math.round(impact),
+        organs: organs.map(organId => getOrganText(organId, locale).name.toLowerCase()).join(', '),
+      }),
+      kind: contribution.kind,
+      habitIds: contribution.habitIds
+    };
+
+    if (impact > 0) {
+      exponentialFactors.positive.push(factor);
+    } else {
+      exponentialFactors.negative.push(factor);
+    }
+  });
+
+  exponentialFactors.positive.sort((a, b) => b.impact - a.impact);
+  exponentialFactors.negative.sort((a, b) => b.impact - a.impact);
+
+  return exponentialFactors;
+};
+
+const calculate = (
+  habits: HabitLevels,
+  locale: Locale = DEFAULT_LOCALE,
+  demographics: Demographics = DEFAULT_DEMOGRAPHICS,
+  customHabits: HabitDefinition[] = []
+): ModelMeters => {
+  const profile = getProfileBaselines(demographics);
+  const interactions = findActiveInteractions(habits, locale, customHabits);
+  const organBreakdown = calculateOrganBreakdown(habits, interactions, locale, demographics, customHabits);
+  const organHealth = Object.fromEntries(
+    Object.entries(organBreakdown).map(([organId, breakdown]) => [organId, breakdown.health])
+  );
+  const baselines = Object.fromEntries(
+    Object.entries(organBreakdown).map(([organId, breakdown]) => [organId, breakdown.baseline])
+  );
+
+  // Every organ as a breakdown, so the meters built from organs stay traceable
+  const organParts = Object.fromEntries(
+    Object.entries(organBreakdown).map(([organId, breakdown]) => [
+      organId,
+      createMeterBreakdown(breakdown.baseline, breakdown.contributions, breakdown.health),
+    ])
+  ) as Record<string, MeterBreakdown>;
+
+  // Saúde Geral: weighted average of every organ
+  const health = weightedOrganAverage(organHealth);
+  const healthBreakdown = combineMeterBreakdowns(
+    getOrganShares(organHealth).map(([organId, share]) => [organParts[organId], share]),
+    health
+  );
+
+  // Felicidade: social connection, exercise and stress
+  const happinessContributions: MeterContribution[] = Object.entries(HAPPINESS_POINTS).map(([habitId, points]) => ({
+    habitId,
+    habitName: getHabitText(habitId, locale).name,
+    impact: points * intensityOf(habits, habitId),
+    kind: 'habit',
+    habitIds: [habitId],
+  }));
+  const happiness = clamp(50 + happinessContributions.reduce((sum, c) => sum + c.impact, 0), 10, 100);
+  const happinessBreakdown = createMeterBreakdown(50, happinessContributions, happiness);
+
+  const mentalHealth = clamp((organHealth.brain + happiness) / 2, 10, 100);
+  const physicalFitness = clamp((organHealth.heart + organHealth.lungs) / 2, 10, 100);
+  const mentalBreakdown = combineMeterBreakdowns([[organParts.brain, 0.5], [happinessBreakdown, 0.5]], mentalHealth);
+  const fitnessBreakdown = combineMeterBreakdowns([[organParts.heart, 0.5], [organParts.lungs, 0.5]], physicalFitness);
+
+  const qualityOfLife = clamp((health + happiness + mentalHealth) / 3, 0, 100);
+  const overallWellness = clamp((health + happiness + physicalFitness) / 3, 0, 100);
+
+  // Esperança de Vida: the personal baseline ± the organ damage or gains relative to a habit-free body
+  const lifeExpectancy = clamp(
+    profile.lifeExpectancy + (health - weightedOrganAverage(baselines)) * 0.4,
+    profile.lifeExpectancyBounds.min,
+    profile.lifeExpectancyBounds.max
+  );
+
+  // Risco de Doença: accumulation of harmful organ contributions
+  const contributions = Object.values(organBreakdown).flatMap(breakdown => breakdown.contributions);
+  const harmfulPoints = contributions.filter(c => c.type === 'harmful').reduce((sum, c) => sum - c.impact, 0);
+  const beneficialPoints = contributions.filter(c => c.type === 'beneficial').reduce((sum, c) => sum + c.impact, 0);
+  const diseaseRisk = clamp(profile.diseaseRisk + harmfulPoints * 0.15 - beneficialPoints * 0.1, 5, 85);
+
+  const meterBreakdown: ModelMeters['meterBreakdown'] = {
+    health: healthBreakdown,
+    happiness: happinessBreakdown,
+    qualityOfLife: combineMeterBreakdowns(
+      [[healthBreakdown, 1 / 3], [happinessBreakdown, 1 / 3], [mentalBreakdown, 1 / 3]],
+      qualityOfLife
+    ),
+    mentalHealth: mentalBreakdown,
+    lifeExpectancy: createMeterBreakdown(
+      profile.lifeExpectancy,
+      scaleContributions(healthBreakdown.contributions, 0.4),
+      lifeExpectancy
+    ),
+    diseaseRisk: createMeterBreakdown(
+      profile.diseaseRisk,
+      contributions.map(c => ({ ...c, impact: -c.impact * (c.type === 'harmful' ? 0.15 : 0.1) })),
+      diseaseRisk
+    ),
+    physicalFitness: fitnessBreakdown,
+    overallWellness: combineMeterBreakdowns(
+      [[healthBreakdown, 1 / 3], [happinessBreakdown, 1 / 3], [fitnessBreakdown, 1 / 3]],
+      overallWellness
+    ),
+  };
+
+  const exponentialFactors = collectFactors(organBreakdown, locale);
+
+  return {
+    modelId: linearModel.id,
+    health,
+    happiness,
+    qualityOfLife,
+    mentalHealth,
+    lifeExpectancy,
+    diseaseRisk,
+    physicalFitness,
+    overallWellness,
+    meterBreakdown,
+    ...calculateMeterStats(habits, locale, customHabits),
+    exponentialFactors,
+    interactions,
+    organHealth,
+    organs: buildOrganReports(organBreakdown, locale),
+  };
+};
+
+export const linearModel: HealthModel = {
+  id: 'linear',
+  name: {
+    pt: 'Pesos dos mecanismos',
+    en: 'Mechanism weights',
+  },
+  description: {
+    pt: 'Fórmula linear do README: cada mecanismo retira (ou devolve) saúde ao órgão segundo o seu peso. Os medidores globais derivam dos órgãos.',
+    en: 'Linear formula from the README: each mechanism takes health away from (or gives it back to) the organ according to its weight. The global meters derive from the organs.',
+  },
+  calculate,
+};
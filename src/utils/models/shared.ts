@@ -0,0 +1,75 @@
+/**
+ * Helpers shared by every health model so organ reports and risk levels read the
+ * same way whichever model produced the numbers.
+ */
+
+import type { OrganBreakdown } from '../exponentialHealthCalculator';
+import type { OrganReport, RiskLevel } from '../healthModel';
+import { DEFAULT_LOCALE, getOrganText, Locale, translate } from '../../i18n';
+
+/**
+ * Map a 0-100 health score to a risk level
+ */
+export const getRiskLevel = (health: number): RiskLevel => {
+  if (health >= 80) return 'low';
+  if (health >= 60) return 'moderate';
+  if (health >= 40) return 'high';
+  return 'critical';
+};
+
+/**
+ * Generate a personalized message for an organ from its own contributions
+ */
+const generateOrganMessage = (organId: string, breakdown: OrganBreakdown, riskLevel: RiskLevel, locale: Locale): string => {
+  const organName = getOrganText(organId, locale).name;
+  const habitContributions = breakdown.contributions.filter(c => c.kind === 'habit');
+  const harmfulHabits = habitContributions.filter(c => c.type === 'harmful');
+  const beneficialHabits = habitContributions.filter(c => c.type === 'beneficial');
+
+  let message = translate(locale, `organMessage.${riskLevel}`, { organ: organName });
+
+  if (harmfulHabits.length > 0) {
+    message += translate(locale, 'organMessage.mainCause', { habit: harmfulHabits[0].habitName.toLowerCase() });
+
+    if (harmfulHabits.length > 1) {
+      message += translate(locale, 'organMessage.secondCause', { habit: harmfulHabits[1].habitName.toLowerCase() });
+    }
+  }
+
+  if (beneficialHabits.length > 0) {
+    const topBeneficial = beneficialHabits[0].habitName.toLowerCase();
+    message += harmfulHabits.length > 0
+      ? translate(locale, 'organMessage.helpingRecovery', { habit: topBeneficial })
+      : translate(locale, 'organMessage.benefiting', { habit: topBeneficial });
+  }
+
+  message += translate(locale, 'organMessage.current', { health: Math.round(breakdown.health) });
+
+  if (riskLevel === 'critical' || riskLevel === 'high') {
+    message += translate(locale, 'organMessage.seeProfessional');
+  }
+
+  return message;
+};
+
+/**
+ * Attach risk levels and personalized messages to each organ breakdown
+ */
+export const buildOrganReports = (
+  organBreakdown: Record<string, OrganBreakdown>,
+  locale: Locale = DEFAULT_LOCALE
+): Record<string, OrganReport> => {
+  const organs: Record<string, OrganReport> = {};
+
+  Object.entries(organBreakdown).forEach(([organId, breakdown]) => {
+    const riskLevel = getRiskLevel(breakdown.health);
+    organs[organId] = {
+      ...breakdown,
+      riskLevel,
+      personalizedMessage: generateOrganMessage(organId, breakdown, riskLevel, locale)
+    };
+  });
+
+  return organs;
+};
+
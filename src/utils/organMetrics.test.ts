@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { ORGAN_HEALTH_BOUNDS, scoreOrganMetrics } from './organMetrics';
+import { calculateHealthModel } from './healthModel';
+import type { OrganContribution } from './exponentialHealthCalculator';
+
+const contribution = (habitId: string, impact: number): OrganContribution => ({
+  habitId,
+  habitName: habitId,
+  level: 3,
+  impact,
+  mechanism: '',
+  evidenceLevel: 'moderate',
+  type: impact < 0 ? 'harmful' : 'beneficial',
+  kind: 'habit',
+  habitIds: [habitId],
+});
+
+describe('scoreOrganMetrics', () => {
+  it('spreads a habit over the metrics its mechanism tags act on', () => {
+    const { metrics, health } = scoreOrganMetrics('eyes', 80, [contribution('gaming', -9)]);
+    const [visualComfort, tearFilm, retinalHealth] = metrics;
+
+    expect(visualComfort).toMatchObject({ metric: 'visual_comfort', score: 66.5 });
+    expect(visualComfort.contributions[0].impact).toBe(-13.5);
+    expect(tearFilm.score).toBe(66.5);
+    expect(retinalHealth).toEqual({ metric: 'retinal_health', score: 80, contributions: [] });
+    expect(health).toBeCloseTo(71);
+  });
+
+  it('applies habits without a matching tag to every metric', () => {
+    const { metrics, health } = scoreOrganMetrics('lungs', 80, [contribution('meditation', 6)]);
+    metrics.forEach(metric => {
+      expect(metric.contributions.map(c => c.habitId)).toEqual(['meditation']);
+      expect(metric.score).toBeCloseTo(86);
+    });
+    expect(health).toBeCloseTo(86);
+  });
+
+  it('clamps each metric before averaging them', () => {
+    const { metrics, health } = scoreOrganMetrics('eyes', 80, [contribution('gaming', -60)]);
+
+    expect(metrics.map(metric => metric.score)).toEqual([ORGAN_HEALTH_BOUNDS.min, ORGAN_HEALTH_BOUNDS.min, 80]);
+    expect(health).toBeCloseTo((2 * ORGAN_HEALTH_BOUNDS.min + 80) / 3);
+  });
+
+  it('falls back to the clamped sum for an unknown organ', () => {
+    expect(scoreOrganMetrics('spleen', 80, [contribution('smoking', -90)])).toEqual({
+      metrics: [],
+      health: ORGAN_HEALTH_BOUNDS.min,
+    });
+  });
+
+  it('gives the organ reports of the model their metric scores', () => {
+    const lungs = calculateHealthModel({ smoking: { level: 2 }, exercise: { level: 2 } }).organs.lungs;
+    const average = lungs.metrics.reduce((sum, metric) => sum + metric.score, 0) / lungs.metrics.length;
+
+    expect(lungs.metrics.map(metric => metric.metric)).toEqual(['oxygen_uptake', 'cilia_health', 'inflammation']);
+    expect(lungs.health).toBeCloseTo(average);
+  });
+});
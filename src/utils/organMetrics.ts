@@ -0,0 +1,93 @@
+/**
+ * ORGAN METRICS
+ *
+ * Every organ of organs.json declares its metrics (lungs: oxygen_uptake,
+ * cilia_health, inflammation) and, in "metricTags", the mechanism tags of
+ * habits.json that act on each one. Both models score an organ through them:
+ *
+ *   - a contribution acts on the metrics that share a tag with the mechanisms of
+ *     its habits for the organ, or on all of them when none does (custom habits,
+ *     habits only listed in organHabitMappings.json);
+ *   - its impact is spread so the metrics together move as much as the organ would:
+ *     acting on 1 of 3 metrics counts three times on that metric;
+ *   - each metric is kept within the organ bounds, and the organ score is their average.
+ */
+
+import type { OrganContribution } from './exponentialHealthCalculator';
+import { findHabit, HabitDefinition } from './habitCatalog';
+import { findOrgan } from './dataFiles';
+
+export const ORGAN_HEALTH_BOUNDS = { min: 15, max: 100 };
+
+export interface OrganMetricScore {
+  metric: string;
+  score: number;
+  contributions: OrganContribution[]; // With the impact this metric receives
+}
+
+const clampHealth = (value: number) =>
+  Math.max(ORGAN_HEALTH_BOUNDS.min, Math.min(ORGAN_HEALTH_BOUNDS.max, value));
+
+const sumImpacts = (baseline: number, contributions: OrganContribution[]) =>
+  contributions.reduce((sum, c) => sum + c.impact, baseline);
+
+/**
+ * Metrics of the organ the contribution acts on, in the order of organs.json
+ */
+const getContributionMetrics = (
+  organId: string,
+  contribution: OrganContribution,
+  customHabits: HabitDefinition[]
+): string[] => {
+  const organ = findOrgan(organId);
+  if (!organ) return [];
+
+  const tags = new Set(contribution.habitIds.flatMap(habitId =>
+    (findHabit(habitId, customHabits)?.mechanisms || [])
+      .filter(mechanism => mechanism.organ === organId)
+      .flatMap(mechanism => mechanism.tags)
+  ));
+  const metrics = organ.metrics.filter(metric => (organ.metricTags[metric] || []).some(tag => tags.has(tag)));
+  return metrics.length > 0 ? metrics : organ.metrics;
+};
+
+/**
+ * Score each metric of the organ and derive the organ score from them. The custom
+ * habits are the ones the contributions may come from.
+ */
+export const scoreOrganMetrics = (
+  organId: string,
+  baseline: number,
+  contributions: OrganContribution[],
+  customHabits: HabitDefinition[] = []
+): { metrics: OrganMetricScore[]; health: number } => {
+  const organ = findOrgan(organId);
+  if (!organ || organ.metrics.length === 0) {
+    return { metrics: [], health: clampHealth(sumImpacts(baseline, contributions)) };
+  }
+
+  const targets = contributions.map(contribution => ({
+    contribution,
+    metrics: getContributionMetrics(organId, contribution, customHabits),
+  }));
+
+  const metrics = organ.metrics.map(metric => {
+    const metricContributions = targets
+      .filter(target => target.metrics.includes(metric))
+      .map(({ contribution, metrics: acted }) => ({
+        ...contribution,
+        impact: contribution.impact * organ.metrics.length / acted.length,
+      }));
+
+    return {
+      metric,
+      score: clampHealth(sumImpacts(baseline, metricContributions)),
+      contributions: metricContributions,
+    };
+  });
+
+  return {
+    metrics,
+    health: metrics.reduce((sum, metric) => sum + metric.score, 0) / metrics.length,
+  };
+};
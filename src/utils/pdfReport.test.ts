@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { buildHealthReport } from './pdfReport';
+import { calculateHealthModel } from './healthModel';
+
+const generatedAt = new Date('2026-03-01T12:00:00Z');
+
+describe('buildHealthReport', () => {
+  it('lays out cover, meters, organs and recommendations on separate pages', () => {
+    const doc = buildHealthReport({
+      meters: calculateHealthModel({ smoking: { level: 3 }, alcohol: { level: 2 } }),
+      scenarioName: 'Eu atual',
+      modelName: 'Curvas de impacto',
+      generatedAt,
+    });
+
+    expect(doc.getNumberOfPages()).toBeGreaterThanOrEqual(4);
+  });
+
+  it('writes the organ narration and the disclaimer', () => {
+    const doc = buildHealthReport({
+      meters: calculateHealthModel({}),
+      scenarioName: 'Eu atual',
+      modelName: 'Curvas de impacto',
+      generatedAt,
+    });
+    const output = doc.output();
+
+    expect(output).toContain('Pulm');
+    expect(output).toContain('O que ajuda');
+    expect(output).toContain('fins educativos');
+    expect(output).toContain('Recomenda');
+  });
+});
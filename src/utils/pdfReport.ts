@@ -0,0 +1,256 @@
+/**
+ * PDF HEALTH REPORT
+ *
+ * Builds a printable, multi-page report entirely in the browser with jsPDF:
+ * a cover page with the body map, every meter with its status, one section per
+ * organ, the prioritized recommendations and the educational disclaimer.
+ */
+
+import { jsPDF } from 'jspdf';
+import {
+  getRiskLevel,
+  HEADLINE_METERS,
+  INVERTED_HEADLINE_METERS,
+  Meters,
+  MeterStats,
+  RiskLevel,
+} from './healthModel';
+import { createTranslator, DEFAULT_LOCALE, getOrganText, Locale, LOCALE_TAGS } from '../i18n';
+import { ORGANS } from './dataFiles';
+import { DEFAULT_DEMOGRAPHICS, Demographics, getProfileBaselines } from './demographics';
+
+export interface HealthReportInput {
+  meters: Meters;
+  scenarioName: string;
+  modelName: string;
+  demographics?: Demographics; // Sets the life expectancy range of the status bar
+  bodyMapImage?: string; // PNG data URL of the body map
+  generatedAt?: Date;
+  locale?: Locale;
+}
+
+const STATUS_COLORS: Record<RiskLevel, [number, number, number]> = {
+  low: [34, 197, 94],
+  moderate: [234, 179, 8],
+  high: [249, 115, 22],
+  critical: [239, 68, 68],
+};
+
+const STATS: (keyof MeterStats)[] = [
+  'cardioStrain',
+  'inflammation',
+  'sleepQuality',
+  'stressLoad',
+  'recoveryCapacity',
+  'cognitiveFunction',
+  'immuneSystem',
+  'metabolicHealth',
+];
+
+// Detailed stats where a higher value is worse
+const INVERTED_STATS: (keyof MeterStats)[] = ['cardioStrain', 'inflammation', 'stressLoad'];
+
+const PAGE = { width: 210, height: 297, margin: 20 };
+const CONTENT_WIDTH = PAGE.width - 2 * PAGE.margin;
+const FOOTER_SPACE = 20;
+
+export const buildHealthReport = (input: HealthReportInput): jsPDF => {
+  const {
+    meters,
+    scenarioName,
+    modelName,
+    demographics = DEFAULT_DEMOGRAPHICS,
+    bodyMapImage,
+    generatedAt = new Date(),
+    locale = DEFAULT_LOCALE,
+  } = input;
+  const t = createTranslator(locale);
+
+  const statusOf = (level: RiskLevel) => ({ label: t(`status.${level}`), color: STATUS_COLORS[level] });
+  // Map any meter onto the same status scale as the app (0-100, higher is better)
+  const statusFor = (score: number) => statusOf(getRiskLevel(score));
+
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  let y = PAGE.margin;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > PAGE.height - FOOTER_SPACE) {
+      doc.addPage();
+      y = PAGE.margin;
+    }
+  };
+
+  const heading = (text: string) => {
+    ensureSpace(14);
+    doc.setFont('helvetica', 'bold').setFontSize(16).setTextColor(17, 24, 39);
+    doc.text(text, PAGE.margin, y);
+    y += 10;
+  };
+
+  const paragraph = (text: string, size = 10, color: [number, number, number] = [55, 65, 81]) => {
+    doc.setFont('helvetica', 'normal').setFontSize(size).setTextColor(...color);
+    const lines: string[] = doc.splitTextToSize(text, CONTENT_WIDTH);
+    const lineHeight = size * 0.45;
+    lines.forEach(line => {
+      ensureSpace(lineHeight);
+      doc.text(line, PAGE.margin, y);
+      y += lineHeight;
+    });
+    y += 2;
+  };
+
+  const statusRow = (label: string, value: string, score: number) => {
+    ensureSpace(8);
+    const status = statusFor(score);
+    doc.setFont('helvetica', 'normal').setFontSize(10).setTextColor(55, 65, 81);
+    doc.text(label, PAGE.margin, y);
+    doc.setFont('helvetica', 'bold');
+    doc.text(value, PAGE.margin + 95, y, { align: 'right' });
+    doc.setFillColor(...status.color);
+    doc.circle(PAGE.margin + 102, y - 1.3, 1.8, 'F');
+    doc.setFont('helvetica', 'normal').setTextColor(...status.color);
+    doc.text(status.label, PAGE.margin + 106, y);
+    y += 7;
+  };
+
+  // Cover page
+  doc.setFont('helvetica', 'bold').setFontSize(24).setTextColor(17, 24, 39);
+  doc.text('Atlas de Hábitos', PAGE.width / 2, y + 10, { align: 'center' });
+  doc.setFont('helvetica', 'normal').setFontSize(14).setTextColor(75, 85, 99);
+  doc.text(t('report.title'), PAGE.width / 2, y + 19, { align: 'center' });
+  doc.setFontSize(10);
+  doc.text(
+    t('report.subtitle', { scenario: scenarioName, date: generatedAt.toLocaleDateString(LOCALE_TAGS[locale]), model: modelName }),
+    PAGE.width / 2,
+    y + 27,
+    { align: 'center' }
+  );
+  y += 35;
+
+  if (bodyMapImage) {
+    const imageHeight = 150;
+    const imageWidth = imageHeight * (400 / 600);
+    doc.addImage(bodyMapImage, 'PNG', (PAGE.width - imageWidth) / 2, y, imageWidth, imageHeight);
+    y += imageHeight + 10;
+  }
+
+  const overall = statusFor(meters.health);
+  doc.setFont('helvetica', 'bold').setFontSize(12).setTextColor(...overall.color);
+  doc.text(t('status.overall', { status: overall.label }), PAGE.width / 2, y, { align: 'center' });
+  doc.setFont('helvetica', 'normal').setFontSize(10).setTextColor(55, 65, 81);
+  doc.text(
+    t('report.summary', {
+      health: Math.round(meters.health),
+      lifeExpectancy: Math.round(meters.lifeExpectancy),
+      diseaseRisk: Math.round(meters.diseaseRisk),
+    }),
+    PAGE.width / 2,
+    y + 7,
+    { align: 'center' }
+  );
+
+  // Meters
+  doc.addPage();
+  y = PAGE.margin;
+  heading(t('report.meters'));
+  const { lifeExpectancyBounds } = getProfileBaselines(demographics);
+  HEADLINE_METERS.forEach(key => {
+    const value = meters[key];
+    const inverted = INVERTED_HEADLINE_METERS.includes(key);
+    if (key === 'lifeExpectancy') {
+      // The life expectancy range of the profile mapped onto the 0-100 status scale
+      const { min, max } = lifeExpectancyBounds;
+      statusRow(t(`meter.${key}`), t('report.years', { value: Math.round(value) }), ((value - min) / (max - min)) * 100);
+    } else {
+      statusRow(t(`meter.${key}`), `${Math.round(value)}${key === 'diseaseRisk' ? '%' : ''}`, inverted ? 100 - value : value);
+    }
+  });
+
+  y += 4;
+  heading(t('report.detailedStats'));
+  STATS.forEach(key => {
+    const value = meters.stats[key];
+    statusRow(t(`stat.${key}`), `${value.toFixed(1)}/10`, INVERTED_STATS.includes(key) ? 100 - value * 10 : value * 10);
+  });
+
+  // Organs
+  doc.addPage();
+  y = PAGE.margin;
+  heading(t('report.organs'));
+  ORGANS.forEach(organ => {
+    const report = meters.organs[organ.id];
+    if (!report) return;
+    const organText = getOrganText(organ.id, locale);
+
+    ensureSpace(30);
+    doc.setFont('helvetica', 'bold').setFontSize(12).setTextColor(17, 24, 39);
+    doc.text(`${organText.name} (${t('organ.system', { system: organText.system })})`, PAGE.margin, y);
+    const status = statusOf(report.riskLevel);
+    doc.setTextColor(...status.color);
+    doc.text(`${Math.round(report.health)}% | ${status.label}`, PAGE.width - PAGE.margin, y, { align: 'right' });
+    y += 6;
+
+    paragraph(report.personalizedMessage);
+    paragraph(t('report.whatHappens', { text: organText.narration.what_happens }), 9, [75, 85, 99]);
+    paragraph(t('report.whatHelps', { text: organText.narration.what_helps }), 9, [75, 85, 99]);
+    y += 4;
+  });
+
+  // Recommendations
+  doc.addPage();
+  y = PAGE.margin;
+  heading(t('report.recommendations'));
+  if (meters.prioritizedRecommendations.length === 0) {
+    paragraph(t('report.noRecommendations'));
+  }
+  meters.prioritizedRecommendations.forEach((rec, index) => {
+    ensureSpace(20);
+    doc.setFont('helvetica', 'bold').setFontSize(11).setTextColor(17, 24, 39);
+    const actionLines: string[] = doc.splitTextToSize(`${index + 1}. ${rec.action}`, CONTENT_WIDTH);
+    doc.text(actionLines, PAGE.margin, y);
+    y += actionLines.length * 5;
+    paragraph(t('report.priority', { priority: t(`priority.${rec.priority}`), rationale: rec.rationale }), 9);
+    paragraph(t('recommendation.impact', { value: rec.expectedImpact.toFixed(1) }), 9, [107, 114, 128]);
+    y += 2;
+  });
+
+  // Disclaimer footer and page numbers on every page
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFont('helvetica', 'normal').setFontSize(8).setTextColor(107, 114, 128);
+    doc.text(doc.splitTextToSize(t('app.disclaimer'), CONTENT_WIDTH - 20), PAGE.margin, PAGE.height - 12);
+    doc.text(`${page}/${pageCount}`, PAGE.width - PAGE.margin, PAGE.height - 12, { align: 'right' });
+  }
+
+  return doc;
+};
+
+/**
+ * Rasterize an on-screen SVG (e.g. the body map) into a PNG data URL for the report
+ */
+export const renderSvgToPng = (svg: SVGSVGElement, width = 400, height = 600): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const clone = svg.cloneNode(true) as SVGSVGElement;
+    clone.setAttribute('width', String(width));
+    clone.setAttribute('height', String(height));
+    clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = width * 2;
+      canvas.height = height * 2;
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('Canvas não disponível'));
+        return;
+      }
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/png'));
+    };
+    image.onerror = () => reject(new Error('Não foi possível desenhar o mapa do corpo'));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(new XMLSerializer().serializeToString(clone))}`;
+  });
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_PROJECTION_MONTHS,
+  formatProjectionMonth,
+  resolveProjectionTarget,
+  simulateProjection,
+} from './projectionSimulator';
+import { calculateHealthModel, HEADLINE_METERS } from './healthModel';
+import type { HabitLevels } from '../store/useAtlasStore';
+
+const smoker: HabitLevels = { smoking: { level: 3 } };
+
+describe('simulateProjection', () => {
+  it('returns one point per month including month 0', () => {
+    const projection = simulateProjection(smoker);
+    expect(projection).toHaveLength(DEFAULT_PROJECTION_MONTHS + 1);
+    expect(projection.map(p => p.month)).toEqual([...Array(DEFAULT_PROJECTION_MONTHS + 1).keys()]);
+  });
+
+  it('starts from the body the habits lead to by default', () => {
+    const [first] = simulateProjection(smoker);
+    expect(first.organHealth).toEqual(calculateHealthModel(smoker).organHealth);
+  });
+
+  it('accumulates damage gradually towards the snapshot', () => {
+    const projection = simulateProjection(smoker, { months: 600, fromHabits: {} });
+    const target = calculateHealthModel(smoker);
+    const lungs = projection.map(p => p.organHealth.lungs);
+
+    for (let month = 1; month < lungs.length; month++) {
+      expect(lungs[month]).toBeLessThanOrEqual(lungs[month - 1]);
+    }
+    expect(lungs[12]).toBeGreaterThan(target.organHealth.lungs);
+    expect(lungs[600]).toBeCloseTo(target.organHealth.lungs, 1);
+  });
+
+  it('recovers faster than it degrades', () => {
+    const damage = simulateProjection(smoker, { months: 6, fromHabits: {} });
+    const recovery = simulateProjection({}, { months: 6, fromHabits: smoker });
+    const baseline = calculateHealthModel({}).organHealth.lungs;
+    const target = calculateHealthModel(smoker).organHealth.lungs;
+
+    const damageProgress = (baseline - damage[6].organHealth.lungs) / (baseline - target);
+    const recoveryProgress = (recovery[6].organHealth.lungs - target) / (baseline - target);
+    expect(recoveryProgress).toBeGreaterThan(damageProgress);
+  });
+
+  it('lets lungs recover faster than kidneys after quitting', () => {
+    const heavy: HabitLevels = { smoking: { level: 3 }, drugs: { level: 3 } };
+    const [start, , , month3] = simulateProjection({}, { months: 3, fromHabits: heavy });
+    const end = calculateHealthModel({}).organHealth;
+    const progress = (organId: string) =>
+      (month3.organHealth[organId] - start.organHealth[organId]) / (end[organId] - start.organHealth[organId]);
+
+    expect(progress('lungs')).toBeGreaterThan(progress('kidneys'));
+  });
+
+  it('projects every meter, with disease risk rising under harmful habits', () => {
+    const projection = simulateProjection(smoker, { fromHabits: {} });
+    HEADLINE_METERS.forEach(key => {
+      expect(Number.isFinite(projection[DEFAULT_PROJECTION_MONTHS].meters[key])).toBe(true);
+    });
+    expect(projection[DEFAULT_PROJECTION_MONTHS].meters.diseaseRisk).toBeGreaterThan(projection[0].meters.diseaseRisk);
+  });
+
+  it('stays still when the habits do not change', () => {
+    const projection = simulateProjection(smoker, { months: 12 });
+    expect(projection[12]).toEqual({ ...projection[0], month: 12 });
+  });
+});
+
+describe('resolveProjectionTarget', () => {
+  const habits: HabitLevels = { smoking: { level: 3 }, exercise: { level: 2 } };
+  const scenario = { id: 'goal', name: 'Objetivo', habits: { exercise: { level: 3 } }, createdAt: '', updatedAt: '' };
+
+  it('keeps the current habits', () => {
+    expect(resolveProjectionTarget('current', habits)).toBe(habits);
+  });
+
+  it('heads for the comparison or a scenario', () => {
+    expect(resolveProjectionTarget('compare', habits, { compareHabits: {} })).toEqual({});
+    expect(resolveProjectionTarget('scenario:goal', habits, { scenarios: [scenario] })).toBe(scenario.habits);
+  });
+
+  it('quits one habit and keeps the rest', () => {
+    expect(resolveProjectionTarget('quit:smoking', habits)).toEqual({ smoking: { level: 0 }, exercise: { level: 2 } });
+  });
+
+  it('keeps the current habits when the target is gone', () => {
+    expect(resolveProjectionTarget('compare', habits)).toBe(habits);
+    expect(resolveProjectionTarget('scenario:deleted', habits, { scenarios: [scenario] })).toBe(habits);
+    expect(resolveProjectionTarget('quit:alcohol', habits)).toBe(habits);
+  });
+});
+
+describe('formatProjectionMonth', () => {
+  it('describes months in years and months', () => {
+    expect(formatProjectionMonth(0)).toBe('Hoje');
+    expect(formatProjectionMonth(1)).toBe('Daqui a 1 mês');
+    expect(formatProjectionMonth(12)).toBe('Daqui a 1 ano');
+    expect(formatProjectionMonth(27)).toBe('Daqui a 2 anos e 3 meses');
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * TIME-BASED PROJECTION SIMULATOR
+ *
+ * Steps the body forward month by month under a fixed set of habits. The health
+ * model gives the state the body settles into once the habits have had their full
+ * effect; the simulator decides how fast it gets there.
+ *
+ * Each organ carries damage D (health points below its habit-free baseline). The
+ * habits impose a load L (the damage at equilibrium), and every month
+ *
+ *   D += rate × (L - D)
+ *
+ * where rate is the organ's damageRate while damage accumulates and its
+ * recoveryRate while it heals (see "dynamics" in organs.json). Since health is the
+ * baseline minus the damage, the same step is applied to health directly. Global
+ * meters follow the same rule using the organ-weighted average rates.
+ *
+ * Month 0 is the body as it is today, the state the current habits lead to, and the
+ * projection heads for a target: the "before" side of a comparison, another scenario
+ * or the current habits without one harmful habit. Keeping the current habits gives
+ * a flat line; moving to better ones shows each organ recovering at its own pace.
+ */
+
+import type { HabitLevels, Scenario } from '../store/useAtlasStore';
+import {
+  HEADLINE_METERS,
+  HeadlineMeter,
+  INVERTED_HEADLINE_METERS,
+  ModelMeters,
+} from './healthModel';
+import type { Demographics } from './demographics';
+import type { HabitDefinition } from './habitCatalog';
+import { DEFAULT_MODEL_ID, getHealthModel } from './models';
+import { createTranslator, DEFAULT_LOCALE, Locale } from '../i18n';
+import { ORGANS } from './dataFiles';
+
+export interface ProjectionPoint {
+  month: number;
+  meters: Record<HeadlineMeter, number>;
+  organHealth: Record<string, number>;
+}
+
+export interface ProjectionOptions {
+  months?: number;
+  // Habits the body was living with before month 0 (defaults to the projected habits, i.e. a body already settled)
+  fromHabits?: HabitLevels;
+  modelId?: string;
+  demographics?: Demographics;
+  customHabits?: HabitDefinition[];
+}
+
+// What the projection heads for: the current habits, the "before" side of a comparison,
+// a scenario as "scenario:<id>", or the current habits without a habit as "quit:<habitId>"
+export type ProjectionTarget = 'current' | 'compare' | `scenario:${string}` | `quit:${string}`;
+
+export interface ProjectionSources {
+  compareHabits?: HabitLevels;
+  scenarios?: Scenario[];
+}
+
+export const DEFAULT_PROJECTION_MONTHS = 120;
+
+export const DEFAULT_PROJECTION_TARGET: ProjectionTarget = 'current';
+
+const SCENARIO_PREFIX = 'scenario:';
+const QUIT_PREFIX = 'quit:';
+
+interface Dynamics {
+  damageRate: number;
+  recoveryRate: number;
+}
+
+const ORGAN_DYNAMICS: Record<string, Dynamics> = Object.fromEntries(
+  ORGANS.map(organ => [organ.id, organ.dynamics])
+);
+
+// Global meters respond at the organ-weighted average pace
+const totalWeight = ORGANS.reduce((sum, organ) => sum + organ.weight, 0);
+const METER_DYNAMICS: Dynamics = {
+  damageRate: ORGANS.reduce((sum, organ) => sum + organ.dynamics.damageRate * organ.weight, 0) / totalWeight,
+  recoveryRate: ORGANS.reduce((sum, organ) => sum + organ.dynamics.recoveryRate * organ.weight, 0) / totalWeight,
+};
+
+/**
+ * Advance one value a single month towards its target
+ */
+const step = (current: number, target: number, dynamics: Dynamics, inverted = false) => {
+  const worsening = inverted ? target > current : target < current;
+  const rate = worsening ? dynamics.damageRate : dynamics.recoveryRate;
+  return current + rate * (target - current);
+};
+
+const pickMeters = (meters: ModelMeters): Record<HeadlineMeter, number> =>
+  Object.fromEntries(HEADLINE_METERS.map(key => [key, meters[key]])) as Record<HeadlineMeter, number>;
+
+/**
+ * Habits a projection target stands for, starting from the current habits. A target
+ * that is no longer available (comparison off, scenario deleted) keeps the current habits.
+ */
+export const resolveProjectionTarget = (
+  target: ProjectionTarget,
+  habits: HabitLevels,
+  sources: ProjectionSources = {}
+): HabitLevels => {
+  if (target === 'compare') return sources.compareHabits ?? habits;
+  if (target.startsWith(SCENARIO_PREFIX)) {
+    const scenarioId = target.slice(SCENARIO_PREFIX.length);
+    return sources.scenarios?.find(scenario => scenario.id === scenarioId)?.habits ?? habits;
+  }
+  if (target.startsWith(QUIT_PREFIX)) {
+    const habitId = target.slice(QUIT_PREFIX.length);
+    return habits[habitId] ? { ...habits, [habitId]: { level: 0 } } : habits;
+  }
+  return habits;
+};
+
+/**
+ * Simulate the body month by month under the given habits, returning one point per
+ * month including month 0
+ */
+export const simulateProjection = (habits: HabitLevels, options: ProjectionOptions = {}): ProjectionPoint[] => {
+  const {
+    months = DEFAULT_PROJECTION_MONTHS,
+    fromHabits = habits,
+    modelId = DEFAULT_MODEL_ID,
+    demographics,
+    customHabits,
+  } = options;
+  // Only the numbers matter here, so skip the recommendations calculateHealthModel adds
+  const model = getHealthModel(modelId);
+
+  const start = model.calculate(fromHabits, DEFAULT_LOCALE, demographics, customHabits);
+  const target = fromHabits === habits ? start : model.calculate(habits, DEFAULT_LOCALE, demographics, customHabits);
+
+  let point: ProjectionPoint = {
+    month: 0,
+    meters: pickMeters(start),
+    organHealth: { ...start.organHealth },
+  };
+  const points = [point];
+
+  for (let month = 1; month <= months; month++) {
+    const previous = point;
+    point = {
+      month,
+      meters: Object.fromEntries(
+        HEADLINE_METERS.map(key => [
+          key,
+          step(previous.meters[key], target[key], METER_DYNAMICS, INVERTED_HEADLINE_METERS.includes(key))
+        ])
+      ) as Record<HeadlineMeter, number>,
+      organHealth: Object.fromEntries(
+        Object.entries(previous.organHealth).map(([organId, health]) => [
+          organId,
+          step(health, target.organHealth[organId], ORGAN_DYNAMICS[organId] || METER_DYNAMICS)
+        ])
+      ),
+    };
+    points.push(point);
+  }
+
+  return points;
+};
+
+/**
+ * Describe a projection month in words, e.g. "Daqui a 2 anos e 3 meses" or "In 2 years and 3 months"
+ */
+export const formatProjectionMonth = (month: number, locale: Locale = DEFAULT_LOCALE): string => {
+  const t = createTranslator(locale);
+  if (month === 0) return t('projection.today');
+
+  const years = Math.floor(month / 12);
+  const remainingMonths = month % 12;
+  const parts = [
+    years > 0 ? t(years === 1 ? 'projection.year' : 'projection.years', { count: years }) : '',
+    remainingMonths > 0 ? t(remainingMonths === 1 ? 'projection.month' : 'projection.months', { count: remainingMonths }) : '',
+  ].filter(Boolean);
+
+  const duration = parts.length === 2 ? t('projection.join', { first: parts[0], second: parts[1] }) : parts[0];
+  return t('projection.in', { duration });
+};
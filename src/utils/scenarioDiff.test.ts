@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { diffScenarios } from './scenarioDiff';
+
+describe('diffScenarios', () => {
+  it('finds nothing between identical scenarios', () => {
+    const habits = { smoking: { level: 2 }, exercise: { level: 1 } };
+    expect(diffScenarios(habits, { ...habits })).toEqual({ habits: [], meters: [], organs: [] });
+  });
+
+  it('treats missing habits as level 0', () => {
+    expect(diffScenarios({}, { smoking: { level: 0 } }).habits).toHaveLength(0);
+  });
+
+  it('lists changed habits with their intensity labels', () => {
+    const diff = diffScenarios({ smoking: { level: 3 } }, { smoking: { level: 1 }, exercise: { level: 2 } });
+    expect(diff.habits).toEqual([
+      { habitId: 'smoking', habitName: 'Tabagismo', levelA: 3, levelB: 1, labelA: 'Intenso', labelB: 'Ocasional' },
+      expect.objectContaining({ habitId: 'exercise', levelA: 0, levelB: 2 }),
+    ]);
+  });
+
+  it('reports meter and organ changes from A to B', () => {
+    const diff = diffScenarios({ smoking: { level: 3 } }, {});
+    const health = diff.meters.find(meter => meter.key === 'health');
+    const lungs = diff.organs.find(organ => organ.key === 'lungs');
+
+    expect(health?.delta).toBeGreaterThan(0);
+    expect(lungs?.delta).toBeCloseTo(lungs!.valueB - lungs!.valueA);
+    expect(diff.organs.find(organ => organ.key === 'liver')).toBeUndefined();
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * SCENARIO DIFF
+ *
+ * Lists what differs between two habit configurations: the habits whose level
+ * changed, and the headline meters and organs that moved as a result.
+ */
+
+import type { HabitLevels } from '../store/useAtlasStore';
+import { calculateHealthModel, HEADLINE_METERS, HeadlineMeter } from './healthModel';
+import type { Demographics } from './demographics';
+import { formatHabitAmount } from './habitDose';
+import { DEFAULT_LOCALE, getHabitText, Locale } from '../i18n';
+import { getHabits, HabitDefinition } from './habitCatalog';
+import { ORGANS } from './dataFiles';
+
+export interface HabitDifference {
+  habitId: string;
+  habitName: string;
+  levelA: number;
+  levelB: number;
+  labelA: string;
+  labelB: string;
+}
+
+export interface ValueDifference<K extends string = string> {
+  key: K;
+  valueA: number;
+  valueB: number;
+  delta: number; // valueB - valueA
+}
+
+export interface ScenarioDiff {
+  habits: HabitDifference[];
+  meters: ValueDifference<HeadlineMeter>[];
+  organs: ValueDifference[];
+}
+
+// Differences smaller than this are rounding noise
+const MIN_VALUE_DELTA = 0.5;
+
+/**
+ * Compare scenario A against scenario B, naming habits in the given locale
+ */
+export const diffScenarios = (
+  habitsA: HabitLevels,
+  habitsB: HabitLevels,
+  modelId?: string,
+  locale: Locale = DEFAULT_LOCALE,
+  demographics?: Demographics,
+  customHabits: HabitDefinition[] = []
+): ScenarioDiff => {
+  const habits = getHabits(customHabits)
+    .map(habit => {
+      const levelA = habitsA[habit.id]?.level || 0;
+      const levelB = habitsB[habit.id]?.level || 0;
+      return {
+        habitId: habit.id,
+        habitName: getHabitText(habit.id, locale, customHabits).name,
+        levelA,
+        levelB,
+        labelA: formatHabitAmount(habit.id, habitsA[habit.id], locale, customHabits),
+        labelB: formatHabitAmount(habit.id, habitsB[habit.id], locale, customHabits),
+      };
+    })
+    // Habits entered as quantities can differ within the same level
+    .filter(difference => difference.levelA !== difference.levelB || difference.labelA !== difference.labelB);
+
+  const metersA = calculateHealthModel(habitsA, modelId, locale, demographics, customHabits);
+  const metersB = calculateHealthModel(habitsB, modelId, locale, demographics, customHabits);
+
+  const meters = HEADLINE_METERS
+    .map(key => ({ key, valueA: metersA[key], valueB: metersB[key], delta: metersB[key] - metersA[key] }))
+    .filter(difference => Math.abs(difference.delta) >= MIN_VALUE_DELTA);
+
+  const organs = ORGANS
+    .map(organ => {
+      const valueA = metersA.organHealth[organ.id];
+      const valueB = metersB.organHealth[organ.id];
+      return { key: organ.id, valueA, valueB, delta: valueB - valueA };
+    })
+    .filter(difference => Math.abs(difference.delta) >= MIN_VALUE_DELTA);
+
+  return { habits, meters, organs };
+};
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { analyseSensitivity, getSwingRange } from './sensitivity';
+import { calculateHealthModel, HEADLINE_METERS } from './healthModel';
+import { HEALTH_MODELS } from './models';
+import { getHabits } from './habitCatalog';
+import { validateCustomHabit } from './customHabits';
+import type { HabitLevels } from '../store/useAtlasStore';
+
+const habits: HabitLevels = { smoking: { level: 2 }, exercise: { level: 1 }, sleep_consistency: { level: 3 } };
+
+describe('analyseSensitivity', () => {
+  const analysis = analyseSensitivity(habits);
+
+  it('covers every habit for every meter and organ', () => {
+    HEADLINE_METERS.forEach(meter => expect(analysis.meters[meter]).toHaveLength(getHabits().length));
+    expect(Object.keys(analysis.organs)).toEqual(Object.keys(calculateHealthModel(habits).organHealth));
+  });
+
+  it('moves each habit to its best and worst level', () => {
+    const smoking = analysis.meters.health.find(swing => swing.habitId === 'smoking')!;
+    const exercise = analysis.meters.health.find(swing => swing.habitId === 'exercise')!;
+
+    expect(smoking).toMatchObject({ currentLevel: 2, bestLevel: 0, worstLevel: 3 });
+    expect(exercise).toMatchObject({ currentLevel: 1, bestLevel: 3, worstLevel: 0 });
+    expect(smoking.best).toBeGreaterThan(0);
+    expect(smoking.worst).toBeLessThan(0);
+  });
+
+  it('reports the change the model gives for that level', () => {
+    const lungs = analysis.organs.lungs.find(swing => swing.habitId === 'smoking')!;
+    const quit = calculateHealthModel({ ...habits, smoking: { level: 0 } });
+    expect(lungs.best).toBeCloseTo(quit.organHealth.lungs - calculateHealthModel(habits).organHealth.lungs);
+  });
+
+  it('gives no swing towards a level the habit is already at', () => {
+    const sleep = analysis.meters.health.find(swing => swing.habitId === 'sleep_consistency')!;
+    expect(sleep.best).toBe(0);
+    expect(sleep.worst).toBeLessThan(0);
+  });
+
+  it('sorts the habits by the width of their swing', () => {
+    const ranges = analysis.organs.lungs.map(getSwingRange);
+    expect(ranges).toEqual([...ranges].sort((a, b) => b - a));
+    expect(analysis.organs.lungs[0].habitId).toBe('smoking');
+  });
+
+  it('works with every model', () => {
+    HEALTH_MODELS.forEach(model => {
+      const { meters } = analyseSensitivity(habits, { modelId: model.id });
+      expect(getSwingRange(meters.health[0])).toBeGreaterThan(0);
+    });
+  });
+
+  it('includes the custom habits it is given', () => {
+    const result = validateCustomHabit({
+      id: 'custom_screens_before_bed',
+      name: 'Ecrãs antes de dormir',
+      kind: 'bad',
+      category: 'Sono',
+      intensity: { min: 0, max: 3, labels: ['Nunca', '15 min', '1 hora', '2+ horas'] },
+      mechanisms: [{ organ: 'brain', tags: ['melatonin_suppression'], weight: 0.3 }],
+      effects: { mental_health: { base: -10, curve: 1.2 } },
+    });
+    if (!result.ok) throw new Error(result.errors.join(' '));
+
+    const { organs } = analyseSensitivity(habits, { customHabits: [result.habit] });
+    const screens = organs.brain.find(swing => swing.habitId === 'custom_screens_before_bed')!;
+    expect(organs.brain).toHaveLength(getHabits().length + 1);
+    expect(screens.worst).toBeLessThan(0);
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * SENSITIVITY ANALYSIS
+ *
+ * For the current habits, how far each meter and organ would move if one habit,
+ * and only that one, went to its best level or to its worst level (bad habits:
+ * none / maximum; good habits: maximum / none). Drawn as a tornado chart, the
+ * habits with the widest swing are the levers that matter most for this person.
+ *
+ * The health model is a black box here: only the numbers its calculate function
+ * returns are read, so the analysis works unchanged with any model in ./models,
+ * including the curve model built on calculateExponentialHealth.
+ */
+
+import type { HabitLevels } from '../store/useAtlasStore';
+import { HEADLINE_METERS, HeadlineMeter, ModelMeters } from './healthModel';
+import type { Demographics } from './demographics';
+import { DEFAULT_MODEL_ID, getHealthModel } from './models';
+import { getHabits, HabitDefinition } from './habitCatalog';
+import { getHabitIntensity } from './habitDose';
+
+export interface HabitSwing {
+  habitId: string;
+  currentLevel: number;
+  bestLevel: number;
+  worstLevel: number;
+  best: number; // Change of the meter or organ with the habit at its best level
+  worst: number; // Change with the habit at its worst level
+}
+
+export interface SensitivityAnalysis {
+  meters: Record<HeadlineMeter, HabitSwing[]>; // Widest swing first
+  organs: Record<string, HabitSwing[]>;
+}
+
+export interface SensitivityOptions {
+  modelId?: string;
+  demographics?: Demographics;
+  customHabits?: HabitDefinition[]; // Analysed next to the built-in habits
+}
+
+/**
+ * Width of the tornado bar of a habit
+ */
+export const getSwingRange = (swing: HabitSwing) => Math.abs(swing.best - swing.worst);
+
+const bySwing = (a: HabitSwing, b: HabitSwing) => getSwingRange(b) - getSwingRange(a);
+
+/**
+ * Swing of every meter and organ for every habit, from the current habits
+ */
+export const analyseSensitivity = (habits: HabitLevels, options: SensitivityOptions = {}): SensitivityAnalysis => {
+  const { modelId = DEFAULT_MODEL_ID, demographics, customHabits = [] } = options;
+  // Only the numbers matter here, so skip the recommendations calculateHealthModel adds
+  const model = getHealthModel(modelId);
+  const current = model.calculate(habits, undefined, demographics, customHabits);
+
+  const withLevel = (habitId: string, level: number): ModelMeters =>
+    getHabitIntensity(habits, habitId) === level
+      ? current
+      : model.calculate({ ...habits, [habitId]: { level } }, undefined, demographics, customHabits);
+
+  const outcomes = getHabits(customHabits).map(habit => {
+    const [bestLevel, worstLevel] = habit.kind === 'bad'
+      ? [habit.intensity.min, habit.intensity.max]
+      : [habit.intensity.max, habit.intensity.min];
+
+    return {
+      habitId: habit.id,
+      currentLevel: getHabitIntensity(habits, habit.id),
+      bestLevel,
+      worstLevel,
+      best: withLevel(habit.id, bestLevel),
+      worst: withLevel(habit.id, worstLevel),
+    };
+  });
+
+  const swings = (read: (meters: ModelMeters) => number): HabitSwing[] =>
+    outcomes
+      .map(({ best, worst, ...outcome }) => ({
+        ...outcome,
+        best: read(best) - read(current),
+        worst: read(worst) - read(current),
+      }))
+      .sort(bySwing);
+
+  return {
+    meters: Object.fromEntries(
+      HEADLINE_METERS.map(meter => [meter, swings(meters => meters[meter])])
+    ) as Record<HeadlineMeter, HabitSwing[]>,
+    organs: Object.fromEntries(
+      Object.keys(current.organHealth).map(organId => [organId, swings(meters => meters.organHealth[organId])])
+    ),
+  };
+};
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildShareUrl,
+  decodeHabitProfile,
+  encodeHabitProfile,
+  readShareCode,
+  SHARE_HABIT_ORDER_V1,
+} from './shareLink';
+import type { HabitLevels } from '../store/useAtlasStore';
+import habitsData from '../data/habits.json';
+
+describe('share links', () => {
+  it('covers every habit in the frozen order', () => {
+    expect([...SHARE_HABIT_ORDER_V1].sort()).toEqual(habitsData.habits.map(h => h.id).sort());
+  });
+
+  it('round-trips a profile', () => {
+    const habits: HabitLevels = { smoking: { level: 3 }, exercise: { level: 1 }, hydration: { level: 2 } };
+    expect(decodeHabitProfile(encodeHabitProfile(habits))).toEqual({ ok: true, habits });
+  });
+
+  it('round-trips every habit at its maximum level', () => {
+    const habits: HabitLevels = Object.fromEntries(SHARE_HABIT_ORDER_V1.map(id => [id, { level: 3 }]));
+    expect(decodeHabitProfile(encodeHabitProfile(habits))).toEqual({ ok: true, habits });
+  });
+
+  it('produces a short URL-safe code', () => {
+    const code = encodeHabitProfile({ drugs: { level: 3 } });
+    expect(code).toMatch(/^[A-Za-z0-9_-]{8}$/);
+  });
+
+  it('keeps old links decoding to the same profile', () => {
+    expect(decodeHabitProfile('AQMAAAAA')).toEqual({ ok: true, habits: { smoking: { level: 3 } } });
+  });
+
+  it('rejects damaged codes', () => {
+    expect(decodeHabitProfile('')).toEqual({ ok: false, error: 'invalid' });
+    expect(decodeHabitProfile('not a code!')).toEqual({ ok: false, error: 'invalid' });
+    expect(decodeHabitProfile('AQMA')).toEqual({ ok: false, error: 'invalid' });
+  });
+
+  it('rejects codes from another version', () => {
+    expect(decodeHabitProfile('AgMAAAAA')).toEqual({ ok: false, error: 'unsupported_version' });
+  });
+
+  it('reads the code back from a share URL', () => {
+    const url = buildShareUrl({ alcohol: { level: 2 } }, 'https://example.org/atlas/?lang=pt#old');
+    const { hash, search } = new URL(url);
+
+    expect(search).toBe('?lang=pt');
+    expect(decodeHabitProfile(readShareCode(hash)!)).toEqual({ ok: true, habits: { alcohol: { level: 2 } } });
+    expect(readShareCode('#other=1')).toBeUndefined();
+  });
+});
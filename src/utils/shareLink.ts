@@ -0,0 +1,117 @@
+/**
+ * SHAREABLE PROFILE LINKS
+ *
+ * Encodes a habit profile into a short, versioned code carried in the URL hash
+ * (e.g. https://…/#p=AQAAAAAA). Layout of version 1:
+ *
+ *   byte 0     format version
+ *   bytes 1-5  2 bits per habit (level 0-3), in SHARE_HABIT_ORDER_V1 order
+ *
+ * The bytes are base64url encoded. The habit order is frozen: new habits must go
+ * into a new version so that old links keep decoding to the same profile.
+ *
+ * Only levels fit in the code: a habit entered as a quantity (12 cigarettes a day)
+ * is shared as its nearest level and opens at that level.
+ */
+
+import type { HabitLevels } from '../store/useAtlasStore';
+
+export const SHARE_LINK_VERSION = 1;
+
+export const SHARE_HASH_PARAM = 'p';
+
+// Frozen: never reorder or remove entries
+export const SHARE_HABIT_ORDER_V1: readonly string[] = [
+  'smoking',
+  'alcohol',
+  'drugs',
+  'pornography',
+  'gaming',
+  'sedentary',
+  'processed_diet',
+  'social_isolation',
+  'chronic_stress',
+  'meditation',
+  'reading',
+  'journaling',
+  'exercise',
+  'social_connection',
+  'healthy_diet',
+  'sleep_consistency',
+  'hydration',
+];
+
+const BITS_PER_HABIT = 2;
+const PAYLOAD_BYTES_V1 = Math.ceil((SHARE_HABIT_ORDER_V1.length * BITS_PER_HABIT) / 8);
+
+export type ShareLinkError = 'invalid' | 'unsupported_version';
+
+export type DecodedShareLink =
+  | { ok: true; habits: HabitLevels }
+  | { ok: false; error: ShareLinkError };
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (code: string): Uint8Array | undefined => {
+  if (!/^[A-Za-z0-9_-]+$/.test(code)) return undefined;
+
+  try {
+    const binary = atob(code.replace(/-/g, '+').replace(/_/g, '/'));
+    return Uint8Array.from(binary, char => char.charCodeAt(0));
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Encode habit levels into a share code. Habits outside the frozen order are left out.
+ */
+export const encodeHabitProfile = (habits: HabitLevels): string => {
+  const bytes = new Uint8Array(1 + PAYLOAD_BYTES_V1);
+  bytes[0] = SHARE_LINK_VERSION;
+
+  SHARE_HABIT_ORDER_V1.forEach((habitId, index) => {
+    const level = Math.max(0, Math.min(3, Math.round(habits[habitId]?.level || 0)));
+    const bit = index * BITS_PER_HABIT;
+    bytes[1 + Math.floor(bit / 8)] |= level << (bit % 8);
+  });
+
+  return toBase64Url(bytes);
+};
+
+/**
+ * Decode a share code, reporting why it could not be read instead of throwing
+ */
+export const decodeHabitProfile = (code: string): DecodedShareLink => {
+  const bytes = fromBase64Url(code);
+  if (!bytes || bytes.length === 0) return { ok: false, error: 'invalid' };
+  if (bytes[0] !== SHARE_LINK_VERSION) return { ok: false, error: 'unsupported_version' };
+  if (bytes.length !== 1 + PAYLOAD_BYTES_V1) return { ok: false, error: 'invalid' };
+
+  const habits: HabitLevels = {};
+  SHARE_HABIT_ORDER_V1.forEach((habitId, index) => {
+    const bit = index * BITS_PER_HABIT;
+    const level = (bytes[1 + Math.floor(bit / 8)] >> (bit % 8)) & 0b11;
+    if (level > 0) {
+      habits[habitId] = { level };
+    }
+  });
+
+  return { ok: true, habits };
+};
+
+/**
+ * Build a link to the current page that opens the given profile
+ */
+export const buildShareUrl = (habits: HabitLevels, pageUrl: string): string => {
+  const url = new URL(pageUrl);
+  url.hash = `${SHARE_HASH_PARAM}=${encodeHabitProfile(habits)}`;
+  return url.toString();
+};
+
+/**
+ * Extract the share code from a URL hash, if there is one
+ */
+export const readShareCode = (hash: string): string | undefined =>
+  new URLSearchParams(hash.replace(/^#/, '')).get(SHARE_HASH_PARAM) ?? undefined;
@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createStateFile,
+  parseStateFile,
+  resolveImportedCustomHabits,
+  STATE_FILE_SCHEMA,
+  STATE_FILE_VERSION,
+} from './stateFile';
+import { calculateHealthModel } from './healthModel';
+import type { HabitLevels } from '../store/useAtlasStore';
+import type { HabitDefinition } from './habitCatalog';
+
+const habits: HabitLevels = { smoking: { level: 2 }, exercise: { level: 3 } };
+const accessibility = { reduceMotion: true, highContrast: false };
+
+const exported = createStateFile(
+  { scenarioName: 'Eu atual', selectedHabits: habits, customHabits: [], meters: calculateHealthModel(habits), accessibility },
+  new Date('2026-01-15T10:00:00Z')
+);
+
+const withChanges = (changes: Record<string, unknown>) => JSON.stringify({ ...exported, ...changes });
+
+describe('createStateFile', () => {
+  it('stamps the schema, version and timestamp', () => {
+    expect(exported.schema).toBe(STATE_FILE_SCHEMA);
+    expect(exported.version).toBe(STATE_FILE_VERSION);
+    expect(exported.exportedAt).toBe('2026-01-15T10:00:00.000Z');
+    expect(exported.modelId).toBe('curves');
+  });
+
+  it('archives the computed results', () => {
+    const meters = calculateHealthModel(habits);
+    expect(exported.results.meters.health).toBe(meters.health);
+    expect(exported.results.organHealth).toEqual(meters.organHealth);
+    expect(exported.results.recommendations).toEqual(meters.prioritizedRecommendations);
+  });
+});
+
+describe('parseStateFile', () => {
+  it('round-trips an export', () => {
+    expect(parseStateFile(JSON.stringify(exported))).toEqual({
+      ok: true,
+      state: { scenarioName: 'Eu atual', modelId: 'curves', selectedHabits: habits, customHabits: [], accessibility },
+    });
+  });
+
+  it('rejects files that are not exports', () => {
+    expect(parseStateFile('{not json')).toMatchObject({ ok: false });
+    expect(parseStateFile(JSON.stringify({ hello: 'world' }))).toMatchObject({ ok: false });
+    expect(parseStateFile(withChanges({ version: 99 }))).toEqual({
+      ok: false,
+      errors: ['Versão do ficheiro não suportada: 99.'],
+    });
+  });
+
+  it('rejects unknown habits and out-of-range levels', () => {
+    const result = parseStateFile(withChanges({
+      selectedHabits: { smoking: { level: 4 }, exercise: { level: 1.5 }, skydiving: { level: 1 } },
+    }));
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.errors).toHaveLength(3);
+      expect(result.errors.join(' ')).toContain('skydiving');
+    }
+  });
+
+  it('keeps habit quantities and rejects quantities a habit cannot have', () => {
+    const result = parseStateFile(withChanges({ selectedHabits: { smoking: { level: 3, quantity: 12 } } }));
+    expect(result).toMatchObject({ ok: true, state: { selectedHabits: { smoking: { level: 2, quantity: 12 } } } });
+
+    const invalid = parseStateFile(withChanges({
+      selectedHabits: { smoking: { level: 1, quantity: -2 }, drugs: { level: 1, quantity: 3 } },
+    }));
+    expect(invalid.ok).toBe(false);
+    if (!invalid.ok) expect(invalid.errors).toHaveLength(2);
+  });
+
+  it('brings custom habits along and reports invalid ones', () => {
+    const caffeine = {
+      id: 'custom_caffeine',
+      name: 'Cafeína',
+      kind: 'bad',
+      category: 'Substâncias',
+      intensity: { labels: ['Nunca', '1 café', '3 cafés', '6 cafés'] },
+      mechanisms: [{ organ: 'heart', tags: ['blood_pressure'], weight: 0.15 }],
+    };
+    const result = parseStateFile(withChanges({
+      customHabits: [caffeine],
+      selectedHabits: { custom_caffeine: { level: 2 } },
+    }));
+    expect(result).toMatchObject({
+      ok: true,
+      state: { customHabits: [{ id: 'custom_caffeine', affects: ['heart'] }], selectedHabits: { custom_caffeine: { level: 2 } } },
+    });
+
+    const invalid = parseStateFile(withChanges({ customHabits: [{ ...caffeine, kind: 'neutral' }] }));
+    expect(invalid).toEqual({ ok: false, errors: ['Hábito personalizado 1: O tipo deve ser prejudicial ou benéfico.'] });
+  });
+
+  it('requires valid accessibility settings', () => {
+    expect(parseStateFile(withChanges({ accessibility: { reduceMotion: 'yes' } }))).toMatchObject({ ok: false });
+  });
+});
+
+describe('resolveImportedCustomHabits', () => {
+  const caffeine = {
+    id: 'custom_caffeine',
+    name: 'Cafeína',
+    kind: 'bad',
+    category: 'Substâncias',
+    intensity: { labels: ['Nunca', '1 café', '3 cafés', '6 cafés'] },
+    mechanisms: [{ organ: 'heart', tags: ['blood_pressure'], weight: 0.15 }],
+  };
+  const parsed = parseStateFile(withChanges({
+    customHabits: [caffeine],
+    selectedHabits: { smoking: { level: 1 }, custom_caffeine: { level: 2 } },
+  }));
+  if (!parsed.ok) throw new Error(parsed.errors.join(' '));
+  const imported = parsed.state.customHabits[0];
+
+  it('adds custom habits that are not saved yet', () => {
+    expect(resolveImportedCustomHabits(parsed.state, [])).toEqual(parsed.state);
+  });
+
+  it('does not add a habit that is already saved as it is', () => {
+    const resolved = resolveImportedCustomHabits(parsed.state, [imported]);
+    expect(resolved.customHabits).toEqual([]);
+    expect(resolved.selectedHabits).toEqual(parsed.state.selectedHabits);
+  });
+
+  it('gives a clashing habit a new id instead of replacing the saved one', () => {
+    const saved: HabitDefinition = { ...imported, name: 'Café forte', kind: 'good' };
+    const resolved = resolveImportedCustomHabits(parsed.state, [saved]);
+
+    expect(resolved.customHabits).toEqual([{ ...imported, id: 'custom_cafeina' }]);
+    expect(resolved.selectedHabits).toEqual({ smoking: { level: 1 }, custom_cafeina: { level: 2 } });
+  });
+});
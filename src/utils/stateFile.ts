@@ -0,0 +1,214 @@
+/**
+ * JSON STATE FILES
+ *
+ * Machine-readable export of a session: the habits, the custom habit definitions,
+ * everything computed from them and the accessibility settings, stamped with a
+ * schema version. Importing only trusts the inputs (habits, custom habits, settings,
+ * model); the computed results are archived for reference and recalculated on load.
+ */
+
+import type { AccessibilitySettings, HabitLevels } from '../store/useAtlasStore';
+import { HEADLINE_METERS, HeadlineMeter, Meters, MeterStats, Recommendation } from './healthModel';
+import { getHabitDose, getNearestLevel, isValidQuantity } from './habitDose';
+import { findHabit, HabitDefinition } from './habitCatalog';
+import { createCustomHabitId, validateCustomHabit } from './customHabits';
+import { createTranslator, DEFAULT_LOCALE, Locale } from '../i18n';
+
+export const STATE_FILE_SCHEMA = 'atlas-de-habitos/state';
+export const STATE_FILE_VERSION = 1;
+
+export interface StateFile {
+  schema: typeof STATE_FILE_SCHEMA;
+  version: typeof STATE_FILE_VERSION;
+  exportedAt: string;
+  scenarioName: string;
+  modelId: string;
+  selectedHabits: HabitLevels;
+  customHabits: HabitDefinition[];
+  accessibility: AccessibilitySettings;
+  results: {
+    meters: Record<HeadlineMeter, number>;
+    stats: MeterStats;
+    organHealth: Record<string, number>;
+    recommendations: Recommendation[];
+  };
+}
+
+// What an import is allowed to change
+export interface ImportedState {
+  scenarioName: string;
+  modelId: string;
+  selectedHabits: HabitLevels;
+  customHabits: HabitDefinition[];
+  accessibility: AccessibilitySettings;
+}
+
+export type ParsedStateFile =
+  | { ok: true; state: ImportedState }
+  | { ok: false; errors: string[] };
+
+interface StateFileInput {
+  scenarioName: string;
+  selectedHabits: HabitLevels;
+  customHabits: HabitDefinition[];
+  meters: Meters;
+  accessibility: AccessibilitySettings;
+}
+
+/**
+ * Build the JSON document for the current session
+ */
+export const createStateFile = (input: StateFileInput, exportedAt: Date = new Date()): StateFile => ({
+  schema: STATE_FILE_SCHEMA,
+  version: STATE_FILE_VERSION,
+  exportedAt: exportedAt.toISOString(),
+  scenarioName: input.scenarioName,
+  modelId: input.meters.modelId,
+  selectedHabits: input.selectedHabits,
+  customHabits: input.customHabits,
+  accessibility: input.accessibility,
+  results: {
+    meters: Object.fromEntries(HEADLINE_METERS.map(key => [key, input.meters[key]])) as Record<HeadlineMeter, number>,
+    stats: input.meters.stats,
+    organHealth: input.meters.organHealth,
+    recommendations: input.meters.prioritizedRecommendations,
+  },
+});
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Parse and validate an exported file, collecting every problem found (reported in the given locale)
+ */
+export const parseStateFile = (text: string, locale: Locale = DEFAULT_LOCALE): ParsedStateFile => {
+  const t = createTranslator(locale);
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { ok: false, errors: [t('stateFile.invalidJson')] };
+  }
+
+  if (!isRecord(data) || data.schema !== STATE_FILE_SCHEMA) {
+    return { ok: false, errors: [t('stateFile.notAtlas')] };
+  }
+  if (data.version !== STATE_FILE_VERSION) {
+    return { ok: false, errors: [t('stateFile.unsupportedVersion', { version: String(data.version) })] };
+  }
+
+  const errors: string[] = [];
+
+  if (typeof data.exportedAt !== 'string' || Number.isNaN(Date.parse(data.exportedAt))) {
+    errors.push(t('stateFile.invalidDate'));
+  }
+
+  // Files exported before custom habits existed have none
+  const customHabits: HabitDefinition[] = [];
+  if (data.customHabits !== undefined && !Array.isArray(data.customHabits)) {
+    errors.push(t('stateFile.invalidCustomHabits'));
+  } else {
+    ((data.customHabits as unknown[] | undefined) || []).forEach((entry, index) => {
+      const result = validateCustomHabit(entry, locale);
+      if (result.ok) {
+        customHabits.push(result.habit);
+      } else {
+        errors.push(...result.errors.map(error => t('stateFile.invalidCustomHabit', { index: index + 1, error })));
+      }
+    });
+  }
+  const isKnownHabit = (habitId: string) => findHabit(habitId, customHabits) !== undefined;
+
+  const selectedHabits: HabitLevels = {};
+  if (!isRecord(data.selectedHabits)) {
+    errors.push(t('stateFile.missingHabits'));
+  } else {
+    Object.entries(data.selectedHabits).forEach(([habitId, value]) => {
+      if (!isKnownHabit(habitId)) {
+        errors.push(t('stateFile.unknownHabit', { habitId }));
+        return;
+      }
+      const level = isRecord(value) ? value.level : undefined;
+      if (typeof level !== 'number' || !Number.isInteger(level) || level < 0 || level > 3) {
+        errors.push(t('stateFile.invalidLevel', { habitId, level: String(JSON.stringify(level)) }));
+        return;
+      }
+      const quantity = isRecord(value) ? value.quantity : undefined;
+      if (quantity === undefined) {
+        selectedHabits[habitId] = { level };
+        return;
+      }
+      const dose = getHabitDose(habitId);
+      if (!dose || typeof quantity !== 'number' || !isValidQuantity(quantity)) {
+        errors.push(t('stateFile.invalidQuantity', { habitId, quantity: String(JSON.stringify(quantity)) }));
+        return;
+      }
+      // The level always follows the quantity
+      selectedHabits[habitId] = { level: getNearestLevel(dose, quantity), quantity };
+    });
+  }
+
+  const accessibility = data.accessibility;
+  if (!isRecord(accessibility)
+    || typeof accessibility.reduceMotion !== 'boolean'
+    || typeof accessibility.highContrast !== 'boolean') {
+    errors.push(t('stateFile.invalidAccessibility'));
+  }
+
+  if (typeof data.modelId !== 'string') {
+    errors.push(t('stateFile.missingModel'));
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  return {
+    ok: true,
+    state: {
+      scenarioName: typeof data.scenarioName === 'string' && data.scenarioName.trim() ? data.scenarioName : t('data.importedName'),
+      modelId: data.modelId as string,
+      selectedHabits,
+      customHabits,
+      accessibility: {
+        reduceMotion: (accessibility as AccessibilitySettings).reduceMotion,
+        highContrast: (accessibility as AccessibilitySettings).highContrast,
+      },
+    },
+  };
+};
+
+/**
+ * Fit an imported state next to the saved custom habits without replacing any of them.
+ * Habits already saved as they are are not added again; an imported habit whose id is
+ * taken by a different habit gets a new id, and the imported habits follow it.
+ * Returns the state with only the custom habits still to be added.
+ */
+export const resolveImportedCustomHabits = (state: ImportedState, saved: HabitDefinition[]): ImportedState => {
+  const takenIds = [...saved, ...state.customHabits].map(habit => habit.id);
+  const renamed: Record<string, string> = {};
+  const customHabits: HabitDefinition[] = [];
+
+  state.customHabits.forEach(habit => {
+    const clash = saved.find(existing => existing.id === habit.id);
+    if (!clash) {
+      customHabits.push(habit);
+      return;
+    }
+    // Both were rebuilt field by field by validateCustomHabit, so equal habits serialise alike
+    if (JSON.stringify(clash) === JSON.stringify(habit)) return;
+
+    const id = createCustomHabitId(habit.name, takenIds);
+    takenIds.push(id);
+    renamed[habit.id] = id;
+    customHabits.push({ ...habit, id });
+  });
+
+  return {
+    ...state,
+    customHabits,
+    selectedHabits: Object.fromEntries(
+      Object.entries(state.selectedHabits).map(([habitId, value]) => [renamed[habitId] ?? habitId, value])
+    ),
+  };
+};
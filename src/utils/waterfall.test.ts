@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { buildWaterfall } from './waterfall';
+import { calculateHealthModel } from './healthModel';
+
+describe('buildWaterfall', () => {
+  it('runs from the baseline through each contribution to the final score', () => {
+    const lungs = calculateHealthModel({ smoking: { level: 2 }, exercise: { level: 2 } }).organs.lungs;
+    const steps = buildWaterfall({ baseline: lungs.baseline, contributions: lungs.contributions, final: lungs.health });
+
+    expect(steps[0]).toEqual({ kind: 'baseline', start: 0, end: lungs.baseline });
+    expect(steps.slice(1, -1).map(step => step.contribution)).toEqual(lungs.contributions);
+    steps.slice(1, -1).forEach((step, index) => {
+      expect(step.start).toBe(steps[index].end);
+      expect(step.end - step.start).toBeCloseTo(step.contribution!.impact);
+    });
+    expect(steps[steps.length - 1]).toEqual({ kind: 'final', start: 0, end: lungs.health });
+  });
+
+  it('shows the part of the sum the organ bounds cut off', () => {
+    const heart = calculateHealthModel({ smoking: { level: 3 }, sedentary: { level: 3 }, chronic_stress: { level: 3 }, drugs: { level: 3 } }).organs.heart;
+    const steps = buildWaterfall({ baseline: heart.baseline, contributions: heart.contributions, final: heart.health });
+    const clamp = steps[steps.length - 2];
+
+    expect(clamp.kind).toBe('clamp');
+    expect(clamp.start).toBeLessThan(heart.health);
+    expect(clamp.end).toBe(heart.health);
+  });
+
+  it('lays out a meter breakdown the same way, with its clamping as the cut', () => {
+    const meters = calculateHealthModel({ smoking: { level: 3 }, alcohol: { level: 3 }, sedentary: { level: 3 }, chronic_stress: { level: 3 } });
+    const health = meters.meterBreakdown.health;
+    const steps = buildWaterfall({ baseline: health.baseline, contributions: health.contributions, final: health.value });
+    const clamp = steps.find(step => step.kind === 'clamp')!;
+
+    expect(steps.filter(step => step.kind === 'contribution')).toHaveLength(health.contributions.length);
+    expect(clamp.end - clamp.start).toBeCloseTo(health.clamping);
+    expect(steps[steps.length - 1]).toEqual({ kind: 'final', start: 0, end: health.value });
+  });
+});
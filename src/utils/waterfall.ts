@@ -0,0 +1,48 @@
+/**
+ * WATERFALL
+ *
+ * Explains a score from the breakdown the health model already returns, as the
+ * steps of a waterfall chart: the baseline, every signed contribution (largest
+ * first, as the models sort them), the correction when the bounds cut the sum off,
+ * and the final value. Organ reports and meter breakdowns both have this shape, so
+ * the organ view and the meter explanation draw the same chart.
+ */
+
+export type WaterfallStepKind = 'baseline' | 'contribution' | 'clamp' | 'final';
+
+export interface WaterfallBreakdown<C extends { impact: number }> {
+  baseline: number;
+  contributions: C[];
+  final: number; // After the bounds
+}
+
+export interface WaterfallStep<C> {
+  kind: WaterfallStepKind;
+  start: number; // Running total before the step
+  end: number; // Running total after the step
+  contribution?: C; // Contribution steps only
+}
+
+// Below this, a leftover is floating-point noise rather than a real clamp
+const CLAMP_EPSILON = 1e-9;
+
+/**
+ * Waterfall steps from the baseline to the final value
+ */
+export const buildWaterfall = <C extends { impact: number }>(breakdown: WaterfallBreakdown<C>): WaterfallStep<C>[] => {
+  const steps: WaterfallStep<C>[] = [{ kind: 'baseline', start: 0, end: breakdown.baseline }];
+
+  let total = breakdown.baseline;
+  breakdown.contributions.forEach(contribution => {
+    steps.push({ kind: 'contribution', start: total, end: total + contribution.impact, contribution });
+    total += contribution.impact;
+  });
+
+  // The models clamp each metric and meter, so show how much of the sum that cut off
+  if (Math.abs(total - breakdown.final) > CLAMP_EPSILON) {
+    steps.push({ kind: 'clamp', start: total, end: breakdown.final });
+  }
+  steps.push({ kind: 'final', start: 0, end: breakdown.final });
+
+  return steps;
+};